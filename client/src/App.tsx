@@ -16,13 +16,11 @@ import Shop from "./pages/Shop";
 import Cart from "./pages/Cart";
 import AboutPage from "./pages/About";
 import ContactPage from "./pages/Contact";
-import NewArrivalsPage from "./pages/NewArrivals";
-import CEOCollectionsPage from "./pages/CEOCollections";
+import CollectionPage from "./pages/CollectionPage";
 import OrderConfirmation from "./pages/OrderConfirmation";
 import NotFound from "./pages/NotFound";
 import SSORedirectHandler from "./pages/SSORedirectHandler";
 import SearchResults from "./pages/SearchResults";
-import FeaturedProducts from "./pages/FeaturedProducts";
 import CategoryPage from "./pages/CategoryPage";
 import ProductDetailsPage from "./pages/ProductDetailsPage";
 import Checkout from "./pages/Checkout";
@@ -47,6 +45,11 @@ import AdminProfile from "./admin/AdminProfile";
 import AdminCategoryPanel from "./admin/AdminCategoryPanel";
 import ProductManagementPage from "./admin/ProductManagementPage";
 import EditAnnouncement from "./admin/EditAnnouncement";
+import CouponManager from "./admin/CouponManager";
+import ReviewModeration from "./admin/ReviewModeration";
+import FailedJobs from "./admin/FailedJobs";
+import SearchInsights from "./admin/SearchInsights";
+import CollectionManager from "./admin/CollectionManager";
 import EditProduct from "./components/EditProduct";
 import SpeedLoader from "./components/SpeedLoader";
 function App() {
@@ -73,13 +76,15 @@ function App() {
       <Route path="/cart" element={<Layout><Cart /></Layout>} />
       <Route path="/order-confirmation" element={<Layout><OrderConfirmation /></Layout>} />
       <Route path="/search" element={<Layout><SearchResults /></Layout>} />
-      <Route path="/featured" element={<Layout><FeaturedProducts /></Layout>} />
-      <Route path="/fabrics/:category" element={<Layout><CategoryPage /></Layout>} />
+      <Route path="/collections/:slug" element={<Layout><CollectionPage /></Layout>} />
+      <Route path="/fabrics/:slug" element={<Layout><CategoryPage /></Layout>} />
       <Route path="/checkout" element={<Layout><Checkout /></Layout>} />
       <Route path="/about" element={<AboutPage />} />
       <Route path="/contact" element={<Layout><ContactPage /></Layout>} />
-      <Route path="/new-arrivals" element={<Layout><NewArrivalsPage /></Layout>} />
-      <Route path="/ceo-collections" element={<Layout><CEOCollectionsPage /></Layout>} />
+      {/* Old collection addresses */}
+      <Route path="/featured" element={<Navigate to="/collections/featured" replace />} />
+      <Route path="/new-arrivals" element={<Navigate to="/collections/new-arrivals" replace />} />
+      <Route path="/ceo-collections" element={<Navigate to="/collections/ceo-collections" replace />} />
       <Route path="/product/:name" element={<Layout><ProductDetailsPage key={location.pathname} /></Layout>} />
       <Route path="/login" element={<Layout><Login /></Layout>} />
       <Route path="/register" element={<Layout><Register /></Layout>} />
@@ -114,6 +119,11 @@ function App() {
         <Route path="carousel" element={<CarouselManager />} />
         <Route path="circle" element={<AdminCategoryPanel />} />
         <Route path="orders" element={<OrdersDashboard />} />
+        <Route path="coupons" element={<CouponManager />} />
+        <Route path="reviews" element={<ReviewModeration />} />
+        <Route path="jobs" element={<FailedJobs />} />
+        <Route path="search" element={<SearchInsights />} />
+        <Route path="collections" element={<CollectionManager />} />
         <Route path="profile" element={<AdminProfile />} />
       </Route>
 
@@ -1,37 +1,37 @@
-import React, { useState, useContext } from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ProductContext } from '../context/ProductContext';
+import type { ProductOption, ProductVariant } from '../utils/catalogue';
+import { useReloadProducts } from '../hooks/useCatalogue';
 import { uploadImageToCloudinary } from '../components/cloudinary';
+import { cleanOptions } from '../utils/variants';
+import VariantEditor from '../components/VariantEditor';
+import ShippingFields from '../components/ShippingFields';
+import CategorySelect from '../components/CategorySelect';
+import { emptyShippingFields, shippingFieldsToPayload } from '../utils/shipping';
 import toast from 'react-hot-toast';
 
 const API_URL = import.meta.env.VITE_API_URL;
 
-const categoryOptions = [
-  'Cotton',
-  'Silk',
-  'Crape',
-  'Kota',
-  'Georgette',
-  'Tusser',
-  'Handlooms',
-  'new-arrivals',
-  'ceo-collections',
-];
-
 const AddProduct: React.FC = () => {
-  const { setProducts } = useContext(ProductContext);
+  const reloadProducts = useReloadProducts();
   const navigate = useNavigate();
 
   const [name, setName] = useState('');
   const [price, setPrice] = useState('');
   const [stock, setStock] = useState('');
-  const [category, setCategory] = useState('');
+  const [categoryId, setCategoryId] = useState('');
   const [featured, setFeatured] = useState(false);
   const [description, setDescription] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [extraImageFiles, setExtraImageFiles] = useState<File[]>([]);
   const [extraImagesPreview, setExtraImagesPreview] = useState<string[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [options, setOptions] = useState<ProductOption[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [shipping, setShipping] = useState(emptyShippingFields);
+  const [hsnCode, setHsnCode] = useState('');
+  const [tags, setTags] = useState('');
+  const hasVariants = variants.length > 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,7 +43,7 @@ const AddProduct: React.FC = () => {
         toast.error('Please upload an image');
         return;
       }
-      if (!category) {
+      if (!categoryId) {
         toast.error('Please select a category');
         return;
       }
@@ -62,13 +62,18 @@ const AddProduct: React.FC = () => {
 
       const productData = {
         name,
-        price: Number(price),
-        stock: Number(stock),
+        price: Number(price) || 0,
+        stock: Number(stock) || 0,
         featured,
-        category,
+        categoryId,
         description,
         image: imageUrl,
         extraImages: extraImageUrls,
+        options: hasVariants ? cleanOptions(options) : [],
+        variants,
+        ...shippingFieldsToPayload(shipping),
+        hsnCode: hsnCode.trim(),
+        tags,
       };
 
       const res = await fetch(`${API_URL}/api/products`, {
@@ -77,10 +82,11 @@ const AddProduct: React.FC = () => {
         body: JSON.stringify(productData),
       });
 
-      if (!res.ok) throw new Error('Add failed');
-      const savedProduct = await res.json();
-
-      setProducts((prev: any) => [...prev, savedProduct]);
+      if (!res.ok) {
+        const { message } = await res.json().catch(() => ({}));
+        throw new Error(message || 'Add failed');
+      }
+      reloadProducts();
       toast.success('Product added!');
       resetForm();
 
@@ -89,7 +95,7 @@ const AddProduct: React.FC = () => {
       }, 1000);
     } catch (err) {
       console.error(err);
-      toast.error('Something went wrong. Please try again.');
+      toast.error(err instanceof Error && err.message !== 'Add failed' ? err.message : 'Something went wrong. Please try again.');
     } finally {
       setUploading(false);
     }
@@ -100,11 +106,15 @@ const AddProduct: React.FC = () => {
     setPrice('');
     setStock('');
     setFeatured(false);
-    setCategory('');
+    setCategoryId('');
     setDescription('');
     setImageFile(null);
     setExtraImageFiles([]);
     setExtraImagesPreview([]);
+    setOptions([]);
+    setVariants([]);
+    setShipping(emptyShippingFields);
+    setHsnCode('');
   };
 
   const handleRemoveExtraImage = (index: number) => {
@@ -150,9 +160,10 @@ const AddProduct: React.FC = () => {
               type="number"
               value={price}
               onChange={(e) => setPrice(e.target.value)}
-              required
-              className="w-full border border-gray-300 rounded px-3 py-2"
-              placeholder="e.g. 1299"
+              required={!hasVariants}
+              disabled={hasVariants}
+              className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
+              placeholder={hasVariants ? 'Set per variant' : 'e.g. 1299'}
             />
           </div>
           <div>
@@ -161,26 +172,33 @@ const AddProduct: React.FC = () => {
               type="number"
               value={stock}
               onChange={(e) => setStock(e.target.value)}
-              required
+              required={!hasVariants}
+              disabled={hasVariants}
+              className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
+              placeholder={hasVariants ? 'Set per variant' : 'e.g. 10'}
+            />
+          </div>
+          <CategorySelect value={categoryId} onChange={setCategoryId} />
+          <div>
+            <label className="block font-medium mb-1">HSN Code</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={hsnCode}
+              onChange={(e) => setHsnCode(e.target.value)}
               className="w-full border border-gray-300 rounded px-3 py-2"
-              placeholder="e.g. 10"
+              placeholder="e.g. 5007 (printed on tax invoices)"
             />
           </div>
           <div>
-            <label className="block font-medium mb-1">Category</label>
-            <select
-              value={category}
-              onChange={(e) => setCategory(e.target.value)}
-              required
-              className="w-full border border-gray-300 rounded px-3 py-2 bg-white"
-            >
-              <option value="">Select a category</option>
-              {categoryOptions.map((cat) => (
-                <option key={cat} value={cat}>
-                  {cat}
-                </option>
-              ))}
-            </select>
+            <label className="block font-medium mb-1">Tags</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+              placeholder="e.g. bridal, festive (comma-separated, used by collections)"
+            />
           </div>
         </div>
 
@@ -196,6 +214,17 @@ const AddProduct: React.FC = () => {
           />
         </div>
 
+        <VariantEditor
+          options={options}
+          variants={variants}
+          onOptionsChange={setOptions}
+          onVariantsChange={setVariants}
+          basePrice={Number(price)}
+          skuPrefix={name}
+        />
+
+        <ShippingFields values={shipping} onChange={setShipping} />
+
         <div className="flex items-center gap-2">
           <input
             type="checkbox"
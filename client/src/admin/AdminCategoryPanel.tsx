@@ -1,46 +1,103 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useState, useRef } from 'react';
 import Papa from 'papaparse';
 import toast from 'react-hot-toast';
 import { motion, AnimatePresence } from 'framer-motion';
-import Cropper from 'react-easy-crop';
+import Cropper, { type Area } from 'react-easy-crop';
+import { Eye, EyeOff, GripVertical } from 'lucide-react';
 import getCroppedImg from '../utils/cropImage';
-
-const CLOUDINARY_UPLOAD_URL = `https://api.cloudinary.com/v1_1/${import.meta.env.VITE_CLOUDINARY_CLOUD_NAME}/image/upload`;
-const CLOUDINARY_UPLOAD_PRESET = import.meta.env.VITE_CLOUDINARY_UPLOAD_PRESET;
-const API_BASE = import.meta.env.VITE_API_URL;
-
-type Category = {
-  _id?: string;
+import { uploadImageToCloudinary } from '../components/cloudinary';
+import { useAdminCategories, useReloadCategories } from '../hooks/useCategories';
+import {
+  categoryErrorMessage,
+  deleteCategory,
+  moveCategories,
+  placeCategory,
+  saveCategory,
+  type Category,
+} from '../utils/categories';
+
+type CategoryForm = {
   name: string;
+  slug: string;
+  parent: string;
+  description: string;
+  visible: boolean;
   image: string;
+  bannerImage: string;
+};
+
+// Where a dragged category lands relative to the row it is dropped on
+type DropPosition = 'before' | 'inside' | 'after';
+
+const emptyForm: CategoryForm = {
+  name: '',
+  slug: '',
+  parent: '',
+  description: '',
+  visible: true,
+  image: '',
+  bannerImage: '',
+};
+
+// The top and bottom quarter of a row place the category beside it; the middle, inside it
+const dropPositionAt = (e: React.DragEvent<HTMLElement>): DropPosition => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
 };
 
 const AdminCategoryPanel = () => {
-  const [name, setName] = useState('');
+  const { categories, loading } = useAdminCategories();
+  const reloadCategories = useReloadCategories();
+  const [form, setForm] = useState<CategoryForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [bannerFile, setBannerFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string | null; position: DropPosition } | null>(null);
+
   const [cropModalOpen, setCropModalOpen] = useState(false);
   const [crop, setCrop] = useState({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
-  const [croppedAreaPixels, setCroppedAreaPixels] = useState(null);
+  const [croppedAreaPixels, setCroppedAreaPixels] = useState<Area | null>(null);
   const [rawImage, setRawImage] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchCategories();
-  }, []);
+  const editing = categories.find((cat) => cat._id === editingId);
 
-  const fetchCategories = async () => {
-    try {
-      const res = await fetch(`${API_BASE}/api/categories`);
-      const data = await res.json();
-      setCategories(data);
-    } catch (err) {
-      console.error('Failed to fetch categories:', err);
-    }
+  // A category cannot become its own parent or the parent of one of its ancestors
+  const parentOptions = categories.filter(
+    (cat) => !editingId || placeCategory(categories, editingId, cat._id, 0) !== null
+  );
+
+  const updateForm = (fields: Partial<CategoryForm>) => setForm((prev) => ({ ...prev, ...fields }));
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setImageFile(null);
+    setPreviewUrl(null);
+    setBannerFile(null);
+  };
+
+  const startEditing = (cat: Category) => {
+    setEditingId(cat._id);
+    setForm({
+      name: cat.name,
+      slug: cat.slug,
+      parent: cat.parent ?? '',
+      description: cat.description ?? '',
+      visible: cat.visible,
+      image: cat.image ?? '',
+      bannerImage: cat.bannerImage ?? '',
+    });
+    setImageFile(null);
+    setPreviewUrl(cat.image ?? null);
+    setBannerFile(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -53,46 +110,39 @@ const AdminCategoryPanel = () => {
     }
   };
 
-  const handleUpload = async () => {
-    if (!name || !imageFile) {
-      toast.error('Category name and image are required.');
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Category name is required.');
       return;
     }
 
-    setUploading(true);
+    setSaving(true);
 
     try {
-      const formData = new FormData();
-      formData.append('file', imageFile);
-      formData.append('upload_preset', CLOUDINARY_UPLOAD_PRESET);
-
-      const cloudinaryRes = await fetch(CLOUDINARY_UPLOAD_URL, {
-        method: 'POST',
-        body: formData,
-      });
-
-      const cloudinaryData = await cloudinaryRes.json();
-      const imageUrl = cloudinaryData.secure_url;
-      if (!imageUrl) throw new Error('Image upload failed');
-
-      const mongoRes = await fetch(`${API_BASE}/api/categories`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, image: imageUrl }),
-      });
-
-      if (!mongoRes.ok) throw new Error('Failed to save category');
-
-      await fetchCategories();
-      toast.success('Category added!');
-      setName('');
-      setImageFile(null);
-      setPreviewUrl(null);
+      const image = imageFile ? await uploadImageToCloudinary(imageFile) : form.image;
+      const bannerImage = bannerFile ? await uploadImageToCloudinary(bannerFile) : form.bannerImage;
+
+      await saveCategory(
+        {
+          name: form.name.trim(),
+          slug: form.slug.trim() || undefined,
+          parent: form.parent || null,
+          description: form.description.trim(),
+          visible: form.visible,
+          image,
+          bannerImage,
+        },
+        editingId ?? undefined
+      );
+
+      await reloadCategories();
+      toast.success(editingId ? 'Category updated' : 'Category added!');
+      resetForm();
     } catch (err) {
       console.error(err);
-      toast.error('Upload failed');
+      toast.error(categoryErrorMessage(err, 'Failed to save category'));
     } finally {
-      setUploading(false);
+      setSaving(false);
     }
   };
 
@@ -100,17 +150,56 @@ const AdminCategoryPanel = () => {
     if (!confirm('Are you sure you want to delete this category?')) return;
 
     try {
-      const res = await fetch(`${API_BASE}/api/categories/${id}`, {
-        method: 'DELETE',
-      });
+      await deleteCategory(id);
+      await reloadCategories();
+      if (editingId === id) resetForm();
+      toast.success('Category deleted');
+    } catch (err) {
+      console.error(err);
+      toast.error(categoryErrorMessage(err, 'Error deleting category'));
+    }
+  };
 
-      if (!res.ok) throw new Error('Delete failed');
+  const handleToggleVisible = async (cat: Category) => {
+    try {
+      await saveCategory({ visible: !cat.visible }, cat._id);
+      await reloadCategories();
+    } catch (err) {
+      console.error(err);
+      toast.error(categoryErrorMessage(err, 'Failed to update category'));
+    }
+  };
 
-      await fetchCategories();
-      toast.success('Category deleted');
+  // Drops `dragId` beside or inside the target row, or at the end of the top level (id null)
+  const handleTreeDrop = async (targetId: string | null, position: DropPosition) => {
+    const movingId = dragId;
+    setDragId(null);
+    setDropTarget(null);
+    if (!movingId || movingId === targetId) return;
+
+    const target = categories.find((cat) => cat._id === targetId);
+    let parent: string | null = null;
+    let index = Number.MAX_SAFE_INTEGER;
+    if (target && position === 'inside') {
+      parent = target._id;
+    } else if (target) {
+      parent = target.parent;
+      const siblings = categories.filter((cat) => cat.parent === parent && cat._id !== movingId);
+      index = siblings.findIndex((cat) => cat._id === target._id) + (position === 'after' ? 1 : 0);
+    }
+
+    const placements = placeCategory(categories, movingId, parent, index);
+    if (!placements) {
+      toast.error('A category cannot be moved inside itself.');
+      return;
+    }
+
+    try {
+      await moveCategories(placements);
+      await reloadCategories();
     } catch (err) {
       console.error(err);
-      toast.error('Error deleting category');
+      toast.error(categoryErrorMessage(err, 'Failed to move category'));
     }
   };
 
@@ -122,25 +211,32 @@ const AdminCategoryPanel = () => {
       header: true,
       skipEmptyLines: true,
       complete: async function (results) {
-        const parsed = results.data as Category[];
+        // Columns: name, image, and optionally parent (a category name), description
+        const parsed = results.data as { name?: string; image?: string; parent?: string; description?: string }[];
         let successCount = 0;
         let errorCount = 0;
 
-        for (const cat of parsed) {
-          if (!cat.name || !cat.image) {
+        for (const row of parsed) {
+          if (!row.name) {
+            errorCount++;
+            continue;
+          }
+
+          const parent = row.parent
+            ? categories.find((cat) => cat.name.toLowerCase() === row.parent!.trim().toLowerCase())
+            : undefined;
+          if (row.parent && !parent) {
             errorCount++;
             continue;
           }
 
           try {
-            const res = await fetch(`${API_BASE}/api/categories`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(cat),
+            await saveCategory({
+              name: row.name,
+              image: row.image,
+              description: row.description,
+              parent: parent?._id ?? null,
             });
-
-            if (!res.ok) throw new Error('Failed to add');
-
             successCount++;
           } catch (err) {
             console.error(err);
@@ -149,7 +245,7 @@ const AdminCategoryPanel = () => {
         }
 
         toast.success(`${successCount} categories added, ${errorCount} failed`);
-        await fetchCategories();
+        await reloadCategories();
         if (fileInputRef.current) fileInputRef.current.value = '';
       },
     });
@@ -161,10 +257,55 @@ const AdminCategoryPanel = () => {
         <h2 className="text-2xl md:text-3xl font-bold">Manage Categories</h2>
 
         <div className="space-y-4">
-          <input
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="Category name"
+          <h3 className="text-lg font-semibold">{editing ? `Edit ${editing.name}` : 'Add Category'}</h3>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <input
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="Category name"
+              className="w-full p-2 border rounded"
+            />
+            <input
+              value={form.slug}
+              onChange={(e) => updateForm({ slug: e.target.value })}
+              placeholder="URL slug (generated from the name if blank)"
+              className="w-full p-2 border rounded"
+            />
+            <select
+              value={form.parent}
+              onChange={(e) => updateForm({ parent: e.target.value })}
+              className="w-full p-2 border rounded bg-white"
+            >
+              <option value="">No parent (top level)</option>
+              {parentOptions.map((cat) => (
+                <option key={cat._id} value={cat._id}>
+                  {'  '.repeat(cat.depth)}
+                  {cat.name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.visible}
+                onChange={(e) => updateForm({ visible: e.target.checked })}
+              />
+              Visible in the store
+            </label>
+          </div>
+
+          {editing && editing.slug !== form.slug.trim() && form.slug.trim() && (
+            <p className="text-xs text-gray-500">
+              Links to /fabrics/{editing.slug} will keep working after the slug changes.
+            </p>
+          )}
+
+          <textarea
+            value={form.description}
+            onChange={(e) => updateForm({ description: e.target.value })}
+            placeholder="Description (shown on the category page and to search engines)"
+            rows={3}
             className="w-full p-2 border rounded"
           />
 
@@ -192,19 +333,39 @@ const AdminCategoryPanel = () => {
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
                 >
-                  Drag & drop image here
+                  Drag & drop thumbnail image here
                 </motion.span>
               )}
             </AnimatePresence>
           </div>
 
-          <button
-            onClick={handleUpload}
-            className="w-full bg-black text-white py-2 rounded hover:bg-gray-800"
-            disabled={uploading}
-          >
-            {uploading ? 'Uploading...' : 'Add Category'}
-          </button>
+          <div>
+            <label className="block text-sm font-medium mb-1">Banner image (top of the category page)</label>
+            {form.bannerImage && !bannerFile && (
+              <img src={form.bannerImage} alt="banner" className="w-full max-h-32 object-cover rounded mb-2" />
+            )}
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setBannerFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-500"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="flex-1 bg-black text-white py-2 rounded hover:bg-gray-800"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : editing ? 'Save Changes' : 'Add Category'}
+            </button>
+            {editing && (
+              <button onClick={resetForm} className="px-4 py-2 bg-gray-200 rounded">
+                Cancel
+              </button>
+            )}
+          </div>
         </div>
 
         <div className="space-y-2">
@@ -220,40 +381,93 @@ const AdminCategoryPanel = () => {
 
         <div className="space-y-3">
           <h3 className="text-xl font-semibold">Existing Categories</h3>
-          <ul className="space-y-4">
-            {categories.map((cat) => (
-              <li
-                key={cat._id}
-                className="flex items-center justify-between bg-gray-100 p-3 rounded shadow-sm"
-              >
-                <div className="flex items-center gap-4">
-                  <img
-                    src={cat.image}
-                    alt={cat.name}
-                    className="w-16 h-16 rounded-full object-cover border"
-                  />
-                  <span className="text-lg font-medium">{cat.name}</span>
-                </div>
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => {
-                      setRawImage(cat.image);
-                      setCropModalOpen(true);
-                    }}
-                    className="text-blue-600 hover:underline"
-                  >
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => handleDelete(cat._id!)}
-                    className="text-red-600 hover:underline"
-                  >
-                    Delete
-                  </button>
-                </div>
-              </li>
-            ))}
-          </ul>
+          <p className="text-sm text-gray-500">
+            Drag a category onto the top or bottom edge of another to reorder, or onto its middle to nest it.
+          </p>
+          {loading ? (
+            <p className="text-gray-500">Loading categories...</p>
+          ) : (
+            <ul className="space-y-2">
+              {categories.map((cat) => (
+                <li
+                  key={cat._id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragId(cat._id);
+                  }}
+                  onDragEnd={() => {
+                    setDragId(null);
+                    setDropTarget(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (!dragId) return;
+                    e.preventDefault();
+                    setDropTarget({ id: cat._id, position: dropPositionAt(e) });
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleTreeDrop(cat._id, dropPositionAt(e));
+                  }}
+                  style={{ marginLeft: `${cat.depth * 1.5}rem` }}
+                  className={`flex items-center justify-between bg-gray-100 p-3 rounded shadow-sm border-2 ${
+                    dropTarget?.id === cat._id
+                      ? dropTarget.position === 'inside'
+                        ? 'border-blue-400 bg-blue-50'
+                        : dropTarget.position === 'before'
+                        ? 'border-transparent border-t-blue-500'
+                        : 'border-transparent border-b-blue-500'
+                      : 'border-transparent'
+                  } ${dragId === cat._id ? 'opacity-50' : ''} ${cat.visible ? '' : 'text-gray-400'}`}
+                >
+                  <div className="flex items-center gap-4">
+                    <GripVertical className="w-4 h-4 text-gray-400 cursor-grab" />
+                    {cat.image ? (
+                      <img src={cat.image} alt={cat.name} className="w-12 h-12 rounded-full object-cover border" />
+                    ) : (
+                      <div className="w-12 h-12 rounded-full bg-gray-200 border" />
+                    )}
+                    <div>
+                      <span className="text-lg font-medium">{cat.name}</span>
+                      <p className="text-xs text-gray-500">/fabrics/{cat.slug}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => handleToggleVisible(cat)}
+                      title={cat.visible ? 'Hide from the store' : 'Show in the store'}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      {cat.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => startEditing(cat)} className="text-blue-600 hover:underline">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(cat._id)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+              {dragId && (
+                <li
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropTarget({ id: null, position: 'after' });
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleTreeDrop(null, 'after');
+                  }}
+                  className={`p-3 rounded border-2 border-dashed text-center text-sm text-gray-500 ${
+                    dropTarget && dropTarget.id === null ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+                  }`}
+                >
+                  Drop here to move to the end of the top level
+                </li>
+              )}
+            </ul>
+          )}
         </div>
       </div>
 
@@ -295,7 +509,8 @@ const AdminCategoryPanel = () => {
                   </button>
                   <button
                     onClick={async () => {
-                      const croppedFile = await getCroppedImg(rawImage!, croppedAreaPixels);
+                      if (!croppedAreaPixels) return;
+                      const croppedFile = await getCroppedImg(rawImage, croppedAreaPixels);
                       setImageFile(croppedFile);
                       setPreviewUrl(URL.createObjectURL(croppedFile));
                       setCropModalOpen(false);
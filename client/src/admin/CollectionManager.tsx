@@ -0,0 +1,608 @@
+import React, { useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Link } from "react-router-dom";
+import { ArrowDown, ArrowUp, ExternalLink, Loader, Pencil, Trash2, X } from "lucide-react";
+import { useAllProducts } from "../hooks/useCatalogue";
+import { useAdminCategories } from "../hooks/useCategories";
+import { useAdminCollections, useReloadCollections } from "../hooks/useCollections";
+import {
+  COLLECTION_SORTS,
+  collectionPath,
+  deleteCollection,
+  previewCollection,
+  saveCollection,
+  setCollectionActive,
+  type Collection,
+  type CollectionInput,
+  type CollectionPreview,
+  type CollectionSort,
+} from "../utils/collections";
+
+// Number and date inputs are kept as strings so they can be left blank (= no limit)
+const emptyForm = {
+  name: "",
+  slug: "",
+  description: "",
+  bannerImage: "",
+  mode: "rules" as Collection["mode"],
+  products: [] as string[],
+  categories: [] as string[],
+  tags: "",
+  minPrice: "",
+  maxPrice: "",
+  createdWithinDays: "",
+  inStockOnly: false,
+  featuredOnly: false,
+  sort: "newest" as CollectionSort,
+  startsAt: "",
+  endsAt: "",
+  isActive: true,
+};
+
+type CollectionForm = typeof emptyForm;
+
+const toNumberInput = (value?: number) => (value === undefined || value === null ? "" : String(value));
+const toOptionalNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+// datetime-local inputs work in local time without a zone; the server stores UTC
+const toDateTimeInput = (date?: string) => {
+  if (!date) return "";
+  const local = new Date(date);
+  return new Date(local.getTime() - local.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : "");
+
+const toPayload = (form: CollectionForm): CollectionInput => ({
+  name: form.name,
+  slug: form.slug,
+  description: form.description,
+  bannerImage: form.bannerImage,
+  mode: form.mode,
+  products: form.products,
+  rules: {
+    categories: form.categories,
+    tags: form.tags.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean),
+    minPrice: toOptionalNumber(form.minPrice),
+    maxPrice: toOptionalNumber(form.maxPrice),
+    createdWithinDays: toOptionalNumber(form.createdWithinDays),
+    inStockOnly: form.inStockOnly,
+    featuredOnly: form.featuredOnly,
+  },
+  sort: form.sort,
+  startsAt: fromDateTimeInput(form.startsAt),
+  endsAt: fromDateTimeInput(form.endsAt),
+  isActive: form.isActive,
+});
+
+const describeSchedule = (collection: Collection) => {
+  if (!collection.startsAt && !collection.endsAt) return "Always";
+  const format = (date?: string) => (date ? new Date(date).toLocaleString() : "—");
+  return `${format(collection.startsAt)} → ${format(collection.endsAt)}`;
+};
+
+const saveErrorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) && err.response?.data?.message) || fallback;
+
+const CollectionManager = () => {
+  const { products } = useAllProducts();
+  const { categories } = useAdminCategories();
+  const { collections, loading } = useAdminCollections();
+  const reloadCollections = useReloadCollections();
+  const [form, setForm] = useState<CollectionForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [productSearch, setProductSearch] = useState("");
+  const [preview, setPreview] = useState<CollectionPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const productsById = new Map(products.map((product) => [product._id, product]));
+  const matchingProducts = productSearch.trim()
+    ? products
+        .filter(
+          (product) =>
+            !form.products.includes(product._id) &&
+            product.name.toLowerCase().includes(productSearch.trim().toLowerCase())
+        )
+        .slice(0, 20)
+    : [];
+
+  const updateForm = (changes: Partial<CollectionForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    // Any change makes the last preview stale
+    setPreview(null);
+  };
+
+  // Only hand-picked collections can keep their own order
+  const changeMode = (mode: Collection["mode"]) =>
+    updateForm({ mode, sort: mode === "manual" ? "manual" : form.sort === "manual" ? "newest" : form.sort });
+
+  const toggleCategory = (id: string) =>
+    updateForm({
+      categories: form.categories.includes(id) ? form.categories.filter((c) => c !== id) : [...form.categories, id],
+    });
+
+  const moveProduct = (index: number, offset: number) => {
+    const next = [...form.products];
+    const [id] = next.splice(index, 1);
+    next.splice(index + offset, 0, id);
+    updateForm({ products: next });
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setPreview(null);
+  };
+
+  const startEdit = (collection: Collection) => {
+    setEditingId(collection._id);
+    setForm({
+      name: collection.name,
+      slug: collection.slug,
+      description: collection.description || "",
+      bannerImage: collection.bannerImage || "",
+      mode: collection.mode,
+      products: collection.products || [],
+      categories: collection.rules?.categories || [],
+      tags: (collection.rules?.tags || []).join(", "),
+      minPrice: toNumberInput(collection.rules?.minPrice),
+      maxPrice: toNumberInput(collection.rules?.maxPrice),
+      createdWithinDays: toNumberInput(collection.rules?.createdWithinDays),
+      inStockOnly: !!collection.rules?.inStockOnly,
+      featuredOnly: !!collection.rules?.featuredOnly,
+      sort: collection.sort,
+      startsAt: toDateTimeInput(collection.startsAt),
+      endsAt: toDateTimeInput(collection.endsAt),
+      isActive: collection.isActive,
+    });
+    setPreview(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await previewCollection(toPayload(form)));
+    } catch (err) {
+      toast.error(saveErrorMessage(err, "Failed to preview collection"));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveCollection(toPayload(form), editingId ?? undefined);
+      toast.success(editingId ? "Collection updated" : "Collection created");
+      resetForm();
+      reloadCollections();
+    } catch (err) {
+      toast.error(saveErrorMessage(err, "Failed to save collection"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (collection: Collection) => {
+    try {
+      await setCollectionActive(collection._id, !collection.isActive);
+      reloadCollections();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update collection");
+    }
+  };
+
+  const handleDelete = async (collection: Collection) => {
+    if (!confirm(`Delete collection ${collection.name}?`)) return;
+    try {
+      await deleteCollection(collection._id);
+      toast.success("Collection deleted");
+      if (editingId === collection._id) resetForm();
+      reloadCollections();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete collection");
+    }
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded px-3 py-2";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow p-6 space-y-4">
+        <h2 className="text-2xl font-bold">{editingId ? "Edit Collection" : "Create Collection"}</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              className={inputClass}
+              placeholder="Wedding Season"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">URL</label>
+            <input
+              type="text"
+              value={form.slug}
+              onChange={(e) => updateForm({ slug: e.target.value })}
+              className={inputClass}
+              placeholder="Made from the name if left blank"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Description</label>
+          <textarea
+            value={form.description}
+            onChange={(e) => updateForm({ description: e.target.value })}
+            className={inputClass}
+            rows={2}
+            placeholder="Shown at the top of the collection page"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Banner image URL</label>
+          <input
+            type="url"
+            value={form.bannerImage}
+            onChange={(e) => updateForm({ bannerImage: e.target.value })}
+            className={inputClass}
+            placeholder="https://..."
+          />
+        </div>
+
+        <div className="flex gap-6 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={form.mode === "rules"} onChange={() => changeMode("rules")} />
+            Products matching rules
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={form.mode === "manual"} onChange={() => changeMode("manual")} />
+            Hand-picked products
+          </label>
+        </div>
+
+        {form.mode === "rules" ? (
+          <div className="space-y-4 border border-gray-200 rounded p-4">
+            <div>
+              <p className="text-sm font-medium mb-1">Categories (with their subcategories)</p>
+              <div className="border border-gray-200 rounded p-3 max-h-40 overflow-y-auto space-y-1">
+                {categories.map((category) => (
+                  <label
+                    key={category._id}
+                    className="flex items-center gap-2 text-sm"
+                    style={{ paddingLeft: `${category.depth * 16}px` }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.categories.includes(category._id)}
+                      onChange={() => toggleCategory(category._id)}
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium mb-1">Tags (any of)</label>
+                <input
+                  type="text"
+                  value={form.tags}
+                  onChange={(e) => updateForm({ tags: e.target.value })}
+                  className={inputClass}
+                  placeholder="bridal, festive"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Min price (₹)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.minPrice}
+                  onChange={(e) => updateForm({ minPrice: e.target.value })}
+                  className={inputClass}
+                  placeholder="No minimum"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Max price (₹)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.maxPrice}
+                  onChange={(e) => updateForm({ maxPrice: e.target.value })}
+                  className={inputClass}
+                  placeholder="No maximum"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Added in the last (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.createdWithinDays}
+                  onChange={(e) => updateForm({ createdWithinDays: e.target.value })}
+                  className={inputClass}
+                  placeholder="Any time"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm md:mt-6">
+                <input
+                  type="checkbox"
+                  checked={form.inStockOnly}
+                  onChange={(e) => updateForm({ inStockOnly: e.target.checked })}
+                />
+                In stock only
+              </label>
+              <label className="flex items-center gap-2 text-sm md:mt-6">
+                <input
+                  type="checkbox"
+                  checked={form.featuredOnly}
+                  onChange={(e) => updateForm({ featuredOnly: e.target.checked })}
+                />
+                Featured products only
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              Products must match every rule that is set. Leave everything blank to include the whole catalogue.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 border border-gray-200 rounded p-4">
+            <div className="relative">
+              <input
+                type="search"
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                className={inputClass}
+                placeholder="Search products to add..."
+              />
+              {matchingProducts.length > 0 && (
+                <ul className="absolute z-10 left-0 right-0 bg-white border border-gray-200 rounded shadow max-h-60 overflow-y-auto">
+                  {matchingProducts.map((product) => (
+                    <li key={product._id}>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          updateForm({ products: [...form.products, product._id] });
+                          setProductSearch("");
+                        }}
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 flex items-center gap-2"
+                      >
+                        <img src={product.image} alt="" className="w-8 h-8 object-cover rounded" />
+                        {product.name}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {form.products.length === 0 ? (
+              <p className="text-sm text-gray-500">No products picked yet.</p>
+            ) : (
+              <ol className="space-y-1">
+                {form.products.map((id, index) => {
+                  const product = productsById.get(id);
+                  return (
+                    <li key={id} className="flex items-center gap-2 text-sm border border-gray-100 rounded px-2 py-1">
+                      <span className="w-6 text-gray-400">{index + 1}.</span>
+                      {product && <img src={product.image} alt="" className="w-8 h-8 object-cover rounded" />}
+                      <span className="flex-1 truncate">{product?.name ?? "Deleted product"}</span>
+                      <button
+                        type="button"
+                        onClick={() => moveProduct(index, -1)}
+                        disabled={index === 0}
+                        className="disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveProduct(index, 1)}
+                        disabled={index === form.products.length - 1}
+                        className="disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateForm({ products: form.products.filter((p) => p !== id) })}
+                        className="text-red-600"
+                        title="Remove"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Default order</label>
+            <select
+              value={form.sort}
+              onChange={(e) => updateForm({ sort: e.target.value as CollectionSort })}
+              className={inputClass}
+            >
+              {COLLECTION_SORTS.filter((sort) => sort.value !== "manual" || form.mode === "manual").map((sort) => (
+                <option key={sort.value} value={sort.value}>
+                  {sort.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Starts</label>
+            <input
+              type="datetime-local"
+              value={form.startsAt}
+              onChange={(e) => updateForm({ startsAt: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Ends</label>
+            <input
+              type="datetime-local"
+              value={form.endsAt}
+              onChange={(e) => updateForm({ endsAt: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Leave the dates blank to show the collection for as long as it is active.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={form.isActive} onChange={(e) => updateForm({ isActive: e.target.checked })} />
+          Active
+        </label>
+
+        {preview && (
+          <div className="border border-gray-200 rounded p-4 space-y-2">
+            <p className="text-sm font-medium">
+              {preview.count} product{preview.count === 1 ? "" : "s"} in this collection
+            </p>
+            <div className="flex gap-2 overflow-x-auto">
+              {preview.products.map((product) => (
+                <img
+                  key={product._id}
+                  src={product.image}
+                  alt={product.name}
+                  title={product.name}
+                  className="w-16 h-20 object-cover rounded flex-shrink-0"
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : editingId ? "Update Collection" : "Create Collection"}
+          </button>
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={previewing}
+            className="px-6 py-2 rounded-md border border-gray-300 disabled:opacity-50"
+          >
+            {previewing ? "Checking..." : "Preview"}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-6 py-2 rounded-md border border-gray-300">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="bg-white rounded-xl shadow p-6">
+        <h2 className="text-2xl font-bold mb-4">Collections</h2>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader className="animate-spin" />
+          </div>
+        ) : collections.length === 0 ? (
+          <p className="text-gray-500">No collections yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2 pr-3">Collection</th>
+                  <th className="py-2 pr-3">Products</th>
+                  <th className="py-2 pr-3">Schedule</th>
+                  <th className="py-2 pr-3">Active</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {collections.map((collection) => (
+                  <tr key={collection._id} className="border-b">
+                    <td className="py-2 pr-3">
+                      <p className="font-semibold">
+                        {collection.name}
+                        {collection.live && (
+                          <span className="ml-2 text-xs font-medium text-green-700 bg-green-100 rounded px-1.5 py-0.5">
+                            Live
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">{collectionPath(collection.slug)}</p>
+                    </td>
+                    <td className="py-2 pr-3">
+                      {collection.mode === "manual" ? `${collection.products.length} hand-picked` : "By rules"}
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{describeSchedule(collection)}</td>
+                    <td className="py-2 pr-3">
+                      <input type="checkbox" checked={collection.isActive} onChange={() => toggleActive(collection)} />
+                    </td>
+                    <td className="py-2 flex gap-3">
+                      {collection.live && (
+                        <Link
+                          to={collectionPath(collection.slug)}
+                          target="_blank"
+                          className="text-gray-600 hover:text-gray-800"
+                          title="View"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </Link>
+                      )}
+                      <button
+                        onClick={() => startEdit(collection)}
+                        className="text-blue-600 hover:text-blue-800"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(collection)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionManager;
@@ -0,0 +1,416 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Pencil, Trash2, Loader } from "lucide-react";
+import { useAllProducts } from "../hooks/useCatalogue";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface Coupon {
+  _id: string;
+  code: string;
+  description?: string;
+  type: "percentage" | "flat";
+  value: number;
+  maxDiscount?: number;
+  minCartValue?: number;
+  categories: string[];
+  products: string[];
+  usageLimit?: number;
+  perUserLimit?: number;
+  usedCount: number;
+  validFrom?: string;
+  validUntil?: string;
+  isActive: boolean;
+}
+
+// Number and date inputs are kept as strings so they can be left blank (= no limit)
+const emptyForm = {
+  code: "",
+  description: "",
+  type: "percentage" as Coupon["type"],
+  value: "",
+  maxDiscount: "",
+  minCartValue: "",
+  categories: [] as string[],
+  products: [] as string[],
+  usageLimit: "",
+  perUserLimit: "",
+  validFrom: "",
+  validUntil: "",
+  isActive: true,
+};
+
+type CouponForm = typeof emptyForm;
+
+const toDateInput = (date?: string) => (date ? date.slice(0, 10) : "");
+const toNumberInput = (value?: number) => (value === undefined || value === null ? "" : String(value));
+
+const describeDiscount = (coupon: Coupon) =>
+  coupon.type === "percentage"
+    ? `${coupon.value}% off${coupon.maxDiscount ? ` (max ₹${coupon.maxDiscount})` : ""}`
+    : `₹${coupon.value} off`;
+
+const CouponManager = () => {
+  const { products } = useAllProducts();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [form, setForm] = useState<CouponForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCoupons = async () => {
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/coupons`, { withCredentials: true });
+      setCoupons(res.data);
+    } catch (err) {
+      console.error("Failed to fetch coupons", err);
+      toast.error("Failed to fetch coupons");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCoupons();
+    fetch(`${API_URL}/api/categories`)
+      .then((res) => res.json())
+      .then((data: { name: string }[]) => setCategories(data.map((c) => c.name)))
+      .catch((err) => console.error("Failed to fetch categories:", err));
+  }, []);
+
+  const updateForm = (changes: Partial<CouponForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const toggleInList = (key: "categories" | "products", value: string) => {
+    const list = form[key];
+    updateForm({ [key]: list.includes(value) ? list.filter((v) => v !== value) : [...list, value] });
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const startEdit = (coupon: Coupon) => {
+    setEditingId(coupon._id);
+    setForm({
+      code: coupon.code,
+      description: coupon.description || "",
+      type: coupon.type,
+      value: String(coupon.value),
+      maxDiscount: toNumberInput(coupon.maxDiscount),
+      minCartValue: toNumberInput(coupon.minCartValue),
+      categories: coupon.categories || [],
+      products: coupon.products || [],
+      usageLimit: toNumberInput(coupon.usageLimit),
+      perUserLimit: toNumberInput(coupon.perUserLimit),
+      validFrom: toDateInput(coupon.validFrom),
+      validUntil: toDateInput(coupon.validUntil),
+      isActive: coupon.isActive,
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.code.trim() || !form.value) {
+      toast.error("Code and discount value are required");
+      return;
+    }
+
+    const payload = {
+      ...form,
+      minCartValue: form.minCartValue || 0,
+      // Coupons end at the close of their last day
+      validUntil: form.validUntil ? `${form.validUntil}T23:59:59` : "",
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await axios.put(`${API_URL}/api/admin/coupons/${editingId}`, payload, { withCredentials: true });
+        toast.success("Coupon updated");
+      } else {
+        await axios.post(`${API_URL}/api/admin/coupons`, payload, { withCredentials: true });
+        toast.success("Coupon created");
+      }
+      resetForm();
+      fetchCoupons();
+    } catch (err) {
+      const message = axios.isAxiosError(err) && err.response?.data?.message;
+      toast.error(message || "Failed to save coupon");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (coupon: Coupon) => {
+    try {
+      await axios.put(
+        `${API_URL}/api/admin/coupons/${coupon._id}`,
+        { isActive: !coupon.isActive },
+        { withCredentials: true }
+      );
+      fetchCoupons();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update coupon");
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+    try {
+      await axios.delete(`${API_URL}/api/admin/coupons/${coupon._id}`, { withCredentials: true });
+      toast.success("Coupon deleted");
+      if (editingId === coupon._id) resetForm();
+      fetchCoupons();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete coupon");
+    }
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded px-3 py-2";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow p-6 space-y-4">
+        <h2 className="text-2xl font-bold">{editingId ? "Edit Coupon" : "Create Coupon"}</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Code</label>
+            <input
+              type="text"
+              value={form.code}
+              onChange={(e) => updateForm({ code: e.target.value.toUpperCase() })}
+              className={`${inputClass} uppercase`}
+              placeholder="DIWALI20"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Type</label>
+            <select
+              value={form.type}
+              onChange={(e) => updateForm({ type: e.target.value as Coupon["type"] })}
+              className={inputClass}
+            >
+              <option value="percentage">Percentage</option>
+              <option value="flat">Flat amount (₹)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              {form.type === "percentage" ? "Discount (%)" : "Discount (₹)"}
+            </label>
+            <input
+              type="number"
+              min="0"
+              max={form.type === "percentage" ? 100 : undefined}
+              value={form.value}
+              onChange={(e) => updateForm({ value: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Description</label>
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) => updateForm({ description: e.target.value })}
+            className={inputClass}
+            placeholder="Shown to the customer, e.g. Festival sale"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {form.type === "percentage" && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Max discount (₹)</label>
+              <input
+                type="number"
+                min="0"
+                value={form.maxDiscount}
+                onChange={(e) => updateForm({ maxDiscount: e.target.value })}
+                className={inputClass}
+                placeholder="No cap"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium mb-1">Min cart value (₹)</label>
+            <input
+              type="number"
+              min="0"
+              value={form.minCartValue}
+              onChange={(e) => updateForm({ minCartValue: e.target.value })}
+              className={inputClass}
+              placeholder="0"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Total uses</label>
+            <input
+              type="number"
+              min="1"
+              value={form.usageLimit}
+              onChange={(e) => updateForm({ usageLimit: e.target.value })}
+              className={inputClass}
+              placeholder="Unlimited"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Uses per customer</label>
+            <input
+              type="number"
+              min="1"
+              value={form.perUserLimit}
+              onChange={(e) => updateForm({ perUserLimit: e.target.value })}
+              className={inputClass}
+              placeholder="Unlimited"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Valid from</label>
+            <input
+              type="date"
+              value={form.validFrom}
+              onChange={(e) => updateForm({ validFrom: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Valid until</label>
+            <input
+              type="date"
+              value={form.validUntil}
+              onChange={(e) => updateForm({ validUntil: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm font-medium mb-1">Limit to categories</p>
+            <div className="border border-gray-200 rounded p-3 max-h-40 overflow-y-auto flex flex-wrap gap-2">
+              {categories.map((name) => (
+                <label key={name} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.categories.includes(name)}
+                    onChange={() => toggleInList("categories", name)}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium mb-1">Limit to products</p>
+            <div className="border border-gray-200 rounded p-3 max-h-40 overflow-y-auto space-y-1">
+              {products.map((product) => (
+                <label key={product._id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.products.includes(product._id)}
+                    onChange={() => toggleInList("products", product._id)}
+                  />
+                  {product.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Leave both lists empty to apply the coupon to the whole cart.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={form.isActive} onChange={(e) => updateForm({ isActive: e.target.checked })} />
+          Active
+        </label>
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : editingId ? "Update Coupon" : "Create Coupon"}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-6 py-2 rounded-md border border-gray-300">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="bg-white rounded-xl shadow p-6">
+        <h2 className="text-2xl font-bold mb-4">Coupons</h2>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader className="animate-spin" />
+          </div>
+        ) : coupons.length === 0 ? (
+          <p className="text-gray-500">No coupons yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2 pr-3">Code</th>
+                  <th className="py-2 pr-3">Discount</th>
+                  <th className="py-2 pr-3">Min cart</th>
+                  <th className="py-2 pr-3">Used</th>
+                  <th className="py-2 pr-3">Valid</th>
+                  <th className="py-2 pr-3">Active</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {coupons.map((coupon) => (
+                  <tr key={coupon._id} className="border-b">
+                    <td className="py-2 pr-3">
+                      <p className="font-semibold">{coupon.code}</p>
+                      {coupon.description && <p className="text-xs text-gray-500">{coupon.description}</p>}
+                    </td>
+                    <td className="py-2 pr-3">{describeDiscount(coupon)}</td>
+                    <td className="py-2 pr-3">{coupon.minCartValue ? `₹${coupon.minCartValue}` : "—"}</td>
+                    <td className="py-2 pr-3">
+                      {coupon.usedCount}
+                      {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ""}
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {toDateInput(coupon.validFrom) || "—"} → {toDateInput(coupon.validUntil) || "—"}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <input type="checkbox" checked={coupon.isActive} onChange={() => toggleActive(coupon)} />
+                    </td>
+                    <td className="py-2 flex gap-3">
+                      <button onClick={() => startEdit(coupon)} className="text-blue-600 hover:text-blue-800" title="Edit">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(coupon)} className="text-red-600 hover:text-red-800" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CouponManager;
@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Loader, RotateCcw } from "lucide-react";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+type JobStatus = "dead" | "queued" | "running" | "completed";
+
+interface Job {
+  _id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  runAt: string;
+  deadAt?: string;
+  updatedAt: string;
+}
+
+const statusTabs: { key: JobStatus; label: string }[] = [
+  { key: "dead", label: "Failed" },
+  { key: "queued", label: "Queued" },
+  { key: "running", label: "Running" },
+  { key: "completed", label: "Completed" },
+];
+
+// What each job type does, in the words an admin would use
+const jobLabels: Record<string, string> = {
+  "order.dispatch": "Book courier for order",
+  "order.notify": "Notify dashboard about order",
+  "return.pickup": "Book return pickup",
+};
+
+const FailedJobs = () => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [status, setStatus] = useState<JobStatus>("dead");
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/jobs`, {
+        params: { status },
+        withCredentials: true,
+      });
+      setJobs(res.data);
+    } catch (err) {
+      console.error("Failed to fetch jobs", err);
+      toast.error("Failed to fetch jobs");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const retry = async (job: Job) => {
+    setRetrying(job._id);
+    try {
+      await axios.post(`${API_URL}/api/admin/jobs/${job._id}/retry`, {}, { withCredentials: true });
+      toast.success("Job queued again");
+      fetchJobs();
+    } catch (err) {
+      console.error(err);
+      toast.error(axios.isAxiosError(err) ? err.response?.data?.message || "Failed to retry job" : "Failed to retry job");
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto bg-white rounded-xl shadow p-6">
+      <h2 className="text-2xl font-bold mb-4">Background Jobs</h2>
+
+      <div className="flex gap-2 mb-6">
+        {statusTabs.map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setStatus(tab.key)}
+            className={`px-4 py-1.5 rounded-full text-sm ${
+              status === tab.key ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Loader className="animate-spin" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <p className="text-gray-500">No jobs here.</p>
+      ) : (
+        <div className="space-y-4">
+          {jobs.map((job) => (
+            <div key={job._id} className="border rounded-lg p-4 flex gap-4">
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="font-semibold">{jobLabels[job.type] || job.type}</p>
+                  <span className="text-xs text-gray-500">
+                    {job.attempts}/{job.maxAttempts} attempts
+                  </span>
+                </div>
+                <p className="text-xs font-mono text-gray-600">
+                  {Object.entries(job.payload)
+                    .map(([key, value]) => `${key}: ${String(value)}`)
+                    .join(" · ")}
+                </p>
+                {job.lastError && <p className="text-sm text-red-600">{job.lastError}</p>}
+                <p className="text-xs text-gray-500">
+                  {job.status === "dead" && job.deadAt
+                    ? `Gave up ${new Date(job.deadAt).toLocaleString()}`
+                    : job.status === "queued"
+                    ? `Next attempt ${new Date(job.runAt).toLocaleString()}`
+                    : `Updated ${new Date(job.updatedAt).toLocaleString()}`}
+                </p>
+              </div>
+              {job.status === "dead" && (
+                <div className="flex flex-col gap-2">
+                  <button
+                    disabled={retrying === job._id}
+                    onClick={() => retry(job)}
+                    className="flex items-center gap-1 text-blue-600 hover:text-blue-800 text-sm disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4" /> Retry
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FailedJobs;
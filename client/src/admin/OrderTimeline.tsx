@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Loader } from "lucide-react";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface OrderEvent {
+  field: string;
+  from?: string;
+  to?: string;
+  actor: "customer" | "admin" | "system";
+  actorId?: { name: string; email: string } | null;
+  source: string;
+  note?: string;
+  at: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  status: "Status",
+  adminStatus: "Review",
+  paymentStatus: "Payment",
+  "shipmentDetails.status": "Shipment",
+  "shipmentDetails.awbCode": "AWB",
+};
+
+// Audit log of every status/payment/shipment change on one order
+const OrderTimeline: React.FC<{ orderId: string }> = ({ orderId }) => {
+  const [events, setEvents] = useState<OrderEvent[] | null>(null);
+
+  useEffect(() => {
+    axios
+      .get(`${API_URL}/api/admin/orders/${orderId}/history`, { withCredentials: true })
+      .then((res) => setEvents(res.data))
+      .catch((err) => {
+        console.error("Failed to fetch order history", err);
+        setEvents([]);
+      });
+  }, [orderId]);
+
+  if (!events) {
+    return <Loader className="animate-spin w-4 h-4" />;
+  }
+  if (events.length === 0) {
+    return <p className="text-xs text-gray-500">No recorded changes.</p>;
+  }
+
+  return (
+    <ol className="border-l-2 border-gray-300 pl-4 space-y-2">
+      {events.map((event, idx) => (
+        <li key={idx} className="text-xs">
+          <p>
+            <span className="font-semibold">{fieldLabels[event.field] || event.field}:</span>{" "}
+            {event.from ? `${event.from} → ` : ""}
+            <span className="font-medium">{event.to || "—"}</span>
+          </p>
+          <p className="text-gray-500">
+            {new Date(event.at).toLocaleString()} · {event.actorId?.name || event.actor} via {event.source}
+            {event.note ? ` · ${event.note}` : ""}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
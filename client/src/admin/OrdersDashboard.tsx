@@ -1,9 +1,14 @@
 // OrdersList.tsx
 import React, { useEffect, useState } from "react";
 import axios from "axios";
+import { Link } from "react-router-dom";
 import { io } from "socket.io-client";
 import toast from "react-hot-toast";
 import OrderNotificationSound from "@/components/OrderNotificationSound";
+import ReturnRequestsPanel from "./ReturnRequestsPanel";
+import OrderTimeline from "./OrderTimeline";
+import ShipmentActions, { ShipmentDetails } from "./ShipmentActions";
+import InvoiceButton from "@/components/InvoiceButton";
 import {
   ChevronDown,
   ChevronUp,
@@ -40,8 +45,10 @@ interface Order {
   amount?: number;
   totalAmount?: number; // for compatibility if backend returns amount
   createdAt: string;
-  paymentStatus?: "pending" | "paid" | "failed";
+  paymentStatus?: "pending" | "paid" | "failed" | "expired" | "partially_refunded" | "refunded";
+  paymentMethod?: "prepaid" | "cod";
   deliveryStatus?: "Processing" | "Shipping" | "Delivered";
+  shipmentDetails?: ShipmentDetails;
 }
 
 const OrdersList = () => {
@@ -179,6 +186,8 @@ const OrdersList = () => {
       <OrderNotificationSound apiUrl={API_URL} onNewOrder={handleNewOrder} />
       <h2 className="text-xl sm:text-2xl font-bold text-primary mb-4">🛒 Orders Overview</h2>
 
+      <ReturnRequestsPanel />
+
       {/* Stats */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
         <div className="bg-gradient-to-r from-blue-100 to-blue-200 dark:from-blue-900 dark:to-blue-800 p-3 rounded-lg shadow text-center sm:text-left">
@@ -259,6 +268,14 @@ const OrdersList = () => {
                           <option value="Shipping">Shipping</option>
                           <option value="Delivered">Delivered</option>
                         </select>
+                        {order.paymentMethod === "cod" && (
+                          <span
+                            className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                            title={order.paymentStatus === "paid" ? "Cash collected" : "Collect cash on delivery"}
+                          >
+                            COD
+                          </span>
+                        )}
                       </div>
 
                       {/* Order Info */}
@@ -292,6 +309,15 @@ const OrdersList = () => {
                     <div className="mt-4 space-y-3 text-sm">
                       <p><strong>Email:</strong> {order.email}</p>
                       <p><strong>Address:</strong> {formatAddress(order.address)}</p>
+                      <InvoiceButton order={order} admin />
+                      {order.shipmentDetails?.awbCode && (
+                        <ShipmentActions orderId={order._id} shipment={order.shipmentDetails} />
+                      )}
+                      {!order.shipmentDetails?.awbCode && order.shipmentDetails?.status === "Booking failed" && (
+                        <p className="text-red-600">
+                          Courier booking failed. Retry it from <Link to="/admin/jobs" className="underline">Failed Jobs</Link>.
+                        </p>
+                      )}
 
                       <div className="grid gap-3 sm:grid-cols-2 mt-2 overflow-x-auto">
                         {(order.products || []).map((item, idx) => (
@@ -322,6 +348,11 @@ const OrdersList = () => {
                           0
                         ).toLocaleString()}
                       </p>
+
+                      <div className="mt-3">
+                        <p className="font-semibold mb-2">Timeline</p>
+                        <OrderTimeline orderId={order._id} />
+                      </div>
                     </div>
                   )}
                 </div>
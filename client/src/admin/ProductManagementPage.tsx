@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useProductContext } from '../context/ProductContext';
+import { useAllProducts, useReloadProducts } from '../hooks/useCatalogue';
 import { toast } from 'react-hot-toast';
 import axios from 'axios';
 import Papa from 'papaparse';
@@ -14,7 +14,8 @@ interface ProductManagementPageProps {
 const pageSize = 10;
 
 const ProductManagementPage: React.FC<ProductManagementPageProps> = ({ onEdit }) => {
-  const { products, loading, reloadProducts } = useProductContext();
+  const { products, loading } = useAllProducts();
+  const reloadProducts = useReloadProducts();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedProducts, setSelectedProducts] = useState<string[]>([]);
   const [selectAll, setSelectAll] = useState(false);
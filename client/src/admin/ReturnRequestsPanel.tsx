@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { io } from "socket.io-client";
+import { ChevronDown, ChevronUp, RotateCcw } from "lucide-react";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface AdminReturn {
+  _id: string;
+  type: "refund" | "exchange";
+  status: string;
+  reason: string;
+  comment?: string;
+  images: string[];
+  createdAt: string;
+  items: {
+    name: string;
+    variantLabel?: string;
+    quantity: number;
+    price: number;
+    exchangeVariantLabel?: string;
+  }[];
+  history: { status: string; note?: string; at: string }[];
+  user?: { name: string; email: string };
+  order?: { _id: string; totalAmount: number; refundedAmount?: number };
+  pickup?: { awbCode?: string; courierName?: string; error?: string };
+  refundAmount?: number;
+  exchangeOrder?: string;
+}
+
+const statusColors: Record<string, string> = {
+  requested: "bg-yellow-100 text-yellow-800",
+  approved: "bg-blue-100 text-blue-800",
+  pickup_scheduled: "bg-blue-100 text-blue-800",
+  received: "bg-purple-100 text-purple-800",
+  refunding: "bg-purple-100 text-purple-800",
+  refunded: "bg-green-100 text-green-800",
+  exchanged: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+// Return/exchange queue shown at the top of the orders dashboard
+const ReturnRequestsPanel = () => {
+  const [returns, setReturns] = useState<AdminReturn[]>([]);
+  const [showClosed, setShowClosed] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchReturns = async () => {
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/returns`, { withCredentials: true });
+      setReturns(res.data);
+    } catch (err) {
+      console.error("Failed to fetch returns", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturns();
+    const socket = io(API_URL, { withCredentials: true });
+    socket.on("newReturnRequest", () => {
+      toast("↩️ New return request");
+      fetchReturns();
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+
+  const runAction = async (ret: AdminReturn, request: () => Promise<unknown>, success: string) => {
+    setBusyId(ret._id);
+    try {
+      await request();
+      toast.success(success);
+      fetchReturns();
+    } catch (err) {
+      const message = axios.isAxiosError(err) && err.response?.data?.message;
+      toast.error(message || "Action failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const approve = (ret: AdminReturn) =>
+    runAction(ret, () => axios.patch(`${API_URL}/api/admin/returns/${ret._id}/approve`, {}, { withCredentials: true }), "Return approved");
+
+  const reject = (ret: AdminReturn) => {
+    const note = prompt("Reason for rejecting (shown to the customer):");
+    if (note === null) return;
+    runAction(ret, () => axios.patch(`${API_URL}/api/admin/returns/${ret._id}/reject`, { note }, { withCredentials: true }), "Return rejected");
+  };
+
+  const retryPickup = (ret: AdminReturn) =>
+    runAction(ret, () => axios.post(`${API_URL}/api/admin/returns/${ret._id}/pickup`, {}, { withCredentials: true }), "Pickup requested");
+
+  const receive = (ret: AdminReturn) =>
+    runAction(ret, () => axios.patch(`${API_URL}/api/admin/returns/${ret._id}/receive`, {}, { withCredentials: true }), "Marked as received and restocked");
+
+  const refund = (ret: AdminReturn) => {
+    const input = prompt("Refund amount in ₹ (leave blank for the calculated amount):");
+    if (input === null) return;
+    const body = input.trim() ? { amount: Number(input) } : {};
+    runAction(ret, () => axios.post(`${API_URL}/api/admin/returns/${ret._id}/refund`, body, { withCredentials: true }), "Refund issued");
+  };
+
+  const exchange = (ret: AdminReturn) =>
+    runAction(ret, () => axios.post(`${API_URL}/api/admin/returns/${ret._id}/exchange`, {}, { withCredentials: true }), "Replacement order created");
+
+  const visible = returns.filter((r) => showClosed || !["refunded", "exchanged", "rejected"].includes(r.status));
+
+  return (
+    <div className="mb-6 border rounded-xl p-4 bg-orange-50 dark:bg-neutral-800">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold flex items-center gap-2">
+          <RotateCcw className="w-4 h-4" /> Returns & Exchanges
+        </h3>
+        <label className="text-xs flex items-center gap-1">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+          Show closed
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">No open return requests.</p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((ret) => {
+            const isOpen = expanded === ret._id;
+            const busy = busyId === ret._id;
+            return (
+              <div key={ret._id} className="bg-white dark:bg-neutral-900 rounded-lg p-3 border text-sm">
+                <div
+                  className="flex items-center justify-between cursor-pointer"
+                  onClick={() => setExpanded(isOpen ? null : ret._id)}
+                >
+                  <div>
+                    <p className="font-semibold">
+                      {ret.type === "refund" ? "Refund" : "Exchange"} · Order {ret.order?._id.slice(-8).toUpperCase()}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {ret.user?.name} · {ret.reason} · {new Date(ret.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${statusColors[ret.status] || ""}`}>
+                      {ret.status.replace("_", " ")}
+                    </span>
+                    {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                  </div>
+                </div>
+
+                {isOpen && (
+                  <div className="mt-3 space-y-2">
+                    <ul className="text-xs">
+                      {ret.items.map((item, idx) => (
+                        <li key={idx}>
+                          {item.quantity} × {item.name}
+                          {item.variantLabel ? ` (${item.variantLabel})` : ""} @ ₹{item.price}
+                          {item.exchangeVariantLabel ? ` → exchange for ${item.exchangeVariantLabel}` : ""}
+                        </li>
+                      ))}
+                    </ul>
+                    {ret.comment && <p className="text-xs italic">"{ret.comment}"</p>}
+                    {ret.images.length > 0 && (
+                      <div className="flex gap-2">
+                        {ret.images.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt="Return" className="w-14 h-14 object-cover rounded border" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {ret.pickup?.awbCode && (
+                      <p className="text-xs">
+                        Pickup: {ret.pickup.courierName} · AWB {ret.pickup.awbCode}
+                      </p>
+                    )}
+                    {ret.pickup?.error && ret.status === "approved" && (
+                      <p className="text-xs text-red-600">Pickup booking failed: {ret.pickup.error}</p>
+                    )}
+                    {ret.refundAmount !== undefined && (
+                      <p className="text-xs text-green-700">Refunded ₹{ret.refundAmount}</p>
+                    )}
+                    <ol className="border-l pl-3 text-xs text-gray-500 space-y-0.5">
+                      {ret.history.map((entry, idx) => (
+                        <li key={idx}>
+                          {entry.status.replace("_", " ")} · {new Date(entry.at).toLocaleString()}
+                          {entry.note ? ` · ${entry.note}` : ""}
+                        </li>
+                      ))}
+                    </ol>
+
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {ret.status === "requested" && (
+                        <>
+                          <button disabled={busy} onClick={() => approve(ret)} className="px-3 py-1 rounded bg-green-600 text-white disabled:opacity-50">
+                            Approve & book pickup
+                          </button>
+                          <button disabled={busy} onClick={() => reject(ret)} className="px-3 py-1 rounded bg-red-600 text-white disabled:opacity-50">
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {ret.status === "approved" && (
+                        <button disabled={busy} onClick={() => retryPickup(ret)} className="px-3 py-1 rounded bg-blue-600 text-white disabled:opacity-50">
+                          Retry pickup booking
+                        </button>
+                      )}
+                      {["approved", "pickup_scheduled"].includes(ret.status) && (
+                        <button disabled={busy} onClick={() => receive(ret)} className="px-3 py-1 rounded bg-purple-600 text-white disabled:opacity-50">
+                          Mark received & restock
+                        </button>
+                      )}
+                      {ret.status === "received" && ret.type === "refund" && (
+                        <button disabled={busy} onClick={() => refund(ret)} className="px-3 py-1 rounded bg-green-600 text-white disabled:opacity-50">
+                          Issue Razorpay refund
+                        </button>
+                      )}
+                      {ret.status === "received" && ret.type === "exchange" && (
+                        <button disabled={busy} onClick={() => exchange(ret)} className="px-3 py-1 rounded bg-green-600 text-white disabled:opacity-50">
+                          Create replacement order
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReturnRequestsPanel;
@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Check, Loader, Trash2, X } from "lucide-react";
+import StarRating from "../components/StarRating";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+type ReviewStatus = "pending" | "approved" | "rejected";
+
+interface AdminReview {
+  _id: string;
+  rating: number;
+  title?: string;
+  comment?: string;
+  images: string[];
+  status: ReviewStatus;
+  createdAt: string;
+  user?: { name: string; email: string };
+  product?: { _id: string; name: string; image: string };
+}
+
+const statusTabs: { key: ReviewStatus | "all"; label: string }[] = [
+  { key: "pending", label: "Pending" },
+  { key: "approved", label: "Approved" },
+  { key: "rejected", label: "Rejected" },
+  { key: "all", label: "All" },
+];
+
+const ReviewModeration = () => {
+  const [reviews, setReviews] = useState<AdminReview[]>([]);
+  const [status, setStatus] = useState<ReviewStatus | "all">("pending");
+  const [loading, setLoading] = useState(true);
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/reviews`, {
+        params: { status },
+        withCredentials: true,
+      });
+      setReviews(res.data);
+    } catch (err) {
+      console.error("Failed to fetch reviews", err);
+      toast.error("Failed to fetch reviews");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const moderate = async (review: AdminReview, nextStatus: "approved" | "rejected") => {
+    try {
+      await axios.patch(
+        `${API_URL}/api/admin/reviews/${review._id}`,
+        { status: nextStatus },
+        { withCredentials: true }
+      );
+      toast.success(nextStatus === "approved" ? "Review approved" : "Review rejected");
+      fetchReviews();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update review");
+    }
+  };
+
+  const handleDelete = async (review: AdminReview) => {
+    if (!confirm("Delete this review permanently?")) return;
+    try {
+      await axios.delete(`${API_URL}/api/admin/reviews/${review._id}`, { withCredentials: true });
+      toast.success("Review deleted");
+      fetchReviews();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete review");
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto bg-white rounded-xl shadow p-6">
+      <h2 className="text-2xl font-bold mb-4">Review Moderation</h2>
+
+      <div className="flex gap-2 mb-6">
+        {statusTabs.map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => setStatus(tab.key)}
+            className={`px-4 py-1.5 rounded-full text-sm ${
+              status === tab.key ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Loader className="animate-spin" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-gray-500">No reviews here.</p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <div key={review._id} className="border rounded-lg p-4 flex gap-4">
+              {review.product && (
+                <img src={review.product.image} alt={review.product.name} className="w-16 h-20 object-cover rounded" />
+              )}
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="font-semibold">{review.product?.name || "Deleted product"}</p>
+                  <span className="text-xs uppercase text-gray-500">{review.status}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <StarRating rating={review.rating} />
+                  {review.title && <span className="font-medium">{review.title}</span>}
+                </div>
+                {review.comment && <p className="text-sm text-gray-700">{review.comment}</p>}
+                {review.images.length > 0 && (
+                  <div className="flex gap-2">
+                    {review.images.map((url) => (
+                      <a key={url} href={url} target="_blank" rel="noreferrer">
+                        <img src={url} alt="Review" className="w-16 h-16 object-cover rounded border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  {review.user?.name} ({review.user?.email}) · {new Date(review.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex flex-col gap-2">
+                {review.status !== "approved" && (
+                  <button
+                    onClick={() => moderate(review, "approved")}
+                    className="flex items-center gap-1 text-green-700 hover:text-green-900 text-sm"
+                  >
+                    <Check className="w-4 h-4" /> Approve
+                  </button>
+                )}
+                {review.status !== "rejected" && (
+                  <button
+                    onClick={() => moderate(review, "rejected")}
+                    className="flex items-center gap-1 text-orange-600 hover:text-orange-800 text-sm"
+                  >
+                    <X className="w-4 h-4" /> Reject
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(review)}
+                  className="flex items-center gap-1 text-red-600 hover:text-red-800 text-sm"
+                >
+                  <Trash2 className="w-4 h-4" /> Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewModeration;
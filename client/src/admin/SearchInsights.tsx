@@ -0,0 +1,138 @@
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Loader } from "lucide-react";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface SearchRow {
+  query: string;
+  count: number;
+  averageResults: number;
+  lastSearchedAt: string;
+}
+
+// GET /api/admin/search/report (server/services/searchLogService.js)
+interface SearchReport {
+  days: number;
+  totalSearches: number;
+  zeroResultSearches: number;
+  zeroResults: SearchRow[];
+  popular: SearchRow[];
+}
+
+const periods = [7, 30, 90];
+
+const SearchTable = ({ rows, showResults }: { rows: SearchRow[]; showResults: boolean }) =>
+  rows.length === 0 ? (
+    <p className="text-gray-500 text-sm">No searches in this period.</p>
+  ) : (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 border-b">
+          <th className="py-2">Search</th>
+          <th className="py-2 text-right">Times</th>
+          {showResults && <th className="py-2 text-right">Avg. results</th>}
+          <th className="py-2 text-right">Last searched</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.query} className="border-b last:border-0">
+            <td className="py-2 font-medium">{row.query}</td>
+            <td className="py-2 text-right">{row.count}</td>
+            {showResults && <td className="py-2 text-right">{row.averageResults}</td>}
+            <td className="py-2 text-right text-gray-500">{new Date(row.lastSearchedAt).toLocaleDateString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+const SearchInsights = () => {
+  const [report, setReport] = useState<SearchReport | null>(null);
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/search/report`, {
+        params: { days },
+        withCredentials: true,
+      });
+      setReport(res.data);
+    } catch (err) {
+      console.error("Failed to fetch search report", err);
+      toast.error("Failed to fetch search report");
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return (
+    <div className="max-w-5xl mx-auto bg-white rounded-xl shadow p-6">
+      <h2 className="text-2xl font-bold mb-4">Search Insights</h2>
+
+      <div className="flex gap-2 mb-6">
+        {periods.map((period) => (
+          <button
+            key={period}
+            onClick={() => setDays(period)}
+            className={`px-4 py-1.5 rounded-full text-sm ${
+              days === period ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            Last {period} days
+          </button>
+        ))}
+      </div>
+
+      {loading || !report ? (
+        <div className="flex justify-center py-10">
+          <Loader className="animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-gray-500">Searches</p>
+              <p className="text-2xl font-semibold">{report.totalSearches}</p>
+            </div>
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-gray-500">Found nothing</p>
+              <p className="text-2xl font-semibold text-red-600">
+                {report.zeroResultSearches}
+                {report.totalSearches > 0 && (
+                  <span className="text-sm text-gray-500 font-normal ml-2">
+                    ({Math.round((report.zeroResultSearches / report.totalSearches) * 100)}%)
+                  </span>
+                )}
+              </p>
+            </div>
+          </div>
+
+          <section>
+            <h3 className="text-lg font-semibold mb-1">Searches with no results</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              Products customers look for but cannot find: add them, or use these words in product names and
+              descriptions.
+            </p>
+            <SearchTable rows={report.zeroResults} showResults={false} />
+          </section>
+
+          <section>
+            <h3 className="text-lg font-semibold mb-3">Popular searches</h3>
+            <SearchTable rows={report.popular} showResults />
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchInsights;
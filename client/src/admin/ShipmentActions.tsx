@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Printer, Truck } from "lucide-react";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export interface ShipmentDetails {
+  provider?: string;
+  awbCode?: string;
+  courierName?: string;
+  status?: string;
+}
+
+const manualStatuses = ["PICKED UP", "OUT FOR DELIVERY", "DELIVERED", "UNDELIVERED"];
+
+// Label printing for every carrier, plus hand-recorded scans for orders we deliver ourselves
+const ShipmentActions: React.FC<{ orderId: string; shipment: ShipmentDetails }> = ({ orderId, shipment }) => {
+  const [status, setStatus] = useState(shipment.status || "");
+  const [saving, setSaving] = useState(false);
+
+  const printLabel = async () => {
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/orders/${orderId}/label`, { withCredentials: true });
+      if (res.data.url) {
+        window.open(res.data.url, "_blank", "noopener");
+      } else {
+        const labelWindow = window.open("", "_blank");
+        labelWindow?.document.write(res.data.html);
+        labelWindow?.document.close();
+        labelWindow?.print();
+      }
+    } catch (err) {
+      const message = axios.isAxiosError(err) && err.response?.data?.message;
+      toast.error(message || "Failed to get label");
+    }
+  };
+
+  const recordStatus = async (next: string) => {
+    setSaving(true);
+    try {
+      await axios.patch(
+        `${API_URL}/api/admin/orders/${orderId}/shipment-status`,
+        { status: next },
+        { withCredentials: true }
+      );
+      setStatus(next);
+      toast.success(`Marked as ${next.toLowerCase()}`);
+    } catch (err) {
+      const message = axios.isAxiosError(err) && err.response?.data?.message;
+      toast.error(message || "Failed to update delivery status");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="flex items-center gap-1">
+        <Truck className="w-4 h-4" /> {shipment.courierName} · AWB {shipment.awbCode}
+        {status ? ` · ${status}` : ""}
+      </span>
+      <button onClick={printLabel} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 text-white">
+        <Printer className="w-3 h-3" /> Label
+      </button>
+      {shipment.provider === "manual" && (
+        <select
+          value=""
+          disabled={saving}
+          onChange={(e) => e.target.value && recordStatus(e.target.value)}
+          className="px-2 py-1 border rounded dark:bg-neutral-800"
+        >
+          <option value="">Record delivery status…</option>
+          {manualStatuses.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ShipmentActions;
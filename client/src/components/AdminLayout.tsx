@@ -10,6 +10,11 @@ import {
   Circle,
   ShoppingCart,
   User,
+  Ticket,
+  Star,
+  AlertTriangle,
+  Search,
+  Layers,
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import axios from 'axios';
@@ -105,6 +110,36 @@ const AdminLayout = () => {
       ),
       path: '/admin/orders',
     },
+    {
+      key: 'coupons',
+      label: 'Coupons',
+      icon: <Ticket className="w-4 h-4 mr-2" />,
+      path: '/admin/coupons',
+    },
+    {
+      key: 'reviews',
+      label: 'Review Moderation',
+      icon: <Star className="w-4 h-4 mr-2" />,
+      path: '/admin/reviews',
+    },
+    {
+      key: 'jobs',
+      label: 'Failed Jobs',
+      icon: <AlertTriangle className="w-4 h-4 mr-2" />,
+      path: '/admin/jobs',
+    },
+    {
+      key: 'search',
+      label: 'Search Insights',
+      icon: <Search className="w-4 h-4 mr-2" />,
+      path: '/admin/search',
+    },
+    {
+      key: 'collections',
+      label: 'Collections',
+      icon: <Layers className="w-4 h-4 mr-2" />,
+      path: '/admin/collections',
+    },
     {
       key: 'profile',
       label: 'Admin Profile',
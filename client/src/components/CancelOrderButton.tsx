@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { XCircle } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toastWithVoice } from "@/utils/toast";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface CancellationPolicy {
+  reasons: string[];
+  windowHours: number;
+}
+
+interface CancellableOrder {
+  _id: string;
+  status: string;
+  createdAt: string;
+  paymentStatus?: string;
+}
+
+const CANCELLABLE_STATUSES = ["Placed", "Processing"];
+
+// Every order card asks for the same policy, so fetch it once per page load
+let policyRequest: Promise<CancellationPolicy> | null = null;
+const loadPolicy = () => {
+  if (!policyRequest) {
+    policyRequest = axios
+      .get(`${API_URL}/api/orders/cancellation/policy`)
+      .then((res) => res.data)
+      .catch((err) => {
+        policyRequest = null;
+        throw err;
+      });
+  }
+  return policyRequest;
+};
+
+const canCancelOrder = (order: CancellableOrder, policy: CancellationPolicy | null) =>
+  !!policy &&
+  CANCELLABLE_STATUSES.includes(order.status) &&
+  Date.now() - new Date(order.createdAt).getTime() <= policy.windowHours * 60 * 60 * 1000;
+
+interface CancelOrderButtonProps {
+  order: CancellableOrder;
+  onCancelled: (order: CancellableOrder) => void;
+  className?: string;
+  accessToken?: string; // Guest orders: the token from the order's lookup link
+}
+
+const CancelOrderButton: React.FC<CancelOrderButtonProps> = ({ order, onCancelled, className, accessToken }) => {
+  const [policy, setPolicy] = useState<CancellationPolicy | null>(null);
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadPolicy()
+      .then(setPolicy)
+      .catch((err) => console.error("Failed to fetch cancellation policy", err));
+  }, []);
+
+  if (!canCancelOrder(order, policy)) return null;
+
+  const handleCancel = async () => {
+    if (!reason) {
+      toastWithVoice.error("Please choose a reason");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await axios.post(
+        `${API_URL}/api/orders/${order._id}/cancel`,
+        { reason, comment },
+        { params: { token: accessToken }, withCredentials: true }
+      );
+      toastWithVoice.success(
+        order.paymentStatus === "paid"
+          ? "Order cancelled. Your refund is on its way."
+          : "Order cancelled."
+      );
+      setOpen(false);
+      onCancelled(res.data);
+    } catch (err) {
+      const message = axios.isAxiosError(err) && err.response?.data?.message;
+      toastWithVoice.error(message || "Failed to cancel order");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className={className} onClick={() => setOpen(true)}>
+        <XCircle className="w-4 h-4 mr-2" /> Cancel order
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel order #{order._id.slice(-8).toUpperCase()}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 pt-2 text-sm">
+            <p className="text-muted-foreground">
+              Orders can be cancelled within {policy?.windowHours} hours, until they are shipped. Paid orders are
+              refunded to the original payment method.
+            </p>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full border rounded px-3 py-2 bg-background"
+            >
+              <option value="">Reason for cancelling</option>
+              {policy?.reasons.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Anything else? (optional)"
+              maxLength={500}
+              rows={3}
+            />
+            <Button variant="destructive" className="w-full" disabled={submitting} onClick={handleCancel}>
+              {submitting ? "Cancelling..." : "Confirm cancellation"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CancelOrderButton;
@@ -1,35 +1,18 @@
-import React, { useEffect, useRef, useState } from 'react';
-
-type Category = {
-  _id: string;
-  name: string;
-  image: string;
-};
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCategoryList } from '@/hooks/useCategories';
+import { categoryPath } from '@/utils/categories';
 
 const CategoryCircle = () => {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { categories: allCategories, loading } = useCategoryList();
+  // Only top-level categories get a circle; their pages lead on to subcategories
+  const categories = useMemo(() => allCategories.filter((cat) => cat.depth === 0), [allCategories]);
+  const navigate = useNavigate();
   const scrollRef = useRef<HTMLDivElement>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const directionRef = useRef<'right' | 'left'>('right');
   const isMobile = window.innerWidth < 640;
 
-  useEffect(() => {
-    const fetchCategories = async () => {
-      try {
-        const res = await fetch(`${import.meta.env.VITE_API_URL}/api/categories`);
-        const data = await res.json();
-        setCategories(data);
-      } catch (err) {
-        console.error('Failed to fetch categories', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchCategories();
-  }, []);
-
   useEffect(() => {
     if (!isMobile || !scrollRef.current) return;
 
@@ -82,9 +65,8 @@ const CategoryCircle = () => {
     }, 20);
   };
 
-  const handleClick = (categoryName: string) => {
-    const slug = categoryName.toLowerCase().replace(/\s+/g, '-');
-    window.location.href = `/fabrics/${slug}`;
+  const handleClick = (slug: string) => {
+    navigate(categoryPath(slug));
   };
 
   return (
@@ -99,7 +81,7 @@ const CategoryCircle = () => {
           <div
             key={cat?._id || `placeholder-${index}`}
             className="flex flex-col items-center cursor-pointer shrink-0 sm:shrink transition-all duration-300 ease-in-out"
-            onClick={() => cat && handleClick(cat.name)}
+            onClick={() => cat && handleClick(cat.slug)}
             style={{ width: '110px' }}
           >
             <div className="w-24 h-24 sm:w-28 sm:h-28 rounded-full overflow-hidden border-2 border-gray-200 shadow-sm bg-gray-50 hover:shadow-xl hover:scale-105 transition-all duration-300 ease-in-out">
@@ -107,7 +89,7 @@ const CategoryCircle = () => {
                 <div className="w-full h-full animate-pulse bg-gray-300 rounded-full" />
               ) : (
                 <img
-                  src={cat.image}
+                  src={cat.image || 'https://via.placeholder.com/150?text=No+Image'}
                   alt={cat.name}
                   className="w-full h-full object-cover"
                   onError={(e) =>
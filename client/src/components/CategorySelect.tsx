@@ -0,0 +1,35 @@
+import React from "react";
+import { useAdminCategories } from "../hooks/useCategories";
+
+interface CategorySelectProps {
+  value: string; // Category ID
+  onChange: (categoryId: string) => void;
+}
+
+// Picks a product's category from the tree; subcategories are indented under their parents
+const CategorySelect: React.FC<CategorySelectProps> = ({ value, onChange }) => {
+  const { categories, loading } = useAdminCategories();
+
+  return (
+    <div>
+      <label className="block font-medium mb-1">Category</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        required
+        className="w-full border border-gray-300 rounded px-3 py-2 bg-white"
+      >
+        <option value="">{loading ? "Loading categories..." : "Select a category"}</option>
+        {categories.map((cat) => (
+          <option key={cat._id} value={cat._id}>
+            {"  ".repeat(cat.depth)}
+            {cat.name}
+            {cat.visible ? "" : " (hidden)"}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default CategorySelect;
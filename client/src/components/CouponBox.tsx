@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import { Tag, X } from "lucide-react";
+import type { PriceQuote } from "../utils/pricing";
+
+interface CouponBoxProps {
+  couponCode: string | null;
+  quote: PriceQuote | null;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+  formatAmount: (amount: number) => string;
+}
+
+// Apply-code box shared by the cart and checkout summaries. Whether the code is valid
+// comes back on the server quote (quote.coupon / quote.couponError).
+const CouponBox: React.FC<CouponBoxProps> = ({ couponCode, quote, onApply, onRemove, formatAmount }) => {
+  const [input, setInput] = useState("");
+
+  const handleApply = (e: React.FormEvent | React.MouseEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    onApply(input);
+    setInput("");
+  };
+
+  if (couponCode && quote?.coupon) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-green-300 bg-green-50 dark:bg-green-900/20 px-3 py-2 text-sm">
+        <div className="flex items-center gap-2 text-green-700 dark:text-green-400">
+          <Tag className="w-4 h-4" />
+          <span>
+            <strong>{quote.coupon.code}</strong> applied · you save {formatAmount(quote.coupon.discount)}
+          </span>
+        </div>
+        <button type="button" onClick={onRemove} className="text-gray-500 hover:text-red-600" title="Remove coupon">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value.toUpperCase())}
+          onKeyDown={(e) => e.key === "Enter" && handleApply(e)}
+          placeholder="Coupon code"
+          className="flex-1 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-md px-3 py-2 text-sm uppercase"
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          className="bg-gray-800 text-white px-4 py-2 rounded-md text-sm hover:bg-gray-900 disabled:opacity-50"
+          disabled={!input.trim()}
+        >
+          Apply
+        </button>
+      </div>
+      {couponCode && quote?.couponError && (
+        <div className="flex items-center justify-between text-xs text-red-500">
+          <span>
+            {couponCode}: {quote.couponError}
+          </span>
+          <button type="button" onClick={onRemove} className="underline">
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CouponBox;
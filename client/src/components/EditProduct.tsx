@@ -1,32 +1,26 @@
-import React, { useState, useEffect, useContext } from "react";
+import React, { useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { ProductContext } from "../context/ProductContext";
+import type { ProductOption, ProductVariant } from "../utils/catalogue";
+import { useReloadProducts } from "../hooks/useCatalogue";
 import { uploadImageToCloudinary } from "../components/cloudinary";
+import { cleanOptions } from "../utils/variants";
+import VariantEditor from "./VariantEditor";
+import ShippingFields from "./ShippingFields";
+import CategorySelect from "./CategorySelect";
+import { emptyShippingFields, shippingFieldsFromProduct, shippingFieldsToPayload } from "../utils/shipping";
 import toast from "react-hot-toast";
 
 const API_URL = import.meta.env.VITE_API_URL;
 
-const categoryOptions = [
-  "Cotton",
-  "Silk",
-  "Crape",
-  "Kota",
-  "Georgette",
-  "Tusser",
-  "Handlooms",
-  "new-arrivals",
-  "ceo-collections",
-];
-
 const EditProduct: React.FC = () => {
-  const { setProducts } = useContext(ProductContext);
+  const reloadProducts = useReloadProducts();
   const { productId } = useParams();
   const navigate = useNavigate();
 
   const [name, setName] = useState("");
   const [price, setPrice] = useState("");
   const [stock, setStock] = useState("");
-  const [category, setCategory] = useState("");
+  const [categoryId, setCategoryId] = useState("");
   const [featured, setFeatured] = useState(false);
   const [description, setDescription] = useState("");
   const [imageFile, setImageFile] = useState<File | null>(null);
@@ -35,6 +29,12 @@ const EditProduct: React.FC = () => {
   const [extraImagesPreview, setExtraImagesPreview] = useState<string[]>([]);
   const [existingExtraImages, setExistingExtraImages] = useState<string[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [options, setOptions] = useState<ProductOption[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [shipping, setShipping] = useState(emptyShippingFields);
+  const [hsnCode, setHsnCode] = useState("");
+  const [tags, setTags] = useState("");
+  const hasVariants = variants.length > 0;
 
   useEffect(() => {
     const fetchProduct = async () => {
@@ -44,11 +44,16 @@ const EditProduct: React.FC = () => {
         setName(data.name);
         setPrice(data.price.toString());
         setStock(data.stock.toString());
-        setCategory(data.category);
+        setCategoryId(data.categoryId || "");
         setFeatured(data.featured);
         setDescription(data.description);
         setExistingImage(data.image);
         setExistingExtraImages(data.extraImages || []);
+        setOptions(data.options || []);
+        setVariants(data.variants || []);
+        setShipping(shippingFieldsFromProduct(data));
+        setHsnCode(data.hsnCode || "");
+        setTags((data.tags || []).join(", "));
       } catch (err) {
         console.error(err);
         toast.error("Failed to fetch product");
@@ -84,10 +89,15 @@ const EditProduct: React.FC = () => {
         price: Number(price),
         stock: Number(stock),
         featured,
-        category,
+        categoryId,
         description,
         image: imageUrl,
         extraImages: [...existingExtraImages, ...uploadedExtraImages],
+        options: hasVariants ? cleanOptions(options) : [],
+        variants,
+        ...shippingFieldsToPayload(shipping),
+        hsnCode: hsnCode.trim(),
+        tags,
       };
 
       // 💡 Add stock only if it's a valid number
@@ -101,21 +111,25 @@ const EditProduct: React.FC = () => {
         body: JSON.stringify(productData),
       });
 
-      if (!res.ok) throw new Error("Update failed");
+      if (!res.ok) {
+        const { message } = await res.json().catch(() => ({}));
+        throw new Error(message || "Update failed");
+      }
 
-      const updatedProduct = await res.json();
+      const { product: updatedProduct } = await res.json();
+      setVariants(updatedProduct.variants || []);
 
-      // ✅ Replace product in context
-      setProducts((prev: any) =>
-        prev.map((p: any) =>
-          p._id === updatedProduct._id ? updatedProduct : p
-        )
-      );
+      // ✅ Refresh cached listings
+      reloadProducts();
 
       toast.success("✅ Product updated successfully!");
     } catch (err) {
       console.error(err);
-      toast.error("❌ Something went wrong while updating.");
+      toast.error(
+        err instanceof Error && err.message !== "Update failed"
+          ? `❌ ${err.message}`
+          : "❌ Something went wrong while updating."
+      );
     } finally {
       setUploading(false);
     }
@@ -159,8 +173,9 @@ const EditProduct: React.FC = () => {
               type="number"
               value={price}
               onChange={(e) => setPrice(e.target.value)}
-              required
-              className="w-full border border-gray-300 rounded px-3 py-2"
+              required={!hasVariants}
+              disabled={hasVariants}
+              className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
             />
           </div>
           <div>
@@ -170,25 +185,32 @@ const EditProduct: React.FC = () => {
               min="0"
               value={stock}
               onChange={(e) => setStock(e.target.value)}
-              required
+              required={!hasVariants}
+              disabled={hasVariants}
+              className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
+            />
+          </div>
+          <CategorySelect value={categoryId} onChange={setCategoryId} />
+          <div>
+            <label className="block font-medium mb-1">HSN Code</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={hsnCode}
+              onChange={(e) => setHsnCode(e.target.value)}
               className="w-full border border-gray-300 rounded px-3 py-2"
+              placeholder="e.g. 5007 (printed on tax invoices)"
             />
           </div>
           <div>
-            <label className="block font-medium mb-1">Category</label>
-            <select
-              value={category}
-              onChange={(e) => setCategory(e.target.value)}
-              required
-              className="w-full border border-gray-300 rounded px-3 py-2 bg-white"
-            >
-              <option value="">Select a category</option>
-              {categoryOptions.map((cat) => (
-                <option key={cat} value={cat}>
-                  {cat}
-                </option>
-              ))}
-            </select>
+            <label className="block font-medium mb-1">Tags</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+              placeholder="e.g. bridal, festive (comma-separated, used by collections)"
+            />
           </div>
         </div>
 
@@ -203,6 +225,17 @@ const EditProduct: React.FC = () => {
           />
         </div>
 
+        <VariantEditor
+          options={options}
+          variants={variants}
+          onOptionsChange={setOptions}
+          onVariantsChange={setVariants}
+          basePrice={Number(price)}
+          skuPrefix={name}
+        />
+
+        <ShippingFields values={shipping} onChange={setShipping} />
+
         <div className="flex items-center gap-2">
           <input
             type="checkbox"
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { Mail, Package, Truck } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Switch } from "@/components/ui/switch";
+import { AccountSection } from "./AccountSection";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+type PreferenceKey = "orderUpdates" | "shippingUpdates";
+type Preferences = Record<PreferenceKey, boolean>;
+
+const options: { key: PreferenceKey; title: string; description: string; icon: JSX.Element }[] = [
+  {
+    key: "orderUpdates",
+    title: "Order updates",
+    description: "Confirmations, payment receipts, cancellations and refunds",
+    icon: <Package className="h-5 w-5 text-muted-foreground" />,
+  },
+  {
+    key: "shippingUpdates",
+    title: "Shipping updates",
+    description: "When your order ships (with the tracking number) and when it is delivered",
+    icon: <Truck className="h-5 w-5 text-muted-foreground" />,
+  },
+];
+
+export function EmailPreferences() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+
+  useEffect(() => {
+    axios
+      .get(`${API_URL}/api/users/email-preferences`, { withCredentials: true })
+      .then((res) => setPreferences(res.data))
+      .catch((err) => console.error("Failed to load email preferences", err));
+  }, []);
+
+  const toggle = async (key: PreferenceKey, value: boolean) => {
+    const previous = preferences;
+    setPreferences((prev) => (prev ? { ...prev, [key]: value } : prev));
+    try {
+      const res = await axios.put(`${API_URL}/api/users/email-preferences`, { [key]: value }, { withCredentials: true });
+      setPreferences(res.data);
+      toast.success("Email preferences saved");
+    } catch (err) {
+      console.error("Failed to save email preferences", err);
+      setPreferences(previous);
+      toast.error("Could not save your email preferences");
+    }
+  };
+
+  return (
+    <AccountSection title="Email Notifications" icon={<Mail className="h-5 w-5 text-primary" />}>
+      <div className="space-y-4">
+        {options.map((option) => (
+          <div key={option.key} className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              {option.icon}
+              <div>
+                <h4 className="font-medium">{option.title}</h4>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
+              </div>
+            </div>
+            <Switch
+              checked={preferences?.[option.key] ?? true}
+              disabled={!preferences}
+              onCheckedChange={(value) => toggle(option.key, value)}
+            />
+          </div>
+        ))}
+      </div>
+    </AccountSection>
+  );
+}
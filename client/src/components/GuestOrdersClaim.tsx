@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Loader2, PackageSearch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toastWithVoice } from "@/utils/toast";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface GuestOrdersClaimProps {
+  onClaimed: () => void;
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) && err.response?.data?.message) || fallback;
+
+// Offers to move orders placed as a guest with the account's email into the account, once the
+// customer enters the code emailed to that address. Renders nothing when there are none.
+const GuestOrdersClaim: React.FC<GuestOrdersClaimProps> = ({ onClaimed }) => {
+  const [count, setCount] = useState(0);
+  const [email, setEmail] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    axios
+      .get(`${API_URL}/api/users/guest-orders`, { withCredentials: true })
+      .then((res) => {
+        setCount(res.data.count);
+        setEmail(res.data.email);
+      })
+      .catch((err) => console.error("Failed to look up guest orders", err));
+  }, []);
+
+  if (count === 0) return null;
+
+  const sendCode = async () => {
+    setBusy(true);
+    try {
+      await axios.post(`${API_URL}/api/users/guest-orders/send-code`, {}, { withCredentials: true });
+      setCodeSent(true);
+      toastWithVoice.success(`We've emailed a code to ${email}`);
+    } catch (err) {
+      toastWithVoice.error(errorMessage(err, "Failed to send the code"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const claim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const res = await axios.post(`${API_URL}/api/users/guest-orders/claim`, { code }, { withCredentials: true });
+      toastWithVoice.success(`${res.data.claimed} order${res.data.claimed === 1 ? "" : "s"} added to your account`);
+      setCount(0);
+      onClaimed();
+    } catch (err) {
+      toastWithVoice.error(errorMessage(err, "Failed to add your orders"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow text-sm">
+      <p className="flex items-center gap-2 font-medium">
+        <PackageSearch className="w-4 h-4" />
+        {count === 1 ? "An order was" : `${count} orders were`} placed as a guest with {email}.
+      </p>
+      <p className="text-gray-500 mt-1">Confirm this email address to see {count === 1 ? "it" : "them"} here.</p>
+      {codeSent ? (
+        <form onSubmit={claim} className="flex gap-2 mt-3">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6-digit code"
+            inputMode="numeric"
+            maxLength={6}
+            className="max-w-[160px]"
+          />
+          <Button type="submit" size="sm" disabled={busy || code.length !== 6}>
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add my orders"}
+          </Button>
+        </form>
+      ) : (
+        <Button variant="outline" size="sm" className="mt-3" onClick={sendCode} disabled={busy}>
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Email me a code"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GuestOrdersClaim;
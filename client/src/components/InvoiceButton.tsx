@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import axios from "axios";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toastWithVoice } from "@/utils/toast";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface InvoiceOrder {
+  _id: string;
+  paymentStatus?: string;
+}
+
+// Cash-on-delivery orders get their invoice once the courier has collected the money
+const INVOICEABLE_PAYMENT_STATUSES = ["paid", "partially_refunded", "refunded"];
+
+// The error body of a blob request is a blob too
+const readError = async (err: unknown) => {
+  if (axios.isAxiosError(err) && err.response?.data instanceof Blob) {
+    try {
+      return JSON.parse(await err.response.data.text()).message as string;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+interface InvoiceButtonProps {
+  order: InvoiceOrder;
+  admin?: boolean;
+  className?: string;
+  accessToken?: string; // Guest orders: the token from the order's lookup link
+}
+
+// Downloads the order's GST invoice PDF; renders nothing until the order is paid
+const InvoiceButton: React.FC<InvoiceButtonProps> = ({ order, admin = false, className, accessToken }) => {
+  const [downloading, setDownloading] = useState(false);
+
+  if (!INVOICEABLE_PAYMENT_STATUSES.includes(order.paymentStatus || "")) return null;
+
+  const download = async () => {
+    setDownloading(true);
+    try {
+      const path = admin ? `/api/admin/orders/${order._id}/invoice` : `/api/orders/${order._id}/invoice`;
+      const res = await axios.get(`${API_URL}${path}`, { responseType: "blob", params: { token: accessToken }, withCredentials: true });
+      const filename = /filename="?([^";]+)"?/.exec(res.headers["content-disposition"] || "")?.[1] || `Invoice-${order._id}.pdf`;
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Invoice download failed", err);
+      toastWithVoice.error((await readError(err)) || "Could not download the invoice. Please try again.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" className={className} onClick={download} disabled={downloading}>
+      {downloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+      Download invoice
+    </Button>
+  );
+};
+
+export default InvoiceButton;
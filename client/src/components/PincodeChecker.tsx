@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import axios from "axios";
+import { MapPin, Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCurrency } from "@/context/CurrencyContext";
+import { formatDeliveryEstimate, type ShippingOption } from "../utils/shipping";
+
+const API_URL = import.meta.env.VITE_API_URL;
+const STORAGE_KEY = "deliveryPincode";
+
+interface PincodeCheckerProps {
+  productId: string;
+  quantity: number;
+}
+
+// "Check delivery" box on the product page: whether we deliver to a pincode, how soon and
+// what it costs. The last pincode checked is remembered for the next product.
+const PincodeChecker: React.FC<PincodeCheckerProps> = ({ productId, quantity }) => {
+  const { formatPrice } = useCurrency();
+  const [pincode, setPincode] = useState(() => localStorage.getItem(STORAGE_KEY) || "");
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<{ pincode: string; options: ShippingOption[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{6}$/.test(pincode)) {
+      setError("Please enter a valid 6-digit pincode.");
+      setResult(null);
+      return;
+    }
+    setChecking(true);
+    setError(null);
+    try {
+      const res = await axios.post(
+        `${API_URL}/api/shipping/rates`,
+        { items: [{ id: productId, quantity }], pincode },
+        { withCredentials: true }
+      );
+      setResult({ pincode, options: res.data.options });
+      localStorage.setItem(STORAGE_KEY, pincode);
+    } catch (err) {
+      setResult(null);
+      setError((axios.isAxiosError(err) && err.response?.data?.message) || "Could not check delivery right now.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Fastest option first for the headline; the cheapest price is what most customers pay
+  const fastest = result?.options.reduce<ShippingOption | undefined>(
+    (best, option) => (!best || (option.etdDays ?? Infinity) < (best.etdDays ?? Infinity) ? option : best),
+    undefined
+  );
+  const cheapest = result?.options[0];
+
+  return (
+    <div className="space-y-2">
+      <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <MapPin className="w-4 h-4" /> Check delivery
+      </p>
+      <form onSubmit={handleCheck} className="flex gap-2 max-w-xs">
+        <Input
+          value={pincode}
+          onChange={(e) => setPincode(e.target.value.replace(/\D/g, ""))}
+          placeholder="Enter pincode"
+          inputMode="numeric"
+          maxLength={6}
+        />
+        <Button type="submit" variant="outline" disabled={checking}>
+          {checking ? "Checking..." : "Check"}
+        </Button>
+      </form>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+      {result && (result.options.length === 0 ? (
+        <p className="text-destructive text-sm">Sorry, we don't deliver to {result.pincode} yet.</p>
+      ) : (
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p className="flex items-center gap-2 text-foreground">
+            <Truck className="w-4 h-4" /> {formatDeliveryEstimate(fastest?.etdDays)}
+          </p>
+          {cheapest && (
+            <p>Shipping from {cheapest.rate === 0 ? "free" : formatPrice(cheapest.rate)}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PincodeChecker;
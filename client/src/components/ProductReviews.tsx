@@ -0,0 +1,239 @@
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { Camera, Loader2, X } from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+import { toastWithVoice } from "@/utils/toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import StarRating from "./StarRating";
+import { uploadImageToCloudinary } from "./cloudinary";
+
+const API_URL = import.meta.env.VITE_API_URL;
+const MAX_PHOTOS = 4;
+
+interface Review {
+  _id: string;
+  rating: number;
+  title?: string;
+  comment?: string;
+  images: string[];
+  user?: { name: string };
+  createdAt: string;
+}
+
+interface ReviewSummary {
+  averageRating: number;
+  reviewCount: number;
+  distribution: Record<string, number>;
+}
+
+interface Eligibility {
+  canReview: boolean;
+  reason?: string;
+}
+
+const ProductReviews: React.FC<{ productId: string }> = ({ productId }) => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [eligibility, setEligibility] = useState<Eligibility | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [comment, setComment] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      const res = await axios.get(`${API_URL}/api/reviews/product/${productId}`);
+      setReviews(res.data.reviews);
+      setSummary(res.data.summary);
+    } catch (err) {
+      console.error("Failed to fetch reviews", err);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  useEffect(() => {
+    if (!user) {
+      setEligibility(null);
+      return;
+    }
+    axios
+      .get(`${API_URL}/api/reviews/product/${productId}/eligibility`, { withCredentials: true })
+      .then((res) => setEligibility(res.data))
+      .catch((err) => console.error("Failed to check review eligibility", err));
+  }, [productId, user]);
+
+  const handlePhoto = async (file?: File) => {
+    if (!file) return;
+    try {
+      setUploading(true);
+      const url = await uploadImageToCloudinary(file);
+      setPhotos((prev) => [...prev, url]);
+    } catch (err) {
+      console.error(err);
+      toastWithVoice.error("Photo upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) {
+      toastWithVoice.error("Please choose a star rating");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await axios.post(
+        `${API_URL}/api/reviews/product/${productId}`,
+        { rating, title, comment, images: photos },
+        { withCredentials: true }
+      );
+      toastWithVoice.success(res.data.message);
+      setShowForm(false);
+      setEligibility({ canReview: false, reason: "Your review is awaiting approval." });
+    } catch (err) {
+      const message = axios.isAxiosError(err) && err.response?.data?.message;
+      toastWithVoice.error(message || "Failed to submit review");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const reviewCount = summary?.reviewCount ?? 0;
+
+  return (
+    <div className="mt-16 text-foreground">
+      <h2 className="text-3xl font-bold mb-4">Customer Reviews</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <span className="text-4xl font-bold">{reviewCount > 0 ? summary!.averageRating.toFixed(1) : "–"}</span>
+            <div>
+              <StarRating rating={summary?.averageRating ?? 0} size={20} />
+              <p className="text-sm text-muted-foreground">
+                {reviewCount} review{reviewCount === 1 ? "" : "s"}
+              </p>
+            </div>
+          </div>
+          {summary &&
+            [5, 4, 3, 2, 1].map((star) => {
+              const count = summary.distribution[star] || 0;
+              return (
+                <div key={star} className="flex items-center gap-2 text-sm">
+                  <span className="w-6">{star}★</span>
+                  <div className="flex-1 h-2 bg-muted rounded">
+                    <div
+                      className="h-2 bg-yellow-400 rounded"
+                      style={{ width: reviewCount ? `${(count / reviewCount) * 100}%` : 0 }}
+                    />
+                  </div>
+                  <span className="w-8 text-right text-muted-foreground">{count}</span>
+                </div>
+              );
+            })}
+
+          {eligibility?.canReview && !showForm && (
+            <Button onClick={() => setShowForm(true)} className="w-full">
+              Write a review
+            </Button>
+          )}
+          {eligibility && !eligibility.canReview && (
+            <p className="text-xs text-muted-foreground">{eligibility.reason}</p>
+          )}
+          {!user && <p className="text-xs text-muted-foreground">Log in to review products you have received.</p>}
+        </div>
+
+        <div className="md:col-span-2 space-y-6">
+          {showForm && (
+            <form onSubmit={handleSubmit} className="border rounded-lg p-4 space-y-3">
+              <StarRating rating={rating} size={28} onChange={setRating} />
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title (optional)" maxLength={120} />
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="How was the fit, fabric and finish?"
+                maxLength={2000}
+                rows={4}
+              />
+              <div className="flex gap-2 flex-wrap items-center">
+                {photos.map((url) => (
+                  <div key={url} className="relative">
+                    <img src={url} alt="Review upload" className="w-16 h-16 object-cover rounded border" />
+                    <button
+                      type="button"
+                      onClick={() => setPhotos((prev) => prev.filter((p) => p !== url))}
+                      className="absolute -top-2 -right-2 bg-red-600 text-white rounded-full p-0.5"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                {photos.length < MAX_PHOTOS && (
+                  <label className="w-16 h-16 border border-dashed rounded flex items-center justify-center cursor-pointer text-muted-foreground">
+                    {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Camera className="w-5 h-5" />}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      disabled={uploading}
+                      onChange={(e) => handlePhoto(e.target.files?.[0])}
+                    />
+                  </label>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={submitting || uploading}>
+                  {submitting ? "Submitting..." : "Submit review"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {reviews.length === 0 ? (
+            <p className="text-muted-foreground">No reviews yet.</p>
+          ) : (
+            reviews.map((review) => (
+              <div key={review._id} className="border-b pb-4">
+                <div className="flex items-center gap-2">
+                  <StarRating rating={review.rating} />
+                  {review.title && <span className="font-semibold">{review.title}</span>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {review.user?.name || "Customer"} · Verified purchase ·{" "}
+                  {new Date(review.createdAt).toLocaleDateString()}
+                </p>
+                {review.comment && <p className="mt-2 text-sm">{review.comment}</p>}
+                {review.images.length > 0 && (
+                  <div className="flex gap-2 mt-2">
+                    {review.images.map((url) => (
+                      <a key={url} href={url} target="_blank" rel="noreferrer">
+                        <img src={url} alt="Customer photo" className="w-20 h-20 object-cover rounded border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductReviews;
@@ -100,8 +100,7 @@ const handleViewDetails = (order: any) => {
           );
         })}
         
-        {/* You can create a new page for "All Orders" and link to it here */}
-        <Button variant="premium" className="w-full">
+        <Button variant="premium" className="w-full" onClick={() => navigate('/orders')}>
           View All Orders
         </Button>
       </div>
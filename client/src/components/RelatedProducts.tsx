@@ -1,5 +1,5 @@
 import React from "react";
-import { useProductContext } from "@/context/ProductContext";
+import { useCatalogue } from "@/hooks/useCatalogue";
 import ProductCard from "./ProductCard";
 
 interface Props {
@@ -7,8 +7,11 @@ interface Props {
 }
 
 const RelatedProducts: React.FC<Props> = ({ currentProduct }) => {
-  const { getRelatedProducts } = useProductContext();
-  const related = getRelatedProducts(currentProduct.category, currentProduct._id);
+  const { products: related } = useCatalogue({
+    category: currentProduct.category,
+    exclude: currentProduct._id,
+    limit: 8,
+  });
 
   if (!related.length) return null;
 
@@ -0,0 +1,226 @@
+import React, { useState } from "react";
+import axios from "axios";
+import { Camera, Loader2, X } from "lucide-react";
+import { toastWithVoice } from "@/utils/toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useProductsByIds } from "../hooks/useCatalogue";
+import { getVariantLabel } from "../utils/variants";
+import { uploadImageToCloudinary } from "./cloudinary";
+
+const API_URL = import.meta.env.VITE_API_URL;
+const MAX_PHOTOS = 4;
+
+export interface OrderLine {
+  id: string;
+  variantId?: string;
+  variantLabel?: string;
+  name: string;
+  image: string;
+  price: number;
+  quantity: number;
+}
+
+interface ReturnRequestFormProps {
+  orderId: string;
+  items: OrderLine[];
+  reasons: string[];
+  onSubmitted: () => void;
+  onCancel: () => void;
+}
+
+const lineKey = (item: OrderLine) => `${item.id}-${item.variantId || ""}`;
+
+const ReturnRequestForm: React.FC<ReturnRequestFormProps> = ({ orderId, items, reasons, onSubmitted, onCancel }) => {
+  const { products } = useProductsByIds(items.map((item) => item.id));
+  const [type, setType] = useState<"refund" | "exchange">("refund");
+  const [reason, setReason] = useState("");
+  const [comment, setComment] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [exchangeVariants, setExchangeVariants] = useState<Record<string, string>>({});
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Other sizes/colours of the same product at the same price can be swapped in
+  const exchangeOptions = (item: OrderLine) => {
+    const product = products.find((p) => p._id === item.id);
+    return (product?.variants || []).filter(
+      (v) => v._id !== item.variantId && v.price === item.price && v.stock > 0
+    );
+  };
+  const canExchange = items.some((item) => item.variantId && exchangeOptions(item).length > 0);
+
+  const handlePhoto = async (file?: File) => {
+    if (!file) return;
+    try {
+      setUploading(true);
+      const url = await uploadImageToCloudinary(file);
+      setPhotos((prev) => [...prev, url]);
+    } catch (err) {
+      console.error(err);
+      toastWithVoice.error("Photo upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const selected = items
+      .filter((item) => (quantities[lineKey(item)] || 0) > 0)
+      .map((item) => ({
+        id: item.id,
+        variantId: item.variantId,
+        quantity: quantities[lineKey(item)],
+        exchangeVariantId: type === "exchange" ? exchangeVariants[lineKey(item)] : undefined,
+      }));
+
+    if (selected.length === 0) {
+      toastWithVoice.error("Select the items you want to return");
+      return;
+    }
+    if (!reason) {
+      toastWithVoice.error("Please choose a reason");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await axios.post(
+        `${API_URL}/api/returns`,
+        { orderId, type, reason, comment, images: photos, items: selected },
+        { withCredentials: true }
+      );
+      toastWithVoice.success("Return requested. We'll review it shortly.");
+      onSubmitted();
+    } catch (err) {
+      const message = axios.isAxiosError(err) && err.response?.data?.message;
+      toastWithVoice.error(message || "Failed to request return");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 border-t pt-4 space-y-4 text-sm">
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={type === "refund"} onChange={() => setType("refund")} />
+          Refund
+        </label>
+        <label className={`flex items-center gap-2 ${canExchange ? "" : "opacity-50"}`}>
+          <input
+            type="radio"
+            checked={type === "exchange"}
+            onChange={() => setType("exchange")}
+            disabled={!canExchange}
+          />
+          Exchange for another size/colour
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {items.map((item) => {
+          const key = lineKey(item);
+          const options = exchangeOptions(item);
+          return (
+            <div key={key} className="flex flex-wrap items-center gap-3">
+              <img src={item.image} alt={item.name} className="w-10 h-12 object-cover rounded" />
+              <div className="flex-1 min-w-[140px]">
+                <p className="font-medium">{item.name}</p>
+                {item.variantLabel && <p className="text-xs text-muted-foreground">{item.variantLabel}</p>}
+              </div>
+              <select
+                value={quantities[key] || 0}
+                onChange={(e) => setQuantities((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+                className="border rounded px-2 py-1 bg-background"
+              >
+                {Array.from({ length: item.quantity + 1 }, (_, n) => (
+                  <option key={n} value={n}>
+                    {n === 0 ? "Keep" : `Return ${n}`}
+                  </option>
+                ))}
+              </select>
+              {type === "exchange" && (quantities[key] || 0) > 0 && (
+                <select
+                  value={exchangeVariants[key] || ""}
+                  onChange={(e) => setExchangeVariants((prev) => ({ ...prev, [key]: e.target.value }))}
+                  className="border rounded px-2 py-1 bg-background"
+                  required
+                >
+                  <option value="">Exchange for…</option>
+                  {options.map((variant) => (
+                    <option key={variant._id} value={variant._id}>
+                      {getVariantLabel(variant)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <select
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="w-full border rounded px-3 py-2 bg-background"
+      >
+        <option value="">Reason for return</option>
+        {reasons.map((r) => (
+          <option key={r} value={r}>
+            {r}
+          </option>
+        ))}
+      </select>
+
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Anything else we should know? (optional)"
+        maxLength={1000}
+        rows={3}
+      />
+
+      <div className="flex gap-2 flex-wrap items-center">
+        {photos.map((url) => (
+          <div key={url} className="relative">
+            <img src={url} alt="Return upload" className="w-16 h-16 object-cover rounded border" />
+            <button
+              type="button"
+              onClick={() => setPhotos((prev) => prev.filter((p) => p !== url))}
+              className="absolute -top-2 -right-2 bg-red-600 text-white rounded-full p-0.5"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        {photos.length < MAX_PHOTOS && (
+          <label className="w-16 h-16 border border-dashed rounded flex items-center justify-center cursor-pointer text-muted-foreground">
+            {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Camera className="w-5 h-5" />}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => handlePhoto(e.target.files?.[0])}
+            />
+          </label>
+        )}
+        <span className="text-xs text-muted-foreground">Photos help us approve damaged-item returns faster.</span>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={submitting || uploading}>
+          {submitting ? "Submitting..." : "Request return"}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ReturnRequestForm;
@@ -1,9 +1,12 @@
 // src/components/SearchSidebar.tsx
 import React, { useState, useEffect } from 'react';
-import { Search, X } from 'lucide-react';
+import { Clock, Search, TrendingUp, X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import ReactDOM from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useCurrency } from '@/context/CurrencyContext';
+import { usePopularSearches, useRecentSearches, useSearchSuggestions } from '@/hooks/useSearchSuggestions';
+import { categoryPath } from '@/utils/categories';
 
 // Skeleton Loader
 const SkeletonItem = () => (
@@ -18,46 +21,118 @@ interface SearchSidebarProps {
   onClose: () => void;
 }
 
+// One row of the suggestion list; rows are navigated with the arrow keys across all groups
+interface SuggestionOption {
+  key: string;
+  group: string;
+  label: string;
+  hint?: string;
+  image?: string;
+  icon?: React.ReactNode;
+  select: () => void;
+  remove?: () => void;
+}
+
 const SearchSidebar = ({ isOpen, onClose }: SearchSidebarProps) => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const navigate = useNavigate();
+  const { formatPrice } = useCurrency();
+  const { suggestions, loading } = useSearchSuggestions(searchQuery);
+  const popular = usePopularSearches();
+  const { recent, remember, forget } = useRecentSearches();
 
-  // Fetch search results
+  // Clear state when sidebar closes
   useEffect(() => {
-    const fetchResults = async () => {
-      if (!searchQuery.trim()) {
-        setSearchResults([]);
-        setLoading(false);
-        return;
-      }
+    if (!isOpen) setSearchQuery('');
+  }, [isOpen]);
 
-      setLoading(true);
-      try {
-        const res = await fetch(
-          `${import.meta.env.VITE_API_URL}/api/products/search?q=${searchQuery}`
-        );
-        const data = await res.json();
-        setSearchResults(data.slice(0, 5));
-      } catch (err) {
-        console.error('Search failed:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [searchQuery, suggestions]);
 
-    const delay = setTimeout(fetchResults, 300);
-    return () => clearTimeout(delay);
-  }, [searchQuery]);
+  const runSearch = (query: string) => {
+    if (!query.trim()) return;
+    remember(query);
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+    onClose();
+  };
 
-  // Clear state when sidebar closes
-  useEffect(() => {
-    if (!isOpen) {
-      setSearchQuery('');
-      setSearchResults([]);
+  const typed = searchQuery.trim();
+  const options: SuggestionOption[] = typed
+    ? [
+        ...(suggestions?.queries ?? []).map((query) => ({
+          key: `query-${query}`,
+          group: 'Suggestions',
+          label: query,
+          icon: <Search className="w-4 h-4 text-gray-400" />,
+          select: () => runSearch(query),
+        })),
+        ...(suggestions?.categories ?? []).map((category) => ({
+          key: `category-${category.slug}`,
+          group: 'Categories',
+          label: category.name,
+          hint: `${category.count} ${category.count === 1 ? 'product' : 'products'}`,
+          select: () => {
+            navigate(categoryPath(category.slug));
+            onClose();
+          },
+        })),
+        ...(suggestions?.products ?? []).map((product) => ({
+          key: `product-${product._id}`,
+          group: 'Products',
+          label: product.name,
+          hint: formatPrice(product.price),
+          image: product.image,
+          select: () => {
+            navigate(`/product/${product.name}`, { state: { product } });
+            onClose();
+          },
+        })),
+        {
+          key: 'search-all',
+          group: '',
+          label: `View all results for "${typed}"`,
+          select: () => runSearch(typed),
+        },
+      ]
+    : [
+        ...recent.map((query) => ({
+          key: `recent-${query}`,
+          group: 'Recent searches',
+          label: query,
+          icon: <Clock className="w-4 h-4 text-gray-400" />,
+          select: () => runSearch(query),
+          remove: () => forget(query),
+        })),
+        ...popular
+          .filter((query) => !recent.includes(query))
+          .map((query) => ({
+            key: `popular-${query}`,
+            group: 'Popular searches',
+            label: query,
+            icon: <TrendingUp className="w-4 h-4 text-gray-400" />,
+            select: () => runSearch(query),
+          })),
+      ];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && options.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % options.length);
+    } else if (e.key === 'ArrowUp' && options.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? options.length - 1 : index - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (activeIndex >= 0 && options[activeIndex]) options[activeIndex].select();
+      else runSearch(searchQuery);
+    } else if (e.key === 'Escape') {
+      onClose();
     }
-  }, [isOpen]);
+  };
+
+  const optionId = (index: number) => `search-suggestion-${index}`;
 
   // Actual sidebar portal rendering
   return ReactDOM.createPortal(
@@ -79,7 +154,7 @@ const SearchSidebar = ({ isOpen, onClose }: SearchSidebarProps) => {
             animate={{ x: 0 }}
             exit={{ x: '-100%' }}
             transition={{ type: 'tween', duration: 0.3 }}
-            className="fixed top-0 left-0 w-full max-w-sm h-full bg-white shadow-2xl z-[999] p-4 border-r border-gray-200"
+            className="fixed top-0 left-0 w-full max-w-sm h-full bg-white shadow-2xl z-[999] p-4 border-r border-gray-200 overflow-y-auto"
           >
             {/* Header */}
             <div className="flex justify-between items-center mb-4">
@@ -96,52 +171,75 @@ const SearchSidebar = ({ isOpen, onClose }: SearchSidebarProps) => {
                 placeholder="Search for products"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && searchQuery.trim()) {
-                    navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
-                    onClose();
-                  }
-                }}
+                onKeyDown={handleKeyDown}
+                autoFocus
+                role="combobox"
+                aria-expanded={options.length > 0}
+                aria-controls="search-suggestions"
+                aria-autocomplete="list"
+                aria-activedescendant={activeIndex >= 0 ? optionId(activeIndex) : undefined}
                 className="w-full pl-4 pr-12 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
               />
               <Search className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
             </div>
 
-            {/* Search Results */}
-            {loading ? (
+            {/* Suggestions */}
+            {loading && !suggestions && typed ? (
               <div className="space-y-2">
                 <SkeletonItem />
                 <SkeletonItem />
                 <SkeletonItem />
               </div>
-            ) : searchResults.length > 0 ? (
-              <div className="border border-gray-100 rounded-md shadow max-h-60 overflow-y-auto">
-                {searchResults.map((product) => (
-                  <button
-                    key={product._id}
-                    onClick={() => {
-                      navigate(`/product/${product.name}`, { state: { product } });
-                      onClose();
-                    }}
-                    className="w-full text-left px-4 py-2 hover:bg-gray-100 text-sm text-gray-700"
-                  >
-                    {product.name}
-                  </button>
-                ))}
-                <button
-                  onClick={() => {
-                    navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
-                    onClose();
-                  }}
-                  className="w-full text-left px-4 py-2 border-t border-gray-100 text-purple-600 hover:bg-purple-50 font-medium"
-                >
-                  View All Results
-                </button>
-              </div>
             ) : (
-              searchQuery.trim() && (
-                <p className="text-gray-500 text-sm px-2 mt-2">No products found.</p>
-              )
+              <ul id="search-suggestions" role="listbox" className="space-y-1">
+                {options.map((option, index) => (
+                  <React.Fragment key={option.key}>
+                    {option.group && option.group !== options[index - 1]?.group && (
+                      <li role="presentation" className="flex items-center justify-between px-2 pt-3 pb-1">
+                        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">{option.group}</span>
+                        {option.group === 'Recent searches' && (
+                          <button onClick={() => forget()} className="text-xs text-purple-600 hover:underline">
+                            Clear
+                          </button>
+                        )}
+                      </li>
+                    )}
+                    <li
+                      id={optionId(index)}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={option.select}
+                      className={`flex items-center gap-3 px-2 py-2 rounded-md cursor-pointer text-sm ${
+                        index === activeIndex ? 'bg-purple-50' : ''
+                      } ${option.key === 'search-all' ? 'border-t border-gray-100 mt-2 text-purple-600 font-medium' : 'text-gray-700'}`}
+                    >
+                      {option.image ? (
+                        <img src={option.image} alt="" className="w-10 h-10 rounded object-cover shrink-0" />
+                      ) : (
+                        option.icon
+                      )}
+                      <span className="flex-1 truncate">{option.label}</span>
+                      {option.hint && <span className="text-xs text-gray-400 shrink-0">{option.hint}</span>}
+                      {option.remove && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            option.remove?.();
+                          }}
+                          aria-label={`Remove ${option.label} from recent searches`}
+                          className="text-gray-400 hover:text-gray-600"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </li>
+                  </React.Fragment>
+                ))}
+              </ul>
+            )}
+            {typed && !loading && suggestions && options.length === 1 && (
+              <p className="text-gray-500 text-sm px-2 mt-2">No suggestions. Press Enter to search anyway.</p>
             )}
           </motion.div>
         </>
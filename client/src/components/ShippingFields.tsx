@@ -0,0 +1,40 @@
+import React from "react";
+import type { ShippingFieldValues } from "../utils/shipping";
+
+interface ShippingFieldsProps {
+  values: ShippingFieldValues;
+  onChange: (values: ShippingFieldValues) => void;
+}
+
+const fields: { key: keyof ShippingFieldValues; label: string; placeholder: string }[] = [
+  { key: "weight", label: "Weight (kg)", placeholder: "0.5" },
+  { key: "length", label: "Length (cm)", placeholder: "10" },
+  { key: "breadth", label: "Breadth (cm)", placeholder: "10" },
+  { key: "height", label: "Height (cm)", placeholder: "10" },
+];
+
+// Per-unit parcel size used to book couriers and quote shipping rates
+const ShippingFields: React.FC<ShippingFieldsProps> = ({ values, onChange }) => (
+  <div>
+    <label className="block font-medium mb-1">Shipping (per unit, packed)</label>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {fields.map((field) => (
+        <div key={field.key}>
+          <span className="block text-xs text-gray-600 mb-1">{field.label}</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={values[field.key]}
+            onChange={(e) => onChange({ ...values, [field.key]: e.target.value })}
+            className="w-full border border-gray-300 rounded px-3 py-2"
+            placeholder={field.placeholder}
+          />
+        </div>
+      ))}
+    </div>
+    <p className="text-xs text-gray-500 mt-1">Leave blank to use the default 0.5 kg, 10×10×10 cm box.</p>
+  </div>
+);
+
+export default ShippingFields;
@@ -4,6 +4,9 @@ import {
   X, Home, Store, Info, Phone, ArrowLeft,
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useCategoryList } from '@/hooks/useCategories';
+import { categoryPath } from '@/utils/categories';
+import { collectionPath } from '@/utils/collections';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -15,6 +18,7 @@ interface SidebarProps {
 const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(
   ({ isOpen, onClose, isCategoryPage = false, categories = [] }, ref) => {
     const navigate = useNavigate();
+    const { categories: fabrics } = useCategoryList();
     const [activeTab, setActiveTab] = useState<'menu' | 'categories' | 'fabrics'>(isCategoryPage ? 'categories' : 'menu');
 
     const menuItems = [
@@ -26,12 +30,10 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(
 
     const mainCategories = [
       { label: 'Fabrics', type: 'fabrics' },
-      { label: 'New Arrivals', href: '/new-arrivals' },
-      { label: 'CEO Collections', href: '/ceo-collections' },
+      { label: 'New Arrivals', href: collectionPath('new-arrivals') },
+      { label: 'CEO Collections', href: collectionPath('ceo-collections') },
     ];
 
-    const fabrics = ['Cotton', 'Silk', 'Crape', 'Kota', 'Georgette', 'Tusser', 'Handlooms'];
-
     useEffect(() => {
       if (!isOpen) setActiveTab('menu');
     }, [isOpen]);
@@ -158,16 +160,19 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(
                 <ArrowLeft className="w-4 h-4" />
                 <span>Back to Categories</span>
               </button>
-              {fabrics.map((fabric, index) => (
+              {fabrics.map((fabric) => (
                 <button
-                  key={index}
+                  key={fabric._id}
                   onClick={() => {
-                    navigate(`/fabrics/${fabric.toLowerCase()}`);
+                    navigate(categoryPath(fabric.slug));
                     onClose();
                   }}
-                  className="w-full text-left p-3 rounded-lg hover:bg-gray-100 text-gray-800 hover:text-purple-600 font-medium"
+                  style={{ paddingLeft: `${0.75 + fabric.depth}rem` }}
+                  className={`w-full text-left p-3 rounded-lg hover:bg-gray-100 text-gray-800 hover:text-purple-600 ${
+                    fabric.depth === 0 ? 'font-medium' : 'text-sm'
+                  }`}
                 >
-                  {fabric}
+                  {fabric.name}
                 </button>
               ))}
             </div>
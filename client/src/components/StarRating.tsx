@@ -0,0 +1,35 @@
+import React from "react";
+import { Star } from "lucide-react";
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  onChange?: (rating: number) => void; // makes the stars clickable (review form)
+  className?: string;
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ rating, size = 16, onChange, className = "" }) => (
+  <div className={`flex items-center gap-0.5 ${className}`}>
+    {[1, 2, 3, 4, 5].map((star) => {
+      // Half stars are shown by clipping a filled star over an empty one
+      const fill = Math.max(0, Math.min(1, rating - star + 1));
+      const icon = (
+        <span className="relative inline-block" style={{ width: size, height: size }}>
+          <Star className="absolute inset-0 text-gray-300" style={{ width: size, height: size }} />
+          <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+            <Star className="text-yellow-400 fill-yellow-400" style={{ width: size, height: size }} />
+          </span>
+        </span>
+      );
+      return onChange ? (
+        <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} star`}>
+          {icon}
+        </button>
+      ) : (
+        <React.Fragment key={star}>{icon}</React.Fragment>
+      );
+    })}
+  </div>
+);
+
+export default StarRating;
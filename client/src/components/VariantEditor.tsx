@@ -0,0 +1,250 @@
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import { uploadImageToCloudinary } from "./cloudinary";
+import type { ProductOption, ProductVariant } from "../utils/catalogue";
+import { buildVariantCombinations, cleanOptions, getVariantLabel } from "../utils/variants";
+
+const suggestedOptions = ["Size", "Colour", "Fabric"];
+
+interface VariantEditorProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  onOptionsChange: (options: ProductOption[]) => void;
+  onVariantsChange: (variants: ProductVariant[]) => void;
+  basePrice: number;
+  skuPrefix: string;
+}
+
+const toSkuPart = (value: string) =>
+  value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+const VariantEditor: React.FC<VariantEditorProps> = ({
+  options,
+  variants,
+  onOptionsChange,
+  onVariantsChange,
+  basePrice,
+  skuPrefix,
+}) => {
+  const [uploadingIndex, setUploadingIndex] = useState<number | null>(null);
+
+  const updateOption = (index: number, changes: Partial<ProductOption>) => {
+    onOptionsChange(options.map((opt, i) => (i === index ? { ...opt, ...changes } : opt)));
+  };
+
+  const addOption = () => {
+    const nextName = suggestedOptions.find((name) => !options.some((o) => o.name === name)) || "";
+    onOptionsChange([...options, { name: nextName, values: [] }]);
+  };
+
+  const removeOption = (index: number) => {
+    onOptionsChange(options.filter((_, i) => i !== index));
+  };
+
+  const updateVariant = (index: number, changes: Partial<ProductVariant>) => {
+    onVariantsChange(variants.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  // Builds one SKU row per option combination, keeping rows (and their stock) that already exist.
+  const generateVariants = () => {
+    const cleaned = cleanOptions(options);
+    if (cleaned.length === 0) {
+      toast.error("Add at least one option with values first");
+      return;
+    }
+    const prefix = toSkuPart(skuPrefix) || "SKU";
+    const generated = buildVariantCombinations(cleaned).map((attributes) => {
+      const existing = variants.find((v) =>
+        cleaned.every((opt) => v.attributes?.[opt.name] === attributes[opt.name])
+      );
+      return (
+        existing || {
+          sku: [prefix, ...Object.values(attributes).map(toSkuPart)].join("-"),
+          attributes,
+          price: basePrice || 0,
+          stock: 0,
+          images: [],
+        }
+      );
+    });
+    onOptionsChange(cleaned);
+    onVariantsChange(generated);
+  };
+
+  const handleVariantImage = async (index: number, file?: File) => {
+    if (!file) return;
+    try {
+      setUploadingIndex(index);
+      const url = await uploadImageToCloudinary(file);
+      updateVariant(index, { images: [...(variants[index].images || []), url] });
+    } catch (err) {
+      console.error(err);
+      toast.error("Image upload failed");
+    } finally {
+      setUploadingIndex(null);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold">Variants (optional)</h3>
+        <p className="text-sm text-gray-500">
+          Add options such as Size or Colour, then generate one SKU per combination. When variants exist,
+          the product price and stock are taken from them.
+        </p>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={index} className="grid grid-cols-1 sm:grid-cols-[180px_1fr_auto] gap-3 items-center">
+          <input
+            type="text"
+            value={option.name}
+            onChange={(e) => updateOption(index, { name: e.target.value })}
+            className="w-full border border-gray-300 rounded px-3 py-2"
+            placeholder="Option name"
+            list="variant-option-names"
+          />
+          <input
+            type="text"
+            value={option.values.join(",")}
+            onChange={(e) => updateOption(index, { values: e.target.value.split(",") })}
+            className="w-full border border-gray-300 rounded px-3 py-2"
+            placeholder="Values, comma separated (e.g. S, M, L)"
+          />
+          <button
+            type="button"
+            onClick={() => removeOption(index)}
+            className="text-red-600 hover:text-red-700 text-sm"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <datalist id="variant-option-names">
+        {suggestedOptions.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={addOption}
+          className="border border-blue-600 text-blue-600 px-4 py-1.5 rounded-md hover:bg-blue-50 text-sm"
+        >
+          + Add Option
+        </button>
+        <button
+          type="button"
+          onClick={generateVariants}
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-md hover:bg-blue-700 text-sm"
+        >
+          Generate SKUs
+        </button>
+        {variants.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onVariantsChange([])}
+            className="text-red-600 hover:text-red-700 text-sm"
+          >
+            Clear SKUs
+          </button>
+        )}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2 pr-3">Variant</th>
+                <th className="py-2 pr-3">SKU</th>
+                <th className="py-2 pr-3">Price (₹)</th>
+                <th className="py-2 pr-3">Stock</th>
+                <th className="py-2 pr-3">Images</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant, index) => (
+                <tr key={variant._id || index} className="border-b align-top">
+                  <td className="py-2 pr-3 whitespace-nowrap">{getVariantLabel(variant)}</td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="text"
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                      required
+                      className="w-40 border border-gray-300 rounded px-2 py-1"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min="0"
+                      value={variant.price}
+                      onChange={(e) => updateVariant(index, { price: Number(e.target.value) })}
+                      required
+                      className="w-24 border border-gray-300 rounded px-2 py-1"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min="0"
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(index, { stock: Number(e.target.value) })}
+                      required
+                      className="w-20 border border-gray-300 rounded px-2 py-1"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="flex gap-2 items-center flex-wrap">
+                      {(variant.images || []).map((url, imgIndex) => (
+                        <div key={url} className="relative">
+                          <img src={url} alt={`${variant.sku}-${imgIndex}`} className="w-10 h-10 object-cover rounded border" />
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateVariant(index, { images: variant.images?.filter((_, i) => i !== imgIndex) })
+                            }
+                            className="absolute -top-2 -right-2 bg-red-600 text-white text-xs rounded-full w-4 h-4 flex items-center justify-center"
+                            title="Remove"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      ))}
+                      <label className="text-blue-600 hover:underline cursor-pointer text-xs">
+                        {uploadingIndex === index ? "Uploading..." : "+ Image"}
+                        <input
+                          type="file"
+                          accept="image/*"
+                          className="hidden"
+                          disabled={uploadingIndex !== null}
+                          onChange={(e) => handleVariantImage(index, e.target.files?.[0])}
+                        />
+                      </label>
+                    </div>
+                  </td>
+                  <td className="py-2">
+                    <button
+                      type="button"
+                      onClick={() => onVariantsChange(variants.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantEditor;
@@ -6,6 +6,7 @@ import {
   ReactNode,
 } from 'react';
 import axios from 'axios';
+import { guestCartForLogin, settleGuestCart, type CartMerge } from '../utils/cartMerge';
 
 const API_URL = import.meta.env.VITE_API_URL;
 
@@ -26,8 +27,9 @@ interface AuthContextType {
   user: User | null;
   loading: boolean;
   register: (userData: { name: string; email: string; password?: string }) => Promise<void>;
-  login: (credentials: { email: string; password: string }) => Promise<void>;
-  googleLogin: (token: string) => Promise<void>;
+  // Both resolve with what happened to the guest cart, if there was one
+  login: (credentials: { email: string; password: string }) => Promise<CartMerge | null>;
+  googleLogin: (token: string) => Promise<CartMerge | null>;
   logout: () => Promise<void>;
   updateUserAvatar: (newAvatarUrl: string) => void;
   updateUser: (updatedData: Partial<User>) => void; // Function to update any part of the user object
@@ -38,8 +40,8 @@ const AuthContext = createContext<AuthContextType>({
   user: null,
   loading: true,
   register: async () => {},
-  login: async () => {},
-  googleLogin: async () => {},
+  login: async () => null,
+  googleLogin: async () => null,
   logout: async () => {},
   updateUserAvatar: () => {},
   updateUser: () => {}, // Provide default for the new function
@@ -79,21 +81,25 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const login = async (credentials: { email: string; password: string }) => {
-    const res = await axios.post(`${API_URL}/api/auth/login`, credentials, {
+    const res = await axios.post(`${API_URL}/api/auth/login`, { ...credentials, cart: guestCartForLogin() }, {
       withCredentials: true,
     });
     if (res.data.success) {
+      settleGuestCart(res.data.cartMerge);
       setUser(res.data.user);
     }
+    return res.data.cartMerge ?? null;
   };
 
   const googleLogin = async (token: string) => {
-    const res = await axios.post(`${API_URL}/api/auth/google-login`, { token }, {
+    const res = await axios.post(`${API_URL}/api/auth/google-login`, { token, cart: guestCartForLogin() }, {
       withCredentials: true,
     });
     if (res.data.success) {
+      settleGuestCart(res.data.cartMerge);
       setUser(res.data.user);
     }
+    return res.data.cartMerge ?? null;
   };
 
   const logout = async () => {
@@ -3,11 +3,15 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useRef,
   ReactNode,
 } from "react";
 import axios from "axios";
 import { useAuth } from "./AuthContext";
 import { cookieStorage } from "../utils/cookieStorage";
+import { GUEST_CART_COOKIE } from "../utils/cartMerge";
+import { findVariantById, getVariantLabel, isSameCartLine } from "../utils/variants";
+import type { CartIssue } from "../utils/cartValidation";
 
 const API_URL = import.meta.env.VITE_API_URL;
 
@@ -18,17 +22,24 @@ export interface CartItem {
   price: number;
   image: string;
   quantity: number;
+  variantId?: string; // Product.variants._id for products sold in sizes/colours
+  sku?: string;
+  variantLabel?: string;
 }
 
 // Define the shape of the context
 interface CartContextType {
   cartItems: CartItem[];
   addToCart: (item: CartItem) => Promise<void>;
-  removeFromCart: (id: string) => Promise<void>;
-  updateQuantity: (id: string, quantity: number) => Promise<void>;
+  removeFromCart: (id: string, variantId?: string) => Promise<void>;
+  updateQuantity: (id: string, quantity: number, variantId?: string) => Promise<void>;
   getTotalPrice: () => number;
   clearCart: () => Promise<void>;
   refreshCart: () => Promise<void>;
+  resolveCartIssues: (issues: CartIssue[]) => Promise<void>;
+  couponCode: string | null;
+  applyCoupon: (code: string) => void;
+  removeCoupon: () => void;
 }
 
 // Create the context
@@ -37,24 +48,36 @@ const CartContext = createContext<CartContextType | undefined>(undefined);
 // Cart provider component
 export const CartProvider = ({ children }: { children: ReactNode }) => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  // Applied on the cart page and carried through to checkout, where the server re-validates it
+  const [couponCode, setCouponCode] = useState<string | null>(() => cookieStorage.getItem("coupon"));
   const { user } = useAuth();
+  // Whether cartItems is the guest cart; only that one is kept in a cookie
+  const isGuestCart = useRef(!user);
 
   // Transform database cart to CartItem format
   const transformDbCartToCartItems = (dbCart: any[]): CartItem[] => {
-    return dbCart.map((item) => ({
-      id: item.product._id,
-      name: item.product.name,
-      price: item.product.price,
-      image: item.product.image,
-      quantity: item.quantity,
-    }));
+    return dbCart.map((item) => {
+      const variant = findVariantById(item.product, item.variantId);
+      return {
+        id: item.product._id,
+        name: item.product.name,
+        price: variant?.price ?? item.product.price,
+        image: variant?.images?.[0] || item.product.image,
+        quantity: item.quantity,
+        ...(variant && {
+          variantId: variant._id,
+          sku: variant.sku,
+          variantLabel: getVariantLabel(variant),
+        }),
+      };
+    });
   };
 
   // Refresh cart from database
   const refreshCart = async () => {
     if (!user) {
       setCartItems([]);
-      cookieStorage.removeItem("cart");
+      cookieStorage.removeItem(GUEST_CART_COOKIE);
       return;
     }
 
@@ -65,25 +88,20 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       if (response.data.success) {
         const transformedCart = transformDbCartToCartItems(response.data.cart);
         setCartItems(transformedCart);
-        cookieStorage.setJSON("cart", transformedCart);
       }
     } catch (error) {
       console.error("Error fetching cart:", error);
-      // Fallback to cookies if user is logged in but API fails
-      const savedCart = cookieStorage.getJSON<CartItem[]>("cart");
-      if (savedCart) {
-        setCartItems(savedCart);
-      }
     }
   };
 
   // Load cart on user change
   useEffect(() => {
+    isGuestCart.current = !user;
     if (user) {
       refreshCart();
     } else {
       // If not logged in, load from cookies
-      const savedCart = cookieStorage.getJSON<CartItem[]>("cart");
+      const savedCart = cookieStorage.getJSON<CartItem[]>(GUEST_CART_COOKIE);
       if (savedCart) {
         setCartItems(savedCart);
       } else {
@@ -92,9 +110,9 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [user]);
 
-  // Save cart to cookies on every change (for offline fallback)
+  // Keep the guest cart in a cookie on every change; account carts live on the server
   useEffect(() => {
-    cookieStorage.setJSON("cart", cartItems);
+    if (isGuestCart.current) cookieStorage.setJSON(GUEST_CART_COOKIE, cartItems);
   }, [cartItems]);
 
   // Add item to cart
@@ -105,6 +123,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
           `${API_URL}/api/users/cart`,
           {
             productId: item.id,
+            variantId: item.variantId,
             quantity: item.quantity,
           },
           { withCredentials: true }
@@ -117,10 +136,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         console.error("Error adding to cart:", error);
         // Fallback to local state update
         setCartItems((prev) => {
-          const existing = prev.find((i) => i.id === item.id);
+          const existing = prev.find((i) => isSameCartLine(i, item.id, item.variantId));
           if (existing) {
             return prev.map((i) =>
-              i.id === item.id
+              isSameCartLine(i, item.id, item.variantId)
                 ? { ...i, quantity: i.quantity + item.quantity }
                 : i
             );
@@ -132,10 +151,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     } else {
       // Not logged in, update cookies only
       setCartItems((prev) => {
-        const existing = prev.find((i) => i.id === item.id);
+        const existing = prev.find((i) => isSameCartLine(i, item.id, item.variantId));
         if (existing) {
           return prev.map((i) =>
-            i.id === item.id
+            isSameCartLine(i, item.id, item.variantId)
               ? { ...i, quantity: i.quantity + item.quantity }
               : i
           );
@@ -146,11 +165,12 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  // Remove item by ID
-  const removeFromCart = async (id: string) => {
+  // Remove item by ID (and variant, if any)
+  const removeFromCart = async (id: string, variantId?: string) => {
     if (user) {
       try {
         const response = await axios.delete(`${API_URL}/api/users/cart/${id}`, {
+          params: variantId ? { variantId } : undefined,
           withCredentials: true,
         });
         if (response.data.success) {
@@ -160,18 +180,18 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       } catch (error) {
         console.error("Error removing from cart:", error);
         // Fallback to local state update
-        setCartItems((prev) => prev.filter((item) => item.id !== id));
+        setCartItems((prev) => prev.filter((item) => !isSameCartLine(item, id, variantId)));
       }
     } else {
       // Not logged in, update cookies only
-      setCartItems((prev) => prev.filter((item) => item.id !== id));
+      setCartItems((prev) => prev.filter((item) => !isSameCartLine(item, id, variantId)));
     }
   };
 
   // Update quantity (or remove if zero)
-  const updateQuantity = async (id: string, quantity: number) => {
+  const updateQuantity = async (id: string, quantity: number, variantId?: string) => {
     if (quantity <= 0) {
-      await removeFromCart(id);
+      await removeFromCart(id, variantId);
       return;
     }
 
@@ -181,6 +201,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
           `${API_URL}/api/users/cart`,
           {
             productId: id,
+            variantId,
             quantity: quantity,
           },
           { withCredentials: true }
@@ -194,7 +215,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         // Fallback to local state update
         setCartItems((prev) =>
           prev.map((item) =>
-            item.id === id ? { ...item, quantity } : item
+            isSameCartLine(item, id, variantId) ? { ...item, quantity } : item
           )
         );
       }
@@ -202,18 +223,52 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       // Not logged in, update cookies only
       setCartItems((prev) =>
         prev.map((item) =>
-          item.id === id ? { ...item, quantity } : item
+          isSameCartLine(item, id, variantId) ? { ...item, quantity } : item
         )
       );
     }
   };
 
+  // Accepts what cart validation found: drops gone and sold-out lines, lowers quantities to the
+  // stock left and takes on the current prices
+  const resolveCartIssues = async (issues: CartIssue[]) => {
+    for (const issue of issues) {
+      if (issue.type === "deleted" || issue.type === "out_of_stock") {
+        await removeFromCart(issue.id, issue.variantId);
+      } else if (issue.type === "low_stock") {
+        await updateQuantity(issue.id, issue.available ?? 0, issue.variantId);
+      }
+    }
+    const repriced = issues.filter((issue) => issue.type === "price_changed");
+    if (repriced.length > 0) {
+      setCartItems((prev) =>
+        prev.map((item) => {
+          const issue = repriced.find((i) => isSameCartLine(item, i.id, i.variantId));
+          return issue?.price !== undefined ? { ...item, price: issue.price } : item;
+        })
+      );
+    }
+  };
+
+  const applyCoupon = (code: string) => {
+    const normalized = code.trim().toUpperCase();
+    if (!normalized) return;
+    setCouponCode(normalized);
+    cookieStorage.setItem("coupon", normalized);
+  };
+
+  const removeCoupon = () => {
+    setCouponCode(null);
+    cookieStorage.removeItem("coupon");
+  };
+
   // Calculate total
   const getTotalPrice = () =>
     cartItems.reduce((total, item) => total + item.price * item.quantity, 0);
 
   // Clear entire cart
   const clearCart = async () => {
+    removeCoupon();
     if (user) {
       try {
         await axios.delete(`${API_URL}/api/users/cart`, {
@@ -242,6 +297,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         getTotalPrice,
         clearCart,
         refreshCart,
+        resolveCartIssues,
+        couponCode,
+        applyCoupon,
+        removeCoupon,
       }}
     >
       {children}
@@ -0,0 +1,57 @@
+// 📁 src/hooks/useCartQuote.ts
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import type { CartItem } from '../context/CartContext';
+import type { PaymentMethod, PriceQuote } from '../utils/pricing';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// Fetches the server's price quote whenever the cart or the applied coupon changes. With a
+// delivery pincode the quote uses live courier rates, the chosen delivery option and, for cash on
+// delivery, the COD fee. The server reads the customer from the session; `userId` only refetches
+// the quote when they log in or out.
+export const useCartQuote = (
+  cartItems: CartItem[],
+  couponCode?: string | null,
+  userId?: string,
+  delivery: { pincode?: string; shippingOptionId?: string; paymentMethod?: PaymentMethod } = {}
+) => {
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the fields the server prices from; a changed display price must not refetch
+  const cartKey = JSON.stringify(cartItems.map(({ id, variantId, quantity }) => ({ id, variantId, quantity })));
+
+  const { pincode, shippingOptionId, paymentMethod } = delivery;
+
+  const refreshQuote = useCallback(async () => {
+    const lines = JSON.parse(cartKey);
+    if (lines.length === 0) {
+      setQuote(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.post(
+        `${API_URL}/api/checkout/quote`,
+        { cartItems: lines, couponCode, pincode, shippingOptionId, paymentMethod },
+        { withCredentials: true }
+      );
+      setQuote(res.data.quote);
+      setError(null);
+    } catch (err) {
+      setError((axios.isAxiosError(err) && err.response?.data?.error) || 'Could not price your cart.');
+      // A quote for another pincode must not be used to place the order
+      if (pincode) setQuote(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [cartKey, couponCode, pincode, shippingOptionId, paymentMethod]);
+
+  useEffect(() => {
+    refreshQuote();
+  }, [refreshQuote, userId]);
+
+  return { quote, setQuote, loading, error, refreshQuote };
+};
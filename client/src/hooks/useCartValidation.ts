@@ -0,0 +1,58 @@
+// 📁 src/hooks/useCartValidation.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { io } from 'socket.io-client';
+import type { CartItem } from '../context/CartContext';
+import type { CartIssue } from '../utils/cartValidation';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// Checks the cart against live stock and prices whenever it changes, and again whenever the
+// server reports that one of its products was edited, deleted or sold.
+export const useCartValidation = (cartItems: CartItem[]) => {
+  const [issues, setIssues] = useState<CartIssue[]>([]);
+  const [checking, setChecking] = useState(false);
+
+  // The snapshot price is part of the key: a fixed price must clear its issue
+  const cartKey = JSON.stringify(cartItems.map(({ id, variantId, quantity, price }) => ({ id, variantId, quantity, price })));
+
+  const validate = useCallback(async () => {
+    const lines = JSON.parse(cartKey);
+    if (lines.length === 0) {
+      setIssues([]);
+      return;
+    }
+    setChecking(true);
+    try {
+      const res = await axios.post(`${API_URL}/api/checkout/validate-cart`, { cartItems: lines }, { withCredentials: true });
+      setIssues(res.data.issues);
+    } catch (err) {
+      // Checkout re-checks stock and prices anyway, so a failed check must not block it
+      console.error('Failed to validate cart', err);
+    } finally {
+      setChecking(false);
+    }
+  }, [cartKey]);
+
+  useEffect(() => {
+    validate();
+  }, [validate]);
+
+  // The socket handler reads these, so it can stay subscribed while the cart changes
+  const productIdsRef = useRef(new Set<string>());
+  const validateRef = useRef(validate);
+  productIdsRef.current = new Set((JSON.parse(cartKey) as CartItem[]).map((line) => line.id));
+  validateRef.current = validate;
+
+  useEffect(() => {
+    const socket = io(API_URL, { withCredentials: true });
+    socket.on('cartProductsChanged', (payload: { productIds: string[] }) => {
+      if (payload.productIds.some((id) => productIdsRef.current.has(id))) validateRef.current();
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+
+  return { issues, checking, revalidate: validate };
+};
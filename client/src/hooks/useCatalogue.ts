@@ -0,0 +1,95 @@
+// 📁 src/hooks/useCatalogue.ts
+import { useCallback, useRef } from 'react';
+import { keepPreviousData, useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  PRODUCTS_QUERY_KEY,
+  fetchAllProducts,
+  fetchCataloguePage,
+  fetchCategories,
+  fetchProductsByIds,
+  type CatalogueFilters,
+} from '../utils/catalogue';
+
+// Listings stay fresh for a minute; going back to a page shows the cached products straight away
+const STALE_TIME_MS = 60 * 1000;
+
+// One filtered, sorted listing, fetched a page at a time as the shopper scrolls
+export const useCatalogue = (filters: CatalogueFilters, enabled = true) => {
+  const query = useInfiniteQuery({
+    queryKey: [PRODUCTS_QUERY_KEY, 'list', filters],
+    queryFn: ({ pageParam }) => fetchCataloguePage(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    staleTime: STALE_TIME_MS,
+    enabled,
+  });
+
+  return {
+    products: query.data?.pages.flatMap((page) => page.products) ?? [],
+    loading: query.isPending && enabled,
+    loadingMore: query.isFetchingNextPage,
+    hasMore: query.hasNextPage,
+    loadMore: query.fetchNextPage,
+    error: query.error,
+  };
+};
+
+// Specific products, e.g. the ones in the wishlist or the cart
+export const useProductsByIds = (ids: string[]) => {
+  const key = [...new Set(ids)].sort();
+  const query = useQuery({
+    queryKey: [PRODUCTS_QUERY_KEY, 'ids', key],
+    queryFn: () => fetchProductsByIds(key),
+    enabled: key.length > 0,
+    staleTime: STALE_TIME_MS,
+    // Adding or removing one ID keeps showing the others while the new list loads
+    placeholderData: keepPreviousData,
+  });
+  return { products: query.data ?? [], loading: query.isPending && key.length > 0 };
+};
+
+// Every product; only for admin screens
+export const useAllProducts = () => {
+  const query = useQuery({
+    queryKey: [PRODUCTS_QUERY_KEY, 'all'],
+    queryFn: fetchAllProducts,
+  });
+  return { products: query.data ?? [], loading: query.isPending };
+};
+
+// Refetches every cached product query; call after adding, editing or deleting products
+export const useReloadProducts = () => {
+  const queryClient = useQueryClient();
+  return useCallback(() => queryClient.invalidateQueries({ queryKey: [PRODUCTS_QUERY_KEY] }), [queryClient]);
+};
+
+export const useCategories = () => {
+  const query = useQuery({
+    queryKey: [PRODUCTS_QUERY_KEY, 'categories'],
+    queryFn: fetchCategories,
+    staleTime: STALE_TIME_MS,
+  });
+  return query.data ?? [];
+};
+
+// Returns a ref for an element at the end of a list; calls onLoadMore when it scrolls into view
+export const useInfiniteScroll = (onLoadMore: () => void, enabled: boolean) => {
+  const observer = useRef<IntersectionObserver | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  return useCallback(
+    (node: HTMLElement | null) => {
+      observer.current?.disconnect();
+      if (!node || !enabled) return;
+      observer.current = new IntersectionObserver(
+        (entries) => {
+          if (entries[0]?.isIntersecting) onLoadMoreRef.current();
+        },
+        { rootMargin: '400px' }
+      );
+      observer.current.observe(node);
+    },
+    [enabled]
+  );
+};
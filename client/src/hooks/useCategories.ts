@@ -0,0 +1,62 @@
+// 📁 src/hooks/useCategories.ts
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import {
+  CATEGORIES_QUERY_KEY,
+  fetchAdminCategories,
+  fetchCategoryList,
+  fetchCategoryPage,
+} from '../utils/categories';
+import { PRODUCTS_QUERY_KEY } from '../utils/catalogue';
+
+// Categories change rarely
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+// Storefront categories in tree order, each with its depth
+export const useCategoryList = () => {
+  const query = useQuery({
+    queryKey: [CATEGORIES_QUERY_KEY, 'list'],
+    queryFn: fetchCategoryList,
+    staleTime: STALE_TIME_MS,
+  });
+  return { categories: query.data ?? [], loading: query.isPending };
+};
+
+// One category page; `notFound` once the server says there is no such (visible) category
+export const useCategoryPage = (slug: string | undefined) => {
+  const query = useQuery({
+    queryKey: [CATEGORIES_QUERY_KEY, 'page', slug],
+    queryFn: () => fetchCategoryPage(slug!),
+    enabled: !!slug,
+    staleTime: STALE_TIME_MS,
+    retry: (failureCount, err) => !(axios.isAxiosError(err) && err.response?.status === 404) && failureCount < 3,
+  });
+  return {
+    category: query.data,
+    loading: query.isPending && !!slug,
+    notFound: axios.isAxiosError(query.error) && query.error.response?.status === 404,
+  };
+};
+
+// Every category, hidden ones included, for the admin panel and product forms
+export const useAdminCategories = () => {
+  const query = useQuery({
+    queryKey: [CATEGORIES_QUERY_KEY, 'admin'],
+    queryFn: fetchAdminCategories,
+  });
+  return { categories: query.data ?? [], loading: query.isPending };
+};
+
+// Refetches categories, and products (whose category names follow a rename); call after any change
+export const useReloadCategories = () => {
+  const queryClient = useQueryClient();
+  return useCallback(
+    () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: [CATEGORIES_QUERY_KEY] }),
+        queryClient.invalidateQueries({ queryKey: [PRODUCTS_QUERY_KEY] }),
+      ]),
+    [queryClient]
+  );
+};
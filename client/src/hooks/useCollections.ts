@@ -0,0 +1,78 @@
+// 📁 src/hooks/useCollections.ts
+import { useCallback } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import {
+  COLLECTIONS_QUERY_KEY,
+  fetchAdminCollections,
+  fetchCollectionPage,
+  fetchCollectionProducts,
+  type CollectionSort,
+} from '../utils/collections';
+import { PRODUCTS_QUERY_KEY } from '../utils/catalogue';
+
+const STALE_TIME_MS = 60 * 1000;
+
+// A collection that is switched off or out of its dates answers 404; asking again won't help
+const retryUnlessNotFound = (failureCount: number, err: Error) =>
+  !(axios.isAxiosError(err) && err.response?.status === 404) && failureCount < 3;
+
+// One collection page; `notFound` once the server says there is no such collection on show
+export const useCollectionPage = (slug: string | undefined) => {
+  const query = useQuery({
+    queryKey: [COLLECTIONS_QUERY_KEY, 'page', slug],
+    queryFn: () => fetchCollectionPage(slug!),
+    enabled: !!slug,
+    staleTime: STALE_TIME_MS,
+    retry: retryUnlessNotFound,
+  });
+  return {
+    collection: query.data,
+    loading: query.isPending && !!slug,
+    notFound: axios.isAxiosError(query.error) && query.error.response?.status === 404,
+  };
+};
+
+// A collection's products, fetched a page at a time; `sort` defaults to the collection's own.
+// Cached with the other product queries so product changes refresh it too.
+export const useCollectionProducts = (slug: string | undefined, sort?: CollectionSort) => {
+  const query = useInfiniteQuery({
+    queryKey: [PRODUCTS_QUERY_KEY, 'collection', slug, sort ?? 'default'],
+    queryFn: ({ pageParam }) => fetchCollectionProducts(slug!, sort, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!slug,
+    staleTime: STALE_TIME_MS,
+    retry: retryUnlessNotFound,
+  });
+
+  return {
+    products: query.data?.pages.flatMap((page) => page.products) ?? [],
+    loading: query.isPending && !!slug,
+    loadingMore: query.isFetchingNextPage,
+    hasMore: query.hasNextPage,
+    loadMore: query.fetchNextPage,
+  };
+};
+
+// Every collection, with whether each is live; only for the admin editor
+export const useAdminCollections = () => {
+  const query = useQuery({
+    queryKey: [COLLECTIONS_QUERY_KEY, 'admin'],
+    queryFn: fetchAdminCollections,
+  });
+  return { collections: query.data ?? [], loading: query.isPending };
+};
+
+// Refetches every cached collection query, and the product listings drawn from them
+export const useReloadCollections = () => {
+  const queryClient = useQueryClient();
+  return useCallback(
+    () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: [COLLECTIONS_QUERY_KEY] }),
+        queryClient.invalidateQueries({ queryKey: [PRODUCTS_QUERY_KEY, 'collection'] }),
+      ]),
+    [queryClient]
+  );
+};
@@ -0,0 +1,91 @@
+// 📁 src/hooks/useSearchSuggestions.ts
+import { useCallback, useEffect, useState } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../context/AuthContext';
+import {
+  addRecentSearch,
+  fetchPopularSearches,
+  fetchRecentSearches,
+  fetchSuggestions,
+  forgetRecentSearch,
+  rememberGuestSearch,
+} from '../utils/searchSuggestions';
+
+const DEBOUNCE_MS = 250;
+
+// Suggestions for the search box, asked for once typing pauses. Answers are cached, so deleting
+// back to an earlier prefix is instant.
+export const useSearchSuggestions = (text: string) => {
+  const [debounced, setDebounced] = useState(text.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(text.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const query = useQuery({
+    queryKey: ['search', 'suggest', debounced.toLowerCase()],
+    queryFn: () => fetchSuggestions(debounced),
+    enabled: debounced.length > 0,
+    staleTime: 60 * 1000,
+    // Keep the last list on screen while the next one loads
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    suggestions: debounced.length > 0 ? query.data : undefined,
+    loading: text.trim() !== debounced || query.isFetching,
+  };
+};
+
+export const usePopularSearches = () => {
+  const query = useQuery({
+    queryKey: ['search', 'popular'],
+    queryFn: fetchPopularSearches,
+    staleTime: 5 * 60 * 1000,
+  });
+  return query.data ?? [];
+};
+
+// The customer's recent searches: from the server when logged in, from this browser for guests
+export const useRecentSearches = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const loggedIn = !!user;
+  const owner = user?._id ?? 'guest';
+
+  const query = useQuery({
+    queryKey: ['search', 'recent', owner],
+    queryFn: () => fetchRecentSearches(loggedIn),
+  });
+
+  const updateList = useCallback(
+    (update: (searches: string[]) => string[]) =>
+      queryClient.setQueryData<string[]>(['search', 'recent', owner], (prev) => update(prev ?? [])),
+    [queryClient, owner]
+  );
+
+  // Call when a search is run; the server logs it for logged-in customers
+  const remember = useCallback(
+    (search: string) => {
+      if (!loggedIn) rememberGuestSearch(search);
+      updateList((searches) => addRecentSearch(searches, search));
+    },
+    [loggedIn, updateList]
+  );
+
+  // Removes one search, or all of them
+  const forget = useCallback(
+    async (search?: string) => {
+      try {
+        await forgetRecentSearch(loggedIn, search);
+        updateList((searches) => (search ? searches.filter((q) => q !== search) : []));
+      } catch (err) {
+        console.error('Failed to clear search history', err);
+      }
+    },
+    [loggedIn, updateList]
+  );
+
+  return { recent: query.data ?? [], remember, forget };
+};
@@ -14,17 +14,11 @@ import './index.css';
 // Import all your context providers
 import { AuthProvider } from "./context/AuthContext";
 import { CartProvider } from "./context/CartContext";
-import { ProductProvider } from "./context/ProductContext";
 import { CurrencyProvider } from "./context/CurrencyContext";
 import { WishlistProvider } from "./context/WishlistContext";
 import { ThemeProvider } from "./context/ThemeContext";
 
 const queryClient = new QueryClient();
-const API_URL = import.meta.env.VITE_API_URL;
-
-fetch(`${API_URL}/products`)
-  .then(res => res.json())
-  .then(data => console.log(data));
 
 // The root of your application
 const rootElement = document.getElementById('root');
@@ -38,29 +32,27 @@ root.render(
       <GoogleOAuthProvider clientId={import.meta.env.VITE_GOOGLE_CLIENT_ID!}>
         <QueryClientProvider client={queryClient}>
           <AuthProvider>
-            <ProductProvider>
-              <CartProvider>
-                <WishlistProvider>
-                  <CurrencyProvider>
-                    <ThemeProvider>
-                      <TooltipProvider>
-                        
-                        {/* Toaster for notifications */}
-                        <Sonner
-                          position="bottom-right"
-                          expand={true}
-                          richColors={true}
-                          closeButton={true}
-                          duration={2000}
-                        />
-                        {/* Your main App component */}
-                        <App />
-                      </TooltipProvider>
-                    </ThemeProvider>
-                  </CurrencyProvider>
-                </WishlistProvider>
-              </CartProvider>
-            </ProductProvider>
+            <CartProvider>
+              <WishlistProvider>
+                <CurrencyProvider>
+                  <ThemeProvider>
+                    <TooltipProvider>
+                      
+                      {/* Toaster for notifications */}
+                      <Sonner
+                        position="bottom-right"
+                        expand={true}
+                        richColors={true}
+                        closeButton={true}
+                        duration={2000}
+                      />
+                      {/* Your main App component */}
+                      <App />
+                    </TooltipProvider>
+                  </ThemeProvider>
+                </CurrencyProvider>
+              </WishlistProvider>
+            </CartProvider>
           </AuthProvider>
         </QueryClientProvider>
       </GoogleOAuthProvider>
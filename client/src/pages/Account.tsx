@@ -6,6 +6,7 @@ import { ProfileHeader } from "@/components/ProfileHeader";
 import { QuickActions } from "@/components/QuickActions";
 import { RecentOrders } from "@/components/RecentOrders";
 import { SecuritySettings } from "@/components/SecuritySettings";
+import { EmailPreferences } from "@/components/EmailPreferences";
 import { Footer } from "@/components/Footer";
 import { Button } from "@/components/ui/button";
 import toast from "react-hot-toast";
@@ -72,7 +73,13 @@ export default function Account() {
   const renderMainContent = () => {
     switch (activeSection) {
       case "orders": return <RecentOrders />;
-      case "settings": return <SecuritySettings />;
+      case "settings":
+        return (
+          <>
+            <SecuritySettings />
+            <EmailPreferences />
+          </>
+        );
       default: return <QuickActions onActionClick={handleActionClick} userName={user.name} />;
     }
   };
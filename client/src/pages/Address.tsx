@@ -5,6 +5,7 @@ import { useAuth } from '@/context/AuthContext';
 import axios from 'axios';
 import { toast } from 'react-hot-toast';
 import { Trash2, PlusCircle, Loader2, Edit, Save } from 'lucide-react';
+import { INDIAN_STATES } from '@/utils/indianStates';
 
 const API_URL = import.meta.env.VITE_API_URL;
 
@@ -16,11 +17,12 @@ interface Address {
   landmark: string;
   area: string;
   city: string;
+  state?: string;
   pincode: string;
 }
 
 const initialAddressState: Address = {
-  name: '', houseNumber: '', street: '', landmark: '', area: '', city: '', pincode: '',
+  name: '', houseNumber: '', street: '', landmark: '', area: '', city: '', state: '', pincode: '',
 };
 
 // Define props for the reusable form to prevent bugs
@@ -44,6 +46,10 @@ const AddressForm = ({ address, handleSubmit, handleInputChange, onCancel, isEdi
       <input type="text" name="area" value={address.area} onChange={handleInputChange} placeholder="Area" required className="w-full p-2 border rounded" />
       <input type="text" name="city" value={address.city} onChange={handleInputChange} placeholder="City" required className="w-full p-2 border rounded" />
       <input type="text" name="pincode" value={address.pincode} onChange={handleInputChange} placeholder="Pincode" required className="w-full p-2 border rounded" />
+      <input type="text" name="state" value={address.state || ''} onChange={handleInputChange} placeholder="State" list="address-states" className="w-full p-2 border rounded" />
+      <datalist id="address-states">
+        {INDIAN_STATES.map((state) => <option key={state} value={state} />)}
+      </datalist>
     </div>
     <div className="flex gap-4">
       <button type="submit" className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700">
@@ -200,7 +206,7 @@ export default function Addresses() {
                             <p className="font-bold text-lg">{address.name}</p>
                             <p className="text-gray-700">{address.houseNumber}, {address.street},</p>
                             <p className="text-gray-700">{address.area}, {address.landmark},</p>
-                            <p className="text-gray-700">{address.city} - {address.pincode}</p>
+                            <p className="text-gray-700">{address.city}{address.state ? `, ${address.state}` : ''} - {address.pincode}</p>
                           </div>
                           <div className="flex gap-2">
                             <button onClick={() => startEditing(address)} className="text-blue-500 hover:text-blue-700 p-2">
@@ -1,13 +0,0 @@
-import React from 'react';
-
-const CEOCollectionsPage = () => {
-  return (
-    <div className="p-4">
-      <h1 className="text-2xl font-bold mb-4">CEO Collections</h1>
-      {/* 🔄 Display special curated CEO products here */}
-      <p>Premium picks and exclusive styles from our CEO.</p>
-    </div>
-  );
-};
-
-export default CEOCollectionsPage;
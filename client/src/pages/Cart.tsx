@@ -1,25 +1,53 @@
-import React from "react";
+import React, { useState } from "react";
 import { Link } from "react-router-dom";
-import { Minus, Plus, Trash2 } from "lucide-react";
+import { AlertTriangle, Minus, Plus, Trash2 } from "lucide-react";
 import { useCart } from "../context/CartContext";
 import { toastWithVoice } from "@/utils/toast";
-import { useContext } from "react";
-import { ProductContext } from "../context/ProductContext";
+import { useProductsByIds } from "@/hooks/useCatalogue";
 import { useCurrency } from '../context/CurrencyContext';
 // 👇 1. IMPORT THE CURRENCY SELECTOR COMPONENT
 import { CurrencySelector } from "../components/CurrencySelector";
+import { findVariantById, isSameCartLine } from "../utils/variants";
+import { calculatePricing } from "../utils/pricing";
+import { useCartQuote } from "../hooks/useCartQuote";
+import { useCartValidation } from "../hooks/useCartValidation";
+import { describeCartIssue } from "../utils/cartValidation";
+import { useAuth } from "../context/AuthContext";
+import CouponBox from "../components/CouponBox";
 
 const Cart = () => {
   const { formatPrice } = useCurrency();
-  const { products } = useContext(ProductContext);
   const {
     cartItems,
     updateQuantity,
     removeFromCart,
     getTotalPrice,
     clearCart,
+    couponCode,
+    applyCoupon,
+    removeCoupon,
+    resolveCartIssues,
   } = useCart();
-  const uniqueCartItems = [...new Map(cartItems.map(item => [item.id, item])).values()];
+  // Live stock for the quantity controls
+  const { products } = useProductsByIds(cartItems.map((item) => item.id));
+  const { user } = useAuth();
+  const { quote, error: quoteError } = useCartQuote(cartItems, couponCode, user?._id);
+  // Checkout stays locked until the customer has accepted any stock or price changes
+  const { issues } = useCartValidation(cartItems);
+  const [resolving, setResolving] = useState(false);
+
+  const acceptCartChanges = async () => {
+    setResolving(true);
+    try {
+      await resolveCartIssues(issues);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  // Server quote is authoritative; the local estimate only fills the gap while it loads
+  const subtotal = quote?.subtotal ?? getTotalPrice();
+  const { shipping, tax, total } = quote ?? calculatePricing(subtotal);
 
   if (cartItems.length === 0) {
     return (
@@ -68,15 +96,37 @@ const Cart = () => {
                 </button>
               </div>
 
+              {issues.length > 0 && (
+                <div className="mb-6 p-4 border border-amber-300 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-700 rounded-lg">
+                  <div className="flex items-center gap-2 mb-2 font-semibold text-amber-800 dark:text-amber-300">
+                    <AlertTriangle className="w-4 h-4" /> Some items in your cart have changed
+                  </div>
+                  <ul className="list-disc pl-5 space-y-1 text-sm text-amber-800 dark:text-amber-200">
+                    {issues.map((issue) => (
+                      <li key={`${issue.id}-${issue.variantId || ""}-${issue.type}`}>{describeCartIssue(issue, formatPrice)}</li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={acceptCartChanges}
+                    disabled={resolving}
+                    className="mt-3 bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                  >
+                    {resolving ? "Updating..." : "Update my cart"}
+                  </button>
+                </div>
+              )}
+
               <div className="space-y-4">
                 {cartItems.map((item) => {
                   const product = products.find((p) => p._id === item.id);
-                  const stock = product?.stock ?? 0;
+                  const variant = findVariantById(product, item.variantId);
+                  const stock = (variant ?? product)?.stock ?? 0;
                   const isMax = item.quantity >= stock;
+                  const quoteLine = quote?.items.find((line) => isSameCartLine(line, item.id, item.variantId));
 
                   return (
                     <div
-                      key={item.id}
+                      key={`${item.id}-${item.variantId || ""}`}
                       className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg relative"
                     >
                       <div className="flex items-center gap-4 sm:gap-6 w-full sm:w-auto">
@@ -85,16 +135,19 @@ const Cart = () => {
                           alt={item.name}
                           className="w-[80px] h-[120px] object-cover rounded-lg self-center"
                         />
-                        <div className="flex w-full text-center sm:text-center">
+                        <div className="flex flex-col w-full text-center sm:text-left">
                           <h3 className="text-base font-medium text-gray-800 dark:text-gray-200">
                             {item.name}
                           </h3>
+                          {item.variantLabel && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{item.variantLabel}</p>
+                          )}
                         </div>
                       </div>
                       <div className="flex w-full justify-between sm:justify-end sm:items-center gap-2 mt-2 sm:mt-0">
                         <div className="flex items-center gap-2">
                           <button
-                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                            onClick={() => updateQuantity(item.id, item.quantity - 1, item.variantId)}
                             disabled={item.quantity <= 1}
                             className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition"
                           >
@@ -109,7 +162,7 @@ const Cart = () => {
                                 toastWithVoice.error("Cannot exceed stock!");
                                 return;
                               }
-                              updateQuantity(item.id, item.quantity + 1);
+                              updateQuantity(item.id, item.quantity + 1, item.variantId);
                             }}
                             disabled={isMax}
                             className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition"
@@ -118,10 +171,10 @@ const Cart = () => {
                           </button>
                         </div>
                         <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 whitespace-nowrap">
-                          {formatPrice(item.price * item.quantity)}
+                          {formatPrice(quoteLine?.lineTotal ?? item.price * item.quantity)}
                         </p>
                         <button
-                          onClick={() => removeFromCart(item.id)}
+                          onClick={() => removeFromCart(item.id, item.variantId)}
                           className="text-red-600 hover:text-red-700 dark:text-red-500 dark:hover:text-red-400"
                         >
                           <Trash2 className="w-4 h-4" />
@@ -145,28 +198,45 @@ const Cart = () => {
                 <div className="flex justify-between">
                   <span>Subtotal</span>
                   <span className="font-medium text-gray-800 dark:text-gray-200">
-                    {formatPrice(getTotalPrice())}
+                    {formatPrice(subtotal)}
                   </span>
                 </div>
+                {quote && quote.discount > 0 && (
+                  <div className="flex justify-between text-green-600 dark:text-green-400">
+                    <span>Discount ({quote.coupon?.code})</span>
+                    <span className="font-medium">-{formatPrice(quote.discount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Shipping</span>
-                  <span className="font-medium text-gray-800 dark:text-gray-200">Free</span>
+                  <span className="font-medium text-gray-800 dark:text-gray-200">
+                    {shipping === 0 ? "Free" : formatPrice(shipping)}
+                  </span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Tax (10%)</span>
+                  <span>GST (5%)</span>
                   <span className="font-medium text-gray-800 dark:text-gray-200">
-                    {formatPrice(getTotalPrice() * 0.1)}
+                    {formatPrice(tax)}
                   </span>
                 </div>
                 <div className="border-t dark:border-gray-700 pt-4 font-semibold text-lg text-gray-800 dark:text-gray-100">
                   <div className="flex justify-between">
                     <span>Total</span>
                     <span className="text-blue-600 dark:text-blue-400">
-                      {formatPrice(getTotalPrice() * 1.1)}
+                      {formatPrice(total)}
                     </span>
                   </div>
                 </div>
+                {quoteError && <p className="text-xs text-red-500">{quoteError}</p>}
               </div>
+
+              <CouponBox
+                couponCode={couponCode}
+                quote={quote}
+                onApply={applyCoupon}
+                onRemove={removeCoupon}
+                formatAmount={formatPrice}
+              />
               
               {/* 👇 2. ADDED CURRENCY SELECTOR SECTION */}
               <div className="my-6 border-t dark:border-gray-700 pt-6">
@@ -179,12 +249,21 @@ const Cart = () => {
               </div>
               {/* 👆 END OF NEW CODE */}
 
-              <Link
-                to="/checkout"
-                className="block w-full bg-blue-600 hover:bg-blue-700 text-white text-center py-3 rounded-lg font-semibold mb-3"
-              >
-                Proceed to Checkout
-              </Link>
+              {issues.length > 0 ? (
+                <button
+                  disabled
+                  className="block w-full bg-blue-600 text-white text-center py-3 rounded-lg font-semibold mb-3 opacity-50 cursor-not-allowed"
+                >
+                  Review the changes above to continue
+                </button>
+              ) : (
+                <Link
+                  to="/checkout"
+                  className="block w-full bg-blue-600 hover:bg-blue-700 text-white text-center py-3 rounded-lg font-semibold mb-3"
+                >
+                  Proceed to Checkout
+                </Link>
+              )}
               <Link
                 to="/shop"
                 className="block text-center text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 text-sm font-medium"
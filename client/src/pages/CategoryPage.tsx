@@ -1,30 +1,49 @@
 import React, { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { useProductContext } from "../context/ProductContext";
+import { Link, useParams, useNavigate } from "react-router-dom";
 import { useCart } from "../context/CartContext";
 import { useCurrency } from "@/context/CurrencyContext";
 import { Heart, HeartIcon, X } from "lucide-react";
-import { toast } from "react-hot-toast";
 import { useWishlist } from "@/context/WishlistContext";
 import { Footer } from "../components/Footer";
 import clsx from "clsx";
 import { toastWithVoice } from "@/utils/toast";
+import { hasVariants } from "@/utils/variants";
+import { useCatalogue, useInfiniteScroll } from "@/hooks/useCatalogue";
+import { useCategoryPage } from "@/hooks/useCategories";
+import { CATALOGUE_SORTS, type CatalogueSort, type Product } from "@/utils/catalogue";
+import { categoryPath } from "@/utils/categories";
+import NotFound from "./NotFound";
+
+// Blank means no bound
+const toPrice = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+// The category's name and description become the page title and meta description
+const useCategoryMeta = (title?: string, description?: string) => {
+  useEffect(() => {
+    if (!title) return;
+    const meta = document.querySelector<HTMLMetaElement>('meta[name="description"]');
+    const previous = { title: document.title, description: meta?.content };
+    document.title = `${title} - Hansitha Creations`;
+    if (meta && description) meta.content = description;
+    return () => {
+      document.title = previous.title;
+      if (meta && previous.description !== undefined) meta.content = previous.description;
+    };
+  }, [title, description]);
+};
 
 const CategoryPage: React.FC = () => {
-  const { category } = useParams<{ category: string }>();
-  const { products, loading } = useProductContext();
+  const { slug } = useParams<{ slug: string }>();
+  const { category, loading: categoryLoading, notFound } = useCategoryPage(slug);
   const { addToCart, cartItems } = useCart(); // make sure cartItems is available
   const { formatPrice } = useCurrency();
   const { wishlist, toggleWishlist } = useWishlist();
   const navigate = useNavigate();
 
-  const [sortBy, setSortBy] = useState<"default" | "price-low" | "price-high">(
-    "default"
-  );
-  const [minPrice, setMinPrice] = useState<number>(0);
-  const [maxPrice, setMaxPrice] = useState<number>(10000);
-  const [currentPage, setCurrentPage] = useState(1);
-  const PRODUCTS_PER_PAGE = 10;
+  const [sortBy, setSortBy] = useState<CatalogueSort>("newest");
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [priceRange, setPriceRange] = useState<{ min?: number; max?: number }>({});
 
   const [isMobile, setIsMobile] = useState(
     () => typeof window !== "undefined" && window.innerWidth < 1024
@@ -40,32 +59,30 @@ const CategoryPage: React.FC = () => {
 
   useEffect(() => {
     window.scrollTo(0, 0);
-  }, [currentPage]);
+  }, [slug]);
 
+  // Old slugs and names still find the category; show its current address
   useEffect(() => {
-    setCurrentPage(1);
-  }, [sortBy, minPrice, maxPrice, category]);
+    if (category && category.slug !== slug) navigate(categoryPath(category.slug), { replace: true });
+  }, [category, slug, navigate]);
 
-  const totalFiltered = products.filter(
-    (p) =>
-      p.category?.toLowerCase().trim() === category?.toLowerCase().trim() &&
-      p.price >= minPrice &&
-      p.price <= maxPrice
-  );
+  useCategoryMeta(category?.name, category?.description);
 
-  const sorted = [...totalFiltered].sort((a, b) => {
-    if (sortBy === "price-low") return a.price - b.price;
-    if (sortBy === "price-high") return b.price - a.price;
-    return 0;
-  });
+  // Only query once the shopper stops typing a price
+  useEffect(() => {
+    const timer = setTimeout(() => setPriceRange({ min: toPrice(minPrice), max: toPrice(maxPrice) }), 400);
+    return () => clearTimeout(timer);
+  }, [minPrice, maxPrice]);
 
-  const totalPages = Math.ceil(sorted.length / PRODUCTS_PER_PAGE);
-  const paginated = sorted.slice(
-    (currentPage - 1) * PRODUCTS_PER_PAGE,
-    currentPage * PRODUCTS_PER_PAGE
+  const { products, loading, loadingMore, hasMore, loadMore } = useCatalogue(
+    { category: category?.slug, minPrice: priceRange.min, maxPrice: priceRange.max, sort: sortBy },
+    !!category
   );
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore);
+
+  if (notFound) return <NotFound />;
 
-  const handleProductClick = (product: any) => {
+  const handleProductClick = (product: Product) => {
     navigate(`/product/${product.name}`, { state: { product } });
   };
 
@@ -73,7 +90,7 @@ const CategoryPage: React.FC = () => {
     <div className="flex flex-col min-h-screen bg-gradient-to-br from-blue-400 to-pink-400">
       <main className="p-4 flex-grow">
         <div className="flex items-center justify-between mb-4 lg:hidden">
-          <h2 className="text-2xl font-bold capitalize">{category} Fabrics</h2>
+          <h2 className="text-2xl font-bold capitalize">{category?.name} Fabrics</h2>
           <button
             onClick={() => setShowFilterMobile(true)}
             className="bg-gray-100 text-gray-800 border border-gray-300 px-4 py-2 rounded shadow"
@@ -110,15 +127,19 @@ const CategoryPage: React.FC = () => {
                   ₹
                   <input
                     type="number"
+                    min={0}
+                    placeholder="Min"
                     value={minPrice}
-                    onChange={(e) => setMinPrice(Number(e.target.value))}
+                    onChange={(e) => setMinPrice(e.target.value)}
                     className="border rounded px-2 py-1 w-20"
                   />
                   to ₹
                   <input
                     type="number"
+                    min={0}
+                    placeholder="Max"
                     value={maxPrice}
-                    onChange={(e) => setMaxPrice(Number(e.target.value))}
+                    onChange={(e) => setMaxPrice(e.target.value)}
                     className="border rounded px-2 py-1 w-20"
                   />
                 </div>
@@ -128,12 +149,14 @@ const CategoryPage: React.FC = () => {
                 <h3 className="font-semibold mb-2">Sort By</h3>
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as any)}
+                  onChange={(e) => setSortBy(e.target.value as CatalogueSort)}
                   className="w-full border rounded px-3 py-2"
                 >
-                  <option value="default">Default</option>
-                  <option value="price-low">Price: Low → High</option>
-                  <option value="price-high">Price: High → Low</option>
+                  {CATALOGUE_SORTS.map((sort) => (
+                    <option key={sort.value} value={sort.value}>
+                      {sort.label}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -147,18 +170,54 @@ const CategoryPage: React.FC = () => {
           )}
 
           <section className="lg:pl-0">
-            <h2 className="text-2xl font-bold mb-4 hidden lg:block capitalize">
-              {category} Fabrics
-            </h2>
+            {category && (
+              <div className="mb-6 space-y-3">
+                {category.ancestors.length > 0 && (
+                  <nav className="text-sm text-gray-700">
+                    {category.ancestors.map((ancestor) => (
+                      <span key={ancestor._id}>
+                        <Link to={categoryPath(ancestor.slug)} className="hover:underline">
+                          {ancestor.name}
+                        </Link>
+                        {" / "}
+                      </span>
+                    ))}
+                    <span className="font-medium">{category.name}</span>
+                  </nav>
+                )}
+                {category.bannerImage && (
+                  <img
+                    src={category.bannerImage}
+                    alt={category.name}
+                    className="w-full max-h-64 object-cover rounded-lg shadow"
+                  />
+                )}
+                <h2 className="text-2xl font-bold hidden lg:block capitalize">{category.name} Fabrics</h2>
+                {category.description && <p className="text-gray-800 max-w-3xl">{category.description}</p>}
+                {category.children.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {category.children.map((child) => (
+                      <Link
+                        key={child._id}
+                        to={categoryPath(child.slug)}
+                        className="bg-white/80 hover:bg-white px-4 py-1.5 rounded-full text-sm font-medium shadow-sm"
+                      >
+                        {child.name}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
 
-            {loading ? (
+            {loading || categoryLoading ? (
               <p>Loading products...</p>
-            ) : paginated.length === 0 ? (
+            ) : products.length === 0 ? (
               <p>No products match your filters.</p>
             ) : (
               <>
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-6">
-                  {paginated.map((product) => {
+                  {products.map((product) => {
                     const cartQuantity =
                       cartItems.find((item) => item.id === product._id)
                         ?.quantity || 0;
@@ -207,6 +266,10 @@ const CategoryPage: React.FC = () => {
                         <button
                           onClick={async (e) => {
                             e.stopPropagation();
+                            if (hasVariants(product)) {
+                              handleProductClick(product);
+                              return;
+                            }
 
                             if (isOutOfStock) {
                               toastWithVoice.error("Out of Stock!");
@@ -248,23 +311,8 @@ const CategoryPage: React.FC = () => {
                   })}
                 </div>
 
-                <div className="flex flex-wrap justify-center items-center gap-2 mt-8">
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map(
-                    (pageNum) => (
-                      <button
-                        key={pageNum}
-                        onClick={() => setCurrentPage(pageNum)}
-                        className={`px-3 py-1 rounded border ${
-                          currentPage === pageNum
-                            ? "bg-blue-600 text-white"
-                            : "bg-gray-100 text-gray-800 hover:bg-gray-200"
-                        }`}
-                      >
-                        {pageNum}
-                      </button>
-                    )
-                  )}
-                </div>
+                <div ref={sentinelRef} />
+                {loadingMore && <p className="p-4 text-center">Loading more products...</p>}
               </>
             )}
           </section>
@@ -1,18 +1,27 @@
 // src/pages/Checkout.tsx (Corrected and Complete)
 
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { useCart } from "../context/CartContext";
 import { useAuth } from "../context/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { User, Lock, Save, PlusCircle, Edit, Trash2, Home, Check, MapPin, Loader2 } from "lucide-react";
+import { AlertTriangle, User, Lock, Save, PlusCircle, Edit, Trash2, Home, Check, MapPin, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import axios from "axios";
+import { useCartQuote } from "../hooks/useCartQuote";
+import { useCartValidation } from "../hooks/useCartValidation";
+import { describeCartIssue } from "../utils/cartValidation";
+import { calculatePricing, type PaymentMethod } from "../utils/pricing";
+import { formatDeliveryEstimate } from "../utils/shipping";
+import { loadRazorpayScript, openRazorpayCheckout } from "../utils/razorpay";
+import { isSameCartLine } from "../utils/variants";
+import CouponBox from "../components/CouponBox";
+import { INDIAN_STATES } from "../utils/indianStates";
 
 const API_URL = import.meta.env.VITE_API_URL;
 
@@ -23,11 +32,14 @@ const initialAddressState = {
   landmark: '', 
   area: '', 
   city: '', 
+  state: '', 
   pincode: '' 
 };
 
+const REQUIRED_ADDRESS_FIELDS = ['name', 'houseNumber', 'street', 'area', 'city', 'pincode'] as const;
+
 const Checkout: React.FC = () => {
-  const { cartItems, getTotalPrice, clearCart } = useCart();
+  const { cartItems, getTotalPrice, clearCart, couponCode, applyCoupon, removeCoupon, resolveCartIssues } = useCart();
   const { user, loading: authLoading, updateUser } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -41,20 +53,37 @@ const Checkout: React.FC = () => {
   const [newAddress, setNewAddress] = useState(initialAddressState);
   const [editAddress, setEditAddress] = useState<any>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [shippingOptionId, setShippingOptionId] = useState<string | undefined>();
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('prepaid');
+  // Guest checkout: contact details stand in for the account, the address is not saved anywhere
+  const [guestContact, setGuestContact] = useState({ email: '', phone: '' });
+  const { quote, setQuote, loading: quoteLoading, error: quoteError } = useCartQuote(cartItems, couponCode, user?._id, {
+    pincode: shippingAddress?.pincode,
+    shippingOptionId,
+    paymentMethod,
+  });
+  // Same lock as the cart page, for customers who come straight here
+  const { issues } = useCartValidation(cartItems);
+  const [resolving, setResolving] = useState(false);
 
-  useEffect(() => {
-    if (!authLoading && !user) {
-      toast({ title: "Please log in to proceed.", variant: "destructive" });
-      navigate("/login");
-      return;
+  const acceptCartChanges = async () => {
+    setResolving(true);
+    try {
+      await resolveCartIssues(issues);
+    } finally {
+      setResolving(false);
     }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
     if (user?.addresses && user.addresses.length > 0) {
       setShippingAddress(user.addresses[0]);
       setView('list');
-    } else if (user) {
+    } else {
       setView('add');
     }
-  }, [user, authLoading, navigate, toast]);
+  }, [user, authLoading]);
 
   // --- START: NEW FUNCTION FOR GETTING CUSTOMER LOCATION ---
   // This is the function you added, now placed correctly inside the component.
@@ -105,6 +134,15 @@ const Checkout: React.FC = () => {
 
   // Address Management Functions
   const handleSaveNewAddress = async () => {
+    if (!user) {
+      if (REQUIRED_ADDRESS_FIELDS.some((field) => !newAddress[field].trim())) {
+        toast({ title: "Incomplete address", description: "Please fill in all the address fields.", variant: "destructive" });
+        return;
+      }
+      setShippingAddress({ ...newAddress });
+      setView('list');
+      return;
+    }
     setIsSubmitting(true);
     try {
       const response = await axios.post(`${API_URL}/api/users/addresses`, newAddress, { withCredentials: true });
@@ -164,30 +202,81 @@ const Checkout: React.FC = () => {
     }
   };
 
+  // Guest orders are only reachable through their lookup token
+  const trackingPath = ({ orderId, accessToken }: { orderId: string; accessToken?: string }) =>
+    `/tracking-orders?order_id=${orderId}${accessToken ? `&token=${accessToken}` : ''}`;
+
   // Main Checkout Submit
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (issues.length > 0) {
+      toast({ title: "Your cart has changed", description: "Please review the changes to your cart first.", variant: "destructive" });
+      return;
+    }
     if (!shippingAddress) {
       toast({ title: "No Shipping Address", description: "Please add and select an address.", variant: "destructive" });
       return;
     }
+    if (!user && (!/^\S+@\S+\.\S+$/.test(guestContact.email) || !/^[6-9]\d{9}$/.test(guestContact.phone))) {
+      toast({ title: "Contact details needed", description: "Please enter a valid email and 10-digit mobile number.", variant: "destructive" });
+      return;
+    }
     setIsProcessing(true);
     try {
-      const payload = { user: { id: user!._id, email: user!.email }, address: shippingAddress, cartItems, totalAmount: total };
-      const res = await axios.post(`${API_URL}/api/checkout/payment-link`, payload, { withCredentials: true });
-      const paymentLink = res.data.paymentLink.short_url;
-      /* await clearCart(); */
-      window.location.href = paymentLink;
+      const payload = {
+        // A logged-in order belongs to the session cookie; guests identify themselves here
+        ...(user ? {} : { guest: guestContact }),
+        address: shippingAddress,
+        cartItems,
+        totalAmount: total,
+        couponCode: quote?.coupon?.code,
+        shippingOptionId: quote?.shippingOption?.id,
+      };
+      if (paymentMethod === 'cod') {
+        const res = await axios.post(`${API_URL}/api/checkout/cod-order`, payload, { withCredentials: true });
+        await clearCart();
+        navigate(trackingPath(res.data));
+        return;
+      }
+      // Pay inside our page; the hosted payment link is the fallback if Checkout cannot load
+      if (!(await loadRazorpayScript())) {
+        const res = await axios.post(`${API_URL}/api/checkout/payment-link`, payload, { withCredentials: true });
+        const paymentLink = res.data.paymentLink.short_url;
+        /* await clearCart(); */
+        window.location.href = paymentLink;
+        return;
+      }
+      const { data: razorpayOrder } = await axios.post(`${API_URL}/api/checkout/razorpay-order`, payload, { withCredentials: true });
+      const payment = await openRazorpayCheckout(razorpayOrder);
+      if (!payment) {
+        // Give the stock hold back so trying again does not compete with this order
+        const token = razorpayOrder.accessToken ? `?token=${razorpayOrder.accessToken}` : '';
+        await axios
+          .post(`${API_URL}/api/checkout/razorpay-order/${razorpayOrder.orderId}/dismiss${token}`, {}, { withCredentials: true })
+          .catch((err) => console.error('Failed to release the unpaid order', err));
+        toast({ title: "Payment cancelled", description: "You have not been charged. You can try again." });
+        return;
+      }
+      await axios.post(
+        `${API_URL}/api/checkout/verify`,
+        { orderId: razorpayOrder.orderId, ...payment },
+        { withCredentials: true }
+      );
+      await clearCart();
+      navigate(trackingPath(razorpayOrder));
     } catch (err: any) {
+      // 409: the server re-priced the cart; show its figures so the customer can confirm again
+      if (err.response?.status === 409 && err.response.data.quote) setQuote(err.response.data.quote);
       toast({ title: "Checkout Error", description: err.response?.data?.error || "Failed to initiate payment.", variant: "destructive" });
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const subtotal = getTotalPrice();
-  const total = subtotal + (subtotal * 0.10);
-  const uniqueCartItems = [...new Map(cartItems.map(item => [item.id, item])).values()];
+  // Server quote is authoritative; the local estimate only fills the gap while it loads
+  const subtotal = quote?.subtotal ?? getTotalPrice();
+  const { shipping, tax, total } = quote ?? calculatePricing(subtotal);
+  const uniqueCartItems = [...new Map(cartItems.map(item => [`${item.id}-${item.variantId || ""}`, item])).values()];
 
   if (authLoading) return <div className="text-center p-10">Loading...</div>;
 
@@ -196,7 +285,7 @@ const Checkout: React.FC = () => {
     if (view === 'add') {
       return (
         <div className="space-y-4">
-          <h3 className="font-semibold text-lg">Add a New Address</h3>
+          <h3 className="font-semibold text-lg">{user ? "Add a New Address" : "Delivery Address"}</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="name">Full Name</Label>
@@ -264,6 +353,21 @@ const Checkout: React.FC = () => {
                 className="focus:ring-2 focus:ring-blue-500"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="state">State</Label>
+              <Input 
+                id="state"
+                name="state" 
+                value={newAddress.state || ''} 
+                onChange={(e) => setNewAddress({...newAddress, state: e.target.value})} 
+                placeholder="State" 
+                list="state-options"
+                className="focus:ring-2 focus:ring-blue-500"
+              />
+              <datalist id="state-options">
+                {INDIAN_STATES.map((state) => <option key={state} value={state} />)}
+              </datalist>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="pincode">Pincode</Label>
               <Input 
@@ -279,8 +383,13 @@ const Checkout: React.FC = () => {
           </div>
           <div className="flex gap-2">
             <Button type="button" onClick={handleSaveNewAddress} disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700">
-              <Save className="w-4 h-4 mr-2" /> Save
+              <Save className="w-4 h-4 mr-2" /> {user ? 'Save' : 'Use this address'}
             </Button>
+            {!user && shippingAddress && (
+              <Button type="button" variant="outline" onClick={() => setView('list')}>
+                Cancel
+              </Button>
+            )}
             {user?.addresses && user.addresses.length > 0 && (
               <Button type="button" variant="outline" onClick={() => setView('list')}>
                 Cancel
@@ -356,6 +465,20 @@ const Checkout: React.FC = () => {
                 className="focus:ring-2 focus:ring-blue-500"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-state">State</Label>
+              <Input 
+                id="edit-state"
+                value={editAddress.state || ''} 
+                onChange={(e) => setEditAddress({...editAddress, state: e.target.value})} 
+                placeholder="State" 
+                list="edit-state-options"
+                className="focus:ring-2 focus:ring-blue-500"
+              />
+              <datalist id="edit-state-options">
+                {INDIAN_STATES.map((state) => <option key={state} value={state} />)}
+              </datalist>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="edit-pincode">Pincode</Label>
               <Input 
@@ -380,6 +503,26 @@ const Checkout: React.FC = () => {
       );
     }
     
+    // Guests have just the one address they typed in
+    if (view === 'list' && !user) {
+      return (
+        <div className="space-y-4">
+          <div className="p-4 border rounded-lg border-blue-500 ring-2 ring-blue-500/20 bg-blue-50 text-sm">
+            <div className="flex items-center gap-2 mb-1">
+              <Home className="w-4 h-4 text-gray-500" />
+              <p className="font-bold text-gray-900">{shippingAddress?.name}</p>
+            </div>
+            <p className="text-gray-900">{shippingAddress?.houseNumber}, {shippingAddress?.street}</p>
+            {shippingAddress?.landmark && <p className="text-gray-600 text-sm">Near {shippingAddress.landmark}</p>}
+            <p className="text-gray-600">{shippingAddress?.area}, {shippingAddress?.city}{shippingAddress?.state ? `, ${shippingAddress.state}` : ''}, {shippingAddress?.pincode}</p>
+          </div>
+          <Button type="button" variant="outline" className="w-full" onClick={() => setView('add')}>
+            <Edit className="w-4 h-4 mr-2" /> Change Address
+          </Button>
+        </div>
+      );
+    }
+
     // Default view: list of addresses - IMPROVED ALIGNMENT
     if (view === 'list') {
       return (
@@ -444,7 +587,7 @@ const Checkout: React.FC = () => {
                       </div>
                       <p className="text-gray-900">{address.houseNumber}, {address.street}</p>
                       {address.landmark && <p className="text-gray-600 text-sm">Near {address.landmark}</p>}
-                      <p className="text-gray-600">{address.area}, {address.city}, {address.pincode}</p>
+                      <p className="text-gray-600">{address.area}, {address.city}{address.state ? `, ${address.state}` : ''}, {address.pincode}</p>
                     </label>
                   </div>
                   
@@ -503,7 +646,42 @@ const Checkout: React.FC = () => {
                     <User className="w-5 h-5" /> Shipping Details
                   </CardTitle>
                 </CardHeader>
-                <CardContent>{renderShippingContent()}</CardContent>
+                <CardContent>
+                  {!user && (
+                    <div className="space-y-4 mb-6">
+                      <p className="text-sm text-gray-600">
+                        Checking out as a guest. <Link to="/login" className="text-blue-600 hover:underline">Log in</Link> to use your saved addresses.
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="guest-email">Email</Label>
+                          <Input 
+                            id="guest-email"
+                            type="email"
+                            value={guestContact.email} 
+                            onChange={(e) => setGuestContact({...guestContact, email: e.target.value.trim()})} 
+                            placeholder="For your order confirmation" 
+                            className="focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="guest-phone">Mobile Number</Label>
+                          <Input 
+                            id="guest-phone"
+                            type="tel"
+                            value={guestContact.phone} 
+                            onChange={(e) => setGuestContact({...guestContact, phone: e.target.value.replace(/\D/g, '')})} 
+                            placeholder="For the courier" 
+                            maxLength={10} 
+                            className="focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </div>
+                      <Separator />
+                    </div>
+                  )}
+                  {renderShippingContent()}
+                </CardContent>
               </Card>
             </div>
             <div className="lg:sticky lg:top-8 lg:self-start">
@@ -514,39 +692,135 @@ const Checkout: React.FC = () => {
                 <CardContent>
                   <div className="space-y-4">
                     {uniqueCartItems.map((item) => (
-                      <div key={item.id} className="flex items-center space-x-4">
+                      <div key={`${item.id}-${item.variantId || ""}`} className="flex items-center space-x-4">
                         <img src={item.image} alt={item.name} className="w-16 h-16 object-cover rounded-lg"/>
                         <div className="flex-1">
                           <h3 className="text-sm font-medium text-gray-900">{item.name}</h3>
+                          {item.variantLabel && <p className="text-gray-500 text-xs">{item.variantLabel}</p>}
                           <p className="text-gray-600 text-sm">Qty: {item.quantity}</p>
                         </div>
-                        <p className="font-medium text-gray-900">₹{(item.price * item.quantity).toFixed(2)}</p>
+                        <p className="font-medium text-gray-900">
+                          ₹{(quote?.items.find((line) => isSameCartLine(line, item.id, item.variantId))?.lineTotal ?? item.price * item.quantity).toFixed(2)}
+                        </p>
                       </div>
                     ))}
                     <Separator />
+                    {quote?.shippingOptions && quote.shippingOptions.length > 0 && (
+                      <div className="space-y-2">
+                        <h3 className="text-sm font-semibold text-gray-900">Delivery to {shippingAddress?.pincode}</h3>
+                        <RadioGroup value={quote.shippingOption?.id} onValueChange={setShippingOptionId}>
+                          {quote.shippingOptions.map((option) => (
+                            <label
+                              key={option.id}
+                              htmlFor={`shipping-${option.id}`}
+                              className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer text-sm ${
+                                quote.shippingOption?.id === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                              }`}
+                            >
+                              <RadioGroupItem value={option.id} id={`shipping-${option.id}`} />
+                              <div className="flex-1">
+                                <p className="font-medium text-gray-900">{option.courierName}</p>
+                                <p className="text-xs text-gray-500">{formatDeliveryEstimate(option.etdDays)}</p>
+                              </div>
+                              <span className="text-gray-900">{option.rate === 0 ? 'Free' : `₹${option.rate.toFixed(2)}`}</span>
+                            </label>
+                          ))}
+                        </RadioGroup>
+                        {shipping === 0 && quote.shippingOption && quote.shippingOption.rate > 0 && (
+                          <p className="text-xs text-green-600">Shipping is free on this order.</p>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span className="text-gray-600">Subtotal</span>
                         <span className="text-gray-900">₹{subtotal.toFixed(2)}</span>
                       </div>
+                      {quote && quote.discount > 0 && (
+                        <div className="flex justify-between text-green-600">
+                          <span>Discount ({quote.coupon?.code})</span>
+                          <span>-₹{quote.discount.toFixed(2)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span className="text-gray-600">Shipping</span>
-                        <span className="text-green-600">Free</span>
+                        {shipping === 0
+                          ? <span className="text-green-600">Free</span>
+                          : <span className="text-gray-900">₹{shipping.toFixed(2)}</span>}
                       </div>
+                      {quote && quote.codFee > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Cash on delivery fee</span>
+                          <span className="text-gray-900">₹{quote.codFee.toFixed(2)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
-                        <span className="text-gray-600">Tax (10%)</span>
-                        <span className="text-gray-900">₹{(subtotal * 0.10).toFixed(2)}</span>
+                        <span className="text-gray-600">GST (5%)</span>
+                        <span className="text-gray-900">₹{tax.toFixed(2)}</span>
                       </div>
                       <Separator />
                       <div className="flex justify-between text-lg font-semibold">
                         <span className="text-gray-900">Total</span>
                         <span className="text-gray-900">₹{total.toFixed(2)}</span>
                       </div>
+                      {quoteError && <p className="text-xs text-red-500">{quoteError}</p>}
+                    </div>
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-semibold text-gray-900">Payment Method</h3>
+                      <RadioGroup value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                        <label htmlFor="pay-prepaid" className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer text-sm">
+                          <RadioGroupItem value="prepaid" id="pay-prepaid" />
+                          <span className="flex-1 text-gray-900">Pay online (UPI, cards, net banking)</span>
+                        </label>
+                        <label
+                          htmlFor="pay-cod"
+                          className={`flex items-center gap-3 p-3 border rounded-lg text-sm ${
+                            quote?.cod && !quote.cod.available ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'
+                          }`}
+                        >
+                          <RadioGroupItem value="cod" id="pay-cod" disabled={!!quote?.cod && !quote.cod.available} />
+                          <div className="flex-1">
+                            <p className="text-gray-900">
+                              Cash on delivery{quote?.cod?.fee ? ` (+₹${quote.cod.fee.toFixed(2)})` : ''}
+                            </p>
+                            {quote?.cod?.reason && <p className="text-xs text-gray-500">{quote.cod.reason}</p>}
+                          </div>
+                        </label>
+                      </RadioGroup>
                     </div>
+                    <CouponBox
+                      couponCode={couponCode}
+                      quote={quote}
+                      onApply={applyCoupon}
+                      onRemove={removeCoupon}
+                      formatAmount={(amount) => `₹${amount.toFixed(2)}`}
+                    />
+                    {issues.length > 0 && (
+                      <div className="p-3 border border-amber-300 bg-amber-50 rounded-lg text-sm">
+                        <div className="flex items-center gap-2 mb-2 font-semibold text-amber-800">
+                          <AlertTriangle className="w-4 h-4" /> Some items in your cart have changed
+                        </div>
+                        <ul className="list-disc pl-5 space-y-1 text-amber-800">
+                          {issues.map((issue) => (
+                            <li key={`${issue.id}-${issue.variantId || ""}-${issue.type}`}>
+                              {describeCartIssue(issue, (amount) => `₹${amount.toFixed(2)}`)}
+                            </li>
+                          ))}
+                        </ul>
+                        <Button
+                          type="button"
+                          onClick={acceptCartChanges}
+                          disabled={resolving}
+                          className="mt-3 bg-amber-600 hover:bg-amber-700 text-white"
+                        >
+                          {resolving ? "Updating..." : "Update my cart"}
+                        </Button>
+                      </div>
+                    )}
                     <Button 
                       type="submit" 
                       className="w-full bg-black text-white hover:bg-gray-900 mt-4" 
-                      disabled={isProcessing || !shippingAddress || view !== 'list'}
+                      disabled={isProcessing || quoteLoading || !quote || !shippingAddress || view !== 'list' || issues.length > 0}
                     >
                       {isProcessing ? "Processing..." : <><Lock className="w-4 h-4 mr-2" /> Place Order</>}
                     </Button>
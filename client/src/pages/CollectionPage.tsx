@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useCart } from "../context/CartContext";
+import { useCurrency } from "@/context/CurrencyContext";
+import { Heart, HeartIcon } from "lucide-react";
+import { useWishlist } from "@/context/WishlistContext";
+import { Footer } from "../components/Footer";
+import { toastWithVoice } from "@/utils/toast";
+import { hasVariants } from "@/utils/variants";
+import { useInfiniteScroll } from "@/hooks/useCatalogue";
+import { useCollectionPage, useCollectionProducts } from "@/hooks/useCollections";
+import type { Product } from "@/utils/catalogue";
+import { COLLECTION_SORTS, type CollectionSort } from "@/utils/collections";
+import NotFound from "./NotFound";
+
+// One page for every collection (featured, new arrivals, CEO picks, seasonal edits...)
+const CollectionPage: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { collection, loading: collectionLoading, notFound } = useCollectionPage(slug);
+  const { addToCart, cartItems } = useCart();
+  const { formatPrice } = useCurrency();
+  const { wishlist, toggleWishlist } = useWishlist();
+  const navigate = useNavigate();
+
+  // Unset until the shopper picks one, so the collection's own order is used
+  const [sortBy, setSortBy] = useState<CollectionSort>();
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    setSortBy(undefined);
+  }, [slug]);
+
+  useEffect(() => {
+    if (!collection) return;
+    const previousTitle = document.title;
+    document.title = `${collection.name} - Hansitha Creations`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [collection]);
+
+  const { products, loading, loadingMore, hasMore, loadMore } = useCollectionProducts(
+    collection?.slug,
+    sortBy
+  );
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore);
+
+  if (notFound) return <NotFound />;
+
+  const sorts = COLLECTION_SORTS.filter((sort) => sort.value !== "manual" || collection?.mode === "manual");
+
+  const handleProductClick = (product: Product) => {
+    navigate(`/product/${product.name}`, { state: { product } });
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gradient-to-br from-blue-400 to-pink-400">
+      <main className="p-4 flex-grow">
+        {collection && (
+          <div className="mb-6 space-y-3">
+            {collection.bannerImage && (
+              <img
+                src={collection.bannerImage}
+                alt={collection.name}
+                className="w-full max-h-64 object-cover rounded-lg shadow"
+              />
+            )}
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h1 className="text-2xl font-bold">{collection.name}</h1>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                Sort by
+                <select
+                  value={sortBy ?? collection.sort}
+                  onChange={(e) => setSortBy(e.target.value as CollectionSort)}
+                  className="border rounded px-3 py-2 bg-white"
+                >
+                  {sorts.map((sort) => (
+                    <option key={sort.value} value={sort.value}>
+                      {sort.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {collection.description && <p className="text-gray-800 max-w-3xl">{collection.description}</p>}
+          </div>
+        )}
+
+        {loading || collectionLoading ? (
+          <p>Loading products...</p>
+        ) : products.length === 0 ? (
+          <p>Nothing in this collection yet. Check back soon!</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-5 gap-6">
+              {products.map((product) => {
+                const cartQuantity = cartItems.find((item) => item.id === product._id)?.quantity || 0;
+                const isOutOfStock = product.stock === 0;
+                const isMaxReached = product.stock > 0 && cartQuantity >= product.stock;
+                const isWishlisted = wishlist.includes(product._id);
+
+                return (
+                  <div
+                    key={product._id}
+                    onClick={() => handleProductClick(product)}
+                    className="w-full max-w-[220px] mx-auto cursor-pointer group"
+                  >
+                    <div className="relative">
+                      <img
+                        src={product.image}
+                        alt={product.name}
+                        className={`w-full h-[280px] object-cover rounded ${
+                          isOutOfStock || isMaxReached ? "grayscale opacity-40" : ""
+                        }`}
+                      />
+                      <button
+                        onClick={async (e) => {
+                          e.stopPropagation();
+                          await toggleWishlist(product._id);
+                        }}
+                        className="absolute top-2 right-2 z-10 bg-white p-1 rounded-full shadow-md transition-transform duration-150 active:scale-110"
+                      >
+                        {isWishlisted ? (
+                          <HeartIcon className="w-5 h-5 text-red-500 fill-red-500" />
+                        ) : (
+                          <Heart className="w-5 h-5 text-red-500" />
+                        )}
+                      </button>
+                    </div>
+                    <h3 className="text-base font-medium mt-2 truncate">{product.name}</h3>
+                    <p className="text-blue-600 font-bold text-base text-center">{formatPrice(product.price)}</p>
+                    <button
+                      onClick={async (e) => {
+                        e.stopPropagation();
+                        if (hasVariants(product)) {
+                          handleProductClick(product);
+                          return;
+                        }
+
+                        if (isOutOfStock) {
+                          toastWithVoice.error("Out of Stock!");
+                          return;
+                        }
+
+                        if (isMaxReached) {
+                          toastWithVoice.error("You’ve reached the max stock limit!");
+                          return;
+                        }
+
+                        await addToCart({
+                          id: product._id,
+                          name: product.name,
+                          price: product.price,
+                          image: product.image,
+                          quantity: 1,
+                        });
+
+                        toastWithVoice.success("Added to cart!");
+                      }}
+                      disabled={isOutOfStock || isMaxReached}
+                      className={`mt-2 px-4 py-2 rounded-full font-semibold transition duration-200 ease-in-out w-full ${
+                        isOutOfStock || isMaxReached
+                          ? "bg-gray-300 text-gray-600 cursor-not-allowed"
+                          : "bg-blue-600 text-white hover:bg-blue-700 active:scale-95"
+                      }`}
+                    >
+                      {isOutOfStock ? "Out of Stock" : isMaxReached ? "Max Stock Added" : "Add to Cart"}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div ref={sentinelRef} />
+            {loadingMore && <p className="p-4 text-center">Loading more products...</p>}
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default CollectionPage;
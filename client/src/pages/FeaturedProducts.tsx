@@ -1,5 +1,4 @@
-import React, { useContext, useRef } from "react";
-import { ProductContext } from "../context/ProductContext";
+import React, { useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { ChevronLeft, ChevronRight, Heart, HeartIcon } from "lucide-react";
 import { useCurrency } from "@/context/CurrencyContext";
@@ -8,9 +7,14 @@ import { useAuth } from "@/context/AuthContext";
 import { useCart } from "@/context/CartContext";
 import { toastWithVoice } from "@/utils/toast";
 import { motion } from "framer-motion";
+import { hasVariants } from "@/utils/variants";
+import { useInfiniteScroll } from "@/hooks/useCatalogue";
+import { useCollectionProducts } from "@/hooks/useCollections";
+import type { Product } from "@/utils/catalogue";
 
+// The home page strip of the "featured" collection
 const FeaturedProducts: React.FC = () => {
-  const { products, loading } = useContext(ProductContext);
+  const { products: featured, loading, loadingMore, hasMore, loadMore } = useCollectionProducts("featured");
   const { formatPrice } = useCurrency();
   const { toggleWishlist, isInWishlist } = useWishlist();
   const { user } = useAuth();
@@ -19,11 +23,9 @@ const FeaturedProducts: React.FC = () => {
   const navigate = useNavigate();
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  const featured = Array.isArray(products)
-    ? products.filter((product) => product.featured)
-    : [];
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore);
 
-  const handleProductClick = (product: any) => {
+  const handleProductClick = (product: Product) => {
     navigate(`/product/${product.name}`, { state: { product } });
   };
 
@@ -129,6 +131,10 @@ const FeaturedProducts: React.FC = () => {
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
+                      if (hasVariants(product)) {
+                        handleProductClick(product);
+                        return;
+                      }
 
                       if (isOutOfStock) {
                         toastWithVoice.error("Out of Stock!");
@@ -167,6 +173,7 @@ const FeaturedProducts: React.FC = () => {
                 </div>
               );
             })}
+            <div ref={sentinelRef} className="w-px shrink-0" />
           </div>
 
           {/* Right scroll button */}
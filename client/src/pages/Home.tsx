@@ -34,7 +34,6 @@ const Home = () => {
   const [isSignInOpen, setIsSignInOpen] = useState(false);
   const [cartCount, setCartCount] = useState(3); // Optional
 
-  const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
   const [carouselSlides, setCarouselSlides] = useState([
     { image: '', heading: '', subtext: '' },
     { image: '', heading: '', subtext: '' },
@@ -72,19 +71,6 @@ const Home = () => {
     };
   }, [isSidebarOpen, isSignInOpen]);
 
-  // ✅ Fetch featured products
-  useEffect(() => {
-    const fetchProducts = async () => {
-      try {
-        const res = await axios.get(`${API_URL}/api/products`);
-        setFeaturedProducts(res.data.slice(0, 8));
-      } catch (err) {
-        console.error('Failed to fetch products', err);
-      }
-    };
-    fetchProducts();
-  }, []);
-
   // ✅ Fetch carousel images
   useEffect(() => {
     const fetchCarouselImages = async () => {
@@ -4,6 +4,7 @@ import { useNavigate } from "react-router-dom";
 import { Mail, Lock, Eye, EyeOff } from "lucide-react";
 import { useAuth } from "../context/AuthContext";
 import toast from "react-hot-toast";
+import { describeCartMerge } from "../utils/cartMerge";
 import axios from "axios";
 import { motion, AnimatePresence } from "framer-motion";
 // START: MODIFICATIONS FOR GOOGLE LOGIN
@@ -30,8 +31,9 @@ const Login = () => {
     setError("");
 
     try {
-      await login(formData);
+      const cartMerge = await login(formData);
       toast.success("Login successful");
+      describeCartMerge(cartMerge).forEach((message) => toast(message));
       navigate("/account", { replace: true });
     } catch (err: any) {
       const message = err?.response?.data?.message || "Login failed";
@@ -44,8 +46,9 @@ const Login = () => {
   const handleGoogleSuccess = async (credentialResponse: CredentialResponse) => {
     try {
       if (credentialResponse.credential) {
-        await googleLogin(credentialResponse.credential);
+        const cartMerge = await googleLogin(credentialResponse.credential);
         toast.success("Google login successful!");
+        describeCartMerge(cartMerge).forEach((message) => toast(message));
         navigate("/account", { replace: true });
       } else {
         throw new Error("Google credential not found");
@@ -1,13 +0,0 @@
-import React from 'react';
-
-const NewArrivalsPage = () => {
-  return (
-    <div className="p-4">
-      <h1 className="text-2xl font-bold mb-4">New Arrivals</h1>
-      {/* 🔄 Display products dynamically here */}
-      <p>Explore our latest collection just added to the store.</p>
-    </div>
-  );
-};
-
-export default NewArrivalsPage;
@@ -1,6 +1,5 @@
 import { useParams, useNavigate, useLocation } from "react-router-dom";
-import { useContext, useEffect, useState } from "react";
-import { ProductContext } from "../context/ProductContext";
+import { useEffect, useState } from "react";
 import { useCart } from "../context/CartContext";
 import { useWishlist } from "../context/WishlistContext";
 import { useAuth } from "../context/AuthContext";
@@ -17,6 +16,11 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import axios from "axios";
+import { hasVariants, findVariantBySelection, getVariantLabel, isSameCartLine } from "@/utils/variants";
+import StarRating from "../components/StarRating";
+import ProductReviews from "../components/ProductReviews";
+import PincodeChecker from "../components/PincodeChecker";
+import { useCatalogue } from "@/hooks/useCatalogue";
 
 const API_URL = import.meta.env.VITE_API_URL;
 
@@ -24,7 +28,6 @@ const ProductDetailsPage = () => {
   const { formatPrice } = useCurrency();
   const { name } = useParams();
   const location = useLocation();
-  const { products } = useContext(ProductContext);
   const { addToCart, cartItems } = useCart();
   const { wishlist, toggleWishlist, isInWishlist } = useWishlist();
   const { user } = useAuth();
@@ -36,11 +39,22 @@ const ProductDetailsPage = () => {
   const [autoScroll, setAutoScroll] = useState(true);
   const [quantity, setQuantity] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
-  const cartQuantity = cartItems.find((item) => item.id === product?._id)?.quantity || 0;
-  const isMaxQuantityReached = cartQuantity >= (product?.stock || 0);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const productHasVariants = hasVariants(product);
+  const selectedVariant = productHasVariants ? findVariantBySelection(product, selection) : undefined;
+  // For variant products, price and stock come from the chosen SKU
+  const stock = productHasVariants ? selectedVariant?.stock ?? 0 : product?.stock || 0;
+  const price = selectedVariant?.price ?? product?.price;
+  const cartQuantity = cartItems.find((item) => isSameCartLine(item, product?._id, selectedVariant?._id))?.quantity || 0;
+  const isMaxQuantityReached = cartQuantity >= stock;
 
   const [showZoom, setShowZoom] = useState(false);
 
+  const { products: related } = useCatalogue(
+    { category: product?.category, exclude: product?._id, limit: 12 },
+    !!product
+  );
+
   const swipeHandlers = useSwipeable({
     onSwipedLeft: () => document.getElementById("related-scroll")?.scrollBy({ left: 250, behavior: "smooth" }),
     onSwipedRight: () => document.getElementById("related-scroll")?.scrollBy({ left: -250, behavior: "smooth" }),
@@ -80,9 +94,28 @@ const ProductDetailsPage = () => {
       setSelectedImage(product.image);
       setQuantity(1);
     }
+    // Preselect the first SKU that is in stock
+    const defaultVariant = product?.variants?.find((v) => v.stock > 0) || product?.variants?.[0];
+    setSelection(defaultVariant ? { ...defaultVariant.attributes } : {});
   }, [product]);
 
-  const allImages = product ? [...new Set([product.image, ...(product.extraImages || [])])] : [];
+  useEffect(() => {
+    setQuantity(1);
+    if (selectedVariant?.images?.length) setSelectedImage(selectedVariant.images[0]);
+  }, [selectedVariant]);
+
+  const allImages = product
+    ? [...new Set([...(selectedVariant?.images || []), product.image, ...(product.extraImages || [])])]
+    : [];
+
+  // A value is available if some in-stock SKU has it together with the other current selections
+  const isOptionValueAvailable = (optionName: string, value: string) =>
+    (product?.variants || []).some(
+      (v) =>
+        v.stock > 0 &&
+        v.attributes?.[optionName] === value &&
+        Object.entries(selection).every(([name, selected]) => name === optionName || v.attributes?.[name] === selected)
+    );
 
   const handleNextImage = () => {
     const currentIndex = allImages.indexOf(selectedImage);
@@ -97,19 +130,29 @@ const ProductDetailsPage = () => {
   }, [autoScroll, allImages, selectedImage]);
 
   const handleAddToCart = () => {
-    if (!product || product.stock === 0) return;
+    if (!product) return;
+    if (productHasVariants && !selectedVariant) {
+      toastWithVoice.error(`Please select ${product.options.map((o) => o.name.toLowerCase()).join(" and ")}.`);
+      return;
+    }
+    if (stock === 0) return;
     if (isMaxQuantityReached) {
       toastWithVoice.error("You’ve already added maximum stock.");
       return;
     }
-    const availableToAdd = product.stock - cartQuantity;
+    const availableToAdd = stock - cartQuantity;
     const quantityToAdd = Math.min(quantity, availableToAdd);
     addToCart({
       id: product._id,
       name: product.name,
-      price: product.price,
-      image: product.image,
+      price,
+      image: selectedVariant?.images?.[0] || product.image,
       quantity: quantityToAdd,
+      ...(selectedVariant && {
+        variantId: selectedVariant._id,
+        sku: selectedVariant.sku,
+        variantLabel: getVariantLabel(selectedVariant),
+      }),
     });
     toastWithVoice.success("Added to cart!");
   };
@@ -135,8 +178,7 @@ const ProductDetailsPage = () => {
   if (isLoading) return <div className="p-6 text-center min-h-screen">Loading...</div>;
   if (!product) return <div className="p-6 text-center min-h-screen">Product not found.</div>;
 
-  const related = products.filter((p) => p.category === product.category && p._id !== product._id);
-  const lowStock = product.stock > 0 && product.stock <= 5;
+  const lowStock = stock > 0 && stock <= 5;
 
   return (
     // ✅ STYLE FIX: Added theme-aware background to the root element
@@ -213,27 +255,67 @@ const ProductDetailsPage = () => {
               <Badge variant="secondary">{product.category}</Badge>
             </div>
             <h1 className="text-3xl font-bold mb-2 text-foreground">{product.name}</h1>
+            {product.reviewCount > 0 && (
+              <div className="flex items-center gap-2 mb-2 text-sm">
+                <StarRating rating={product.averageRating} />
+                <span className="text-muted-foreground">
+                  {product.averageRating.toFixed(1)} ({product.reviewCount} reviews)
+                </span>
+              </div>
+            )}
             <p className="text-muted-foreground text-sm mb-4">{product.description}</p>
             
             <div className="flex items-center justify-start mb-2">
               {/* ✅ PRICE FIX: Removed hardcoded blue color, now uses theme-aware color */}
               <p className="text-3xl font-bold text-foreground">
-                {formatPrice(product.price)}
+                {formatPrice(price)}
               </p>
             </div>
 
-            {lowStock && <p className="text-destructive text-sm mb-2">Hurry! Only {product.stock} left in stock.</p>}
+            {productHasVariants && (
+              <div className="space-y-4 mb-4">
+                {product.options.map((option) => (
+                  <div key={option.name}>
+                    <p className="text-sm font-medium mb-2">
+                      {option.name}: <span className="text-muted-foreground">{selection[option.name] || "Select"}</span>
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {option.values.map((value: string) => {
+                        const available = isOptionValueAvailable(option.name, value);
+                        return (
+                          <Button
+                            key={value}
+                            type="button"
+                            size="sm"
+                            variant={selection[option.name] === value ? "default" : "outline"}
+                            className={available ? "" : "line-through opacity-60"}
+                            onClick={() => setSelection((prev) => ({ ...prev, [option.name]: value }))}
+                          >
+                            {value}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+                {!selectedVariant && (
+                  <p className="text-destructive text-sm">This combination is not available.</p>
+                )}
+              </div>
+            )}
+
+            {lowStock && <p className="text-destructive text-sm mb-2">Hurry! Only {stock} left in stock.</p>}
             
             <div className="flex flex-col items-start gap-2 mb-6">
               <div className="flex items-center gap-4">
                  {/* ✅ STYLE FIX: Theme-aware quantity buttons */}
                 <Button variant="outline" size="icon" onClick={() => setQuantity(Math.max(1, quantity - 1))} disabled={quantity <= 1}>-</Button>
                 <span className="font-semibold text-lg w-8 text-center">{quantity}</span>
-                <Button variant="outline" size="icon" onClick={() => setQuantity(Math.min(product.stock - cartQuantity, quantity + 1))} disabled={isMaxQuantityReached}>+</Button>
+                <Button variant="outline" size="icon" onClick={() => setQuantity(Math.min(stock - cartQuantity, quantity + 1))} disabled={isMaxQuantityReached}>+</Button>
               </div>
 
-              <span className={`text-sm font-medium ${isMaxQuantityReached || product.stock === 0 ? "text-destructive" : "text-muted-foreground"}`}>
-                {product.stock === 0 ? "Out of Stock" : isMaxQuantityReached ? "Max Stock Added" : `In Stock: ${product.stock - cartQuantity}`}
+              <span className={`text-sm font-medium ${isMaxQuantityReached || stock === 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                {stock === 0 ? "Out of Stock" : isMaxQuantityReached ? "Max Stock Added" : `In Stock: ${stock - cartQuantity}`}
               </span>
             </div>
 
@@ -241,9 +323,9 @@ const ProductDetailsPage = () => {
               <Button
                 size="lg"
                 onClick={handleAddToCart}
-                disabled={product.stock === 0 || isMaxQuantityReached}
+                disabled={stock === 0 || isMaxQuantityReached}
               >
-                {product.stock === 0 ? "Out of Stock" : isMaxQuantityReached ? "Max Stock Added" : "Add to Cart"}
+                {stock === 0 ? "Out of Stock" : isMaxQuantityReached ? "Max Stock Added" : "Add to Cart"}
               </Button>
               <Button
                 size="lg"
@@ -255,6 +337,10 @@ const ProductDetailsPage = () => {
               <Button onClick={handleShare} variant="outline" size="lg"> <Share2 className="w-4 h-4" /> </Button>
             </div>
 
+            <div className="mt-6">
+              <PincodeChecker productId={product._id} quantity={quantity} />
+            </div>
+
             <Separator className="my-6" />
             
              {/* ✅ TABS FIX: Fully theme-aware */}
@@ -302,6 +388,8 @@ const ProductDetailsPage = () => {
           </div>
         </div>
 
+        <ProductReviews productId={product._id} />
+
         {/* Related Products */}
         {related.length > 0 && (
           <div className="mt-16">
@@ -1,141 +1,316 @@
 import React, { useEffect, useState } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { Star } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { ChevronLeft, ChevronRight, SlidersHorizontal, Star, X } from 'lucide-react';
 import { useCart } from '../context/CartContext';
 import { toast } from 'react-hot-toast';
+import { hasVariants } from '@/utils/variants';
+import type { Product } from '@/utils/catalogue';
+import {
+  SEARCH_SORTS,
+  hasSearchFilters,
+  toggleSearchFilter,
+  type FacetCount,
+  type ListFilter,
+  type ProductSearchResponse,
+} from '@/utils/productSearch';
 
 const API_URL = import.meta.env.VITE_API_URL;
 
+interface FacetGroupProps {
+  title: string;
+  name: ListFilter;
+  options: (FacetCount & { label?: string })[];
+  selected: string[];
+  onToggle: (name: ListFilter, value: string) => void;
+}
+
+const FacetGroup: React.FC<FacetGroupProps> = ({ title, name, options, selected, onToggle }) => {
+  // A selected value stays visible even when the other filters leave it with no products
+  const shown: FacetGroupProps['options'] = [
+    ...options,
+    ...selected.filter((value) => !options.some((option) => option.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="mb-5">
+      <h3 className="text-sm font-semibold text-gray-800 mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {shown.map((option) => (
+          <li key={option.value}>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => onToggle(name, option.value)}
+                className="accent-purple-600"
+              />
+              <span className="flex-1">{option.label ?? option.value}</span>
+              <span className="text-xs text-gray-400">{option.count}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
 const SearchResults: React.FC = () => {
-  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { addToCart } = useCart();
 
-  const query = new URLSearchParams(location.search).get('q') ?? '';
-  const [results, setResults] = useState<any[]>([]);
+  const query = searchParams.get('q') ?? '';
+  const [data, setData] = useState<ProductSearchResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showFilters, setShowFilters] = useState(false);
+
+  // The page URL carries the query, filters, sort and page, and is sent to the API as-is
+  const searchKey = searchParams.toString();
 
   useEffect(() => {
     const fetchSearchResults = async () => {
       try {
         setLoading(true);
-        const res = await fetch(`${API_URL}/api/products/search?q=${query}`);
-        const data = await res.json();
-        setResults(data);
+        const res = await axios.get<ProductSearchResponse>(`${API_URL}/api/products/search`, {
+          params: new URLSearchParams(searchKey),
+        });
+        setData(res.data);
       } catch (err) {
         console.error('Search fetch failed:', err);
+        setData(null);
       } finally {
         setLoading(false);
       }
     };
 
-    if (query.trim()) {
-      fetchSearchResults();
-    } else {
-      setResults([]);
-      setLoading(false);
-    }
-  }, [query]);
+    fetchSearchResults();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [searchKey]);
 
-  const handleProductClick = (product: any) => {
+  const handleProductClick = (product: Product) => {
     navigate(`/product/${product.name}`, { state: { product } });
   };
 
+  const toggleFilter = (name: ListFilter, value: string) => setSearchParams(toggleSearchFilter(searchParams, name, value));
+
+  const updateParam = (name: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(name, value);
+    else next.delete(name);
+    if (name !== 'page') next.delete('page');
+    setSearchParams(next);
+  };
+
+  const clearFilters = () => {
+    const next = new URLSearchParams();
+    if (query) next.set('q', query);
+    const sort = searchParams.get('sort');
+    if (sort) next.set('sort', sort);
+    setSearchParams(next);
+  };
+
+  const facets = data?.facets;
+  const results = data?.products ?? [];
+  const page = data?.page ?? 1;
+  const pages = data?.pages ?? 1;
+
   return (
     <div className="p-4 min-h-screen bg-gradient-to-br from-blue-400 to-pink-400">
-      <h1 className="text-2xl font-bold mb-4">
-        Search results for: <span className="text-purple-600">"{query}"</span>
-      </h1>
-
-      {loading ? (
-        <p className="text-center text-gray-500">Loading...</p>
-      ) : results.length === 0 ? (
-        <p className="text-center text-red-500">No products found.</p>
-      ) : (
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-6">
-          {results.map((product) => {
-            const isLowStock = product.stock <= 5 && product.stock > 0;
-            const isOutOfStock = product.stock === 0;
-
-            return (
-              <div
-                key={product._id}
-                onClick={() => handleProductClick(product)}
-                className="bg-white border rounded-xl shadow hover:shadow-md transition p-4 flex flex-col cursor-pointer"
-              >
-                <img
-                  src={product.image}
-                  alt={product.name}
-                  className="w-full h-auto object-cover rounded mb-3"
-                />
-                <div className="flex justify-between items-start mb-1">
-                  <h3 className="font-semibold text-lg line-clamp-2">{product.name}</h3>
-                  <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
-                    {product.category}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
-                  <div className="flex items-center">
-                    {[...Array(5)].map((_, i) => (
-                      <Star
-                        key={i}
-                        className={`w-4 h-4 ${
-                          i < Math.floor(product.rating ?? 0)
-                            ? 'text-yellow-400 fill-current'
-                            : 'text-gray-300'
+      <div className="flex flex-wrap items-end justify-between gap-3 mb-4">
+        <div>
+          <h1 className="text-2xl font-bold">
+            {query ? (
+              <>
+                Search results for: <span className="text-purple-600">"{query}"</span>
+              </>
+            ) : (
+              'All products'
+            )}
+          </h1>
+          {data && (
+            <p className="text-sm text-gray-700">
+              {data.total} {data.total === 1 ? 'product' : 'products'}
+              {data.corrections.length > 0 &&
+                ` · including results for ${data.corrections.map((c) => `"${c.to}"`).join(', ')}`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowFilters((open) => !open)}
+            className="md:hidden flex items-center gap-1 px-3 py-2 rounded-lg bg-white text-sm font-medium shadow"
+          >
+            <SlidersHorizontal className="w-4 h-4" /> Filters
+          </button>
+          <select
+            value={searchParams.get('sort') ?? ''}
+            onChange={(e) => updateParam('sort', e.target.value)}
+            className="px-3 py-2 rounded-lg bg-white text-sm shadow outline-none"
+            aria-label="Sort results"
+          >
+            {SEARCH_SORTS.map((sort) => (
+              <option key={sort.value} value={sort.value}>
+                {sort.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <aside className={`${showFilters ? 'block' : 'hidden'} md:block md:w-60 shrink-0`}>
+          <div className="bg-white rounded-xl shadow p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="font-semibold">Filters</h2>
+              {hasSearchFilters(searchParams) && (
+                <button onClick={clearFilters} className="flex items-center text-xs text-purple-600 hover:underline">
+                  <X className="w-3 h-3 mr-1" /> Clear all
+                </button>
+              )}
+            </div>
+            {facets && (
+              <>
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer mb-5">
+                  <input
+                    type="checkbox"
+                    checked={searchParams.has('inStock')}
+                    onChange={(e) => updateParam('inStock', e.target.checked ? 'true' : '')}
+                    className="accent-purple-600"
+                  />
+                  <span className="flex-1">In stock only</span>
+                  <span className="text-xs text-gray-400">{facets.inStock}</span>
+                </label>
+                <FacetGroup title="Category" name="category" options={facets.categories} selected={searchParams.getAll('category')} onToggle={toggleFilter} />
+                <FacetGroup title="Price" name="price" options={facets.priceBands} selected={searchParams.getAll('price')} onToggle={toggleFilter} />
+                <FacetGroup title="Fabric" name="fabric" options={facets.fabrics} selected={searchParams.getAll('fabric')} onToggle={toggleFilter} />
+                <FacetGroup title="Colour" name="colour" options={facets.colours} selected={searchParams.getAll('colour')} onToggle={toggleFilter} />
+              </>
+            )}
+          </div>
+        </aside>
+
+        <div className="flex-1">
+          {loading && !data ? (
+            <p className="text-center text-gray-500">Loading...</p>
+          ) : results.length === 0 ? (
+            <p className="text-center text-red-500">No products found.</p>
+          ) : (
+            <div className={`grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-6 ${loading ? 'opacity-60' : ''}`}>
+              {results.map((product) => {
+                const isLowStock = product.stock <= 5 && product.stock > 0;
+                const isOutOfStock = product.stock === 0;
+
+                return (
+                  <div
+                    key={product._id}
+                    onClick={() => handleProductClick(product)}
+                    className="bg-white border rounded-xl shadow hover:shadow-md transition p-4 flex flex-col cursor-pointer"
+                  >
+                    <img
+                      src={product.image}
+                      alt={product.name}
+                      className="w-full h-auto object-cover rounded mb-3"
+                    />
+                    <div className="flex justify-between items-start mb-1">
+                      <h3 className="font-semibold text-lg line-clamp-2">{product.name}</h3>
+                      <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
+                        {product.category}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+                      <div className="flex items-center">
+                        {[...Array(5)].map((_, i) => (
+                          <Star
+                            key={i}
+                            className={`w-4 h-4 ${
+                              i < Math.round(product.averageRating ?? 0)
+                                ? 'text-yellow-400 fill-current'
+                                : 'text-gray-300'
+                            }`}
+                          />
+                        ))}
+                        <span className="ml-2">({product.reviewCount ?? 0})</span>
+                      </div>
+                      <span
+                        className={`font-medium ${
+                          isLowStock ? 'text-orange-500' : 'text-gray-600'
                         }`}
-                      />
-                    ))}
-                    <span className="ml-2">({product.reviews ?? 0})</span>
+                      >
+                        Stock: {product.stock}
+                      </span>
+                    </div>
+                    {isLowStock && (
+                      <span className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded mb-2 w-max">
+                        Low Stock
+                      </span>
+                    )}
+                    {isOutOfStock && (
+                      <span className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded mb-2 w-max">
+                        Out of Stock
+                      </span>
+                    )}
+                    <p className="text-blue-600 font-bold text-xl mb-4">
+                      ₹{product.price.toLocaleString('en-IN')}
+                    </p>
+                    <button
+                      onClick={async (e) => {
+                        e.stopPropagation();
+                        if (hasVariants(product)) {
+                          handleProductClick(product);
+                          return;
+                        }
+                        if (isOutOfStock) return;
+                        await addToCart({
+                          id: product._id,
+                          name: product.name,
+                          price: product.price,
+                          image: product.image,
+                          quantity: 1,
+                        });
+                        toast.success(`${product.name} added to cart!`);
+                      }}
+                      disabled={isOutOfStock}
+                      className={`mt-auto px-4 py-2 rounded-full font-semibold transition duration-200 ease-in-out ${
+                        isOutOfStock
+                          ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
+                          : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'
+                      }`}
+                    >
+                      {isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
+                    </button>
                   </div>
-                  <span
-                    className={`font-medium ${
-                      isLowStock ? 'text-orange-500' : 'text-gray-600'
-                    }`}
-                  >
-                    Stock: {product.stock}
-                  </span>
-                </div>
-                {isLowStock && (
-                  <span className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded mb-2 w-max">
-                    Low Stock
-                  </span>
-                )}
-                {isOutOfStock && (
-                  <span className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded mb-2 w-max">
-                    Out of Stock
-                  </span>
-                )}
-                <p className="text-blue-600 font-bold text-xl mb-4">
-                  ₹{product.price.toLocaleString('en-IN')}
-                </p>
-                <button
-                  onClick={async (e) => {
-                    e.stopPropagation();
-                    if (isOutOfStock) return;
-                    await addToCart({
-                      id: product._id,
-                      name: product.name,
-                      price: product.price,
-                      image: product.image,
-                      quantity: 1,
-                    });
-                    toast.success(`${product.name} added to cart!`);
-                  }}
-                  disabled={isOutOfStock}
-                  className={`mt-auto px-4 py-2 rounded-full font-semibold transition duration-200 ease-in-out ${
-                    isOutOfStock
-                      ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
-                      : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'
-                  }`}
-                >
-                  {isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
-                </button>
-              </div>
-            );
-          })}
+                );
+              })}
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-center gap-3 mt-8">
+              <button
+                onClick={() => updateParam('page', String(page - 1))}
+                disabled={page <= 1 || loading}
+                className="p-2 rounded-full bg-white shadow disabled:opacity-40"
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span className="text-sm font-medium">
+                Page {page} of {pages}
+              </span>
+              <button
+                onClick={() => updateParam('page', String(page + 1))}
+                disabled={page >= pages || loading}
+                className="p-2 rounded-full bg-white shadow disabled:opacity-40"
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 };
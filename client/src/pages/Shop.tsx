@@ -1,7 +1,5 @@
-import React, { useContext, useEffect, useState } from "react";
-import { ProductContext } from "../context/ProductContext";
+import React, { useEffect, useState } from "react";
 import { useCart } from "../context/CartContext";
-import { toast } from "react-hot-toast";
 import { useNavigate } from "react-router-dom";
 import { X, Heart, HeartIcon } from "lucide-react";
 import clsx from "clsx";
@@ -11,20 +9,27 @@ import { useWishlist } from "@/context/WishlistContext";
 import { toastWithVoice } from "@/utils/toast";
 import { useAuth } from "@/context/AuthContext";
 import { motion } from "framer-motion";
+import { hasVariants } from "@/utils/variants";
+import StarRating from "../components/StarRating";
+import { useCatalogue, useCategories, useInfiniteScroll } from "@/hooks/useCatalogue";
+import { CATALOGUE_SORTS, type CatalogueSort, type Product } from "@/utils/catalogue";
+
+// Blank means no bound
+const toPrice = (value: string) => (value.trim() === "" ? undefined : Number(value));
 
 const Shop: React.FC = () => {
-  const { products, loading } = useContext(ProductContext);
   const { addToCart, cartItems } = useCart();
   const { formatPrice } = useCurrency();
   const navigate = useNavigate();
   const { user } = useAuth();
 
-  const { wishlist, toggleWishlist, isInWishlist } = useWishlist();
+  const { toggleWishlist, isInWishlist } = useWishlist();
 
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [minPrice, setMinPrice] = useState<number>(0);
-  const [maxPrice, setMaxPrice] = useState<number>(10000);
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc" | "">("");
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [priceRange, setPriceRange] = useState<{ min?: number; max?: number }>({});
+  const [sortOrder, setSortOrder] = useState<CatalogueSort>("newest");
   const [showFilterMobile, setShowFilterMobile] = useState(false);
   const [isMobile, setIsMobile] = useState(() => {
     if (typeof window !== "undefined") {
@@ -40,30 +45,25 @@ const Shop: React.FC = () => {
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
-  if (loading) return <p className="p-4 text-center">Loading products...</p>;
-
-  const productList = Array.isArray(products) ? products : [];
+  // Only query once the shopper stops typing a price
+  useEffect(() => {
+    const timer = setTimeout(() => setPriceRange({ min: toPrice(minPrice), max: toPrice(maxPrice) }), 400);
+    return () => clearTimeout(timer);
+  }, [minPrice, maxPrice]);
 
-  const filtered = productList
-    .filter((product) => {
-      return (
-        product.price >= minPrice &&
-        product.price <= maxPrice &&
-        (selectedCategory ? product.category === selectedCategory : true)
-      );
-    })
-    .sort((a, b) => {
-      if (sortOrder === "asc") return a.price - b.price;
-      if (sortOrder === "desc") return b.price - a.price;
-      return 0;
-    });
+  const categories = useCategories();
+  const { products: filtered, loading, loadingMore, hasMore, loadMore } = useCatalogue({
+    category: selectedCategory ?? undefined,
+    minPrice: priceRange.min,
+    maxPrice: priceRange.max,
+    sort: sortOrder,
+  });
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore);
 
-  const handleProductClick = (product: any) => {
+  const handleProductClick = (product: Product) => {
     navigate(`/product/${product.name}`, { state: { product } });
   };
 
-  const uniqueCategories = [...new Set(productList.map((p) => p.category))];
-
   return (
     <div className="flex flex-col min-h-screen bg-gradient-to-br from-blue-400 to-pink-400">
       <main className="p-4 flex-grow">
@@ -102,19 +102,20 @@ const Shop: React.FC = () => {
               <div>
                 <h3 className="font-semibold mb-2">Category</h3>
                 <div className="space-y-1">
-                  {uniqueCategories.map((cat) => (
-                    <label key={cat} className="flex items-center gap-2">
+                  {categories.map((cat) => (
+                    <label key={cat.slug} className="flex items-center gap-2">
                       <input
                         type="radio"
                         name="category"
-                        value={cat}
-                        checked={selectedCategory === cat}
+                        value={cat.slug}
+                        checked={selectedCategory === cat.slug}
                         onChange={() => {
-                          setSelectedCategory(cat);
+                          setSelectedCategory(cat.slug);
                           if (isMobile) setShowFilterMobile(false);
                         }}
                       />
-                      <span>{cat}</span>
+                      <span>{cat.name}</span>
+                      <span className="text-xs text-gray-400">({cat.count})</span>
                     </label>
                   ))}
                   <label className="flex items-center gap-2">
@@ -139,15 +140,19 @@ const Shop: React.FC = () => {
                   ₹
                   <input
                     type="number"
+                    min={0}
+                    placeholder="Min"
                     value={minPrice}
-                    onChange={(e) => setMinPrice(Number(e.target.value))}
+                    onChange={(e) => setMinPrice(e.target.value)}
                     className="border rounded px-2 py-1 w-20"
                   />
                   to ₹
                   <input
                     type="number"
+                    min={0}
+                    placeholder="Max"
                     value={maxPrice}
-                    onChange={(e) => setMaxPrice(Number(e.target.value))}
+                    onChange={(e) => setMaxPrice(e.target.value)}
                     className="border rounded px-2 py-1 w-20"
                   />
                 </div>
@@ -157,14 +162,14 @@ const Shop: React.FC = () => {
                 <h3 className="font-semibold mb-2">Sort By</h3>
                 <select
                   value={sortOrder}
-                  onChange={(e) =>
-                    setSortOrder(e.target.value as "asc" | "desc" | "")
-                  }
+                  onChange={(e) => setSortOrder(e.target.value as CatalogueSort)}
                   className="w-full border rounded px-3 py-2"
                 >
-                  <option value="">Default</option>
-                  <option value="asc">Price: Low → High</option>
-                  <option value="desc">Price: High → Low</option>
+                  {CATALOGUE_SORTS.map((sort) => (
+                    <option key={sort.value} value={sort.value}>
+                      {sort.label}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -181,7 +186,9 @@ const Shop: React.FC = () => {
             <h2 className="text-2xl font-bold mb-4 hidden lg:block">
               🛍️ Products
             </h2>
-            {filtered.length === 0 ? (
+            {loading ? (
+              <p className="p-4 text-center">Loading products...</p>
+            ) : filtered.length === 0 ? (
               <p>No products match your filters.</p>
             ) : (
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 xl:grid-cols-5 gap-6">
@@ -239,6 +246,13 @@ const Shop: React.FC = () => {
                         {product.name}
                       </h3>
 
+                      {!!product.reviewCount && (
+                        <div className="flex items-center justify-center gap-1 text-xs">
+                          <StarRating rating={product.averageRating ?? 0} size={12} />
+                          <span>({product.reviewCount})</span>
+                        </div>
+                      )}
+
                       <p className="text-blue-100 font-bold text-base text-center">
                         {formatPrice(product.price)}
                       </p>
@@ -246,6 +260,10 @@ const Shop: React.FC = () => {
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
+                          if (hasVariants(product)) {
+                            handleProductClick(product);
+                            return;
+                          }
                           if (isOutOfStock) {
                             toastWithVoice.error("You've reached the stock limit");
                             return;
@@ -275,6 +293,8 @@ const Shop: React.FC = () => {
                 })}
               </div>
             )}
+            <div ref={sentinelRef} />
+            {loadingMore && <p className="p-4 text-center">Loading more products...</p>}
           </section>
         </div>
       </main>
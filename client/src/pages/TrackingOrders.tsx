@@ -3,13 +3,37 @@
 import { useLocation, useNavigate, Link } from "react-router-dom";
 import { useEffect, useState, useRef } from "react";
 import axios from "axios";
+import { io } from "socket.io-client";
 import { Loader2, CheckCircle, Truck, XCircle, Package } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import CancelOrderButton from "@/components/CancelOrderButton";
+import InvoiceButton from "@/components/InvoiceButton";
 
 const API_URL = import.meta.env.VITE_API_URL;
 
+interface TimelineEvent {
+  field: string;
+  to?: string;
+  at: string;
+}
+
+const paymentLabels: Record<string, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Payment received',
+  failed: 'Payment failed',
+  expired: 'Payment window expired',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially refunded',
+};
+
+const describeEvent = (event: TimelineEvent) => {
+  if (event.field === 'paymentStatus') return paymentLabels[event.to || ''] || event.to;
+  if (event.field === 'shipmentDetails.awbCode') return `Shipment booked (AWB ${event.to})`;
+  return `Order ${event.to?.toLowerCase()}`;
+};
+
 export default function TrackingOrders() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -17,19 +41,27 @@ export default function TrackingOrders() {
 
   const [order, setOrder] = useState<any>(null);
   const [trackingData, setTrackingData] = useState<any>(null);
-  const [status, setStatus] = useState<'loading' | 'polling' | 'success' | 'error'>('loading');
+  const [status, setStatus] = useState<'loading' | 'polling' | 'success' | 'cancelled' | 'error'>('loading');
   const [errorMessage, setErrorMessage] = useState('');
+  // Guest checkout links carry a signed token instead of relying on a login
+  const accessTokenRef = useRef(new URLSearchParams(location.search).get('token') || undefined);
 
   const fetchOrderAndTracking = async (orderId: string) => {
     try {
       // First, get the latest order details
-      const orderRes = await axios.get(`${API_URL}/api/orders/${orderId}`, { withCredentials: true });
+      const orderRes = await axios.get(`${API_URL}/api/orders/${orderId}`, { params: { token: accessTokenRef.current }, withCredentials: true });
       const currentOrder = orderRes.data;
       setOrder(currentOrder);
 
+      if (currentOrder.status === 'Cancelled') {
+        setStatus('cancelled');
+        if (pollingIntervalRef.current) clearInterval(pollingIntervalRef.current);
+        return;
+      }
+
       // If AWB code exists, fetch the detailed tracking history
       if (currentOrder.shipmentDetails?.awbCode) {
-        const trackingRes = await axios.get(`${API_URL}/api/shipping/track/${orderId}`, { withCredentials: true });
+        const trackingRes = await axios.get(`${API_URL}/api/shipping/track/${orderId}`, { params: { token: accessTokenRef.current }, withCredentials: true });
         if (trackingRes.data?.tracking_data) {
           setTrackingData(trackingRes.data.tracking_data);
         }
@@ -76,6 +108,18 @@ export default function TrackingOrders() {
     };
   }, [status, order?._id]);
 
+  // The courier webhook updates our copy of the tracking; refresh when it touches this order
+  useEffect(() => {
+    if (!order?._id) return;
+    const socket = io(API_URL, { withCredentials: true });
+    socket.on("orderTrackingUpdated", (payload: { _id: string }) => {
+      if (payload._id === order._id) fetchOrderAndTracking(order._id);
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, [order?._id]);
+
   // --- RENDER LOGIC ---
 
   if (status === 'loading') {
@@ -95,6 +139,22 @@ export default function TrackingOrders() {
     );
   }
 
+  if (status === 'cancelled') {
+    return (
+      <div className="bg-background min-h-screen flex items-center justify-center p-4">
+        <div className="bg-card p-8 rounded-lg border shadow-lg max-w-md w-full text-center">
+          <XCircle className="w-12 h-12 text-muted-foreground mx-auto mb-6" />
+          <h1 className="text-2xl font-bold mb-2">Order Cancelled</h1>
+          <p className="text-muted-foreground mb-6">
+            Order #{order._id.slice(-8).toUpperCase()} has been cancelled
+            {order.refundedAmount ? ` and ₹${order.refundedAmount} has been refunded to your original payment method` : ''}.
+          </p>
+          <Button onClick={() => navigate('/shop')}>Continue Shopping</Button>
+        </div>
+      </div>
+    );
+  }
+
   if (status === 'polling') {
     return (
       <div className="bg-background min-h-screen flex items-center justify-center p-4">
@@ -102,12 +162,16 @@ export default function TrackingOrders() {
           <Loader2 className="w-12 h-12 text-primary mx-auto animate-spin mb-6" />
           <h1 className="text-2xl font-bold mb-2">Confirming Your Order</h1>
           <p className="text-muted-foreground mb-8">
-            Your payment was successful! We are generating your shipping label. This page will update automatically.
+            {order.paymentMethod === 'cod'
+              ? `Your order is placed! Please keep ₹${order.totalAmount} ready to pay when it arrives. This page will update once it ships.`
+              : 'Your payment was successful! We are generating your shipping label. This page will update automatically.'}
           </p>
           <div className="text-left text-sm text-muted-foreground space-y-2">
             <p><strong>Order ID:</strong> #{order._id.slice(-8).toUpperCase()}</p>
-            <p><strong>Status:</strong> {order.paymentStatus === 'paid' ? 'Paid, Awaiting Shipment' : 'Payment Processing'}</p>
+            <p><strong>Status:</strong> {order.paymentMethod === 'cod' ? 'Cash on Delivery, Awaiting Shipment' : order.paymentStatus === 'paid' ? 'Paid, Awaiting Shipment' : 'Payment Processing'}</p>
           </div>
+          <CancelOrderButton order={order} onCancelled={() => fetchOrderAndTracking(order._id)} accessToken={accessTokenRef.current} className="mt-6" />
+          <InvoiceButton order={order} accessToken={accessTokenRef.current} className="mt-6" />
         </div>
       </div>
     );
@@ -134,6 +198,12 @@ export default function TrackingOrders() {
             <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
               <h3 className="font-semibold text-blue-800">AWB Code: {order.shipmentDetails.awbCode}</h3>
               <p className="text-sm text-blue-700">Courier: {order.shipmentDetails.courierName}</p>
+              {trackingData?.current_status && (
+                <p className="text-sm text-blue-700">Current status: {trackingData.current_status}</p>
+              )}
+              {trackingData?.etd && (
+                <p className="text-sm text-blue-700">Expected delivery: {new Date(trackingData.etd).toLocaleDateString()}</p>
+              )}
               <a
                 href={`https://shiprocket.co/tracking/${order.shipmentDetails.awbCode}`}
                 target="_blank"
@@ -144,6 +214,20 @@ export default function TrackingOrders() {
               </a>
             </div>
 
+            {order.timeline?.length > 0 && (
+              <div className="mb-6">
+                <h3 className="font-semibold mb-2">Order Timeline</h3>
+                <ol className="border-l-2 pl-4 space-y-2">
+                  {order.timeline.map((event: TimelineEvent, index: number) => (
+                    <li key={index} className="text-sm">
+                      <span className="font-medium">{describeEvent(event)}</span>
+                      <span className="text-muted-foreground"> · {new Date(event.at).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             <div className="space-y-4 mb-6">
               <h3 className="font-semibold mb-2">Tracking History</h3>
               {scans.length > 0 ? (
@@ -176,12 +260,17 @@ export default function TrackingOrders() {
               <div>
                 <h3 className="font-semibold mb-2">Order Summary</h3>
                 <div className="text-sm text-muted-foreground space-y-1">
+                  {order.paymentMethod === 'cod' && (
+                    <div className="flex justify-between"><span>Payment:</span><span>Cash on delivery{order.paymentStatus === 'paid' ? ' (paid)' : ''}</span></div>
+                  )}
                   <div className="flex justify-between"><span>Total:</span><span className="font-bold text-foreground">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(order.totalAmount)}</span></div>
                 </div>
               </div>
             </div>
 
-            <div className="mt-8 text-center">
+            <div className="mt-8 flex justify-center gap-3">
+              <CancelOrderButton order={order} onCancelled={() => fetchOrderAndTracking(order._id)} accessToken={accessTokenRef.current} />
+              <InvoiceButton order={order} accessToken={accessTokenRef.current} />
               <Button onClick={() => navigate('/shop')}>Continue Shopping</Button>
             </div>
           </CardContent>
@@ -1,24 +1,225 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import ReturnRequestForm, { OrderLine } from '../components/ReturnRequestForm';
+import CancelOrderButton from '../components/CancelOrderButton';
+import InvoiceButton from '../components/InvoiceButton';
+import GuestOrdersClaim from '../components/GuestOrdersClaim';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+interface Order {
+  _id: string;
+  createdAt: string;
+  status: string;
+  paymentStatus: string;
+  totalAmount: number;
+  refundedAmount?: number;
+  cartItems: OrderLine[];
+  cancellation?: { reason: string; at: string };
+}
+
+interface ReturnRequest {
+  _id: string;
+  order: string;
+  type: 'refund' | 'exchange';
+  status: string;
+  items: {
+    id: string;
+    variantId?: string;
+    name: string;
+    variantLabel?: string;
+    quantity: number;
+    exchangeVariantLabel?: string;
+  }[];
+  history: { status: string; note?: string; at: string }[];
+  refundAmount?: number;
+  pickup?: { awbCode?: string; courierName?: string };
+}
+
+const OPEN_RETURN_STATUSES = ['requested', 'approved', 'pickup_scheduled', 'received', 'refunding'];
+
+// An order that was partly returned can still return the rest (server/services/returnService.js)
+const RETURNABLE_ORDER_STATUSES = ['Delivered', 'Returned', 'Refunded', 'Exchanged'];
+
+// The order's lines less what earlier returns (other than rejected ones) already sent back
+const linesLeftToReturn = (order: Order, orderReturns: ReturnRequest[]): OrderLine[] => {
+  const returnedItems = orderReturns.filter((r) => r.status !== 'rejected').flatMap((r) => r.items);
+  return order.cartItems
+    .map((line) => {
+      const returned = returnedItems
+        .filter((item) => item.id === line.id && (item.variantId || '') === (line.variantId || ''))
+        .reduce((sum, item) => sum + item.quantity, 0);
+      return { ...line, quantity: line.quantity - returned };
+    })
+    .filter((line) => line.quantity > 0);
+};
+
+const returnStatusLabels: Record<string, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  pickup_scheduled: 'Pickup scheduled',
+  received: 'Received at warehouse',
+  refunding: 'Refund in progress',
+  refunded: 'Refunded',
+  exchanged: 'Replacement shipped',
+};
 
 const UserOrders = () => {
-  // Replace this with real data from your backend or Clerk DB
-  const orders = [
-    { id: 1, date: '2025-06-01', total: '$59.99' },
-    { id: 2, date: '2025-06-15', total: '$29.99' }
-  ];
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [reasons, setReasons] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [returningOrderId, setReturningOrderId] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const [ordersRes, returnsRes] = await Promise.all([
+        axios.get(`${API_URL}/api/users/my-orders`, { withCredentials: true }),
+        axios.get(`${API_URL}/api/returns/my`, { withCredentials: true }),
+      ]);
+      setOrders(ordersRes.data);
+      setReturns(returnsRes.data);
+    } catch (err) {
+      console.error('Failed to fetch orders', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+    axios
+      .get(`${API_URL}/api/returns/reasons`, { withCredentials: true })
+      .then((res) => setReasons(res.data))
+      .catch((err) => console.error('Failed to fetch return reasons', err));
+  }, [fetchOrders]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Loading your orders...</span>
+      </div>
+    );
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="space-y-4">
+        <GuestOrdersClaim onClaimed={fetchOrders} />
+        <div className="bg-white p-4 rounded-lg shadow text-center text-gray-500">
+          You have no orders yet.
+        </div>
+      </div>
+    );
+  }
 
   return (
-    <div className="p-4">
-      <h2 className="text-xl font-bold mb-4">Your Orders</h2>
-      <ul className="space-y-2">
-        {orders.map(order => (
-          <li key={order.id} className="border p-2 rounded">
-            <p>Order #{order.id}</p>
-            <p>Date: {order.date}</p>
-            <p>Total: {order.total}</p>
-          </li>
-        ))}
-      </ul>
+    <div className="space-y-4">
+      <GuestOrdersClaim onClaimed={fetchOrders} />
+      {orders.map((order) => {
+        const orderReturns = returns.filter((r) => r.order === order._id);
+        const hasOpenReturn = orderReturns.some((r) => OPEN_RETURN_STATUSES.includes(r.status));
+        const returnableLines = linesLeftToReturn(order, orderReturns);
+        const canReturn =
+          RETURNABLE_ORDER_STATUSES.includes(order.status) && !hasOpenReturn && returnableLines.length > 0;
+
+        return (
+          <div key={order._id} className="bg-white p-4 rounded-lg shadow">
+            <div className="flex justify-between items-start gap-2">
+              <div>
+                <p className="font-mono font-semibold">#{order._id.slice(-8).toUpperCase()}</p>
+                <p className="text-xs text-gray-500">{new Date(order.createdAt).toLocaleDateString()}</p>
+              </div>
+              <Badge variant="secondary">{order.status}</Badge>
+            </div>
+
+            <div className="mt-3 space-y-2">
+              {order.cartItems.map((item) => (
+                <div key={`${item.id}-${item.variantId || ''}`} className="flex items-center gap-3 text-sm">
+                  <img src={item.image} alt={item.name} className="w-10 h-12 object-cover rounded" />
+                  <div className="flex-1">
+                    <p>{item.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {item.variantLabel ? `${item.variantLabel} · ` : ''}Qty {item.quantity}
+                    </p>
+                  </div>
+                  <p>₹{(item.price * item.quantity).toLocaleString('en-IN')}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-between items-center mt-3 text-sm">
+              <p className="font-semibold">Total: ₹{order.totalAmount.toLocaleString('en-IN')}</p>
+              {!!order.refundedAmount && (
+                <p className="text-green-700">Refunded: ₹{order.refundedAmount.toLocaleString('en-IN')}</p>
+              )}
+            </div>
+
+            {order.cancellation && (
+              <p className="mt-2 text-xs text-gray-500">
+                Cancelled on {new Date(order.cancellation.at).toLocaleDateString()} · {order.cancellation.reason}
+              </p>
+            )}
+
+            {orderReturns.map((ret) => (
+              <div key={ret._id} className="mt-3 rounded border border-dashed p-3 text-sm">
+                <p className="font-medium">
+                  {ret.type === 'refund' ? 'Return for refund' : 'Exchange'} ·{' '}
+                  {returnStatusLabels[ret.status] || ret.status}
+                </p>
+                <ul className="text-xs text-gray-600 mt-1">
+                  {ret.items.map((item, idx) => (
+                    <li key={idx}>
+                      {item.quantity} × {item.name}
+                      {item.variantLabel ? ` (${item.variantLabel})` : ''}
+                      {item.exchangeVariantLabel ? ` → ${item.exchangeVariantLabel}` : ''}
+                    </li>
+                  ))}
+                </ul>
+                {ret.pickup?.awbCode && (
+                  <p className="text-xs mt-1">
+                    Pickup: {ret.pickup.courierName} · AWB {ret.pickup.awbCode}
+                  </p>
+                )}
+                <ol className="mt-2 border-l pl-3 space-y-1">
+                  {ret.history.map((entry, idx) => (
+                    <li key={idx} className="text-xs text-gray-500">
+                      <span className="text-gray-800">{returnStatusLabels[entry.status] || entry.status}</span> ·{' '}
+                      {new Date(entry.at).toLocaleString()}
+                      {entry.note ? ` · ${entry.note}` : ''}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+
+            <CancelOrderButton order={order} onCancelled={fetchOrders} className="mt-3" />
+            <InvoiceButton order={order} className="mt-3 mr-2" />
+            {canReturn && returningOrderId !== order._id && (
+              <Button variant="outline" size="sm" className="mt-3" onClick={() => setReturningOrderId(order._id)}>
+                <RotateCcw className="w-4 h-4 mr-2" /> Return or exchange
+              </Button>
+            )}
+            {returningOrderId === order._id && (
+              <ReturnRequestForm
+                orderId={order._id}
+                items={returnableLines}
+                reasons={reasons}
+                onCancel={() => setReturningOrderId(null)}
+                onSubmitted={() => {
+                  setReturningOrderId(null);
+                  fetchOrders();
+                }}
+              />
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 };
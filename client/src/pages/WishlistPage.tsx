@@ -1,21 +1,20 @@
-import React, { useContext, useEffect, useState } from "react";
+import React, { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useWishlist } from "@/context/WishlistContext";
-import { ProductContext } from "@/context/ProductContext";
+import { useProductsByIds } from "@/hooks/useCatalogue";
 import { useCurrency } from "@/context/CurrencyContext";
 import { useAuth } from "@/context/AuthContext";
 import { toastWithVoice } from "@/utils/toast";
 
 const WishlistPage: React.FC = () => {
   const { wishlist, toggleWishlist } = useWishlist();
-  const { products, loading: productsLoading } = useContext(ProductContext);
+  const { products, loading } = useProductsByIds(wishlist);
+  // Cached lookups can still hold a product that was just removed
+  const wishlistProducts = products.filter((p) => wishlist.includes(p._id));
   const { formatPrice } = useCurrency();
   const { user } = useAuth();
   const navigate = useNavigate();
 
-  const [loading, setLoading] = useState(true);
-  const [wishlistProducts, setWishlistProducts] = useState<any[]>([]);
-
   // Redirect if not logged in
   useEffect(() => {
     if (!user) {
@@ -26,38 +25,9 @@ const WishlistPage: React.FC = () => {
     }
   }, [user, navigate]);
 
-  // Filter products based on wishlist
-  useEffect(() => {
-    setLoading(true);
-    try {
-      if (Array.isArray(products)) {
-        const filtered = products.filter((p) => wishlist.includes(p._id));
-        setWishlistProducts(filtered);
-      } else {
-        setWishlistProducts([]);
-      }
-    } catch (err) {
-      console.error("Failed to filter wishlist:", err);
-      toastWithVoice.error("Could not load wishlist");
-    } finally {
-      setLoading(false);
-    }
-  }, [products, wishlist]);
-
-  // Fallback timeout in case something goes wrong
-  useEffect(() => {
-    const timeout = setTimeout(() => {
-      if (loading) {
-        console.warn("⏱️ Timeout forcing loading = false");
-        setLoading(false);
-      }
-    }, 5000);
-    return () => clearTimeout(timeout);
-  }, [loading]);
-
   if (!user) return null;
 
-  if (loading || productsLoading) {
+  if (loading) {
     return (
       <div className="min-h-[60vh] flex items-center justify-center">
         <p className="text-center py-10 text-lg">Loading wishlist...</p>
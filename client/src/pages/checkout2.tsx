@@ -2,7 +2,6 @@
 import React, { useEffect, useMemo, useState, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { useCart } from "../context/CartContext";
-import { useProducts } from "../context/ProductContext";
 import { useCurrency } from "../context/CurrencyContext";
 import { calculatePricing } from "../utils/pricing";
 
@@ -92,7 +91,6 @@ const Checkout: React.FC = () => {
 
   // bring back clearCart per old behavior
   const { cartItems, getTotalPrice, clearCart } = useCart();
-  const { reloadProducts } = useProducts();
 
   // local UI state
   const [isProcessing, setIsProcessing] = useState(false);
@@ -115,11 +113,6 @@ const Checkout: React.FC = () => {
     promoCode: "",
   });
 
-  // Load products on mount (like your new version)
-  useEffect(() => {
-    reloadProducts();
-  }, [reloadProducts]);
-
   // Handle field changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target as HTMLInputElement;
@@ -0,0 +1,57 @@
+import { cookieStorage } from "./cookieStorage";
+import type { CartItem } from "../context/CartContext";
+
+interface CartMergeLine {
+  id: string;
+  variantId?: string;
+  name: string;
+  quantity?: number;
+  requested?: number;
+  reason?: "unavailable" | "out_of_stock";
+}
+
+// What the login endpoints did with the guest cart (server/services/cartService.js)
+export interface CartMerge {
+  added: CartMergeLine[];
+  combined: CartMergeLine[];
+  clamped: CartMergeLine[];
+  removed: CartMergeLine[];
+}
+
+// The cart built while logged out. Only ever written for guests: a copy of an account cart here
+// would be merged into that same account again on the next login.
+export const GUEST_CART_COOKIE = "guestCart";
+
+// The cart a guest built before logging in, in the shape the login endpoints merge
+export const guestCartForLogin = () =>
+  (cookieStorage.getJSON<CartItem[]>(GUEST_CART_COOKIE) || []).map(({ id, variantId, quantity }) => ({ id, variantId, quantity }));
+
+// Once the login has merged it into the account, the guest cart is gone. Without a merge
+// report (the merge failed) it stays for the next login, and sold-out lines stay in case they
+// come back in stock.
+export const settleGuestCart = (merge: CartMerge | null | undefined) => {
+  if (!merge) return;
+  const soldOut = merge.removed.filter((line) => line.reason === "out_of_stock");
+  const kept = (cookieStorage.getJSON<CartItem[]>(GUEST_CART_COOKIE) || []).filter((item) =>
+    soldOut.some((line) => line.id === item.id && (line.variantId || "") === (item.variantId || ""))
+  );
+  if (kept.length > 0) cookieStorage.setJSON(GUEST_CART_COOKIE, kept);
+  else cookieStorage.removeItem(GUEST_CART_COOKIE);
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// One line per kind of change, for toasts after logging in
+export const describeCartMerge = (merge: CartMerge | null | undefined): string[] => {
+  if (!merge) return [];
+  const messages: string[] = [];
+  const moved = merge.added.length + merge.combined.length;
+  if (moved > 0) messages.push(`${plural(moved, "item")} from your basket ${moved === 1 ? "was" : "were"} added to your saved cart.`);
+  for (const line of merge.clamped) {
+    messages.push(`Only ${line.quantity} of ${line.name} ${line.quantity === 1 ? "is" : "are"} in stock, so we reduced the quantity from ${line.requested}.`);
+  }
+  for (const line of merge.removed) {
+    messages.push(`${line.name} ${line.reason === "out_of_stock" ? "is sold out" : "is no longer available"} and was removed from your cart.`);
+  }
+  return messages;
+};
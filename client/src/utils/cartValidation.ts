@@ -0,0 +1,25 @@
+// A stale cart line reported by POST /api/checkout/validate-cart
+export interface CartIssue {
+  id: string;
+  variantId?: string;
+  name: string;
+  type: "deleted" | "out_of_stock" | "low_stock" | "price_changed";
+  quantity: number;
+  available?: number;
+  oldPrice?: number;
+  price?: number;
+}
+
+// Banner text for an issue; prices go through the shopper's currency formatter
+export const describeCartIssue = (issue: CartIssue, formatPrice: (amount: number) => string) => {
+  switch (issue.type) {
+    case "deleted":
+      return `${issue.name} is no longer sold and will be removed.`;
+    case "out_of_stock":
+      return `${issue.name} has sold out and will be removed.`;
+    case "low_stock":
+      return `Only ${issue.available} of ${issue.name} left, so your quantity will drop from ${issue.quantity} to ${issue.available}.`;
+    case "price_changed":
+      return `The price of ${issue.name} has ${issue.price! > issue.oldPrice! ? "gone up" : "come down"} from ${formatPrice(issue.oldPrice!)} to ${formatPrice(issue.price!)}.`;
+  }
+};
@@ -0,0 +1,118 @@
+import axios from "axios";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  _id?: string;
+  sku: string;
+  attributes: Record<string, string>;
+  price: number;
+  stock: number;
+  images?: string[];
+}
+
+export interface Product {
+  _id: string;
+  name: string;
+  price: number;
+  image: string;
+  categoryId?: string;
+  category: string; // The category's name
+  stock: number;
+  featured?: boolean;
+  tags?: string[]; // Lower-case labels matched by collection rules
+  description?: string;
+  extraImages?: string[];
+  published?: boolean;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+  averageRating?: number;
+  reviewCount?: number;
+  weight?: number; // kg per unit
+  dimensions?: { length?: number; breadth?: number; height?: number }; // cm
+}
+
+export type CatalogueSort = "newest" | "price_asc" | "price_desc" | "rating" | "name";
+
+// GET /api/products filters (server/services/catalogService.js)
+export interface CatalogueFilters {
+  category?: string; // Slug or name; includes its subcategories
+  minPrice?: number;
+  maxPrice?: number;
+  featured?: boolean;
+  isNew?: boolean; // Added in the last 30 days
+  inStock?: boolean;
+  exclude?: string;
+  sort?: CatalogueSort;
+  limit?: number;
+}
+
+export interface CataloguePage {
+  products: Product[];
+  nextCursor: string | null;
+}
+
+export interface CategoryCount {
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export const CATALOGUE_SORTS: { value: CatalogueSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "price_asc", label: "Price: Low → High" },
+  { value: "price_desc", label: "Price: High → Low" },
+  { value: "rating", label: "Top rated" },
+  { value: "name", label: "Name" },
+];
+
+// Every product query is cached under this key; invalidate it after adding, editing or deleting
+export const PRODUCTS_QUERY_KEY = "products";
+
+export const fetchCataloguePage = async (filters: CatalogueFilters, cursor?: string) => {
+  const { isNew, featured, inStock, ...rest } = filters;
+  const res = await axios.get<CataloguePage>(`${API_URL}/api/products`, {
+    params: {
+      ...rest,
+      new: isNew || undefined,
+      featured: featured || undefined,
+      inStock: inStock || undefined,
+      cursor,
+    },
+  });
+  return res.data;
+};
+
+// Looks products up by ID, a page of 100 at a time (the API's largest page)
+export const fetchProductsByIds = async (ids: string[]) => {
+  const pages: Product[][] = [];
+  for (let i = 0; i < ids.length; i += 100) {
+    const res = await axios.get<CataloguePage>(`${API_URL}/api/products`, {
+      params: { ids: ids.slice(i, i + 100).join(","), limit: 100 },
+    });
+    pages.push(res.data.products);
+  }
+  return pages.flat();
+};
+
+// The whole catalogue, for admin screens that manage or export every product
+export const fetchAllProducts = async () => {
+  const products: Product[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchCataloguePage({ limit: 100 }, cursor);
+    products.push(...page.products);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return products;
+};
+
+export const fetchCategories = async () => {
+  const res = await axios.get<CategoryCount[]>(`${API_URL}/api/products/categories`);
+  return res.data;
+};
@@ -0,0 +1,101 @@
+import axios from "axios";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// server/models/Category.js
+export interface Category {
+  _id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  image?: string;
+  bannerImage?: string;
+  parent: string | null;
+  sortOrder: number;
+  visible: boolean;
+  depth: number; // 0 for top-level categories
+}
+
+// GET /api/categories/:slug
+export interface CategoryPageData extends Omit<Category, "depth"> {
+  oldSlugs?: string[];
+  ancestors: { _id: string; name: string; slug: string }[];
+  children: Omit<Category, "depth">[];
+}
+
+// Editable fields, as sent to POST /api/categories and PUT /api/categories/:id
+export type CategoryInput = Partial<
+  Pick<Category, "name" | "slug" | "description" | "image" | "bannerImage" | "parent" | "visible">
+>;
+
+export interface CategoryPlacement {
+  id: string;
+  parent: string | null;
+  sortOrder: number;
+}
+
+// Every category query is cached under this key; invalidate it after changing categories
+export const CATEGORIES_QUERY_KEY = "categories";
+
+export const categoryPath = (slug: string) => `/fabrics/${slug}`;
+
+// The server answers with { error } for rejected changes
+export const categoryErrorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || fallback : fallback;
+
+// Storefront categories in tree order (parents before their children)
+export const fetchCategoryList = async () => {
+  const res = await axios.get<Category[]>(`${API_URL}/api/categories`);
+  return res.data;
+};
+
+export const fetchCategoryPage = async (slug: string) => {
+  const res = await axios.get<CategoryPageData>(`${API_URL}/api/categories/${encodeURIComponent(slug)}`);
+  return res.data;
+};
+
+// Every category, hidden ones included
+export const fetchAdminCategories = async () => {
+  const res = await axios.get<Category[]>(`${API_URL}/api/categories/admin`, { withCredentials: true });
+  return res.data;
+};
+
+export const saveCategory = async (category: CategoryInput, id?: string) => {
+  const res = id
+    ? await axios.put<Category>(`${API_URL}/api/categories/${id}`, category, { withCredentials: true })
+    : await axios.post<Category>(`${API_URL}/api/categories`, category, { withCredentials: true });
+  return res.data;
+};
+
+export const deleteCategory = (id: string) =>
+  axios.delete(`${API_URL}/api/categories/${id}`, { withCredentials: true });
+
+export const moveCategories = (categories: CategoryPlacement[]) =>
+  axios.put(`${API_URL}/api/categories/order`, { categories }, { withCredentials: true });
+
+/**
+ * Moves `id` (with everything below it) to `index` among the children of `parent`, and returns
+ * the new position of every category among its siblings. Returns null when the move would put a
+ * category inside itself.
+ */
+export const placeCategory = (
+  categories: Category[],
+  id: string,
+  parent: string | null,
+  index: number
+): CategoryPlacement[] | null => {
+  for (let current = parent; current; current = categories.find((c) => c._id === current)?.parent ?? null) {
+    if (current === id) return null;
+  }
+
+  const siblings = categories.filter((c) => c.parent === parent && c._id !== id).map((c) => c._id);
+  siblings.splice(Math.min(index, siblings.length), 0, id);
+  const oldParent = categories.find((c) => c._id === id)?.parent ?? null;
+  const oldSiblings =
+    oldParent === parent ? [] : categories.filter((c) => c.parent === oldParent && c._id !== id).map((c) => c._id);
+
+  return [
+    ...siblings.map((siblingId, sortOrder) => ({ id: siblingId, parent, sortOrder })),
+    ...oldSiblings.map((siblingId, sortOrder) => ({ id: siblingId, parent: oldParent, sortOrder })),
+  ];
+};
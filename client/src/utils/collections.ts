@@ -0,0 +1,98 @@
+import axios from "axios";
+import type { CataloguePage, CatalogueSort, Product } from "./catalogue";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type CollectionSort = CatalogueSort | "manual";
+
+// Rules are combined with AND; unset rules don't restrict (server/models/Collection.js)
+export interface CollectionRules {
+  categories: string[]; // Category IDs, with their subcategories
+  tags: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  createdWithinDays?: number;
+  inStockOnly: boolean;
+  featuredOnly: boolean;
+}
+
+// GET /api/collections/:slug
+export interface CollectionPageData {
+  _id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  bannerImage?: string;
+  mode: "manual" | "rules";
+  sort: CollectionSort;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+// GET /api/admin/collections
+export interface Collection extends CollectionPageData {
+  products: string[]; // Hand-picked product IDs, in display order
+  rules: CollectionRules;
+  isActive: boolean;
+  live: boolean; // Active and inside its dates right now
+}
+
+export type CollectionInput = Omit<Collection, "_id" | "live">;
+
+export interface CollectionPreview {
+  count: number;
+  products: Product[];
+}
+
+// Every collection query is cached under this key; invalidate it after changing collections
+export const COLLECTIONS_QUERY_KEY = "collections";
+
+export const collectionPath = (slug: string) => `/collections/${slug}`;
+
+// "manual" is only offered for hand-picked collections
+export const COLLECTION_SORTS: { value: CollectionSort; label: string }[] = [
+  { value: "manual", label: "Featured order" },
+  { value: "newest", label: "Newest" },
+  { value: "price_asc", label: "Price: Low → High" },
+  { value: "price_desc", label: "Price: High → Low" },
+  { value: "rating", label: "Top rated" },
+  { value: "name", label: "Name" },
+];
+
+export const fetchCollectionPage = async (slug: string) => {
+  const res = await axios.get<CollectionPageData>(`${API_URL}/api/collections/${encodeURIComponent(slug)}`);
+  return res.data;
+};
+
+export const fetchCollectionProducts = async (slug: string, sort?: CollectionSort, cursor?: string, limit?: number) => {
+  const res = await axios.get<CataloguePage>(`${API_URL}/api/collections/${encodeURIComponent(slug)}/products`, {
+    params: { sort, cursor, limit },
+  });
+  return res.data;
+};
+
+export const fetchAdminCollections = async () => {
+  const res = await axios.get<Collection[]>(`${API_URL}/api/admin/collections`, { withCredentials: true });
+  return res.data;
+};
+
+export const saveCollection = async (collection: CollectionInput, id?: string) => {
+  const res = id
+    ? await axios.put<Collection>(`${API_URL}/api/admin/collections/${id}`, collection, { withCredentials: true })
+    : await axios.post<Collection>(`${API_URL}/api/admin/collections`, collection, { withCredentials: true });
+  return res.data;
+};
+
+export const setCollectionActive = (id: string, isActive: boolean) =>
+  axios.put(`${API_URL}/api/admin/collections/${id}`, { isActive }, { withCredentials: true });
+
+export const deleteCollection = (id: string) =>
+  axios.delete(`${API_URL}/api/admin/collections/${id}`, { withCredentials: true });
+
+// What the collection in the editor would hold, without saving it
+export const previewCollection = async (collection: CollectionInput) => {
+  const res = await axios.post<CollectionPreview>(`${API_URL}/api/admin/collections/preview`, collection, {
+    withCredentials: true,
+  });
+  return res.data;
+};
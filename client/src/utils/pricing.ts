@@ -1,6 +1,38 @@
+import type { CartItem } from "@/context/CartContext";
+import type { ShippingOption } from "./shipping";
+
+// Itemised quote returned by POST /api/checkout/quote. The server prices every line from the
+// database, so this is what the customer is actually charged.
+export type PaymentMethod = "prepaid" | "cod";
+
+export interface QuoteLine extends CartItem {
+  lineTotal: number;
+}
+
+export interface PriceQuote {
+  items: QuoteLine[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  codFee: number;
+  tax: number;
+  taxRate: number;
+  total: number;
+  currency: string;
+  coupon?: { code: string; description?: string; discount: number };
+  couponError?: string;
+  // Present when the quote was priced for a delivery pincode
+  shippingOption?: ShippingOption;
+  shippingOptions?: ShippingOption[];
+  paymentMethod: PaymentMethod;
+  // Whether this cart and pincode may be paid on delivery, and what that costs
+  cod?: { available: boolean; reason?: string; fee: number };
+}
+
+// Local estimate only, shown until the server quote arrives. Mirrors services/pricingService.js.
 export const calculatePricing = (subtotal: number) => {
-  const shipping = subtotal < 5000 ? 200 : 0;              // ₹200 if < 5000
-  const tax = Math.round(subtotal * 0.05);                  // 5% of subtotal
+  const shipping = subtotal > 0 && subtotal < 5000 ? 200 : 0; // ₹200 if < 5000
+  const tax = Math.round(subtotal * 0.05);                  // 5% GST on subtotal
   const total = Math.round(subtotal + shipping + tax);
   return { shipping, tax, total };
-};
\ No newline at end of file
+};
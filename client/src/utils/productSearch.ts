@@ -0,0 +1,49 @@
+import type { Product } from "@/utils/catalogue";
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// GET /api/products/search (server/services/searchService.js)
+export interface ProductSearchResponse {
+  products: Product[];
+  total: number;
+  page: number;
+  pages: number;
+  limit: number;
+  corrections: { from: string; to: string }[];
+  facets: {
+    categories: FacetCount[];
+    priceBands: (FacetCount & { label: string })[];
+    fabrics: FacetCount[];
+    colours: FacetCount[];
+    inStock: number;
+  };
+}
+
+// Facets that can hold several values; each is a repeated query parameter (?colour=Red&colour=Blue)
+export const LIST_FILTERS = ["category", "price", "fabric", "colour"] as const;
+export type ListFilter = (typeof LIST_FILTERS)[number];
+
+export const SEARCH_SORTS = [
+  { value: "", label: "Most relevant" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+  { value: "newest", label: "Newest" },
+  { value: "rating", label: "Top rated" },
+];
+
+// Adds or removes one facet value; any change to the filters starts again from page 1
+export const toggleSearchFilter = (params: URLSearchParams, name: ListFilter, value: string) => {
+  const next = new URLSearchParams(params);
+  const values = next.getAll(name);
+  next.delete(name);
+  const updated = values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+  updated.forEach((v) => next.append(name, v));
+  next.delete("page");
+  return next;
+};
+
+export const hasSearchFilters = (params: URLSearchParams) =>
+  LIST_FILTERS.some((name) => params.has(name)) || params.has("inStock");
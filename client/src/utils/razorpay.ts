@@ -1,106 +1,75 @@
 // utils/razorpay.ts
-import axios from 'axios';
 
-export const loadRazorpayScript = (): Promise<boolean> => {
-  return new Promise((resolve) => {
-    const script = document.createElement('script');
-    script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-    script.onload = () => resolve(true);
-    script.onerror = () => resolve(false);
-    document.body.appendChild(script);
-  });
-};
+// Returned by POST /api/checkout/razorpay-order
+export interface RazorpayCheckoutOrder {
+  orderId: string;
+  razorpayOrderId: string;
+  amount: number; // paise
+  currency: string;
+  keyId: string;
+  prefill: { name?: string; email?: string; contact?: string };
+  accessToken?: string; // guests only
+}
 
-type RazorpayItem = {
-  name: string;
-  quantity: number;
-  price: number;
-};
+// What Checkout hands to the success handler; POST it to /api/checkout/verify
+export interface RazorpayPaymentResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
 
-interface RazorpayProps {
+interface RazorpayOptions {
+  key: string;
   amount: number;
-  items: RazorpayItem[];
-  userId: string;
-  address: any; // type based on your address structure
-  onSuccess: (orderId: string) => void;
-  onFailure?: () => void;
+  currency: string;
+  name: string;
+  description: string;
+  order_id: string;
+  prefill: RazorpayCheckoutOrder["prefill"];
+  handler: (response: RazorpayPaymentResponse) => void;
+  modal: { ondismiss: () => void };
+  theme: { color: string };
 }
 
-export const initiateRazorpayPayment = async ({
-  amount,
-  items,
-  userId,
-  address,
-  onSuccess,
-  onFailure,
-}: RazorpayProps) => {
-  const loaded = await loadRazorpayScript();
-  if (!loaded) {
-    alert('Razorpay SDK failed to load. Are you online?');
-    return;
+declare global {
+  interface Window {
+    Razorpay?: new (options: RazorpayOptions) => { open: () => void };
   }
+}
 
-  try {
-    // 1. Create Razorpay order from backend
-    const orderRes = await axios.post(
-      `${import.meta.env.VITE_API_URL}/api/payment/orders`,
-      {
-        amount: amount * 100, // in paise
-      }
-    );
-
-    const { id: razorpayOrderId, amount: razorpayAmount } = orderRes.data;
-
-    const options = {
-      key: import.meta.env.VITE_RAZORPAY_KEY_ID as string,
-      amount: razorpayAmount,
-      currency: 'INR',
-      name: 'My Store',
-      description: 'Order Payment',
-      order_id: razorpayOrderId,
-      handler: async function (response: any) {
-        try {
-          // 2. Send verification & save order
-          const verifyRes = await axios.post(
-            `${import.meta.env.VITE_API_URL}/api/payment/verify`,
-            {
-              razorpay_order_id: response.razorpay_order_id,
-              razorpay_payment_id: response.razorpay_payment_id,
-              razorpay_signature: response.razorpay_signature,
-              items,
-              amount,
-              userId,
-              address,
-            }
-          );
+// VITE_RAZORPAY_CHECKOUT_URL points at server/dev/fakeRazorpay.js for local testing
+const CHECKOUT_URL = import.meta.env.VITE_RAZORPAY_CHECKOUT_URL || 'https://checkout.razorpay.com/v1/checkout.js';
 
-          const { orderId } = verifyRes.data;
-          // 3. Redirect to success page
-          onSuccess(orderId);
-        } catch (err) {
-          console.error('Payment verification failed:', err);
-          alert('Payment succeeded but verification failed. Contact support.');
-          onFailure?.();
-        }
-      },
-      prefill: {
-        name: 'Customer Name',
-        email: 'customer@example.com',
-        contact: '9999999999',
-      },
-      notes: {
-        items: JSON.stringify(items),
-      },
-      theme: {
-        color: '#6366f1',
-      },
-    };
+export const loadRazorpayScript = (): Promise<boolean> => {
+  if (window.Razorpay) return Promise.resolve(true);
+  return new Promise((resolve) => {
+    const script = document.createElement('script');
+    script.src = CHECKOUT_URL;
+    script.onload = () => resolve(true);
+    script.onerror = () => resolve(false);
+    document.body.appendChild(script);
+  });
+};
 
-    const rzp = new (window as any).Razorpay(options);
+// Opens the Checkout modal for an order. Resolves with the signed payment details, or null if
+// the customer closed the modal without paying (Razorpay handles retries inside the modal).
+export const openRazorpayCheckout = (order: RazorpayCheckoutOrder): Promise<RazorpayPaymentResponse | null> =>
+  new Promise((resolve, reject) => {
+    if (!window.Razorpay) {
+      reject(new Error('Razorpay Checkout is not loaded.'));
+      return;
+    }
+    const rzp = new window.Razorpay({
+      key: order.keyId,
+      amount: order.amount,
+      currency: order.currency,
+      name: 'Hansitha Creations',
+      description: `Order #${order.orderId.slice(-8).toUpperCase()}`,
+      order_id: order.razorpayOrderId,
+      prefill: order.prefill,
+      handler: (response) => resolve(response),
+      modal: { ondismiss: () => resolve(null) },
+      theme: { color: '#6366f1' },
+    });
     rzp.open();
-  } catch (err) {
-    console.error('Payment failed:', err);
-    alert('Something went wrong. Please try again.');
-    onFailure?.();
-  }
-};
+  });
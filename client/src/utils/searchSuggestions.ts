@@ -0,0 +1,63 @@
+import axios from "axios";
+import type { Product } from "./catalogue";
+
+const API_URL = import.meta.env.VITE_API_URL;
+const GUEST_STORAGE_KEY = "recentSearches";
+const MAX_RECENT_SEARCHES = 8;
+
+// GET /api/products/suggest (server/services/searchService.js)
+export interface SearchSuggestions {
+  queries: string[];
+  categories: { name: string; slug: string; count: number }[];
+  products: Product[];
+}
+
+export interface PopularSearch {
+  query: string;
+  count: number;
+}
+
+const readGuestSearches = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter((q) => typeof q === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeGuestSearches = (searches: string[]) => localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(searches));
+
+export const normaliseSearch = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+export const fetchSuggestions = async (q: string) => {
+  const res = await axios.get<SearchSuggestions>(`${API_URL}/api/products/suggest`, { params: { q } });
+  return res.data;
+};
+
+export const fetchPopularSearches = async () => {
+  const res = await axios.get<PopularSearch[]>(`${API_URL}/api/products/search/popular`);
+  return res.data.map((row) => row.query);
+};
+
+// Logged-in customers' searches are kept by the server (it logs each search it runs); a guest's
+// stay in this browser
+export const fetchRecentSearches = async (loggedIn: boolean) => {
+  if (!loggedIn) return readGuestSearches();
+  const res = await axios.get<{ query: string }[]>(`${API_URL}/api/users/search-history`, { withCredentials: true });
+  return res.data.map((row) => row.query);
+};
+
+export const forgetRecentSearch = async (loggedIn: boolean, query?: string) => {
+  if (loggedIn) {
+    await axios.delete(`${API_URL}/api/users/search-history`, { params: { query }, withCredentials: true });
+  } else {
+    writeGuestSearches(query ? readGuestSearches().filter((q) => q !== query) : []);
+  }
+};
+
+// Moves a query to the front of the list, as the server does when it logs a search
+export const addRecentSearch = (searches: string[], query: string) =>
+  [normaliseSearch(query), ...searches.filter((q) => q !== normaliseSearch(query))].slice(0, MAX_RECENT_SEARCHES);
+
+export const rememberGuestSearch = (query: string) => writeGuestSearches(addRecentSearch(readGuestSearches(), query));
@@ -0,0 +1,44 @@
+import type { Product } from "./catalogue";
+
+// A delivery option from POST /api/shipping/rates (also listed on checkout quotes)
+export interface ShippingOption {
+  id: string;
+  provider: string;
+  courierId?: number;
+  courierName: string;
+  rate: number;
+  etdDays?: number;
+  cod: boolean;
+}
+
+// "Delivers by Thu, 24 Oct" for an option's estimated days in transit
+export const formatDeliveryEstimate = (etdDays?: number) => {
+  if (!etdDays) return "Delivery date shown after dispatch";
+  const date = new Date();
+  date.setDate(date.getDate() + etdDays);
+  return `Delivers by ${date.toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" })}`;
+};
+
+// Form state for the per-unit parcel inputs; blank strings mean "use the default box"
+export interface ShippingFieldValues {
+  weight: string;
+  length: string;
+  breadth: string;
+  height: string;
+}
+
+export const emptyShippingFields: ShippingFieldValues = { weight: "", length: "", breadth: "", height: "" };
+
+const toInput = (value?: number) => (value === undefined || value === null ? "" : String(value));
+
+export const shippingFieldsFromProduct = (product: Pick<Product, "weight" | "dimensions">): ShippingFieldValues => ({
+  weight: toInput(product.weight),
+  length: toInput(product.dimensions?.length),
+  breadth: toInput(product.dimensions?.breadth),
+  height: toInput(product.dimensions?.height),
+});
+
+export const shippingFieldsToPayload = (values: ShippingFieldValues) => ({
+  weight: values.weight,
+  dimensions: { length: values.length, breadth: values.breadth, height: values.height },
+});
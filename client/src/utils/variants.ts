@@ -0,0 +1,46 @@
+import type { Product, ProductOption, ProductVariant } from "@/utils/catalogue";
+import type { CartItem } from "@/context/CartContext";
+
+export const hasVariants = (product?: Partial<Product> | null) =>
+  !!product?.variants && product.variants.length > 0;
+
+// e.g. "M / Red"
+export const getVariantLabel = (variant?: Pick<ProductVariant, "attributes"> | null) =>
+  variant?.attributes ? Object.values(variant.attributes).join(" / ") : "";
+
+export const findVariantById = (product: Partial<Product> | null | undefined, variantId?: string) =>
+  variantId ? product?.variants?.find((v) => v._id === variantId) : undefined;
+
+// Returns the variant matching every selected option value, if the selection is complete.
+export const findVariantBySelection = (
+  product: Partial<Product> | null | undefined,
+  selection: Record<string, string>
+) => {
+  const options = product?.options || [];
+  if (options.some((opt) => !selection[opt.name])) return undefined;
+  return product?.variants?.find((v) =>
+    options.every((opt) => v.attributes?.[opt.name] === selection[opt.name])
+  );
+};
+
+// Cartesian product of option values, used by the admin editor to scaffold SKU rows.
+export const buildVariantCombinations = (options: { name: string; values: string[] }[]) =>
+  options
+    .filter((opt) => opt.name && opt.values.length > 0)
+    .reduce<Record<string, string>[]>(
+      (combos, opt) => combos.flatMap((combo) => opt.values.map((value) => ({ ...combo, [opt.name]: value }))),
+      [{}]
+    );
+
+// Option values are edited as raw comma-separated text; trim and drop blanks before saving.
+export const cleanOptions = (options: ProductOption[]): ProductOption[] =>
+  options
+    .map((opt) => ({
+      name: opt.name.trim(),
+      values: [...new Set(opt.values.map((v) => v.trim()).filter(Boolean))],
+    }))
+    .filter((opt) => opt.name && opt.values.length > 0);
+
+// Two cart lines are the same when both product and variant match
+export const isSameCartLine = (item: CartItem, id: string, variantId?: string) =>
+  item.id === id && (item.variantId || null) === (variantId || null);
@@ -0,0 +1,275 @@
+// server/dev/fakeRazorpay.js
+//
+// A local stand-in for the Razorpay API and its Checkout script so payments can be exercised
+// without real money. Run it with `npm run fake:razorpay`, start the API with
+// RAZORPAY_BASE_URL=http://localhost:4200 and the client with
+// VITE_RAZORPAY_CHECKOUT_URL=http://localhost:4200/checkout.js. Use the same RAZORPAY_KEY_ID,
+// RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET as the API.
+//
+// Pay a Razorpay order the way the Checkout modal would (returns the handler's response):
+//   curl -X POST localhost:4200/__fake/orders/<order_id>/pay
+// Add -d '{"webhook":true}' -H 'Content-Type: application/json' to also fire order.paid.
+// Fail a payment attempt on an order (fires payment.failed):
+//   curl -X POST localhost:4200/__fake/orders/<order_id>/fail
+// Opening a payment link's short_url pays it, fires payment_link.paid and follows the callback.
+// Refunds fire refund.processed.
+
+const express = require('express');
+const axios = require('axios');
+const crypto = require('crypto');
+const dotenv = require('dotenv');
+
+dotenv.config();
+
+const PORT = process.env.FAKE_RAZORPAY_PORT || 4200;
+const WEBHOOK_URL = process.env.FAKE_RAZORPAY_WEBHOOK_URL
+    || `http://localhost:${process.env.PORT || 10000}/api/orders/webhook`;
+
+const app = express();
+app.use(express.json());
+
+let nextId = 1;
+const newId = (prefix) => `${prefix}_fake${String(nextId++).padStart(10, '0')}`;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const orders = new Map(); // order_id -> order
+const paymentLinks = new Map(); // plink_id -> payment link
+const payments = new Map(); // pay_id -> payment
+
+const createPayment = (amount, extra = {}) => {
+    const payment = {
+        id: newId('pay'),
+        entity: 'payment',
+        amount,
+        currency: 'INR',
+        status: 'captured',
+        method: 'upi',
+        amount_refunded: 0,
+        created_at: nowSeconds(),
+        ...extra,
+    };
+    payments.set(payment.id, payment);
+    return payment;
+};
+
+// Razorpay signs webhooks with an HMAC-SHA256 of the raw body
+const sendWebhook = async (event, payload) => {
+    const body = JSON.stringify({ entity: 'event', event, payload, created_at: nowSeconds() });
+    const signature = crypto
+        .createHmac('sha256', process.env.RAZORPAY_WEBHOOK_SECRET || '')
+        .update(body)
+        .digest('hex');
+    const response = await axios.post(WEBHOOK_URL, body, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Razorpay-Signature': signature,
+            'X-Razorpay-Event-Id': newId('evt'),
+        },
+    });
+    return response.data;
+};
+
+const api = express.Router();
+
+// Every call must carry the API keys as basic auth, like the real API
+api.use((req, res, next) => {
+    const expected = `Basic ${Buffer.from(`${process.env.RAZORPAY_KEY_ID}:${process.env.RAZORPAY_KEY_SECRET}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+        return res.status(401).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'Authentication failed' } });
+    }
+    next();
+});
+
+api.post('/orders', (req, res) => {
+    const amount = Number(req.body.amount);
+    if (!Number.isInteger(amount) || amount < 100) {
+        return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'The amount must be atleast INR 1.00' } });
+    }
+    const order = {
+        id: newId('order'),
+        entity: 'order',
+        amount,
+        amount_paid: 0,
+        amount_due: amount,
+        currency: req.body.currency || 'INR',
+        receipt: req.body.receipt,
+        status: 'created',
+        notes: req.body.notes || {},
+        created_at: nowSeconds(),
+    };
+    orders.set(order.id, order);
+    res.json(order);
+});
+
+api.get('/orders/:id', (req, res) => {
+    const order = orders.get(req.params.id);
+    if (!order) return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'The id provided does not exist' } });
+    res.json(order);
+});
+
+api.post('/payment_links', (req, res) => {
+    const link = {
+        id: newId('plink'),
+        amount: req.body.amount,
+        currency: req.body.currency || 'INR',
+        description: req.body.description,
+        customer: req.body.customer,
+        notes: req.body.notes || {},
+        callback_url: req.body.callback_url,
+        expire_by: req.body.expire_by,
+        status: 'created',
+        payments: [],
+        created_at: nowSeconds(),
+    };
+    link.short_url = `http://localhost:${PORT}/__fake/payment_links/${link.id}`;
+    paymentLinks.set(link.id, link);
+    res.json(link);
+});
+
+api.get('/payment_links/:id', (req, res) => {
+    const link = paymentLinks.get(req.params.id);
+    if (!link) return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'The id provided does not exist' } });
+    res.json(link);
+});
+
+api.post('/payment_links/:id/cancel', (req, res) => {
+    const link = paymentLinks.get(req.params.id);
+    if (!link) return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'The id provided does not exist' } });
+    if (link.status === 'paid') {
+        return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'Payment link cannot be cancelled as it is already paid' } });
+    }
+    link.status = 'cancelled';
+    res.json(link);
+});
+
+api.get('/payments/:id', (req, res) => {
+    const payment = payments.get(req.params.id);
+    if (!payment) return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'The id provided does not exist' } });
+    res.json(payment);
+});
+
+api.post('/payments/:id/refund', (req, res) => {
+    const payment = payments.get(req.params.id);
+    if (!payment) return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'The id provided does not exist' } });
+
+    const amount = Number(req.body.amount) || payment.amount - payment.amount_refunded;
+    if (amount > payment.amount - payment.amount_refunded) {
+        return res.status(400).json({ error: { code: 'BAD_REQUEST_ERROR', description: 'The refund amount provided is greater than amount captured' } });
+    }
+    payment.amount_refunded += amount;
+    payment.refund_status = payment.amount_refunded === payment.amount ? 'full' : 'partial';
+    const refund = {
+        id: newId('rfnd'),
+        entity: 'refund',
+        amount,
+        currency: 'INR',
+        payment_id: payment.id,
+        notes: req.body.notes || {},
+        status: 'processed',
+        speed_requested: req.body.speed || 'normal',
+        created_at: nowSeconds(),
+    };
+    res.json(refund);
+
+    // Razorpay settles refunds asynchronously; the webhook follows the API response
+    setTimeout(() => {
+        sendWebhook('refund.processed', { refund: { entity: refund }, payment: { entity: payment } }).catch((error) => {
+            console.error('[Fake Razorpay] refund.processed webhook failed:', error.response?.data || error.message);
+        });
+    }, 1000);
+});
+
+app.use('/v1', api);
+
+// --- Checkout script (stands in for checkout.razorpay.com/v1/checkout.js) ---
+
+// The "modal" is a confirm() dialog: OK pays the order and calls the handler, Cancel dismisses
+app.get('/checkout.js', (req, res) => {
+    res.type('application/javascript').send(`
+window.Razorpay = function (options) {
+  this.open = function () {
+    if (!window.confirm('[Fake Razorpay] Pay ' + options.currency + ' ' + (options.amount / 100).toFixed(2) + ' for ' + options.order_id + '?')) {
+      if (options.modal && options.modal.ondismiss) options.modal.ondismiss();
+      return;
+    }
+    fetch('http://localhost:${PORT}/__fake/orders/' + options.order_id + '/pay', { method: 'POST' })
+      .then(function (res) { return res.json(); })
+      .then(function (response) { options.handler(response); });
+  };
+};`);
+});
+
+// --- Test controls (not part of the real API) ---
+
+// The fake checkout script calls these from the storefront's origin
+app.use('/__fake', (req, res, next) => {
+    res.set('Access-Control-Allow-Origin', '*');
+    next();
+});
+
+app.post('/__fake/orders/:id/pay', async (req, res) => {
+    const order = orders.get(req.params.id);
+    if (!order) return res.status(404).json({ message: 'Order not found' });
+
+    const payment = createPayment(order.amount, { order_id: order.id, notes: order.notes });
+    order.status = 'paid';
+    order.amount_paid = order.amount;
+    order.amount_due = 0;
+
+    const signature = crypto
+        .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET || '')
+        .update(`${order.id}|${payment.id}`)
+        .digest('hex');
+
+    if (req.body?.webhook) {
+        try {
+            await sendWebhook('order.paid', { order: { entity: order }, payment: { entity: payment } });
+        } catch (error) {
+            console.error('[Fake Razorpay] order.paid webhook failed:', error.response?.data || error.message);
+        }
+    }
+
+    res.json({ razorpay_order_id: order.id, razorpay_payment_id: payment.id, razorpay_signature: signature });
+});
+
+app.post('/__fake/orders/:id/fail', async (req, res) => {
+    const order = orders.get(req.params.id);
+    if (!order) return res.status(404).json({ message: 'Order not found' });
+
+    const payment = createPayment(order.amount, {
+        order_id: order.id,
+        notes: order.notes,
+        status: 'failed',
+        error_code: 'BAD_REQUEST_ERROR',
+        error_description: 'Payment failed because the bank declined it',
+    });
+    try {
+        res.json(await sendWebhook('payment.failed', { payment: { entity: payment } }));
+    } catch (error) {
+        res.status(502).json({ message: 'payment.failed webhook failed', detail: error.response?.data || error.message });
+    }
+});
+
+app.get('/__fake/payment_links/:id', async (req, res) => {
+    const link = paymentLinks.get(req.params.id);
+    if (!link) return res.status(404).send('Payment link not found');
+    if (link.status !== 'created') return res.status(400).send(`Payment link is ${link.status}`);
+
+    const payment = createPayment(link.amount, { notes: link.notes });
+    link.status = 'paid';
+    link.payments.push({ payment_id: payment.id, amount: payment.amount, status: 'captured' });
+
+    try {
+        await sendWebhook('payment_link.paid', { payment_link: { entity: link }, payment: { entity: payment } });
+    } catch (error) {
+        console.error('[Fake Razorpay] payment_link.paid webhook failed:', error.response?.data || error.message);
+    }
+    if (link.callback_url) return res.redirect(link.callback_url);
+    res.send(`Paid ${payment.id}`);
+});
+
+app.get('/__fake/state', (req, res) => {
+    res.json({ orders: [...orders.values()], paymentLinks: [...paymentLinks.values()], payments: [...payments.values()] });
+});
+
+app.listen(PORT, () => console.log(`💳 Fake Razorpay listening on port ${PORT}, webhooks → ${WEBHOOK_URL}`));
@@ -0,0 +1,17 @@
+const jwt = require("jsonwebtoken");
+
+// Like auth, but for routes that guests may use too: sets req.user when the token cookie is
+// valid and carries on without it otherwise.
+const optionalAuth = (req, res, next) => {
+  const token = req.cookies.token;
+  if (token) {
+    try {
+      req.user = { id: jwt.verify(token, process.env.JWT_SECRET).id };
+    } catch (err) {
+      // An expired session browses as a guest
+    }
+  }
+  next();
+};
+
+module.exports = optionalAuth;
@@ -0,0 +1,35 @@
+const jwt = require('jsonwebtoken');
+const Order = require('../models/Order');
+const { isValidOrderAccessToken } = require('../services/guestOrderService');
+
+// Loads req.params.orderId into req.order for its owner (logged in) or for anyone holding the
+// signed lookup link (?token=) that guest checkout hands out.
+const orderAccess = async (req, res, next) => {
+    try {
+        const order = await Order.findById(req.params.orderId);
+        if (!order) {
+            return res.status(404).json({ message: 'Order not found' });
+        }
+
+        if (req.cookies.token) {
+            try {
+                req.user = { id: jwt.verify(req.cookies.token, process.env.JWT_SECRET).id };
+            } catch (err) {
+                // An expired session can still use the link
+            }
+        }
+
+        const isOwner = order.user && req.user && order.user.toString() === req.user.id;
+        if (!isOwner && !isValidOrderAccessToken(order._id.toString(), req.query.token)) {
+            return res.status(req.user || req.query.token ? 403 : 401).json({ message: 'User not authorized to view this order' });
+        }
+
+        req.order = order;
+        next();
+    } catch (error) {
+        console.error(`Error loading order ${req.params.orderId}:`, error);
+        res.status(500).json({ message: 'Server Error' });
+    }
+};
+
+module.exports = orderAccess;
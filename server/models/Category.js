@@ -1,8 +1,21 @@
 const mongoose = require('mongoose');
 
+// A node in the category tree. Products link to a category by ID (Product.categoryId), so a
+// category can be renamed or moved without losing its products. The slug names the category's
+// page (/fabrics/:slug) and only changes when an admin edits it; earlier slugs are kept in
+// oldSlugs so existing links keep working.
 const CategorySchema = new mongoose.Schema({
-  name: { type: String, required: true },
-  image: { type: String, required: true },
-});
+  name: { type: String, required: true, trim: true },
+  slug: { type: String, required: true, unique: true, lowercase: true, trim: true },
+  oldSlugs: { type: [String], default: [], index: true },
+  description: { type: String, trim: true }, // Shown on the category page and as its meta description
+  image: { type: String }, // Round thumbnail on the home page
+  bannerImage: { type: String }, // Header of the category page
+  parent: { type: mongoose.Schema.Types.ObjectId, ref: 'Category', default: null },
+  sortOrder: { type: Number, default: 0 }, // Position among its siblings
+  visible: { type: Boolean, default: true }, // Hidden categories (and their children) are left out of the storefront
+}, { timestamps: true });
+
+CategorySchema.index({ parent: 1, sortOrder: 1 });
 
 module.exports = mongoose.model('Category', CategorySchema);
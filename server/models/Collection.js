@@ -0,0 +1,57 @@
+const mongoose = require("mongoose");
+
+// A merchandised set of products with its own page (/collections/:slug): either a hand-picked,
+// ordered list of products or every product matching a set of rules. Rules are combined with
+// AND; unset rules don't restrict. Membership is evaluated when the page is viewed
+// (services/collectionService.js), so rule collections never need updating as products change.
+const collectionRulesSchema = new mongoose.Schema({
+  categories: [{ type: mongoose.Schema.Types.ObjectId, ref: "Category" }], // any of, with their subcategories
+  tags: { type: [String], default: [] }, // any of
+  minPrice: { type: Number, min: 0 },
+  maxPrice: { type: Number, min: 0 },
+  createdWithinDays: { type: Number, min: 1 }, // added to the store in the last N days
+  inStockOnly: { type: Boolean, default: false },
+  featuredOnly: { type: Boolean, default: false },
+}, { _id: false });
+
+const collectionSchema = new mongoose.Schema({
+  name: { type: String, required: true, trim: true },
+  slug: { type: String, required: true, unique: true, lowercase: true, trim: true },
+  description: { type: String, trim: true },
+  bannerImage: { type: String },
+  mode: {
+    type: String,
+    enum: ["manual", "rules"],
+    default: "manual"
+  },
+  products: [{ type: mongoose.Schema.Types.ObjectId, ref: "Product" }], // manual mode, in display order
+  rules: { type: collectionRulesSchema, default: () => ({}) },
+  // Default order of the page; "manual" keeps the hand-picked order
+  sort: {
+    type: String,
+    enum: ["manual", "newest", "price_asc", "price_desc", "rating", "name"],
+    default: "newest"
+  },
+  // Shown only between these dates (either may be left open) while active
+  startsAt: { type: Date },
+  endsAt: { type: Date },
+  isActive: { type: Boolean, default: true },
+}, {
+  timestamps: true
+});
+
+collectionSchema.pre("validate", function (next) {
+  if (this.startsAt && this.endsAt && this.startsAt > this.endsAt) {
+    this.invalidate("endsAt", "End date must be after the start date");
+  }
+  const { minPrice, maxPrice } = this.rules || {};
+  if (typeof minPrice === "number" && typeof maxPrice === "number" && minPrice > maxPrice) {
+    this.invalidate("rules.maxPrice", "Maximum price must be at least the minimum price");
+  }
+  if (this.sort === "manual" && this.mode !== "manual") {
+    this.invalidate("sort", "Only hand-picked collections can keep a manual order");
+  }
+  next();
+});
+
+module.exports = mongoose.model("Collection", collectionSchema);
@@ -0,0 +1,21 @@
+const mongoose = require("mongoose");
+
+// Named sequences that must not skip or repeat, e.g. invoice numbers per financial year
+const counterSchema = new mongoose.Schema({
+  _id: { type: String }, // the sequence name
+  seq: { type: Number, default: 0 },
+});
+
+/**
+ * Returns the next value of the named sequence, starting at 1.
+ */
+counterSchema.statics.next = async function (name) {
+  const counter = await this.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter.seq;
+};
+
+module.exports = mongoose.model("Counter", counterSchema);
@@ -0,0 +1,44 @@
+const mongoose = require("mongoose");
+
+// Discount codes for sales and promotions. Scoping is optional: with no categories or
+// products listed the coupon applies to the whole cart.
+const couponSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  description: { type: String, trim: true },
+  type: {
+    type: String,
+    enum: ["percentage", "flat"],
+    required: true
+  },
+  value: { type: Number, required: true, min: 0 }, // percent (0-100) or ₹ amount
+  maxDiscount: { type: Number, min: 0 }, // cap for percentage coupons
+  minCartValue: { type: Number, default: 0, min: 0 },
+  categories: { type: [String], default: [] },
+  products: [{ type: mongoose.Schema.Types.ObjectId, ref: "Product" }],
+  usageLimit: { type: Number, min: 1 }, // total redemptions across all customers
+  perUserLimit: { type: Number, min: 1 },
+  usedCount: { type: Number, default: 0 },
+  validFrom: { type: Date },
+  validUntil: { type: Date },
+  isActive: { type: Boolean, default: true },
+}, {
+  timestamps: true
+});
+
+couponSchema.pre("validate", function (next) {
+  if (this.type === "percentage" && this.value > 100) {
+    this.invalidate("value", "Percentage discount cannot exceed 100");
+  }
+  if (this.validFrom && this.validUntil && this.validFrom > this.validUntil) {
+    this.invalidate("validUntil", "End date must be after the start date");
+  }
+  next();
+});
+
+module.exports = mongoose.model("Coupon", couponSchema);
@@ -0,0 +1,29 @@
+const mongoose = require("mongoose");
+
+// Work taken off the request path and run by the job worker (see services/jobQueue.js).
+// queued -> running -> completed, or back to queued with a later runAt until maxAttempts,
+// then dead (the dead-letter state: kept for an admin to inspect and retry).
+const jobSchema = new mongoose.Schema({
+  type: { type: String, required: true }, // a handler registered in services/jobHandlers.js
+  payload: { type: mongoose.Schema.Types.Mixed, default: {} },
+  status: {
+    type: String,
+    enum: ["queued", "running", "completed", "dead"],
+    default: "queued"
+  },
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, default: 5 },
+  runAt: { type: Date, default: Date.now },
+  lockedAt: { type: Date },
+  lastError: { type: String },
+  completedAt: { type: Date },
+  deadAt: { type: Date },
+}, {
+  timestamps: true
+});
+
+jobSchema.index({ status: 1, runAt: 1 });
+// Completed jobs are only kept for a week; dead ones stay until retried
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+module.exports = mongoose.model("Job", jobSchema);
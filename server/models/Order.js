@@ -3,18 +3,62 @@
 const mongoose = require("mongoose");
 
 const shipmentDetailsSchema = new mongoose.Schema({
+    provider: { type: String, default: "shiprocket" }, // Carrier adapter in services/carriers
     shiprocketOrderId: { type: Number },
     shipmentId: { type: Number },
     status: { type: String },
     awbCode: { type: String },
     courierName: { type: String },
+    labelUrl: { type: String },
+    parcel: {
+        weight: { type: Number }, // kg
+        length: { type: Number }, // cm
+        breadth: { type: Number },
+        height: { type: Number },
+    },
 });
 
+// One entry per tracked field change. Append-only: entries are never edited or removed.
+const orderEventSchema = new mongoose.Schema({
+    field: { type: String, required: true },
+    from: { type: String },
+    to: { type: String },
+    actor: { type: String, enum: ["customer", "admin", "system"], default: "system" },
+    actorId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    source: { type: String, default: "system" }, // checkout, razorpay, shiprocket, admin, customer, returns, sweeper, jobs
+    note: { type: String },
+    at: { type: Date, default: Date.now },
+}, { _id: false });
+
+const TRACKED_FIELDS = ["status", "adminStatus", "paymentStatus", "shipmentDetails.status", "shipmentDetails.awbCode"];
+
+// Customers see their order moving along, not who in the back office moved it
+const CUSTOMER_VISIBLE_FIELDS = ["status", "paymentStatus", "shipmentDetails.awbCode"];
+
+// Razorpay refunds against the order's payment. Ours are added when issued (pending); the
+// refund.processed webhook settles them and records refunds made from the Razorpay dashboard.
+const refundSchema = new mongoose.Schema({
+    refundId: { type: String, required: true },
+    amount: { type: Number, required: true },
+    status: { type: String, enum: ["pending", "processed"], default: "pending" },
+    source: { type: String }, // cancellation, returns, razorpay
+    at: { type: Date, default: Date.now },
+}, { _id: false });
+
+// Courier scans pushed by the Shiprocket tracking webhook (see services/trackingService.js)
+const trackingScanSchema = new mongoose.Schema({
+    date: { type: Date },
+    activity: { type: String },
+    location: { type: String },
+    status: { type: String },
+}, { _id: false });
+
 const orderSchema = new mongoose.Schema({
+  // Unset for guest checkout until an account with the same email claims the order
+  // (services/guestOrderService.js)
   user: {
     type: mongoose.Schema.Types.ObjectId,
-    ref: "User",
-    required: true
+    ref: "User"
   },
   email: { 
     type: String, 
@@ -32,10 +76,40 @@ const orderSchema = new mongoose.Schema({
     type: Number, 
     required: true 
   },
+  // Server quote breakdown at checkout time (see services/pricingService.js)
+  pricing: {
+    subtotal: { type: Number },
+    discount: { type: Number, default: 0 },
+    shipping: { type: Number },
+    codFee: { type: Number, default: 0 },
+    tax: { type: Number },
+    taxRate: { type: Number },
+    total: { type: Number },
+    currency: { type: String, default: "INR" },
+  },
+  coupon: {
+    code: { type: String },
+    discount: { type: Number },
+  },
+  // The delivery option the customer picked at checkout; dispatch books this courier
+  shippingMethod: {
+    provider: { type: String },
+    courierId: { type: Number },
+    courierName: { type: String },
+    rate: { type: Number },
+    etdDays: { type: Number },
+  },
+  paymentMethod: {
+    type: String,
+    enum: ["prepaid", "cod"],
+    default: "prepaid"
+  },
   razorpayPaymentLinkId: { type: String }, // <-- ADD THIS LINE
+  razorpayOrderId: { type: String }, // Inline Checkout payments
+  razorpayPaymentId: { type: String }, // Needed to issue refunds
   paymentStatus: {
     type: String,
-    enum: ["pending", "paid", "failed"], // Added "failed" for robustness
+    enum: ["pending", "paid", "failed", "expired", "refunded", "partially_refunded"], // "expired": payment link lapsed and reserved stock was released
     default: "pending"
   },
   adminStatus: {
@@ -45,12 +119,93 @@ const orderSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ["Placed", "Processing", "Shipped", "Delivered", "Cancelled"],
+    enum: ["Placed", "Processing", "Shipped", "Delivered", "Cancelled", "Return Requested", "Returned", "Refunded", "Exchanged"],
     default: "Placed"
   },
+  deliveredAt: { type: Date }, // Starts the return window
+  refundedAmount: { type: Number, default: 0 },
+  refunds: [refundSchema],
+  cancellation: {
+    reason: { type: String },
+    comment: { type: String },
+    cancelledBy: { type: String, enum: ["customer", "admin"] },
+    at: { type: Date },
+    refundId: { type: String },
+    refundError: { type: String }, // Set when the automatic refund failed and must be done by hand
+  },
+  // GST tax invoice, numbered when first issued for a paid order (services/invoiceService.js)
+  invoice: {
+    number: { type: String },
+    issuedAt: { type: Date },
+  },
   shipmentDetails: shipmentDetailsSchema, 
+  tracking: {
+    currentStatus: { type: String },
+    etd: { type: Date },
+    scans: [trackingScanSchema],
+    updatedAt: { type: Date },
+  },
+  history: [orderEventSchema],
 }, { 
     timestamps: true 
 });
 
+orderSchema.pre('save', function (next) {
+  if (this.isModified('status') && this.status === 'Delivered' && !this.deliveredAt) {
+    this.deliveredAt = new Date();
+  }
+  next();
+});
+
+const snapshotTrackedFields = (doc) =>
+  Object.fromEntries(TRACKED_FIELDS.map((field) => [field, doc.get(field)]));
+
+/**
+ * Says who is about to change the order and why; the next save records it in `history`.
+ * Without it, changes are attributed to the system.
+ * @param {object} context - { actor, actorId, source, note }
+ */
+orderSchema.methods.audit = function (context) {
+  this.$locals.audit = context;
+  return this;
+};
+
+// The status/payment/shipment timeline without internal actors or notes
+orderSchema.methods.customerTimeline = function () {
+  return this.history
+    .filter((event) => CUSTOMER_VISIBLE_FIELDS.includes(event.field))
+    .map((event) => ({ field: event.field, from: event.from, to: event.to, at: event.at }));
+};
+
+orderSchema.post('init', function () {
+  this.$locals.tracked = snapshotTrackedFields(this);
+});
+
+orderSchema.pre('save', function (next) {
+  const before = this.$locals.tracked || {};
+  const { actor, actorId, source, note } = this.$locals.audit || {};
+
+  for (const field of TRACKED_FIELDS) {
+    const from = before[field] ?? undefined;
+    const to = this.get(field) ?? undefined;
+    if (String(from ?? '') === String(to ?? '')) continue;
+    this.history.push({
+      field,
+      from: from === undefined ? undefined : String(from),
+      to: to === undefined ? undefined : String(to),
+      actor,
+      actorId,
+      source,
+      note,
+    });
+  }
+  next();
+});
+
+orderSchema.post('save', function () {
+  this.$locals.tracked = snapshotTrackedFields(this);
+});
+
+orderSchema.index({ "invoice.number": 1 }, { unique: true, sparse: true });
+
 module.exports = mongoose.model('Order', orderSchema);
\ No newline at end of file
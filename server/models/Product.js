@@ -1,14 +1,71 @@
 const mongoose = require('mongoose');
 
+// An option axis such as Size, Colour or Fabric, with the values a variant may take.
+const OptionSchema = new mongoose.Schema({
+  name: { type: String, required: true, trim: true },
+  values: { type: [String], default: [] },
+}, { _id: false });
+
+// A single sellable SKU; `attributes` maps option name -> chosen value (e.g. { Size: "M", Colour: "Red" }).
+const VariantSchema = new mongoose.Schema({
+  sku: { type: String, required: true, trim: true },
+  attributes: { type: Map, of: String, default: {} },
+  price: { type: Number, required: true, min: 0 },
+  stock: { type: Number, required: true, min: 0, default: 0 },
+  images: { type: [String], default: [] },
+});
+
 const ProductSchema = new mongoose.Schema({
   name: { type: String, required: true },
   price: { type: Number, required: true },
   stock: { type: Number, required: true },
   image: { type: String, required: true }, // main image
   extraImages: { type: [String], default: [] }, // ✅ Add this line
+  categoryId: { type: mongoose.Schema.Types.ObjectId, ref: "Category" },
+  // The category's name, kept in step with categoryId by services/categoryService.js so search,
+  // coupons and order lines can use it without a lookup
   category: { type: String, required: true },
   description: { type: String, required: true },
   featured: { type: Boolean, default: false },
+  // Lower-case labels such as "bridal" or "festive", matched by collection rules
+  tags: { type: [String], default: [] },
+  options: { type: [OptionSchema], default: [] },
+  variants: { type: [VariantSchema], default: [] },
+  // Per-unit shipping parcel; services/shippingService.js falls back to a default box when unset
+  weight: { type: Number, min: 0 }, // kg
+  dimensions: {
+    length: { type: Number, min: 0 }, // cm
+    breadth: { type: Number, min: 0 },
+    height: { type: Number, min: 0 },
+  },
+  hsnCode: { type: String, trim: true }, // Printed on GST invoices; INVOICE_DEFAULT_HSN when unset
+  // Aggregated from approved reviews (services/reviewService.js)
+  averageRating: { type: Number, default: 0 },
+  reviewCount: { type: Number, default: 0 },
 }, { timestamps: true });
 
+// Catalogue search (services/searchService.js): a match in the name outranks one in the category,
+// then in option values such as fabric or colour, then in the description.
+ProductSchema.index(
+  { name: "text", category: "text", "options.values": "text", description: "text" },
+  { name: "ProductSearchIndex", weights: { name: 10, category: 5, "options.values": 3, description: 1 } }
+);
+
+// Catalogue listings (services/catalogService.js) filter by category or featured and page in _id
+// or price order
+ProductSchema.index({ categoryId: 1, _id: -1 });
+ProductSchema.index({ featured: 1, _id: -1 });
+ProductSchema.index({ price: 1, _id: 1 });
+// Collection rules (services/collectionService.js)
+ProductSchema.index({ tags: 1 });
+
+// For variant products the top-level stock/price are derived: total stock and the lowest price.
+ProductSchema.pre('validate', function (next) {
+  if (this.variants && this.variants.length > 0) {
+    this.stock = this.variants.reduce((sum, v) => sum + (v.stock || 0), 0);
+    this.price = Math.min(...this.variants.map((v) => v.price));
+  }
+  next();
+});
+
 module.exports = mongoose.model('Product', ProductSchema);
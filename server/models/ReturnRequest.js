@@ -0,0 +1,77 @@
+const mongoose = require("mongoose");
+
+// A customer's request to send back items from a delivered order, for a refund or an exchange.
+// requested -> approved -> pickup_scheduled -> received -> refunded | exchanged
+//           -> rejected
+const returnItemSchema = new mongoose.Schema({
+  id: { type: String, required: true }, // Product id, as stored on Order.cartItems
+  variantId: { type: String },
+  name: { type: String },
+  variantLabel: { type: String },
+  sku: { type: String },
+  price: { type: Number },
+  quantity: { type: Number, required: true, min: 1 },
+  // Exchanges: the variant the customer wants instead (e.g. a different size)
+  exchangeVariantId: { type: String },
+  exchangeVariantLabel: { type: String },
+}, { _id: false });
+
+const historySchema = new mongoose.Schema({
+  status: { type: String, required: true },
+  note: { type: String },
+  at: { type: Date, default: Date.now },
+}, { _id: false });
+
+const RETURN_STATUSES = ["requested", "approved", "rejected", "pickup_scheduled", "received", "refunding", "refunded", "exchanged"];
+
+const returnRequestSchema = new mongoose.Schema({
+  order: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Order",
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ["refund", "exchange"],
+    required: true
+  },
+  reason: { type: String, required: true },
+  comment: { type: String, trim: true, maxlength: 1000 },
+  images: { type: [String], default: [] },
+  items: {
+    type: [returnItemSchema],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: RETURN_STATUSES,
+    default: "requested"
+  },
+  history: { type: [historySchema], default: [] },
+  pickup: {
+    provider: { type: String },
+    shiprocketOrderId: { type: Number },
+    shipmentId: { type: Number },
+    awbCode: { type: String },
+    courierName: { type: String },
+    error: { type: String },
+  },
+  refundAmount: { type: Number },
+  razorpayRefundId: { type: String },
+  exchangeOrder: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Order"
+  },
+}, {
+  timestamps: true
+});
+
+returnRequestSchema.index({ order: 1 });
+returnRequestSchema.index({ status: 1, createdAt: -1 });
+
+module.exports = mongoose.model("ReturnRequest", returnRequestSchema);
@@ -0,0 +1,38 @@
+const mongoose = require("mongoose");
+
+// A customer review. Only buyers with a delivered order for the product can post one,
+// and it stays hidden until an admin approves it.
+const reviewSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Product",
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  order: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Order"
+  },
+  rating: { type: Number, required: true, min: 1, max: 5 },
+  title: { type: String, trim: true, maxlength: 120 },
+  comment: { type: String, trim: true, maxlength: 2000 },
+  images: { type: [String], default: [] },
+  status: {
+    type: String,
+    enum: ["pending", "approved", "rejected"],
+    default: "pending"
+  },
+  moderationNote: { type: String },
+}, {
+  timestamps: true
+});
+
+// One review per customer per product
+reviewSchema.index({ product: 1, user: 1 }, { unique: true });
+reviewSchema.index({ product: 1, status: 1, createdAt: -1 });
+
+module.exports = mongoose.model("Review", reviewSchema);
@@ -0,0 +1,19 @@
+const mongoose = require("mongoose");
+
+// One search a shopper ran (services/searchLogService.js). Powers popular searches, the admin
+// zero-result report and each customer's recent searches. Typing in the search box is not logged.
+const searchLogSchema = new mongoose.Schema({
+  query: { type: String, required: true }, // lowercased, whitespace collapsed
+  resultCount: { type: Number, required: true, min: 0 },
+  user: { type: mongoose.Schema.Types.ObjectId, ref: "User" }, // unset for guests and cleared history
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: 60 * 60 * 24 * 90 // Popular searches and the reports look at the last few weeks
+  },
+});
+
+searchLogSchema.index({ user: 1, createdAt: -1 });
+searchLogSchema.index({ query: 1, createdAt: -1 });
+
+module.exports = mongoose.model("SearchLog", searchLogSchema);
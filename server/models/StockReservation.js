@@ -0,0 +1,39 @@
+const mongoose = require("mongoose");
+
+// Stock held for a pending order while the customer pays.
+// active -> committed (payment received) or active -> released (expired, failed, rejected).
+const reservationItemSchema = new mongoose.Schema({
+  product: { type: mongoose.Schema.Types.ObjectId, ref: "Product", required: true },
+  variantId: { type: mongoose.Schema.Types.ObjectId },
+  name: { type: String },
+  quantity: { type: Number, required: true, min: 1 },
+}, { _id: false });
+
+const stockReservationSchema = new mongoose.Schema({
+  order: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Order",
+    required: true,
+    unique: true
+  },
+  items: {
+    type: [reservationItemSchema],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ["active", "committed", "released"],
+    default: "active"
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  releaseReason: { type: String },
+}, {
+  timestamps: true
+});
+
+stockReservationSchema.index({ status: 1, expiresAt: 1 });
+
+module.exports = mongoose.model("StockReservation", stockReservationSchema);
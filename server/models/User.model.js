@@ -9,6 +9,7 @@ const AddressSchema = new mongoose.Schema({
     landmark: { type: String, trim: true },
     area: { type: String, required: true, trim: true },
     city: { type: String, required: true, trim: true },
+    state: { type: String, trim: true }, // Place of supply on GST invoices
     pincode: { type: String, required: true, trim: true },
 });
 
@@ -43,10 +44,16 @@ const userSchema = new mongoose.Schema(
     cart: [
       {
         product: { type: mongoose.Schema.Types.ObjectId, ref: "Product" },
+        variantId: { type: mongoose.Schema.Types.ObjectId }, // Product.variants._id, when the product has SKUs
         quantity: { type: Number, default: 1 },
       },
     ],
     wishlist: [{ type: mongoose.Schema.Types.ObjectId, ref: "Product" }],
+    // Order emails the customer wants (see services/notificationService.js)
+    emailPreferences: {
+      orderUpdates: { type: Boolean, default: true }, // placed, paid, cancelled, refunded
+      shippingUpdates: { type: Boolean, default: true }, // shipped, delivered
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,24 @@
+const mongoose = require("mongoose");
+
+// One document per provider event we have handled. The unique index is what makes webhook
+// processing idempotent: a redelivered event fails to insert and is acknowledged unprocessed.
+// processing -> processed, or removed again when handling fails so the provider's retry runs.
+const webhookEventSchema = new mongoose.Schema({
+  provider: { type: String, required: true }, // razorpay
+  eventId: { type: String, required: true },
+  event: { type: String }, // e.g. payment_link.paid
+  status: {
+    type: String,
+    enum: ["processing", "processed"],
+    default: "processing"
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now,
+    expires: 60 * 60 * 24 * 30 // Razorpay stops retrying long before 30 days
+  },
+});
+
+webhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+module.exports = mongoose.model("WebhookEvent", webhookEventSchema);
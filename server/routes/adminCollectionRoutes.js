@@ -0,0 +1,120 @@
+// server/routes/adminCollectionRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const Collection = require('../models/Collection');
+const auth = require('../middleware/auth');
+const adminAuth = require('../middleware/adminAuth');
+const { slugify } = require('../services/categoryService');
+const { normalizeTags, isLive, previewCollection } = require('../services/collectionService');
+
+// All routes in this file require the user to be a logged-in admin
+router.use(auth, adminAuth);
+
+// Only these fields can be set from the admin form
+const editableFields = [
+    'name', 'slug', 'description', 'bannerImage', 'mode', 'products', 'rules', 'sort', 'startsAt',
+    'endsAt', 'isActive',
+];
+
+// Blank number inputs mean "no limit"
+const toOptionalNumber = (value) => (value === '' || value === null || value === undefined ? undefined : Number(value));
+
+const pickRules = (rules = {}) => ({
+    categories: Array.isArray(rules.categories) ? rules.categories : [],
+    tags: normalizeTags(rules.tags),
+    minPrice: toOptionalNumber(rules.minPrice),
+    maxPrice: toOptionalNumber(rules.maxPrice),
+    createdWithinDays: toOptionalNumber(rules.createdWithinDays),
+    inStockOnly: !!rules.inStockOnly,
+    featuredOnly: !!rules.featuredOnly,
+});
+
+// `currentName` is the saved name when editing, so a cleared URL can fall back to it
+const pickCollectionFields = (body, currentName) => {
+    const fields = {};
+    for (const key of editableFields) {
+        if (body[key] === undefined) continue;
+        // Empty form inputs clear optional fields and dates
+        fields[key] = body[key] === '' ? null : body[key];
+    }
+    if (fields.rules !== undefined) fields.rules = pickRules(fields.rules || {});
+    if (fields.slug !== undefined || currentName === undefined) {
+        // A blank URL follows the name
+        fields.slug = slugify(fields.slug || fields.name || currentName || '');
+    }
+    return fields;
+};
+
+const handleSaveError = (error, res) => {
+    if (error.code === 11000) {
+        return res.status(409).json({ message: 'Another collection already uses this URL.' });
+    }
+    if (error.name === 'ValidationError') {
+        return res.status(400).json({ message: Object.values(error.errors)[0].message });
+    }
+    if (error.name === 'CastError') {
+        return res.status(400).json({ message: 'Invalid collection details.' });
+    }
+    console.error('❌ [Admin] Failed to save collection:', error);
+    res.status(500).json({ message: 'Failed to save collection.' });
+};
+
+// GET all collections, with whether each is on show right now
+router.get('/', async (req, res) => {
+    try {
+        const collections = await Collection.find().sort({ createdAt: -1 }).lean();
+        const now = new Date();
+        res.json(collections.map((collection) => ({ ...collection, live: isLive(collection, now) })));
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch collections' });
+    }
+});
+
+// POST - how many products the collection in the editor holds, and the first few (not saved)
+router.post('/preview', async (req, res) => {
+    try {
+        const collection = new Collection(pickCollectionFields(req.body));
+        res.json(await previewCollection(collection));
+    } catch (error) {
+        console.error('❌ [Admin] Failed to preview collection:', error);
+        res.status(400).json({ message: 'Could not preview this collection.' });
+    }
+});
+
+// POST - create a collection
+router.post('/', async (req, res) => {
+    try {
+        const collection = await Collection.create(pickCollectionFields(req.body));
+        res.status(201).json(collection);
+    } catch (error) {
+        handleSaveError(error, res);
+    }
+});
+
+// PUT - update a collection
+router.put('/:id', async (req, res) => {
+    try {
+        const collection = await Collection.findById(req.params.id);
+        if (!collection) return res.status(404).json({ message: 'Collection not found' });
+
+        collection.set(pickCollectionFields(req.body, collection.name));
+        await collection.save();
+        res.json(collection);
+    } catch (error) {
+        handleSaveError(error, res);
+    }
+});
+
+// DELETE a collection
+router.delete('/:id', async (req, res) => {
+    try {
+        const collection = await Collection.findByIdAndDelete(req.params.id);
+        if (!collection) return res.status(404).json({ message: 'Collection not found' });
+        res.json({ message: 'Collection deleted' });
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to delete collection' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,84 @@
+// server/routes/adminCouponRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const Coupon = require('../models/Coupon');
+const auth = require('../middleware/auth');
+const adminAuth = require('../middleware/adminAuth');
+
+// All routes in this file require the user to be a logged-in admin
+router.use(auth, adminAuth);
+
+// Only these fields can be set from the admin form; usedCount is maintained by redemptions
+const editableFields = [
+    'code', 'description', 'type', 'value', 'maxDiscount', 'minCartValue', 'categories',
+    'products', 'usageLimit', 'perUserLimit', 'validFrom', 'validUntil', 'isActive',
+];
+
+const pickCouponFields = (body) => {
+    const fields = {};
+    for (const key of editableFields) {
+        if (body[key] === undefined) continue;
+        // Empty form inputs clear optional limits and dates
+        fields[key] = body[key] === '' ? null : body[key];
+    }
+    return fields;
+};
+
+const handleSaveError = (error, res) => {
+    if (error.code === 11000) {
+        return res.status(409).json({ message: 'A coupon with this code already exists.' });
+    }
+    if (error.name === 'ValidationError') {
+        return res.status(400).json({ message: Object.values(error.errors)[0].message });
+    }
+    console.error('❌ [Admin] Failed to save coupon:', error);
+    res.status(500).json({ message: 'Failed to save coupon.' });
+};
+
+// GET all coupons
+router.get('/', async (req, res) => {
+    try {
+        const coupons = await Coupon.find().sort({ createdAt: -1 });
+        res.json(coupons);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch coupons' });
+    }
+});
+
+// POST - create a coupon
+router.post('/', async (req, res) => {
+    try {
+        const coupon = await Coupon.create(pickCouponFields(req.body));
+        res.status(201).json(coupon);
+    } catch (error) {
+        handleSaveError(error, res);
+    }
+});
+
+// PUT - update a coupon
+router.put('/:id', async (req, res) => {
+    try {
+        const coupon = await Coupon.findById(req.params.id);
+        if (!coupon) return res.status(404).json({ message: 'Coupon not found' });
+
+        coupon.set(pickCouponFields(req.body));
+        await coupon.save();
+        res.json(coupon);
+    } catch (error) {
+        handleSaveError(error, res);
+    }
+});
+
+// DELETE a coupon
+router.delete('/:id', async (req, res) => {
+    try {
+        const coupon = await Coupon.findByIdAndDelete(req.params.id);
+        if (!coupon) return res.status(404).json({ message: 'Coupon not found' });
+        res.json({ message: 'Coupon deleted' });
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to delete coupon' });
+    }
+});
+
+module.exports = router;
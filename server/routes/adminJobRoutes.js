@@ -0,0 +1,40 @@
+// server/routes/adminJobRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const Job = require('../models/Job');
+const auth = require('../middleware/auth');
+const adminAuth = require('../middleware/adminAuth');
+const { retryJob } = require('../services/jobQueue');
+
+// All routes in this file require the user to be a logged-in admin
+router.use(auth, adminAuth);
+
+// GET background jobs, dead-lettered ones by default (?status=queued etc.)
+router.get('/', async (req, res) => {
+    try {
+        const jobs = await Job.find({ status: req.query.status || 'dead' })
+            .sort({ updatedAt: -1 })
+            .limit(200);
+        res.json(jobs);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch jobs' });
+    }
+});
+
+// POST - put a dead job back on the queue with a fresh set of attempts
+router.post('/:id/retry', async (req, res) => {
+    try {
+        const job = await retryJob(req.params.id);
+        if (!job) {
+            return res.status(400).json({ message: 'Job not found or not failed.' });
+        }
+        console.log(`[Jobs] Admin requeued ${job.type} job ${job._id}.`);
+        res.json(job);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to retry job ${req.params.id}:`, error);
+        res.status(500).json({ message: 'Failed to retry job.' });
+    }
+});
+
+module.exports = router;
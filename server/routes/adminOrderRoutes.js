@@ -3,8 +3,12 @@
 const express = require('express');
 const router = express.Router();
 const Order = require('../models/Order');
-const Product = require('../models/Product');
-const { createShiprocketOrder, assignCourierAndGetAwb } = require('../services/shiprocketService');
+const { dispatchOrder, getShippingLabel } = require('../services/shippingService');
+const { applyTrackingUpdate } = require('../services/trackingService');
+const { queueOrderEmail, queueStatusEmail } = require('../services/notificationService');
+const { getInvoicePdf } = require('../services/invoiceService');
+const { returnOrderStock } = require('../services/inventoryService');
+const { releaseCoupon } = require('../services/couponService');
 const auth = require('../middleware/auth');
 const adminAuth = require('../middleware/adminAuth');
 
@@ -21,28 +25,39 @@ router.get('/', async (req, res) => {
     }
 });
 
+// GET the full audit timeline for an order, oldest first
+router.get('/:orderId/history', async (req, res) => {
+    try {
+        const order = await Order.findById(req.params.orderId)
+            .select('history')
+            .populate('history.actorId', 'name email');
+        if (!order) {
+            return res.status(404).json({ message: 'Order not found' });
+        }
+        res.json(order.history);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch order history' });
+    }
+});
+
 // PATCH - APPROVE an order and send to Shiprocket
 router.patch('/:orderId/approve', async (req, res) => {
     try {
         const order = await Order.findById(req.params.orderId);
-        if (!order || order.adminStatus !== 'pending') {
+        if (!order || order.adminStatus !== 'pending' || order.status === 'Cancelled') {
             return res.status(400).json({ message: 'Order not found or cannot be approved.' });
         }
 
-        console.log(`🚀 [Admin] Approving order ${order._id}, creating Shiprocket order...`);
-        const shiprocketOrder = await createShiprocketOrder(order);
-        const awbData = await assignCourierAndGetAwb(shiprocketOrder.shipment_id);
-        console.log(`✅ [Admin] Order ${order._id} approved and updated with AWB.`);
+        order.audit({ actor: 'admin', actorId: req.user.id, source: 'admin', note: req.body?.note });
+        // Paid orders are usually booked by the job worker already
+        if (!order.shipmentDetails?.awbCode) {
+            console.log(`🚀 [Admin] Approving order ${order._id}, creating shipment...`);
+            await dispatchOrder(order, { provider: req.body?.provider });
+            console.log(`✅ [Admin] Order ${order._id} approved and updated with AWB.`);
+        }
 
         order.adminStatus = 'approved';
         order.status = 'Processing';
-        order.shipmentDetails = {
-            shiprocketOrderId: shiprocketOrder.order_id,
-            shipmentId: shiprocketOrder.shipment_id,
-            status: awbData.data.status,
-            awbCode: awbData.data.awb_code,
-            courierName: awbData.data.courier_name,
-        };
 
         const updatedOrder = await order.save();
         res.status(200).json(updatedOrder);
@@ -61,15 +76,16 @@ router.patch('/:orderId/reject', async (req, res) => {
             return res.status(400).json({ message: 'Order not found or cannot be rejected.' });
         }
 
+        order.audit({ actor: 'admin', actorId: req.user.id, source: 'admin', note: req.body?.note });
         order.adminStatus = 'rejected';
         order.status = 'Cancelled';
         
-        for (const item of order.cartItems) {
-            await Product.findByIdAndUpdate(item.id, { $inc: { stock: item.quantity } });
-        }
+        await returnOrderStock(order, 'rejected');
         console.log(`[Admin] Stock returned for rejected order ${order._id}.`);
         
         const updatedOrder = await order.save();
+        await releaseCoupon(updatedOrder);
+        await queueOrderEmail(updatedOrder, 'order_cancelled');
         res.status(200).json(updatedOrder);
 
     } catch (error) {
@@ -78,4 +94,68 @@ router.patch('/:orderId/reject', async (req, res) => {
     }
 });
 
+// GET - the GST invoice PDF (numbered on first download once the order is paid)
+router.get('/:orderId/invoice', async (req, res) => {
+    try {
+        const order = await Order.findById(req.params.orderId);
+        if (!order) {
+            return res.status(404).json({ message: 'Order not found' });
+        }
+        const { filename, content, error } = await getInvoicePdf(order);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+        res.attachment(filename).type('application/pdf').send(content);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to generate invoice for order ${req.params.orderId}:`, error);
+        res.status(500).json({ message: 'Failed to generate invoice.' });
+    }
+});
+
+// GET - the printable shipping label ({ url } from the carrier or { html } for our own deliveries)
+router.get('/:orderId/label', async (req, res) => {
+    try {
+        const order = await Order.findById(req.params.orderId);
+        if (!order || !order.shipmentDetails?.awbCode) {
+            return res.status(400).json({ message: 'Order not found or not shipped yet.' });
+        }
+
+        const label = await getShippingLabel(order);
+        if (label.url && label.url !== order.shipmentDetails.labelUrl) {
+            order.shipmentDetails.labelUrl = label.url;
+            await order.save();
+        }
+        res.json(label);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to get label for order ${req.params.orderId}:`, error);
+        res.status(500).json({ message: error.message || 'Failed to get shipping label.' });
+    }
+});
+
+// PATCH - record a delivery scan for orders we deliver ourselves
+router.patch('/:orderId/shipment-status', async (req, res) => {
+    try {
+        const { status, location, note } = req.body;
+        const order = await Order.findById(req.params.orderId);
+        if (!order || order.shipmentDetails?.provider !== 'manual') {
+            return res.status(400).json({ message: 'Only self-delivered orders can be updated by hand.' });
+        }
+        if (!status) {
+            return res.status(400).json({ message: 'Status is required.' });
+        }
+
+        order.audit({ actor: 'admin', actorId: req.user.id, source: 'manual', note });
+        const statusChanged = applyTrackingUpdate(order, { current_status: String(status).toUpperCase(), activity: note, location });
+        const updatedOrder = await order.save();
+        if (statusChanged) await queueStatusEmail(updatedOrder);
+
+        if (global.io) global.io.emit('orderTrackingUpdated', { _id: order._id, status: order.status, currentStatus: order.tracking.currentStatus });
+
+        res.json(updatedOrder);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to update shipment status for ${req.params.orderId}:`, error);
+        res.status(500).json({ message: 'Failed to update shipment status.' });
+    }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,226 @@
+// server/routes/adminReturnRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const Order = require('../models/Order');
+const ReturnRequest = require('../models/ReturnRequest');
+const auth = require('../middleware/auth');
+const adminAuth = require('../middleware/adminAuth');
+const { restockItems } = require('../services/inventoryService');
+const { resolvePaymentId, refundPayment } = require('../services/razorpayService');
+const {
+    addReturnHistory,
+    calculateRefundAmount,
+    createExchangeOrder,
+    orderStatusAfterReturn,
+    orderStatusWithoutReturn,
+} = require('../services/returnService');
+const { enqueueJob } = require('../services/jobQueue');
+const { queueOrderEmail } = require('../services/notificationService');
+
+// All routes in this file require the user to be a logged-in admin
+router.use(auth, adminAuth);
+
+/**
+ * Loads the return request and its order, answering 404/400 itself when the request is
+ * missing or not in one of the allowed states. Returns null when a response was sent.
+ */
+const loadReturn = async (req, res, allowedStatuses) => {
+    const returnRequest = await ReturnRequest.findById(req.params.id);
+    if (!returnRequest) {
+        res.status(404).json({ message: 'Return request not found' });
+        return null;
+    }
+    if (!allowedStatuses.includes(returnRequest.status)) {
+        res.status(400).json({ message: `This return is already ${returnRequest.status.replace('_', ' ')}.` });
+        return null;
+    }
+    const order = await Order.findById(returnRequest.order);
+    return { returnRequest, order };
+};
+
+// GET return requests (all, or ?status=requested etc.)
+router.get('/', async (req, res) => {
+    try {
+        const filter = req.query.status ? { status: req.query.status } : {};
+        const returns = await ReturnRequest.find(filter)
+            .sort({ createdAt: -1 })
+            .populate('user', 'name email')
+            .populate('order', 'totalAmount refundedAmount pricing createdAt');
+        res.json(returns);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch return requests' });
+    }
+});
+
+// PATCH - approve a return; the job worker books the reverse pickup
+router.patch('/:id/approve', async (req, res) => {
+    try {
+        const loaded = await loadReturn(req, res, ['requested']);
+        if (!loaded) return;
+        const { returnRequest } = loaded;
+
+        addReturnHistory(returnRequest, 'approved', req.body.note);
+        await returnRequest.save();
+        await enqueueJob('return.pickup', { returnId: returnRequest._id.toString() });
+        res.json(returnRequest);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to approve return ${req.params.id}:`, error);
+        res.status(500).json({ message: 'Failed to approve return.' });
+    }
+});
+
+// POST - queue another attempt at booking the reverse pickup after a carrier failure
+router.post('/:id/pickup', async (req, res) => {
+    try {
+        const loaded = await loadReturn(req, res, ['approved']);
+        if (!loaded) return;
+        const { returnRequest } = loaded;
+
+        await enqueueJob('return.pickup', { returnId: returnRequest._id.toString() });
+        res.json(returnRequest);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to book pickup.' });
+    }
+});
+
+// PATCH - reject a return request
+router.patch('/:id/reject', async (req, res) => {
+    try {
+        const loaded = await loadReturn(req, res, ['requested']);
+        if (!loaded) return;
+        const { returnRequest, order } = loaded;
+
+        addReturnHistory(returnRequest, 'rejected', req.body.note);
+        await returnRequest.save();
+
+        if (order && order.status === 'Return Requested') {
+            order.audit({ actor: 'admin', actorId: req.user.id, source: 'returns', note: `Return ${returnRequest._id}` });
+            order.status = await orderStatusWithoutReturn(order);
+            await order.save();
+        }
+        res.json(returnRequest);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to reject return.' });
+    }
+});
+
+// PATCH - the returned parcel reached the warehouse: put the items back in stock
+router.patch('/:id/receive', async (req, res) => {
+    try {
+        const loaded = await loadReturn(req, res, ['approved', 'pickup_scheduled']);
+        if (!loaded) return;
+        const { returnRequest, order } = loaded;
+
+        await restockItems(returnRequest.items);
+        addReturnHistory(returnRequest, 'received', req.body.note);
+        await returnRequest.save();
+
+        order.audit({ actor: 'admin', actorId: req.user.id, source: 'returns', note: `Return ${returnRequest._id}` });
+        order.status = await orderStatusAfterReturn(order, 'received');
+        await order.save();
+        console.log(`[Returns] Items from return ${returnRequest._id} restocked.`);
+        res.json(returnRequest);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to receive return ${req.params.id}:`, error);
+        res.status(500).json({ message: 'Failed to mark return as received.' });
+    }
+});
+
+// POST - refund a received return through Razorpay
+router.post('/:id/refund', async (req, res) => {
+    try {
+        const loaded = await loadReturn(req, res, ['received']);
+        if (!loaded) return;
+        const { returnRequest, order } = loaded;
+        if (returnRequest.type !== 'refund') {
+            return res.status(400).json({ message: 'This is an exchange, not a refund.' });
+        }
+
+        const maxRefund = order.totalAmount - (order.refundedAmount || 0);
+        const amount = req.body.amount !== undefined
+            ? Number(req.body.amount)
+            : calculateRefundAmount(order, returnRequest.items);
+        if (!(amount > 0) || amount > maxRefund) {
+            return res.status(400).json({ message: `Refund must be between ₹1 and ₹${maxRefund}.` });
+        }
+
+        if (order.paymentMethod === 'cod') {
+            return res.status(400).json({ message: 'This order was paid in cash on delivery; refund it by bank transfer or UPI.' });
+        }
+        const paymentId = await resolvePaymentId(order);
+        if (!paymentId) {
+            return res.status(400).json({ message: 'No captured Razorpay payment found for this order.' });
+        }
+
+        // A double click or a second admin must not refund the same return twice
+        const claimed = await ReturnRequest.findOneAndUpdate(
+            { _id: returnRequest._id, status: 'received' },
+            { $set: { status: 'refunding' } }
+        );
+        if (!claimed) {
+            return res.status(409).json({ message: 'This return is already being refunded.' });
+        }
+        let refund;
+        try {
+            refund = await refundPayment(paymentId, amount, {
+                order_id: order._id.toString(),
+                return_id: returnRequest._id.toString(),
+            });
+        } catch (error) {
+            await ReturnRequest.updateOne({ _id: returnRequest._id, status: 'refunding' }, { $set: { status: 'received' } });
+            throw error;
+        }
+
+        returnRequest.refundAmount = amount;
+        returnRequest.razorpayRefundId = refund.id;
+        addReturnHistory(returnRequest, 'refunded', `₹${amount} (${refund.id})`);
+        await returnRequest.save();
+
+        order.audit({ actor: 'admin', actorId: req.user.id, source: 'returns', note: `Return ${returnRequest._id}` });
+        order.razorpayPaymentId = paymentId;
+        order.refundedAmount = (order.refundedAmount || 0) + amount;
+        order.refunds.push({ refundId: refund.id, amount, source: 'returns' });
+        order.paymentStatus = order.refundedAmount >= order.totalAmount ? 'refunded' : 'partially_refunded';
+        order.status = await orderStatusAfterReturn(order, 'refunded');
+        await order.save();
+        await queueOrderEmail(order, 'order_refunded', { amount });
+
+        console.log(`✅ [Returns] Refunded ₹${amount} for return ${returnRequest._id}.`);
+        res.json(returnRequest);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to refund return ${req.params.id}:`, error);
+        res.status(500).json({ message: error.message || 'Failed to issue refund.' });
+    }
+});
+
+// POST - ship the replacement for a received exchange
+router.post('/:id/exchange', async (req, res) => {
+    try {
+        const loaded = await loadReturn(req, res, ['received']);
+        if (!loaded) return;
+        const { returnRequest, order } = loaded;
+        if (returnRequest.type !== 'exchange') {
+            return res.status(400).json({ message: 'This is a refund, not an exchange.' });
+        }
+
+        const { order: exchangeOrder, error } = await createExchangeOrder(order, returnRequest);
+        if (error) return res.status(400).json({ message: error });
+
+        returnRequest.exchangeOrder = exchangeOrder._id;
+        addReturnHistory(returnRequest, 'exchanged', `Replacement order ${exchangeOrder._id}`);
+        await returnRequest.save();
+
+        order.audit({ actor: 'admin', actorId: req.user.id, source: 'returns', note: `Return ${returnRequest._id}` });
+        order.status = await orderStatusAfterReturn(order, 'exchanged');
+        await order.save();
+
+        await enqueueJob('order.notify', { orderId: exchangeOrder._id.toString(), event: 'newOrder' });
+        res.json(returnRequest);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to create exchange for return ${req.params.id}:`, error);
+        res.status(500).json({ message: 'Failed to create replacement order.' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,64 @@
+// server/routes/adminReviewRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const Review = require('../models/Review');
+const auth = require('../middleware/auth');
+const adminAuth = require('../middleware/adminAuth');
+const { refreshProductRating } = require('../services/reviewService');
+
+// All routes in this file require the user to be a logged-in admin
+router.use(auth, adminAuth);
+
+// GET the moderation queue (pending by default; ?status=approved|rejected|all)
+router.get('/', async (req, res) => {
+    try {
+        const status = req.query.status || 'pending';
+        const filter = status === 'all' ? {} : { status };
+        const reviews = await Review.find(filter)
+            .sort({ createdAt: -1 })
+            .populate('user', 'name email')
+            .populate('product', 'name image');
+        res.json(reviews);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch reviews' });
+    }
+});
+
+// PATCH - approve or reject a review
+router.patch('/:id', async (req, res) => {
+    try {
+        const { status, moderationNote } = req.body;
+        if (!['approved', 'rejected'].includes(status)) {
+            return res.status(400).json({ message: 'Status must be approved or rejected.' });
+        }
+
+        const review = await Review.findByIdAndUpdate(
+            req.params.id,
+            { $set: { status, moderationNote } },
+            { new: true }
+        );
+        if (!review) return res.status(404).json({ message: 'Review not found' });
+
+        await refreshProductRating(review.product);
+        res.json(review);
+    } catch (error) {
+        console.error(`❌ [Admin] Failed to moderate review ${req.params.id}:`, error);
+        res.status(500).json({ message: 'Failed to update review' });
+    }
+});
+
+// DELETE a review
+router.delete('/:id', async (req, res) => {
+    try {
+        const review = await Review.findByIdAndDelete(req.params.id);
+        if (!review) return res.status(404).json({ message: 'Review not found' });
+
+        await refreshProductRating(review.product);
+        res.json({ message: 'Review deleted' });
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to delete review' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,23 @@
+// server/routes/adminSearchRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const auth = require('../middleware/auth');
+const adminAuth = require('../middleware/adminAuth');
+const { searchReport } = require('../services/searchLogService');
+
+// All routes in this file require the user to be a logged-in admin
+router.use(auth, adminAuth);
+
+// GET searches that found nothing and the most popular ones (?days=30, up to the 90 kept)
+router.get('/report', async (req, res) => {
+    try {
+        const days = Math.min(Math.max(parseInt(req.query.days, 10) || 30, 1), 90);
+        res.json(await searchReport({ days }));
+    } catch (error) {
+        console.error('Search report error:', error);
+        res.status(500).json({ message: 'Failed to build the search report' });
+    }
+});
+
+module.exports = router;
@@ -4,6 +4,8 @@ const jwt = require("jsonwebtoken");
 const auth = require("../middleware/auth.js");
 const User = require("../models/User.model.js");
 const Order = require("../models/Order");
+const { claimGuestOrders } = require("../services/guestOrderService");
+const { mergeGuestCart } = require("../services/cartService");
 const router = express.Router();
 // Add this line at the top with your other imports
 const { OAuth2Client } = require('google-auth-library');
@@ -35,8 +37,10 @@ router.patch("/update-role", async (req, res) => {
 });
 
 /* ------------------- Auth ------------------- */
+// Both logins take the browser's guest cart as `cart` and answer with `cartMerge`: what
+// happened to it (see services/cartService.js), or null when there was none.
 router.post("/login", async (req, res) => {
-  const { email, password } = req.body;
+  const { email, password, cart } = req.body;
   if (!email || !password) return res.status(400).json({ message: "Email and password are required" });
 
   try {
@@ -55,8 +59,10 @@ router.post("/login", async (req, res) => {
       maxAge: 7 * 24 * 60 * 60 * 1000,
     });
     
+    const cartMerge = await mergeGuestCart(user, cart);
+
     // Send the full user object back, which will now include the avatar
-    res.json({ success: true, user });
+    res.json({ success: true, user, cartMerge });
   } catch (err) {
     console.error("Login error:", err);
     res.status(500).json({ message: "Server error during login" });
@@ -261,13 +267,13 @@ router.post("/register", async (req, res) => {
 
 // --- GOOGLE LOGIN ---
 router.post('/google-login', async (req, res) => {
-    const { token } = req.body;
+    const { token, cart } = req.body;
     try {
         const ticket = await client.verifyIdToken({
             idToken: token,
             audience: process.env.GOOGLE_CLIENT_ID,
         });
-        const { name, email, picture } = ticket.getPayload();
+        const { name, email, picture, email_verified: emailVerified } = ticket.getPayload();
 
         let user = await User.findOne({ email });
         if (!user) {
@@ -281,10 +287,15 @@ router.post('/google-login', async (req, res) => {
             await user.save();
         }
 
+        // Google has checked the address, so guest orders placed with it are this user's
+        if (emailVerified) await claimGuestOrders(user);
+
+        const cartMerge = await mergeGuestCart(user, cart);
+
         // Create a session token and log them in
         const jwtToken = jwt.sign({ id: user._id }, process.env.JWT_SECRET, { expiresIn: '7d' });
         res.cookie('token', jwtToken, { httpOnly: true, secure: process.env.NODE_ENV === 'production', sameSite: 'None', maxAge: 7 * 24 * 60 * 60 * 1000 });
-        res.status(200).json({ success: true, user });
+        res.status(200).json({ success: true, user, cartMerge });
 
     } catch (error) {
         console.error("Google Login Error:", error);
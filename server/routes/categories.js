@@ -1,33 +1,112 @@
 const express = require('express');
 const router = express.Router();
 const Category = require('../models/Category');
+const auth = require('../middleware/auth');
+const adminAuth = require('../middleware/adminAuth');
+const {
+  listCategoryTree,
+  listCategoriesFlat,
+  getCategoryPage,
+  createCategory,
+  updateCategory,
+  moveCategories,
+  deleteCategory,
+} = require('../services/categoryService');
 
-// GET /api/categories
+const handleSaveError = (error, res) => {
+  if (error.code === 11000) {
+    return res.status(409).json({ error: 'Another category already uses this slug.' });
+  }
+  if (error.name === 'ValidationError' || error.name === 'CastError') {
+    return res.status(400).json({ error: 'Invalid category details.' });
+  }
+  console.error('❌ [Categories] Failed to save category:', error);
+  res.status(500).json({ error: 'Failed to save category' });
+};
+
+// GET /api/categories - visible categories in tree order, each with its depth
 router.get('/', async (req, res) => {
   try {
-    const categories = await Category.find();
-    res.json(categories);
+    res.json(await listCategoriesFlat());
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET /api/categories/tree - visible categories, nested
+router.get('/tree', async (req, res) => {
+  try {
+    res.json(await listCategoryTree());
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET /api/categories/admin - every category, hidden ones included
+router.get('/admin', auth, adminAuth, async (req, res) => {
+  try {
+    res.json(await listCategoriesFlat({ includeHidden: true }));
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// PUT /api/categories/order - move categories after a drag and drop: { categories: [{ id, parent, sortOrder }] }
+router.put('/order', auth, adminAuth, async (req, res) => {
+  try {
+    const result = await moveCategories(req.body.categories);
+    if (result.error) return res.status(400).json({ error: result.error });
+    res.json(result);
+  } catch (err) {
+    console.error('❌ [Categories] Failed to reorder categories:', err);
+    res.status(500).json({ error: 'Failed to reorder categories' });
+  }
+});
+
+// GET /api/categories/:slug - one visible category with its breadcrumb and subcategories
+router.get('/:slug', async (req, res) => {
+  try {
+    const category = await getCategoryPage(req.params.slug);
+    if (!category) return res.status(404).json({ error: 'Category not found' });
+    res.json(category);
   } catch (err) {
     res.status(500).json({ error: 'Server error' });
   }
 });
 
 // POST /api/categories
-router.post('/', async (req, res) => {
+router.post('/', auth, adminAuth, async (req, res) => {
+  try {
+    const category = await createCategory(req.body);
+    if (category.error) return res.status(400).json({ error: category.error });
+    res.status(201).json(category);
+  } catch (err) {
+    handleSaveError(err, res);
+  }
+});
+
+// PUT /api/categories/:id
+router.put('/:id', auth, adminAuth, async (req, res) => {
   try {
-    const { name, image } = req.body;
-    const newCategory = new Category({ name, image });
-    await newCategory.save();
-    res.status(201).json(newCategory);
+    const category = await Category.findById(req.params.id);
+    if (!category) return res.status(404).json({ error: 'Category not found' });
+
+    const updated = await updateCategory(category, req.body);
+    if (updated.error) return res.status(400).json({ error: updated.error });
+    res.json(updated);
   } catch (err) {
-    res.status(400).json({ error: 'Failed to create category' });
+    handleSaveError(err, res);
   }
 });
 
 // DELETE /api/categories/:id
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', auth, adminAuth, async (req, res) => {
   try {
-    await Category.findByIdAndDelete(req.params.id);
+    const category = await Category.findById(req.params.id);
+    if (!category) return res.status(404).json({ error: 'Category not found' });
+
+    const result = await deleteCategory(category);
+    if (result.error) return res.status(409).json({ error: result.error });
     res.json({ success: true });
   } catch (err) {
     res.status(500).json({ error: 'Failed to delete category' });
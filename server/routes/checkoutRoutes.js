@@ -1,89 +1,321 @@
 // server/routes/checkoutRoutes.js (REPLACE ENTIRE FILE)
 
 const express = require("express");
-const Razorpay = require("razorpay");
 const router = express.Router();
 const Order = require("../models/Order");
-const Product = require("../models/Product"); // We need this to decrement stock
+const User = require("../models/User.model");
+const { createReservation, releaseReservation, commitReservation } = require("../services/inventoryService");
+const { buildQuote, totalsMatch } = require("../services/pricingService");
+const { redeemCoupon } = require("../services/couponService");
+const { createPaymentLink: createRazorpayLink, createRazorpayOrder, isValidPaymentSignature } = require("../services/razorpayService");
+const { confirmOrderPayment } = require("../services/paymentService");
+const { enqueueJob } = require("../services/jobQueue");
+const { queueOrderEmail } = require("../services/notificationService");
+const { validateGuestContact, signOrderAccess, orderLookupUrl } = require("../services/guestOrderService");
+const { validateCart } = require("../services/cartService");
+const orderAccess = require("../middleware/orderAccess");
+const optionalAuth = require("../middleware/optionalAuth");
 
-// Ensure your Razorpay keys are loaded
-if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
-  console.error("FATAL ERROR: Razorpay keys are not defined in .env");
-}
+// The link expires with the stock reservation (Razorpay needs expire_by at least 15 minutes out).
+const createPaymentLink = async (newOrder, expiresAt) => {
+  const minimumExpiry = Date.now() + 16 * 60 * 1000;
+  const razorpayPayload = {
+    amount: Math.round(newOrder.totalAmount * 100),
+    currency: "INR",
+    description: `Order #${newOrder._id.toString()}`,
+    customer: {
+      name: newOrder.address.name,
+      email: newOrder.email,
+      contact: newOrder.address.phone,
+    },
+    expire_by: Math.floor(Math.max(expiresAt.getTime(), minimumExpiry) / 1000),
+    // ✅ Pass our internal order ID to the webhook via notes
+    notes: {
+      internal_order_id: newOrder._id.toString(),
+    },
+    // ✅ Redirect the user to our tracking page with the order ID (and a guest's lookup token)
+    callback_url: orderLookupUrl(newOrder),
+    callback_method: "get",
+  };
 
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID,
-  key_secret: process.env.RAZORPAY_KEY_SECRET,
+  const paymentLink = await createRazorpayLink(razorpayPayload);
+
+  if (!paymentLink || !paymentLink.short_url) {
+    throw new Error("Invalid response from Razorpay.");
+  }
+  return paymentLink;
+};
+
+// Itemised server-side price quote for the cart and checkout pages. Per-customer coupon limits
+// are checked against the logged-in session.
+router.post("/quote", optionalAuth, async (req, res) => {
+  try {
+    const { cartItems, couponCode, pincode, shippingOptionId, paymentMethod } = req.body;
+    const { quote, error } = await buildQuote(cartItems, {
+      couponCode,
+      userId: req.user?.id,
+      deliveryPincode: pincode,
+      shippingOptionId,
+      paymentMethod,
+    });
+    if (error) return res.status(400).json({ error });
+    res.status(200).json({ quote });
+  } catch (err) {
+    console.error("❌ [Checkout] Failed to build quote:", err);
+    res.status(500).json({ error: "Failed to price your cart." });
+  }
 });
 
-router.post("/payment-link", async (req, res) => {
+// Lines of the cart that went stale since they were added (deleted, sold out, short, repriced).
+// Body: { cartItems: [{ id, variantId, quantity, price }] }
+router.post("/validate-cart", async (req, res) => {
+  try {
+    const issues = await validateCart(req.body.cartItems);
+    res.status(200).json({ issues });
+  } catch (err) {
+    console.error("❌ [Checkout] Failed to validate cart:", err);
+    res.status(500).json({ error: "Failed to check your cart." });
+  }
+});
+
+// Steps shared by both payment methods: re-price the cart from the database (the client total
+// must agree) and reserve stock for the whole cart (all-or-nothing) against a new order.
+// The order belongs to the logged-in session (req.user from optionalAuth); guests send
+// `guest: { email, phone }` instead. Returns { order, reservation } or { status, body } to send back as is.
+const prepareOrder = async (req, paymentMethod) => {
+  const { guest, address, cartItems, totalAmount, couponCode, shippingOptionId } = req.body;
+  const user = req.user && (await User.findById(req.user.id).select("email"));
+
+  if (req.user && !user) {
+    return { status: 401, body: { error: "Your account could not be found. Please log in again." } };
+  }
+  if ((!user && !guest) || !address || !cartItems?.length || !totalAmount) {
+    return { status: 400, body: { error: "Missing required fields for checkout." } };
+  }
+  if (!address.pincode) {
+    return { status: 400, body: { error: "Please add a pincode to your delivery address." } };
+  }
+  const contact = user ? { email: user.email, phone: address.phone } : validateGuestContact(guest);
+  if (contact.error) return { status: 400, body: { error: contact.error } };
+
+  const { quote, error } = await buildQuote(cartItems, {
+    couponCode,
+    userId: user?._id,
+    deliveryPincode: address.pincode,
+    shippingOptionId,
+    paymentMethod,
+  });
+  if (error) return { status: 400, body: { error } };
+  if (shippingOptionId && quote.shippingOption.id !== shippingOptionId) {
+    return { status: 409, body: { error: "That delivery option is no longer available. Please choose another.", quote } };
+  }
+  if (quote.couponError) return { status: 400, body: { error: quote.couponError, quote } };
+  if (!totalsMatch(quote, totalAmount)) {
+    console.warn(`[Checkout] Total mismatch: client sent ${totalAmount}, server quote is ${quote.total}.`);
+    return { status: 409, body: { error: "Prices in your cart have changed. Please review your order.", quote } };
+  }
+
+  const { items, coupon, shippingOption, shippingOptions, cod, ...pricing } = quote;
+  const order = new Order({
+    user: user?._id,
+    email: contact.email,
+    address: { ...address, phone: contact.phone },
+    cartItems: items,
+    pricing: pricing,
+    coupon: coupon && { code: coupon.code, discount: coupon.discount },
+    shippingMethod: shippingOption,
+    paymentMethod,
+    totalAmount: quote.total,
+    paymentStatus: "pending", // COD orders stay pending until the courier collects the cash
+  }).audit({ actor: "customer", actorId: user?._id, source: "checkout", note: user ? undefined : "Guest checkout" });
+
+  const { success, failedItem, reservation } = await createReservation(order, items);
+  if (!success) {
+    return { status: 400, body: { error: `Insufficient stock for ${failedItem.name}` } };
+  }
+  console.log(`[Checkout] Stock reserved until ${reservation.expiresAt.toISOString()}.`);
+  return { order, reservation };
+};
+
+// Guests have no session, so they get the order's lookup token to follow it with
+const guestAccess = (order) => (order.user ? {} : { accessToken: signOrderAccess(order._id.toString()) });
+
+// Nothing can be paid for, so hand the reserved stock back straight away. Only an unpaid,
+// untouched order is abandoned; a payment that lands afterwards is refunded as a cancelled one.
+const abandonOrder = async (orderId, note) => {
+  const { modifiedCount } = await Order.updateOne(
+    { _id: orderId, paymentStatus: "pending", status: "Placed" },
+    {
+      $set: { paymentStatus: "failed", status: "Cancelled" },
+      $push: {
+        history: {
+          $each: [
+            { field: "paymentStatus", from: "pending", to: "failed", source: "checkout", note },
+            { field: "status", from: "Placed", to: "Cancelled", source: "checkout", note },
+          ],
+        },
+      },
+    }
+  );
+  if (modifiedCount) await releaseReservation(orderId, "checkout_failed");
+};
+
+router.post("/payment-link", optionalAuth, async (req, res) => {
   console.log("[Checkout] Received request to create a payment link.");
   
   try {
-    const { user, address, cartItems, totalAmount } = req.body;
+    // --- Steps 1 & 2: Re-price the cart and reserve stock against a PENDING order ---
+    const { order: newOrder, reservation, status, body } = await prepareOrder(req, "prepaid");
+    if (!newOrder) return res.status(status).json(body);
+
+    try {
+      await newOrder.save();
+      console.log(`[Checkout] Saved 'pending' order to database with ID: ${newOrder._id}`);
+      // --- Step 3: Create the Razorpay Payment Link ---
+      const paymentLink = await createPaymentLink(newOrder, reservation.expiresAt);
 
-    if (!user || !address || !cartItems?.length || !totalAmount) {
-      return res.status(400).json({ error: "Missing required fields for checkout." });
+      // --- Step 4: Save Razorpay Link ID to our order for reference ---
+      newOrder.razorpayPaymentLinkId = paymentLink.id;
+      await newOrder.save();
+
+      console.log(`[Checkout] Successfully created Razorpay link: ${paymentLink.short_url}`);
+      return res.status(200).json({ paymentLink });
+    } catch (err) {
+      await abandonOrder(newOrder._id, "Payment link could not be created");
+      throw err;
     }
 
-    // --- Step 1: Decrement Stock Immediately ---
-    for (const item of cartItems) {
-        const product = await Product.findById(item.id);
-        if (!product || product.stock < item.quantity) {
-            return res.status(400).json({ error: `Insufficient stock for ${item.name}` });
-        }
-        product.stock -= item.quantity;
-        await product.save();
+  } catch (err) {
+    console.error("❌ [Checkout] An unexpected error occurred:", err);
+    res.status(500).json({ error: "Failed to create payment link." });
+  }
+});
+
+// Inline Razorpay Checkout: creates the pending order and a Razorpay order for the modal to
+// collect payment against. The stock hold lapses as usual if the customer never pays.
+router.post("/razorpay-order", optionalAuth, async (req, res) => {
+  console.log("[Checkout] Received request to create a Razorpay order.");
+
+  try {
+    const { order, status, body } = await prepareOrder(req, "prepaid");
+    if (!order) return res.status(status).json(body);
+
+    try {
+      await order.save();
+      const razorpayOrder = await createRazorpayOrder(order);
+      order.razorpayOrderId = razorpayOrder.id;
+      await order.save();
+      console.log(`[Checkout] Created Razorpay order ${razorpayOrder.id} for order ${order._id}.`);
+
+      res.status(200).json({
+        orderId: order._id,
+        razorpayOrderId: razorpayOrder.id,
+        amount: razorpayOrder.amount, // paise
+        currency: razorpayOrder.currency,
+        keyId: process.env.RAZORPAY_KEY_ID,
+        prefill: { name: order.address.name, email: order.email, contact: order.address.phone },
+        ...guestAccess(order),
+      });
+    } catch (err) {
+      await abandonOrder(order._id, "Razorpay order could not be created");
+      throw err;
     }
-    console.log(`[Checkout] Stock decremented for order.`);
-
-    // --- Step 2: Create a PENDING Order in Your Database FIRST ---
-    const newOrder = new Order({
-      user: user.id,
-      email: user.email,
-      address: address,
-      cartItems: cartItems,
-      totalAmount: totalAmount,
-      paymentStatus: "pending", // The crucial initial status
+  } catch (err) {
+    console.error("❌ [Checkout] Failed to create Razorpay order:", err);
+    res.status(500).json({ error: "Failed to start payment." });
+  }
+});
+
+// The customer closed the Checkout modal without paying. Retrying creates a fresh order, so
+// this one gives its stock hold back instead of keeping it for the rest of the hold.
+router.post("/razorpay-order/:orderId/dismiss", orderAccess, async (req, res) => {
+  try {
+    if (req.order.paymentMethod !== "prepaid" || !req.order.razorpayOrderId) {
+      return res.status(400).json({ error: "This order was not paid through Checkout." });
+    }
+    await abandonOrder(req.order._id, "Payment window closed without paying");
+    res.status(200).json({ message: "Order released." });
+  } catch (err) {
+    console.error(`❌ [Checkout] Failed to release dismissed order ${req.params.orderId}:`, err);
+    res.status(500).json({ error: "Failed to release your order." });
+  }
+});
+
+// Called by Checkout's success handler. The signature proves Razorpay captured the payment for
+// this Razorpay order, so the order can be confirmed without waiting for the webhook.
+router.post("/verify", async (req, res) => {
+  const { orderId, razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
+
+  try {
+    const order = orderId ? await Order.findById(orderId) : null;
+    if (!order || !order.razorpayOrderId || order.razorpayOrderId !== razorpay_order_id) {
+      return res.status(404).json({ error: "Order not found for this payment." });
+    }
+    const valid = isValidPaymentSignature({
+      razorpayOrderId: razorpay_order_id,
+      razorpayPaymentId: razorpay_payment_id,
+      signature: razorpay_signature,
     });
-    await newOrder.save();
-    console.log(`[Checkout] Saved 'pending' order to database with ID: ${newOrder._id}`);
-
-    // --- Step 3: Create the Razorpay Payment Link ---
-    const razorpayPayload = {
-      amount: Math.round(totalAmount * 100),
-      currency: "INR",
-      description: `Order #${newOrder._id.toString()}`,
-      customer: {
-        name: address.name,
-        email: user.email,
-        contact: address.phone,
-      },
-      // ✅ Pass our internal order ID to the webhook via notes
-      notes: {
-        internal_order_id: newOrder._id.toString(),
-      },
-      // ✅ Redirect the user to our tracking page with the order ID
-      callback_url: `${process.env.FRONTEND_URL}/tracking-orders?order_id=${newOrder._id.toString()}`,
-      callback_method: "get",
-    };
+    if (!valid) {
+      console.error(`❌ [Checkout] Invalid payment signature for order ${orderId}.`);
+      return res.status(400).json({ error: "Payment could not be verified." });
+    }
+
+    order.audit({ actor: "customer", actorId: order.user, source: "razorpay", note: `Checkout payment ${razorpay_payment_id} verified` });
+    const result = await confirmOrderPayment(order, {
+      paymentId: razorpay_payment_id,
+      source: "razorpay",
+    });
+    if (result.cancelled) {
+      return res.status(409).json({
+        error: "Your payment went through but this order had already been cancelled. We will refund you in full.",
+        orderId: order._id,
+        ...guestAccess(order),
+      });
+    }
+    if (result.soldOut) {
+      return res.status(409).json({
+        error: `Your payment went through but ${result.soldOut.name} has just sold out. We will refund you in full.`,
+        orderId: order._id,
+        ...guestAccess(order),
+      });
+    }
+    res.status(200).json({ orderId: order._id, ...guestAccess(order) });
+  } catch (err) {
+    console.error(`❌ [Checkout] Failed to verify payment for order ${orderId}:`, err);
+    res.status(500).json({ error: "Failed to confirm your payment." });
+  }
+});
+
+// Cash on delivery: the order is confirmed straight away and waits for admin approval like a
+// paid one; paymentStatus turns 'paid' when the courier reports it delivered.
+router.post("/cod-order", optionalAuth, async (req, res) => {
+  console.log("[Checkout] Received request to place a COD order.");
 
-    const paymentLink = await razorpay.paymentLink.create(razorpayPayload);
+  try {
+    const { order, status, body } = await prepareOrder(req, "cod");
+    if (!order) return res.status(status).json(body);
 
-    if (!paymentLink || !paymentLink.short_url) {
-      throw new Error("Invalid response from Razorpay.");
+    // Counted before the order exists so the last use of a limited coupon can't go to two orders
+    if (!(await redeemCoupon(order))) {
+      await releaseReservation(order._id, "checkout_failed");
+      return res.status(409).json({ error: "This coupon has reached its usage limit." });
     }
 
-    // --- Step 4: Save Razorpay Link ID to our order for reference ---
-    newOrder.razorpayPaymentLinkId = paymentLink.id;
-    await newOrder.save();
+    await order.save();
+    // Nothing to wait for, so the stock hold becomes a real deduction straight away
+    await commitReservation(order._id);
+
+    if (order.user) await User.findByIdAndUpdate(order.user, { $set: { cart: [] } });
+    console.log(`✅ [Checkout] COD order ${order._id} placed for ₹${order.totalAmount}.`);
 
-    console.log(`[Checkout] Successfully created Razorpay link: ${paymentLink.short_url}`);
-    return res.status(200).json({ paymentLink });
+    await enqueueJob("order.notify", { orderId: order._id.toString(), event: "newOrder" });
+    await queueOrderEmail(order, "order_placed");
 
+    res.status(201).json({ orderId: order._id, ...guestAccess(order) });
   } catch (err) {
-    console.error("❌ [Checkout] An unexpected error occurred:", err);
-    res.status(500).json({ error: "Failed to create payment link." });
+    console.error("❌ [Checkout] Failed to place COD order:", err);
+    res.status(500).json({ error: "Failed to place your order." });
   }
 });
 
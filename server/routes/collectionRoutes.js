@@ -0,0 +1,44 @@
+// server/routes/collectionRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const { listLiveCollections, getLiveCollection, listCollectionProducts } = require('../services/collectionService');
+
+// GET the collections currently on show
+router.get('/', async (req, res) => {
+    try {
+        res.json(await listLiveCollections());
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch collections' });
+    }
+});
+
+// GET one live collection's page details
+router.get('/:slug', async (req, res) => {
+    try {
+        const collection = await getLiveCollection(req.params.slug);
+        if (!collection) return res.status(404).json({ message: 'Collection not found' });
+
+        const { products, rules, ...details } = collection;
+        res.json(details);
+    } catch (error) {
+        res.status(500).json({ message: 'Failed to fetch collection' });
+    }
+});
+
+// GET a page of a live collection's products (?sort=&cursor=&limit=)
+router.get('/:slug/products', async (req, res) => {
+    try {
+        const collection = await getLiveCollection(req.params.slug);
+        if (!collection) return res.status(404).json({ message: 'Collection not found' });
+
+        const result = await listCollectionProducts(collection, req.query);
+        if (result.error) return res.status(400).json({ message: result.error });
+        res.json(result);
+    } catch (error) {
+        console.error('❌ [Collections] Failed to list collection products:', error);
+        res.status(500).json({ message: 'Failed to fetch products' });
+    }
+});
+
+module.exports = router;
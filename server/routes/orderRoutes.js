@@ -1,124 +1,76 @@
 // server/routes/orderRoutes.js (REPLACE ENTIRE FILE)
 
 const express = require('express');
-const crypto = require('crypto');
 const router = express.Router();
-const Order = require('../models/Order');
-const User = require('../models/User.model');
-const Product = require('../models/Product');
-const auth = require('../middleware/auth');
-const { createShiprocketOrder, assignCourierAndGetAwb } = require('../services/shiprocketService');
-
-const RAZORPAY_WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET;
+const orderAccess = require('../middleware/orderAccess');
+const { CANCELLATION_REASONS, cancellationWindowHours, getCancellationBlocker, cancelOrder } = require('../services/cancellationService');
+const { enqueueJob } = require('../services/jobQueue');
+const { getInvoicePdf } = require('../services/invoiceService');
+
+// GET the cancellation reasons and policy shown next to the Cancel button
+router.get('/cancellation/policy', (req, res) => {
+    res.json({ reasons: CANCELLATION_REASONS, windowHours: cancellationWindowHours() });
+});
 
-// GET A SINGLE ORDER BY ITS ID
-router.get('/:orderId', auth, async (req, res) => {
+// GET A SINGLE ORDER BY ITS ID (owner, or a guest with the order's lookup link)
+router.get('/:orderId', orderAccess, async (req, res) => {
     try {
-        const order = await Order.findById(req.params.orderId);
-        if (!order) {
-            return res.status(404).json({ message: 'Order not found' });
-        }
-        if (order.user.toString() !== req.user.id) {
-            return res.status(403).json({ message: 'User not authorized to view this order' });
-        }
-        res.json(order);
+        const order = req.order;
+        const { history, ...details } = order.toObject();
+        res.json({ ...details, timeline: order.customerTimeline() });
     } catch (error) {
         console.error(`Error fetching order ${req.params.orderId}:`, error);
         res.status(500).json({ message: 'Server Error' });
     }
 });
 
-// RAZORPAY WEBHOOK (UPDATED WITH BETTER LOGGING)
-router.post('/webhook', express.json({ type: '*/*' }), async (req, res) => {
-    const signature = req.headers['x-razorpay-signature'];
-    console.log('[Webhook] Received a request from Razorpay.');
-
+// GET the GST invoice PDF for one of the customer's paid orders
+router.get('/:orderId/invoice', orderAccess, async (req, res) => {
     try {
-        const expectedSignature = crypto
-            .createHmac('sha256', RAZORPAY_WEBHOOK_SECRET)
-            .update(JSON.stringify(req.body))
-            .digest('hex');
-
-        if (signature !== expectedSignature) {
-            console.error('❌ [Webhook] Invalid Razorpay signature.');
-            return res.status(400).json({ message: 'Invalid signature' });
+        const { filename, content, error } = await getInvoicePdf(req.order);
+        if (error) {
+            return res.status(400).json({ message: error });
         }
+        res.attachment(filename).type('application/pdf').send(content);
     } catch (error) {
-        console.error('❌ [Webhook] Error during signature verification:', error.message);
-        return res.status(500).json({ message: 'Signature verification failed.' });
+        console.error(`Error generating invoice for order ${req.params.orderId}:`, error);
+        res.status(500).json({ message: 'Failed to generate invoice.' });
     }
+});
 
-    const event = req.body.event;
-    console.log(`[Webhook] Event type: ${event}`);
-
-    if (event === 'payment_link.paid') {
-        try {
-            const paymentEntity = req.body.payload.payment_link.entity;
-            const orderId = paymentEntity.notes.internal_order_id;
-
-            if (!orderId) {
-                console.error('❌ [Webhook] CRITICAL: internal_order_id not found in webhook notes payload.');
-                return res.status(400).json({ message: 'Order ID missing from webhook.' });
-            }
-            console.log(`[Webhook] Processing payment for internal order ID: ${orderId}`);
-
-            const order = await Order.findById(orderId);
-            if (!order) {
-                console.error(`❌ [Webhook] CRITICAL: Order with ID ${orderId} not found in the database.`);
-                return res.status(404).json({ message: 'Order not found' });
-            }
-
-            if (order.paymentStatus === 'paid') {
-                console.warn(`[Webhook] Order ${orderId} is already marked as 'paid'. Skipping processing.`);
-                return res.status(200).json({ success: true, message: "Order already processed." });
-            }
-
-            order.paymentStatus = 'paid';
-            order.status = 'Placed';
-            await order.save();
-            console.log(`✅ [Webhook] Order ${orderId} status updated to 'paid' in the database.`);
-
-            if (order.user) {
-                await User.findByIdAndUpdate(order.user, { $set: { cart: [] } });
-                console.log(`✅ [Webhook] Cleared cart for user ${order.user}.`);
-            }
-
-            try {
-                console.log(`🚀 [Shiprocket] Attempting to create shipment for order ${orderId}...`);
-                const shiprocketOrder = await createShiprocketOrder(order);
-                console.log(`[Shiprocket] Order created with ID: ${shiprocketOrder.order_id}, Shipment ID: ${shiprocketOrder.shipment_id}`);
+// POST - customer cancels their own order before it ships
+router.post('/:orderId/cancel', orderAccess, async (req, res) => {
+    try {
+        const { reason, comment } = req.body;
+        if (!CANCELLATION_REASONS.includes(reason)) {
+            return res.status(400).json({ message: 'Please choose a cancellation reason.' });
+        }
 
-                const awbData = await assignCourierAndGetAwb(shiprocketOrder.shipment_id);
-                console.log(`[Shiprocket] AWB data received:`, awbData.data);
+        const order = req.order;
 
-                order.shipmentDetails = {
-                    shiprocketOrderId: shiprocketOrder.order_id,
-                    shipmentId: shiprocketOrder.shipment_id,
-                    status: awbData.data.status,
-                    awbCode: awbData.data.awb_code,
-                    courierName: awbData.data.courier_name,
-                };
-                await order.save();
-                console.log(`✅ [Shiprocket] Successfully assigned AWB ${awbData.data.awb_code} to order ${orderId}.`);
-                
-                const io = req.app.get('io');
-                if (io) io.emit('newOrder', order);
+        const blocker = getCancellationBlocker(order);
+        if (blocker) {
+            return res.status(400).json({ message: blocker });
+        }
 
-            } catch (shiprocketError) {
-                console.error(`❌ [Shiprocket] CRITICAL: Failed to process shipment for order ${orderId}. The order is paid but shipment failed. Manual intervention required.`, shiprocketError);
-                order.adminStatus = 'shipping_error'; // Flag for admin
-                await order.save();
-            }
+        const { order: cancelledOrder, error } = await cancelOrder(order, {
+            reason,
+            comment: typeof comment === 'string' ? comment.slice(0, 500) : undefined,
+            cancelledBy: 'customer',
+            actorId: order.user,
+        });
+        if (error) {
+            return res.status(409).json({ message: error });
+        }
 
-            return res.status(200).json({ success: true, message: "Webhook processed." });
+        await enqueueJob('order.notify', { orderId: cancelledOrder._id.toString(), event: 'orderCancelled' });
 
-        } catch (error) {
-            console.error('❌ [Webhook] Unhandled error during webhook processing:', error);
-            return res.status(500).json({ message: 'Server error during webhook processing' });
-        }
+        const { history, ...details } = cancelledOrder.toObject();
+        res.json({ ...details, timeline: cancelledOrder.customerTimeline() });
+    } catch (error) {
+        console.error(`Error cancelling order ${req.params.orderId}:`, error);
+        res.status(500).json({ message: 'Failed to cancel order.' });
     }
-
-    return res.status(200).json({ message: 'Webhook received but no action taken for this event.' });
 });
 
 module.exports = router;
\ No newline at end of file
@@ -1,16 +1,8 @@
 const express = require("express");
 const router = express.Router();
-const nodemailer = require("nodemailer");
 const User = require("../models/User.model");
-
-// ✅ Transporter config (make sure .env has correct values)
-const transporter = nodemailer.createTransport({
-    service: "Gmail",
-    auth: {
-        user: process.env.SMTP_EMAIL,
-        pass: process.env.SMTP_PASS,
-    },
-});
+const { sendMail } = require("../services/mailer");
+const { claimGuestOrders } = require("../services/guestOrderService");
 
 // In-memory OTP store (you may replace with DB/Redis)
 const otpStore = new Map();
@@ -29,8 +21,7 @@ router.post("/request-otp", async (req, res) => {
 
         otpStore.set(email, { otp, expires });
 
-        await transporter.sendMail({
-            from: `"Hansitha Creations" <${process.env.SMTP_EMAIL}>`,
+        await sendMail({
             to: email,
             subject: "🔐 Your OTP for Password Reset",
             html: `
@@ -89,6 +80,8 @@ router.post("/verify-otp", async (req, res) => {
         await user.save();
 
         otpStore.delete(email);
+        // The OTP proves the address is theirs, so guest orders placed with it can move in
+        await claimGuestOrders(user);
         console.log("✅ Password reset for", email);
         res.json({ message: "Password reset successful" });
     } catch (err) {
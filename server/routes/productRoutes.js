@@ -1,6 +1,27 @@
 const express = require("express");
 const router = express.Router();
 const Product = require("../models/Product");
+const optionalAuth = require("../middleware/optionalAuth");
+const { normalizeVariants } = require("../utils/variants");
+const { notifyCartProductsChanged } = require("../services/cartService");
+const { searchProducts, suggestSearches, invalidateSearchVocabulary } = require("../services/searchService");
+const { isNewSearch, logSearch, popularSearches } = require("../services/searchLogService");
+const { listProducts, listCategories } = require("../services/catalogService");
+const { resolveProductCategory } = require("../services/categoryService");
+const { normalizeTags } = require("../services/collectionService");
+
+// Per-unit parcel data; blank values clear the field so the default box is used
+const pickShippingFields = ({ weight, dimensions }) => {
+  const toNumber = (value) => (value === "" || value === null || value === undefined ? undefined : Number(value));
+  return {
+    weight: toNumber(weight),
+    dimensions: {
+      length: toNumber(dimensions?.length),
+      breadth: toNumber(dimensions?.breadth),
+      height: toNumber(dimensions?.height),
+    },
+  };
+};
 
 // ✅ Create Product
 router.post("/", async (req, res) => {
@@ -16,18 +37,35 @@ router.post("/", async (req, res) => {
       extraImages = [],
     } = req.body;
 
+    const { options, variants, error } = normalizeVariants(req.body.options, req.body.variants);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const placement = await resolveProductCategory({ categoryId: req.body.categoryId, category });
+    if (placement.error) {
+      return res.status(400).json({ message: placement.error });
+    }
+
     const product = new Product({
       name,
       price,
       image,
       featured,
-      category,
+      categoryId: placement.categoryId,
+      category: placement.category,
       stock,
       description,
       extraImages,
+      hsnCode: req.body.hsnCode || undefined,
+      tags: normalizeTags(req.body.tags),
+      options,
+      variants,
+      ...pickShippingFields(req.body),
     });
 
     const saved = await product.save();
+    invalidateSearchVocabulary();
     res.status(201).json(saved);
   } catch (err) {
     console.error("Create error:", err);
@@ -35,7 +73,7 @@ router.post("/", async (req, res) => {
   }
 });
 
-// ✅ Get All Products or Product by Name
+// ✅ List Products (filtered, cursor-paginated) or Get Product by Name
 router.get("/", async (req, res) => {
   try {
     const name = req.query.name;
@@ -53,27 +91,60 @@ router.get("/", async (req, res) => {
       return res.json(product);
     }
 
-    const products = await Product.find();
-    res.json(products);
+    const result = await listProducts(req.query);
+    if (result.error) return res.status(400).json({ message: result.error });
+    res.json(result);
   } catch (err) {
     console.error("Fetch error:", err);
     res.status(500).json({ message: "Failed to fetch product(s)" });
   }
 });
 
-// ✅ Search by Query (partial match)
-router.get("/search", async (req, res) => {
+// ✅ Categories in use, with product counts
+router.get("/categories", async (req, res) => {
   try {
-    const query = req.query.q || "";
-    const regex = new RegExp(query, "i");
-    const results = await Product.find({ name: regex }).limit(10);
-    res.json(results);
+    res.json(await listCategories());
+  } catch (err) {
+    console.error("Category list error:", err);
+    res.status(500).json({ message: "Failed to fetch categories" });
+  }
+});
+
+// ✅ Search with relevance, typo tolerance and facets
+router.get("/search", optionalAuth, async (req, res) => {
+  try {
+    const result = await searchProducts(req.query);
+    if (isNewSearch(req.query)) {
+      // Not awaited: logging never fails the search and shouldn't slow it down
+      logSearch({ query: req.query.q, resultCount: result.total, userId: req.user?.id });
+    }
+    res.json(result);
   } catch (err) {
     console.error("Search error:", err);
     res.status(500).json({ error: "Search failed" });
   }
 });
 
+// ✅ Most searched queries lately
+router.get("/search/popular", async (req, res) => {
+  try {
+    res.json(await popularSearches());
+  } catch (err) {
+    console.error("Popular searches error:", err);
+    res.status(500).json({ error: "Failed to fetch popular searches" });
+  }
+});
+
+// ✅ Type-ahead suggestions: queries, categories and products
+router.get("/suggest", async (req, res) => {
+  try {
+    res.json(await suggestSearches(req.query.q));
+  } catch (err) {
+    console.error("Suggest error:", err);
+    res.status(500).json({ error: "Suggestions failed" });
+  }
+});
+
 // ✅ Get Product by ID
 router.get("/:id", async (req, res) => {
   try {
@@ -109,7 +180,6 @@ router.put("/:id", async (req, res) => {
       price: price ?? existing.price,
       image: image ?? existing.image,
       featured: featured ?? existing.featured,
-      category: category ?? existing.category,
       stock: stock ?? existing.stock,
       description: description ?? existing.description,
       extraImages: extraImages.length > 0 ? extraImages : existing.extraImages,
@@ -119,11 +189,46 @@ router.put("/:id", async (req, res) => {
       return res.status(400).json({ message: "Stock cannot be negative" });
     }
 
-    const updatedProduct = await Product.findByIdAndUpdate(
-      req.params.id,
-      updatedFields,
-      { new: true }
-    );
+    // ✅ Category by ID; a name alone (older clients, CSV imports) is looked up or created
+    if (req.body.categoryId || category) {
+      const placement = await resolveProductCategory({ categoryId: req.body.categoryId, category });
+      if (placement.error) {
+        return res.status(400).json({ message: placement.error });
+      }
+      updatedFields.categoryId = placement.categoryId;
+      updatedFields.category = placement.category;
+    }
+
+    if (req.body.hsnCode !== undefined) {
+      updatedFields.hsnCode = req.body.hsnCode || undefined;
+    }
+
+    if (req.body.tags !== undefined) {
+      updatedFields.tags = normalizeTags(req.body.tags);
+    }
+
+    if (req.body.weight !== undefined || req.body.dimensions !== undefined) {
+      Object.assign(updatedFields, pickShippingFields(req.body));
+    }
+
+    // Variants are replaced wholesale when sent; omitting them leaves the existing SKUs untouched.
+    if (req.body.variants !== undefined || req.body.options !== undefined) {
+      const { options, variants, error } = normalizeVariants(
+        req.body.options ?? existing.options,
+        req.body.variants ?? existing.variants
+      );
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      updatedFields.options = options;
+      updatedFields.variants = variants;
+    }
+
+    // save() (rather than findByIdAndUpdate) so variant totals are recomputed by the model hook
+    existing.set(updatedFields);
+    const updatedProduct = await existing.save();
+    notifyCartProductsChanged([updatedProduct._id]);
+    invalidateSearchVocabulary();
 
     res.json({
       message: "Product updated successfully",
@@ -139,6 +244,8 @@ router.put("/:id", async (req, res) => {
 router.delete("/:id", async (req, res) => {
   try {
     await Product.findByIdAndDelete(req.params.id);
+    notifyCartProductsChanged([req.params.id]);
+    invalidateSearchVocabulary();
     res.json({ message: "Product deleted" });
   } catch (err) {
     console.error("Delete error:", err);
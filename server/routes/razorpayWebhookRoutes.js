@@ -0,0 +1,160 @@
+// server/routes/razorpayWebhookRoutes.js
+//
+// The one Razorpay webhook endpoint. Mounted in server.js ahead of express.json() because the
+// signature has to be checked against the raw body. Razorpay retries any non-2xx response and
+// may deliver an event more than once, so each event id is recorded in WebhookEvent and a
+// repeat is acknowledged without being processed again.
+
+const express = require('express');
+const crypto = require('crypto');
+const router = express.Router();
+const Order = require('../models/Order');
+const WebhookEvent = require('../models/WebhookEvent');
+const { isValidWebhookSignature } = require('../services/razorpayService');
+const { releaseReservation } = require('../services/inventoryService');
+const { confirmOrderPayment } = require('../services/paymentService');
+const { queueOrderEmail } = require('../services/notificationService');
+
+const toRupees = (paise) => Math.round(Number(paise)) / 100;
+
+/**
+ * Finds our order for an event: payment links and Razorpay orders carry our id in their
+ * notes; a bare payment is matched by its Razorpay order or payment id.
+ */
+const findOrderForEvent = async (payload) => {
+    const entity = payload.payment_link?.entity || payload.order?.entity;
+    const payment = payload.payment?.entity;
+    const internalId = entity?.notes?.internal_order_id || payment?.notes?.internal_order_id;
+    if (internalId) return Order.findById(internalId);
+    if (payment?.order_id) {
+        const order = await Order.findOne({ razorpayOrderId: payment.order_id });
+        if (order) return order;
+    }
+    if (payment?.id) return Order.findOne({ razorpayPaymentId: payment.id });
+    return null;
+};
+
+// payment_link.paid (hosted links), order.paid and payment.captured (inline Checkout, in case
+// the customer closed the page before /api/checkout/verify was called)
+const handlePaid = async (event, payload) => {
+    const order = await findOrderForEvent(payload);
+    if (!order) return 'No matching order.';
+
+    const entity = payload.payment_link?.entity || payload.order?.entity || payload.payment?.entity;
+    order.audit({ source: 'razorpay', note: `${event} (${entity?.id})` });
+    const result = await confirmOrderPayment(order, { paymentId: payload.payment?.entity?.id, source: 'razorpay' });
+    if (result.alreadyPaid) return 'Order already processed.';
+    if (result.cancelled) return 'Paid after cancellation; refund queued.';
+    if (result.soldOut) return 'Paid, but stock no longer available.';
+    return 'Payment recorded.';
+};
+
+// A failed attempt does not end the order: the customer can retry in the Checkout modal, so
+// the stock hold stays until it lapses
+const handlePaymentFailed = async (event, payload) => {
+    const order = await findOrderForEvent(payload);
+    if (!order || order.paymentStatus !== 'pending') return 'No pending order for this payment.';
+
+    const payment = payload.payment.entity;
+    order.audit({ source: 'razorpay', note: payment.error_description || payment.error_code || 'Payment failed' });
+    order.paymentStatus = 'failed';
+    await order.save();
+    console.log(`[Webhook] Payment ${payment.id} failed for order ${order._id}.`);
+    return 'Payment failure recorded.';
+};
+
+const handlePaymentLinkClosed = async (event, payload) => {
+    const order = await findOrderForEvent(payload);
+    if (!order || order.paymentStatus !== 'pending') return 'No pending order for this payment link.';
+
+    const expired = event === 'payment_link.expired';
+    order.audit({ source: 'razorpay', note: `Payment link ${event.split('.')[1]}; reserved stock released` });
+    await releaseReservation(order._id, expired ? 'expired' : 'cancelled');
+    order.paymentStatus = expired ? 'expired' : 'failed';
+    order.status = 'Cancelled';
+    await order.save();
+    console.log(`[Webhook] Payment link for order ${order._id} closed (${event}). Stock released.`);
+    return 'Payment link closure recorded.';
+};
+
+// Settles refunds we issued and records the ones made from the Razorpay dashboard
+const handleRefundProcessed = async (event, payload) => {
+    const refund = payload.refund.entity;
+    const order = await Order.findOne({ razorpayPaymentId: refund.payment_id });
+    if (!order) return 'No order for this refund.';
+
+    const known = order.refunds.find((entry) => entry.refundId === refund.id);
+    if (known) {
+        known.status = 'processed';
+        await order.save();
+    } else {
+        const amount = toRupees(refund.amount);
+        order.audit({ source: 'razorpay', note: `Refund ${refund.id} of ₹${amount} made outside the store` });
+        order.refunds.push({ refundId: refund.id, amount, status: 'processed', source: 'razorpay' });
+        order.refundedAmount = (order.refundedAmount || 0) + amount;
+        order.paymentStatus = order.refundedAmount >= order.totalAmount ? 'refunded' : 'partially_refunded';
+        await order.save();
+        // Refunds we issue are announced when issued; this one is news to the customer
+        await queueOrderEmail(order, 'order_refunded', { amount });
+    }
+    console.log(`[Webhook] Refund ${refund.id} processed for order ${order._id}.`);
+    return 'Refund recorded.';
+};
+
+const EVENT_HANDLERS = {
+    'payment_link.paid': handlePaid,
+    'order.paid': handlePaid,
+    'payment.captured': handlePaid,
+    'payment.failed': handlePaymentFailed,
+    'payment_link.expired': handlePaymentLinkClosed,
+    'payment_link.cancelled': handlePaymentLinkClosed,
+    'refund.processed': handleRefundProcessed,
+};
+
+router.post('/', express.raw({ type: '*/*' }), async (req, res) => {
+    if (!isValidWebhookSignature(req.body, req.headers['x-razorpay-signature'])) {
+        console.error('❌ [Webhook] Invalid Razorpay signature.');
+        return res.status(400).json({ message: 'Invalid signature' });
+    }
+
+    let body;
+    try {
+        body = JSON.parse(req.body.toString('utf8'));
+    } catch (error) {
+        return res.status(400).json({ message: 'Invalid JSON' });
+    }
+
+    const { event, payload = {} } = body;
+    const handler = EVENT_HANDLERS[event];
+    if (!handler) {
+        return res.status(200).json({ message: 'Webhook received but no action taken for this event.' });
+    }
+
+    // Older deliveries may lack the header; the signed body identifies the event just as well
+    const eventId = req.headers['x-razorpay-event-id']
+        || crypto.createHash('sha256').update(req.body).digest('hex');
+    try {
+        await WebhookEvent.create({ provider: 'razorpay', eventId, event });
+    } catch (error) {
+        if (error.code === 11000) {
+            console.log(`[Webhook] Event ${eventId} (${event}) already received. Skipping.`);
+            return res.status(200).json({ message: 'Event already processed.' });
+        }
+        console.error('❌ [Webhook] Failed to record event:', error);
+        return res.status(500).json({ message: 'Server error during webhook processing' });
+    }
+
+    console.log(`[Webhook] Processing ${event} (${eventId}).`);
+    try {
+        const message = await handler(event, payload);
+        await WebhookEvent.updateOne({ provider: 'razorpay', eventId }, { $set: { status: 'processed' } });
+        res.status(200).json({ success: true, message });
+    } catch (error) {
+        // Forget the event so Razorpay's retry gets processed
+        await WebhookEvent.deleteOne({ provider: 'razorpay', eventId }).catch(() => {});
+        console.error(`❌ [Webhook] Failed to process ${event} (${eventId}):`, error);
+        res.status(500).json({ message: 'Server error during webhook processing' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,95 @@
+// server/routes/returnRoutes.js
+
+const express = require('express');
+const router = express.Router();
+const Order = require('../models/Order');
+const ReturnRequest = require('../models/ReturnRequest');
+const auth = require('../middleware/auth');
+const {
+    RETURN_REASONS,
+    OPEN_STATUSES,
+    RETURNABLE_ORDER_STATUSES,
+    addReturnHistory,
+    isWithinReturnWindow,
+    buildReturnItems,
+} = require('../services/returnService');
+
+const MAX_RETURN_IMAGES = 4;
+
+router.use(auth);
+
+// GET the reasons a customer can pick from
+router.get('/reasons', (req, res) => {
+    res.json(RETURN_REASONS);
+});
+
+// GET the logged-in user's return requests
+router.get('/my', async (req, res) => {
+    try {
+        const returns = await ReturnRequest.find({ user: req.user.id }).sort({ createdAt: -1 });
+        res.json(returns);
+    } catch (error) {
+        console.error('Error fetching return requests:', error);
+        res.status(500).json({ message: 'Failed to fetch return requests' });
+    }
+});
+
+// POST a return or exchange request for a delivered order
+router.post('/', async (req, res) => {
+    try {
+        const { orderId, type, reason, comment, images = [], items } = req.body;
+
+        if (!['refund', 'exchange'].includes(type)) {
+            return res.status(400).json({ message: 'Choose a refund or an exchange.' });
+        }
+        if (!RETURN_REASONS.includes(reason)) {
+            return res.status(400).json({ message: 'Please choose a reason for the return.' });
+        }
+        if (!Array.isArray(images) || images.length > MAX_RETURN_IMAGES) {
+            return res.status(400).json({ message: `You can attach up to ${MAX_RETURN_IMAGES} photos.` });
+        }
+
+        const order = await Order.findById(orderId);
+        if (!order || order.user?.toString() !== req.user.id) {
+            return res.status(404).json({ message: 'Order not found' });
+        }
+        if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+            return res.status(400).json({ message: 'Only delivered orders can be returned.' });
+        }
+        if (!isWithinReturnWindow(order)) {
+            return res.status(400).json({ message: 'The return window for this order has closed.' });
+        }
+        if (await ReturnRequest.exists({ order: order._id, status: { $in: OPEN_STATUSES } })) {
+            return res.status(409).json({ message: 'A return for this order is already in progress.' });
+        }
+
+        const { items: returnItems, error } = await buildReturnItems(order, type, items);
+        if (error) return res.status(400).json({ message: error });
+
+        const returnRequest = new ReturnRequest({
+            order: order._id,
+            user: req.user.id,
+            type,
+            reason,
+            comment,
+            images: images.filter((url) => typeof url === 'string' && url.startsWith('https://')),
+            items: returnItems,
+        });
+        addReturnHistory(returnRequest, 'requested', reason);
+        await returnRequest.save();
+
+        order.audit({ actor: 'customer', actorId: req.user.id, source: 'returns', note: `${type === 'exchange' ? 'Exchange' : 'Return'}: ${reason}` });
+        order.status = 'Return Requested';
+        await order.save();
+
+        if (global.io) global.io.emit('newReturnRequest', returnRequest);
+
+        console.log(`[Returns] ${type} request ${returnRequest._id} created for order ${order._id}.`);
+        res.status(201).json(returnRequest);
+    } catch (error) {
+        console.error('Error creating return request:', error);
+        res.status(500).json({ message: 'Failed to create return request' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,104 @@
+// server/routes/reviewRoutes.js
+
+const express = require('express');
+const mongoose = require('mongoose');
+const router = express.Router();
+const Review = require('../models/Review');
+const Product = require('../models/Product');
+const auth = require('../middleware/auth');
+const { MAX_REVIEW_IMAGES, findDeliveredOrder, getRatingDistribution } = require('../services/reviewService');
+
+// Rejects malformed ids before they reach a query
+router.param('productId', (req, res, next, productId) => {
+    if (!mongoose.isValidObjectId(productId)) {
+        return res.status(400).json({ message: 'Invalid product id' });
+    }
+    next();
+});
+
+// GET approved reviews for a product, with the rating summary
+router.get('/product/:productId', async (req, res) => {
+    try {
+        const product = await Product.findById(req.params.productId).select('averageRating reviewCount');
+        if (!product) return res.status(404).json({ message: 'Product not found' });
+
+        const [reviews, distribution] = await Promise.all([
+            Review.find({ product: product._id, status: 'approved' })
+                .sort({ createdAt: -1 })
+                .populate('user', 'name'),
+            getRatingDistribution(product._id),
+        ]);
+
+        res.json({
+            reviews,
+            summary: {
+                averageRating: product.averageRating,
+                reviewCount: product.reviewCount,
+                distribution,
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching reviews:', error);
+        res.status(500).json({ message: 'Failed to fetch reviews' });
+    }
+});
+
+// GET whether the logged-in user may review this product
+router.get('/product/:productId/eligibility', auth, async (req, res) => {
+    try {
+        const existing = await Review.findOne({ product: req.params.productId, user: req.user.id });
+        if (existing) {
+            return res.json({ canReview: false, reason: 'You have already reviewed this product.', review: existing });
+        }
+        const order = await findDeliveredOrder(req.user.id, req.params.productId);
+        if (!order) {
+            return res.json({ canReview: false, reason: 'Only customers who received this product can review it.' });
+        }
+        res.json({ canReview: true });
+    } catch (error) {
+        console.error('Error checking review eligibility:', error);
+        res.status(500).json({ message: 'Failed to check eligibility' });
+    }
+});
+
+// POST a review (verified purchasers only). It is held for moderation.
+router.post('/product/:productId', auth, async (req, res) => {
+    try {
+        const { rating, title, comment, images = [] } = req.body;
+        const stars = Number(rating);
+        if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+            return res.status(400).json({ message: 'Rating must be between 1 and 5 stars.' });
+        }
+        if (!Array.isArray(images) || images.length > MAX_REVIEW_IMAGES) {
+            return res.status(400).json({ message: `You can attach up to ${MAX_REVIEW_IMAGES} photos.` });
+        }
+
+        const order = await findDeliveredOrder(req.user.id, req.params.productId);
+        if (!order) {
+            return res.status(403).json({ message: 'Only customers who received this product can review it.' });
+        }
+
+        const review = await Review.create({
+            product: req.params.productId,
+            user: req.user.id,
+            order: order._id,
+            rating: stars,
+            title,
+            comment,
+            images: images.filter((url) => typeof url === 'string' && url.startsWith('https://')),
+        });
+        console.log(`[Reviews] New review ${review._id} awaiting moderation.`);
+        res.status(201).json({ message: 'Thanks! Your review will appear once it has been approved.', review });
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(409).json({ message: 'You have already reviewed this product.' });
+        }
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ message: Object.values(error.errors)[0].message });
+        }
+        console.error('Error creating review:', error);
+        res.status(500).json({ message: 'Failed to submit review' });
+    }
+});
+
+module.exports = router;
@@ -2,25 +2,42 @@
 
 const express = require('express');
 const router = express.Router();
-const auth = require('../middleware/auth');
+const orderAccess = require('../middleware/orderAccess');
 const Order = require('../models/Order');
-const { trackShipmentByAwb } = require('../services/shiprocketService');
+const { trackShipment, quoteShippingRates } = require('../services/shippingService');
+const { isValidWebhookToken, applyTrackingUpdate, toTrackingResponse } = require('../services/trackingService');
+const { queueStatusEmail } = require('../services/notificationService');
+
+// Delivery options for a cart (or a single product) going to a pincode.
+// Body: { items: [{ id, quantity }], pincode, cod }
+router.post('/rates', async (req, res) => {
+    const { items, pincode, cod } = req.body || {};
+    if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ message: 'Add at least one item to check delivery.' });
+    }
 
-// GET tracking details for a specific order ID from our database
-router.get('/track/:orderId', auth, async (req, res) => {
     try {
-        const order = await Order.findById(req.params.orderId);
+        const { options, parcel, error } = await quoteShippingRates({
+            deliveryPincode: pincode,
+            items: items.map((item) => ({ id: item.id, quantity: item.quantity })),
+            cod: Boolean(cod),
+        });
+        if (error) return res.status(400).json({ message: error });
+        res.json({ serviceable: options.length > 0, options, parcel });
+    } catch (error) {
+        console.error(`❌ [Shipping] Failed to quote rates for ${pincode}:`, error);
+        res.status(500).json({ message: 'Failed to check delivery for this pincode.' });
+    }
+});
 
-        if (!order) {
-            return res.status(404).json({ message: 'Order not found' });
-        }
+// Stored tracking older than this is refreshed from the carrier, in case a webhook went missing
+const TRACKING_STALE_MS = 30 * 60 * 1000;
+
+// GET tracking details for a specific order ID from our database (owner or lookup link)
+router.get('/track/:orderId', orderAccess, async (req, res) => {
+    try {
+        const order = req.order;
 
-        // Security check: Ensure the user requesting the order is the one who owns it or an admin
-        // Note: The logic might need adjustment based on how your user roles are structured
-        if (order.user && order.user.toString() !== req.user.id) {
-             return res.status(403).json({ message: 'User not authorized' });
-        }
-        
         // Check if AWB code exists
         const awbCode = order.shipmentDetails?.awbCode;
         if (!awbCode) {
@@ -33,15 +50,74 @@ router.get('/track/:orderId', auth, async (req, res) => {
                 }
             });
         }
-        
-        // Fetch tracking data from Shiprocket
-        const trackingData = await trackShipmentByAwb(awbCode);
-        res.json(trackingData);
 
+        // Serve what the webhook has stored; only ask the carrier when it is missing or stale
+        const updatedAt = order.tracking?.updatedAt;
+        if (!updatedAt || Date.now() - new Date(updatedAt).getTime() > TRACKING_STALE_MS) {
+            try {
+                const live = await trackShipment(order);
+                if (live) {
+                    order.audit({ source: order.shipmentDetails.provider, note: 'Live tracking lookup' });
+                    const statusChanged = applyTrackingUpdate(order, live);
+                    await order.save();
+                    if (statusChanged) await queueStatusEmail(order);
+                }
+            } catch (error) {
+                console.warn(`[Tracking] Live lookup failed for AWB ${awbCode}: ${error.message}`);
+            }
+        }
+        res.json(toTrackingResponse(order));
     } catch (error) {
         console.error(`Error fetching tracking for order ${req.params.orderId}:`, error);
         res.status(500).json({ message: 'Server Error while fetching tracking data.' });
     }
 });
 
+// SHIPROCKET TRACKING WEBHOOK
+// Shiprocket rejects webhook URLs containing "shiprocket", hence the generic path.
+router.post('/tracking-webhook', async (req, res) => {
+    if (!isValidWebhookToken(req.headers['x-api-key'])) {
+        console.error('❌ [Tracking] Invalid webhook token.');
+        return res.status(401).json({ message: 'Invalid token' });
+    }
+
+    const payload = req.body || {};
+    try {
+        if (payload.is_return) {
+            return res.status(200).json({ message: 'Return shipment update ignored.' });
+        }
+        // Without either id the filter would be empty and match any order
+        if (!payload.awb && !payload.sr_order_id) {
+            console.warn('[Tracking] Webhook without an AWB or Shiprocket order id ignored.');
+            return res.status(200).json({ message: 'Update without a shipment id ignored.' });
+        }
+
+        const order = await Order.findOne(
+            payload.awb
+                ? { 'shipmentDetails.awbCode': String(payload.awb) }
+                : { 'shipmentDetails.shiprocketOrderId': payload.sr_order_id }
+        );
+        if (!order) {
+            console.warn(`[Tracking] No order found for AWB ${payload.awb}.`);
+            return res.status(200).json({ message: 'No matching order.' });
+        }
+
+        order.audit({ source: 'shiprocket', note: `Courier status: ${payload.current_status}` });
+        const statusChanged = applyTrackingUpdate(order, payload);
+        await order.save();
+        if (statusChanged) await queueStatusEmail(order);
+        console.log(`[Tracking] Order ${order._id} AWB ${payload.awb}: ${payload.current_status}${statusChanged ? ` → ${order.status}` : ''}`);
+
+        if (global.io) {
+            global.io.emit('orderTrackingUpdated', { _id: order._id, status: order.status, currentStatus: order.tracking.currentStatus });
+            if (statusChanged) global.io.emit('orderStatusUpdated', { _id: order._id, status: order.status });
+        }
+
+        res.status(200).json({ success: true });
+    } catch (error) {
+        console.error('❌ [Tracking] Failed to process tracking webhook:', error);
+        res.status(500).json({ message: 'Failed to process tracking update.' });
+    }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -5,6 +5,10 @@ const auth = require("../middleware/auth.js");
 const User = require("../models/User.model.js");
 // Add at the top with other imports
 const Order = require("../models/Order");
+const { isSameCartLine } = require("../services/cartService");
+const { recentSearches, forgetSearches } = require("../services/searchLogService");
+const { countGuestOrders, claimGuestOrders } = require("../services/guestOrderService");
+const { sendMail } = require("../services/mailer");
 const router = express.Router();
 
 /* ------------------- Admin Related ------------------- */
@@ -102,16 +106,16 @@ router.get("/cart", auth, async (req, res) => {
 // ✅ Add to Cart
 router.post("/cart", auth, async (req, res) => {
   try {
-    const { productId, quantity = 1 } = req.body;
+    const { productId, variantId, quantity = 1 } = req.body;
 
     const user = await User.findById(req.user.id);
     if (!user) return res.status(404).json({ message: "User not found" });
 
-    const index = user.cart.findIndex((item) => item.product.toString() === productId);
+    const index = user.cart.findIndex((item) => isSameCartLine(item, productId, variantId));
     if (index !== -1) {
       user.cart[index].quantity += quantity;
     } else {
-      user.cart.push({ product: productId, quantity });
+      user.cart.push({ product: productId, variantId: variantId || undefined, quantity });
     }
 
     await user.save();
@@ -127,12 +131,12 @@ router.post("/cart", auth, async (req, res) => {
 // ✅ Update Cart Item Quantity
 router.put("/cart", auth, async (req, res) => {
   try {
-    const { productId, quantity } = req.body;
+    const { productId, variantId, quantity } = req.body;
 
     const user = await User.findById(req.user.id);
     if (!user) return res.status(404).json({ message: "User not found" });
 
-    const index = user.cart.findIndex((item) => item.product.toString() === productId);
+    const index = user.cart.findIndex((item) => isSameCartLine(item, productId, variantId));
     if (index !== -1) {
       if (quantity <= 0) user.cart.splice(index, 1);
       else user.cart[index].quantity = quantity;
@@ -153,11 +157,12 @@ router.put("/cart", auth, async (req, res) => {
 router.delete("/cart/:productId", auth, async (req, res) => {
   try {
     const { productId } = req.params;
+    const { variantId } = req.query;
 
     const user = await User.findById(req.user.id);
     if (!user) return res.status(404).json({ message: "User not found" });
 
-    user.cart = user.cart.filter((item) => item.product.toString() !== productId);
+    user.cart = user.cart.filter((item) => !isSameCartLine(item, productId, variantId));
     await user.save();
 
     const updatedUser = await User.findById(req.user.id).populate("cart.product");
@@ -287,6 +292,7 @@ router.patch("/change-password", auth, async (req, res) => {
 router.delete("/delete-account", auth, async (req, res) => {
   try {
     await User.findByIdAndDelete(req.user.id);
+    await forgetSearches(req.user.id);
     res.clearCookie("token");
     res.json({ message: "Account deleted successfully" });
   } catch (err) {
@@ -384,38 +390,132 @@ router.put("/addresses/:addressId", auth, async (req, res) => {
         res.status(500).json({ message: "Server error updating address" });
     }
 });
+
+/* ------------------- Email Preferences ------------------- */
+
+// ✅ GET which order emails the current user receives
+router.get("/email-preferences", auth, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select("emailPreferences");
+    if (!user) return res.status(404).json({ message: "User not found" });
+    res.json(user.emailPreferences);
+  } catch (error) {
+    console.error("Get email preferences error:", error);
+    res.status(500).json({ message: "Server error fetching email preferences" });
+  }
+});
+
+// ✅ PUT turn order emails on or off, e.g. { shippingUpdates: false }
+router.put("/email-preferences", auth, async (req, res) => {
+  try {
+    const update = {};
+    for (const key of ["orderUpdates", "shippingUpdates"]) {
+      if (typeof req.body[key] === "boolean") update[`emailPreferences.${key}`] = req.body[key];
+    }
+    const user = await User.findByIdAndUpdate(req.user.id, { $set: update }, { new: true }).select("emailPreferences");
+    if (!user) return res.status(404).json({ message: "User not found" });
+    res.json(user.emailPreferences);
+  } catch (error) {
+    console.error("Update email preferences error:", error);
+    res.status(500).json({ message: "Server error updating email preferences" });
+  }
+});
+/* ------------------- Search History ------------------- */
+
+// ✅ GET the current user's recent searches, newest first
+router.get("/search-history", auth, async (req, res) => {
+  try {
+    res.json(await recentSearches(req.user.id));
+  } catch (error) {
+    console.error("Get search history error:", error);
+    res.status(500).json({ message: "Server error fetching search history" });
+  }
+});
+
+// ✅ DELETE one recent search (?query=) or, without one, the whole history
+router.delete("/search-history", auth, async (req, res) => {
+  try {
+    await forgetSearches(req.user.id, req.query.query);
+    res.json({ message: "Search history cleared" });
+  } catch (error) {
+    console.error("Clear search history error:", error);
+    res.status(500).json({ message: "Server error clearing search history" });
+  }
+});
+
 // NEW ROUTE: Get all orders for the currently logged-in user
 router.get('/my-orders', auth, async (req, res) => {
   try {
-    const orders = await Order.find({ user: req.user.id }).sort({ createdAt: -1 });
+    const orders = await Order.find({ user: req.user.id }).select('-history').sort({ createdAt: -1 });
     res.status(200).json(orders);
   } catch (error) {
     console.error('Error fetching user orders:', error);
     res.status(500).json({ message: 'Failed to fetch user orders' });
   }
 });
-router.post("/cart/sync", auth, async (req, res) => {
+
+// Codes emailed to prove the account's address before its guest orders move in, by user id
+const guestOrderCodes = new Map();
+
+// How many orders were placed as a guest with this account's email, for the orders page to offer
+router.get('/guest-orders', auth, async (req, res) => {
   try {
-    const { cart } = req.body; // Expect an array of cart items
+    const user = await User.findById(req.user.id).select('email');
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    res.json({ count: await countGuestOrders(user), email: user.email });
+  } catch (error) {
+    console.error('Error counting guest orders:', error);
+    res.status(500).json({ message: 'Failed to look up guest orders' });
+  }
+});
 
-    const user = await User.findById(req.user.id);
-    if (!user) return res.status(404).json({ message: "User not found" });
+// Email a code to the account's address; entering it shows the customer owns that inbox
+router.post('/guest-orders/send-code', auth, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select('name email');
+    if (!user) return res.status(404).json({ message: 'User not found' });
+
+    const code = Math.floor(100000 + Math.random() * 900000).toString();
+    guestOrderCodes.set(req.user.id, { code, expires: Date.now() + 10 * 60 * 1000, attempts: 0 });
+    await sendMail({
+      to: user.email,
+      subject: 'Your code to add your earlier orders',
+      html: `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 30px;">
+      <p style="font-size: 16px; color: #555555;">Hello ${user.name},<br><br>
+        Enter this code on your orders page to add the orders you placed as a guest to your account:</p>
+      <p style="text-align: center; font-size: 24px; font-weight: bold; letter-spacing: 4px;">${code}</p>
+      <p style="font-size: 14px; color: #999999;">The code is valid for <strong>10 minutes</strong>.</p>
+    </div>
+  `,
+    });
+    res.json({ message: 'Code sent to your email' });
+  } catch (error) {
+    console.error('Error sending guest order code:', error);
+    res.status(500).json({ message: 'Failed to send the code' });
+  }
+});
 
-    // Transform the incoming cart to match the schema structure
-    const formattedCart = cart.map(item => ({
-      product: item.id,
-      quantity: item.quantity,
-    }));
-    
-    user.cart = formattedCart;
-    await user.save();
-    
-    const updatedUser = await User.findById(req.user.id).populate("cart.product");
-    res.json({ success: true, cart: updatedUser.cart });
+// Move the guest orders into the account once the emailed code checks out
+router.post('/guest-orders/claim', auth, async (req, res) => {
+  try {
+    const record = guestOrderCodes.get(req.user.id);
+    // A few guesses per code, so six digits cannot be worked through
+    if (!record || Date.now() > record.expires || record.attempts >= 5) {
+      return res.status(400).json({ message: 'Invalid or expired code' });
+    }
+    if (record.code !== String(req.body.code || '').trim()) {
+      record.attempts += 1;
+      return res.status(400).json({ message: 'Invalid or expired code' });
+    }
+    guestOrderCodes.delete(req.user.id);
 
-  } catch (err) {
-    console.error("Sync cart error:", err);
-    res.status(500).json({ message: "Failed to sync cart" });
+    const user = await User.findById(req.user.id).select('email');
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    res.json({ claimed: await claimGuestOrders(user) });
+  } catch (error) {
+    console.error('Error claiming guest orders:', error);
+    res.status(500).json({ message: 'Failed to add your orders' });
   }
 });
 module.exports = router;
@@ -14,14 +14,28 @@ const authRoutes = require("./routes/auth");
 const userRoutes = require("./routes/user.routes");
 const categoryRoutes = require("./routes/categories");
 const checkoutRoutes = require("./routes/checkoutRoutes");
-const webhookRoutes = require("./routes/webhook");
+const razorpayWebhookRoutes = require("./routes/razorpayWebhookRoutes");
 const productRoutes = require("./routes/productRoutes");
 const otpRoutes = require("./routes/otpRoutes");
 const orderRoutes = require("./routes/orderRoutes");
 const paymentRoutes = require("./routes/payment");
 const shippingRoutes = require("./routes/shippingRoutes");
 const adminOrderRoutes = require("./routes/adminOrderRoutes");
+const adminCouponRoutes = require("./routes/adminCouponRoutes");
+const reviewRoutes = require("./routes/reviewRoutes");
+const adminReviewRoutes = require("./routes/adminReviewRoutes");
+const returnRoutes = require("./routes/returnRoutes");
+const adminReturnRoutes = require("./routes/adminReturnRoutes");
+const adminJobRoutes = require("./routes/adminJobRoutes");
+const adminSearchRoutes = require("./routes/adminSearchRoutes");
+const collectionRoutes = require("./routes/collectionRoutes");
+const adminCollectionRoutes = require("./routes/adminCollectionRoutes");
 const geocodeRoutes = require("./routes/geocodeRoutes");
+const { startReservationSweeper } = require("./services/inventoryService");
+const { startJobWorker } = require("./services/jobQueue");
+const { registerJobHandlers } = require("./services/jobHandlers");
+const { migrateProductCategories } = require("./services/categoryService");
+const { seedDefaultCollections } = require("./services/collectionService");
 
 // ================= ENV SETUP =================
 dotenv.config();
@@ -68,6 +82,10 @@ app.use(
   })
 );
 
+// Razorpay webhooks are verified against the raw body, so they are routed before express.json().
+// /api/webhook/webhook is the URL older dashboard configurations still point at.
+app.use(["/api/orders/webhook", "/api/webhook/webhook"], razorpayWebhookRoutes);
+
 app.use(express.json());
 app.use(cookieParser());
 
@@ -87,7 +105,14 @@ mongoose
   .connect(process.env.MONGO_URI, {
     dbName: "web-store",
   })
-  .then(() => console.log("✅ MongoDB connected"))
+  .then(() => {
+    console.log("✅ MongoDB connected");
+    startReservationSweeper();
+    registerJobHandlers();
+    startJobWorker();
+    // The default CEO collection is built from the category the migration creates
+    migrateProductCategories().then(seedDefaultCollections);
+  })
   .catch((err) => console.error("❌ MongoDB error:", err));
 
 // ================= MODELS =================
@@ -111,7 +136,6 @@ app.get("/", (req, res) => res.status(200).send("Backend is live 🚀"));
 
 // ================= ROUTES =================
 app.use("/api/payment", paymentRoutes);
-app.use("/api/webhook", webhookRoutes);
 app.use("/api/categories", categoryRoutes);
 app.use("/api/checkout", checkoutRoutes);
 app.use("/api/products", productRoutes);
@@ -120,6 +144,15 @@ app.use("/api/users", userRoutes);
 app.use("/auth", otpRoutes);
 app.use("/api/orders", orderRoutes);
 app.use("/api/admin/orders", adminOrderRoutes);
+app.use("/api/admin/coupons", adminCouponRoutes);
+app.use("/api/reviews", reviewRoutes);
+app.use("/api/admin/reviews", adminReviewRoutes);
+app.use("/api/returns", returnRoutes);
+app.use("/api/admin/returns", adminReturnRoutes);
+app.use("/api/admin/jobs", adminJobRoutes);
+app.use("/api/admin/search", adminSearchRoutes);
+app.use("/api/collections", collectionRoutes);
+app.use("/api/admin/collections", adminCollectionRoutes);
 app.use("/api/shipping", shippingRoutes);
 app.use("/api/geocode", geocodeRoutes);
 
@@ -0,0 +1,102 @@
+// server/services/cancellationService.js
+
+const { returnOrderStock } = require('./inventoryService');
+const { cancelShipment } = require('./shippingService');
+const { resolvePaymentId, refundPayment, cancelPaymentLink } = require('./razorpayService');
+const { queueOrderEmail } = require('./notificationService');
+const { releaseCoupon } = require('./couponService');
+
+const CANCELLATION_REASONS = [
+    'Ordered by mistake',
+    'Want to change size or colour',
+    'Found a better price elsewhere',
+    'Delivery will take too long',
+    'Want to change the delivery address',
+    'Other',
+];
+
+// Once an order is Shipped the courier has it and the customer has to use a return instead
+const CANCELLABLE_STATUSES = ['Placed', 'Processing'];
+
+const cancellationWindowHours = () => Number(process.env.CANCELLATION_WINDOW_HOURS) || 24;
+
+/**
+ * Checks the cancellation policy. Returns an explanation when the customer may not
+ * cancel, or null when they may.
+ */
+const getCancellationBlocker = (order) => {
+    if (!CANCELLABLE_STATUSES.includes(order.status)) {
+        return `Orders that are ${order.status.toLowerCase()} can no longer be cancelled.`;
+    }
+    const windowMs = cancellationWindowHours() * 60 * 60 * 1000;
+    if (Date.now() - new Date(order.createdAt).getTime() > windowMs) {
+        return `Orders can only be cancelled within ${cancellationWindowHours()} hours of being placed.`;
+    }
+    return null;
+};
+
+/**
+ * Cancels an order end to end: the Shiprocket order (if one was created), the payment link or
+ * a refund of what was paid, and the stock. Returns `{ order }` or `{ error }`.
+ * @param {object} order - The order document.
+ * @param {object} details - { reason, comment, cancelledBy: 'customer' | 'admin', actorId }
+ */
+const cancelOrder = async (order, { reason, comment, cancelledBy, actorId }) => {
+    order.audit({ actor: cancelledBy, actorId, source: cancelledBy, note: reason });
+
+    // Carriers refuse once the parcel is picked up, so try it first and stop if it fails
+    try {
+        await cancelShipment(order);
+    } catch (error) {
+        return { error: 'Your order has already been handed to the courier and cannot be cancelled.' };
+    }
+
+    if (order.paymentStatus === 'pending' && order.razorpayPaymentLinkId) {
+        try {
+            await cancelPaymentLink(order.razorpayPaymentLinkId);
+        } catch (error) {
+            return { error: 'We could not close the payment link for this order. Please try again.' };
+        }
+        order.paymentStatus = 'failed';
+    }
+
+    await returnOrderStock(order, 'cancelled');
+
+    order.status = 'Cancelled';
+    order.cancellation = { reason, comment, cancelledBy, at: new Date() };
+
+    if (order.paymentStatus === 'paid' || order.paymentStatus === 'partially_refunded') {
+        const amount = order.totalAmount - (order.refundedAmount || 0);
+        try {
+            const paymentId = await resolvePaymentId(order);
+            if (!paymentId) throw new Error('No captured Razorpay payment found.');
+
+            const refund = await refundPayment(paymentId, amount, {
+                order_id: order._id.toString(),
+                reason: 'cancellation',
+            });
+            order.razorpayPaymentId = paymentId;
+            order.refundedAmount = (order.refundedAmount || 0) + amount;
+            order.refunds.push({ refundId: refund.id, amount, source: 'cancellation' });
+            order.paymentStatus = 'refunded';
+            order.cancellation.refundId = refund.id;
+        } catch (error) {
+            // The order is still cancelled and restocked; the money goes back by hand
+            order.cancellation.refundError = error.message;
+            console.error(`❌ [Cancellation] CRITICAL: Refund of ₹${amount} failed for cancelled order ${order._id}. Manual refund required.`, error);
+        }
+    }
+
+    await order.save();
+    await releaseCoupon(order);
+    console.log(`[Cancellation] Order ${order._id} cancelled by ${cancelledBy}.`);
+    await queueOrderEmail(order, 'order_cancelled');
+    return { order };
+};
+
+module.exports = {
+    CANCELLATION_REASONS,
+    cancellationWindowHours,
+    getCancellationBlocker,
+    cancelOrder,
+};
@@ -0,0 +1,73 @@
+// server/services/carriers/manualCarrier.js
+
+const { escapeHtml } = require('../../utils/html');
+
+/**
+ * Carrier adapter for deliveries we make ourselves (local pincodes, in-store pickups).
+ * Nothing is booked externally: the admin prints our own label and records status changes by
+ * hand. See services/shippingService.js for the interface.
+ */
+
+const courierName = () => process.env.LOCAL_DELIVERY_NAME || 'Hansitha Self Delivery';
+
+const localPincodes = () =>
+    (process.env.LOCAL_DELIVERY_PINCODES || '').split(',').map((pin) => pin.trim()).filter(Boolean);
+
+const shortId = (id) => id.toString().slice(-8).toUpperCase();
+
+const manualCarrier = {
+    name: 'manual',
+
+    isLocal: (pincode) => localPincodes().includes(String(pincode || '').trim()),
+
+    getRates: async ({ deliveryPincode, cod }) => {
+        if (!manualCarrier.isLocal(deliveryPincode)) return [];
+        return [{
+            provider: 'manual',
+            courierName: courierName(),
+            rate: Number(process.env.LOCAL_DELIVERY_FEE) || 0,
+            etdDays: Number(process.env.LOCAL_DELIVERY_DAYS) || 1,
+            cod: true,
+        }];
+    },
+
+    createShipment: async () => ({}),
+
+    assignAwb: async (order) => ({
+        status: 'READY TO DISPATCH',
+        awbCode: `LOCAL-${shortId(order._id)}`,
+        courierName: courierName(),
+    }),
+
+    // Status changes come from the admin (PATCH /api/admin/orders/:orderId/shipment-status)
+    track: async () => null,
+
+    cancel: async () => {},
+
+    getLabel: async (order) => {
+        const { address, shipmentDetails } = order;
+        const lines = order.cartItems
+            .map((item) => `<li>${escapeHtml(item.quantity)} × ${escapeHtml(item.name)}${item.variantLabel ? ` (${escapeHtml(item.variantLabel)})` : ''}</li>`)
+            .join('');
+        return {
+            html: `<!doctype html><html><head><title>Label ${escapeHtml(shipmentDetails.awbCode)}</title></head>
+<body style="font-family: sans-serif; width: 380px; border: 2px solid #000; padding: 16px;">
+<h2 style="margin: 0 0 8px;">${escapeHtml(courierName())}</h2>
+<p style="font-size: 20px; font-weight: bold;">${escapeHtml(shipmentDetails.awbCode)}</p>
+<p><strong>Deliver to:</strong><br>${escapeHtml(address.name)}<br>${escapeHtml(address.houseNumber)}, ${escapeHtml(address.street)}<br>
+${address.landmark ? `${escapeHtml(address.landmark)}<br>` : ''}${escapeHtml(address.city)}, ${escapeHtml(address.state)} - ${escapeHtml(address.pincode)}<br>
+Phone: ${escapeHtml(address.phone)}</p>
+<p><strong>Order:</strong> #${shortId(order._id)}</p>
+${order.paymentMethod === 'cod' && order.paymentStatus === 'pending' ? `<p style="font-size: 18px;"><strong>COD: collect ₹${escapeHtml(order.totalAmount)}</strong></p>` : '<p><strong>PREPAID</strong></p>'}
+<ul>${lines}</ul>
+</body></html>`,
+        };
+    },
+
+    createReturn: async (order, returnRequest) => ({
+        awbCode: `LOCAL-RET-${shortId(returnRequest._id)}`,
+        courierName: courierName(),
+    }),
+};
+
+module.exports = manualCarrier;
@@ -0,0 +1,78 @@
+// server/services/carriers/shiprocketCarrier.js
+
+const {
+    createShiprocketOrder,
+    createReturnOrder,
+    assignCourierAndGetAwb,
+    cancelShiprocketOrder,
+    getCourierServiceability,
+    generateLabel,
+    trackShipmentByAwb,
+} = require('../shiprocketService');
+const { fromLiveTracking } = require('../trackingService');
+
+/**
+ * Carrier adapter over the Shiprocket API. See services/shippingService.js for the interface.
+ */
+const shiprocketCarrier = {
+    name: 'shiprocket',
+
+    getRates: async ({ deliveryPincode, parcel, cod }) => {
+        const couriers = await getCourierServiceability({
+            pickupPincode: process.env.SHIPROCKET_PICKUP_PINCODE,
+            deliveryPincode,
+            weight: parcel.weight,
+            cod,
+        });
+        return couriers.map((courier) => ({
+            provider: 'shiprocket',
+            courierId: courier.courier_company_id,
+            courierName: courier.courier_name,
+            rate: Number(courier.rate),
+            etdDays: Number(courier.estimated_delivery_days) || undefined,
+            cod: Boolean(courier.cod),
+        }));
+    },
+
+    createShipment: async (order, parcel) => {
+        const shiprocketOrder = await createShiprocketOrder(order, parcel);
+        return { shiprocketOrderId: shiprocketOrder.order_id, shipmentId: shiprocketOrder.shipment_id };
+    },
+
+    assignAwb: async (order, shipment) => {
+        // The courier the customer paid for at checkout; Shiprocket picks one when unset
+        const courierId = order.shippingMethod?.provider === 'shiprocket' ? order.shippingMethod.courierId : undefined;
+        const awbData = await assignCourierAndGetAwb(shipment.shipmentId, { courierId });
+        return {
+            status: awbData.data.status,
+            awbCode: awbData.data.awb_code,
+            courierName: awbData.data.courier_name,
+        };
+    },
+
+    track: async (order) => {
+        const live = await trackShipmentByAwb(order.shipmentDetails.awbCode);
+        return fromLiveTracking(live.tracking_data);
+    },
+
+    cancel: async (order) => {
+        if (order.shipmentDetails?.shiprocketOrderId) {
+            await cancelShiprocketOrder(order.shipmentDetails.shiprocketOrderId);
+        }
+    },
+
+    getLabel: async (order) => ({ url: await generateLabel(order.shipmentDetails.shipmentId) }),
+
+    createReturn: async (order, returnRequest, parcel) => {
+        const shiprocketReturn = await createReturnOrder(order, returnRequest, parcel);
+        const awbData = await assignCourierAndGetAwb(shiprocketReturn.shipment_id, { isReturn: true });
+        return {
+            shiprocketOrderId: shiprocketReturn.order_id,
+            shipmentId: shiprocketReturn.shipment_id,
+            awbCode: awbData.data?.awb_code,
+            courierName: awbData.data?.courier_name,
+        };
+    },
+};
+
+module.exports = shiprocketCarrier;
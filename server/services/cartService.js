@@ -0,0 +1,152 @@
+// server/services/cartService.js
+
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const { findVariant, variantLabel } = require('../utils/variants');
+
+// A cart line is identified by product + variant (variantId is empty for products without SKUs)
+const isSameCartLine = (item, productId, variantId) =>
+    item.product.toString() === productId &&
+    (item.variantId ? item.variantId.toString() : null) === (variantId || null);
+
+/**
+ * Folds the cart a guest built in the browser into their account cart when they log in.
+ * Quantities of the same line are summed and then clamped to the stock left; lines whose
+ * product (or variant) is gone or sold out are dropped. Saves the user and returns what
+ * changed so the client can tell the customer, or null when there was nothing to merge.
+ * @param {object} user - The User document.
+ * @param {Array} guestItems - The browser cart: [{ id, variantId?, quantity }]
+ * @returns {Promise<object|null>} { added, combined, clamped, removed }, each a list of
+ *   { id, variantId, name, quantity?, requested?, reason? }
+ */
+const mergeGuestCart = async (user, guestItems) => {
+    const guestLines = (Array.isArray(guestItems) ? guestItems : []).filter((item) =>
+        mongoose.isValidObjectId(item?.id) &&
+        (!item.variantId || mongoose.isValidObjectId(item.variantId)) &&
+        Number.isInteger(Number(item.quantity)) && Number(item.quantity) > 0
+    );
+    if (guestLines.length === 0) return null;
+
+    try {
+        const lines = user.cart.map((item) => ({
+            productId: item.product.toString(),
+            variantId: item.variantId ? item.variantId.toString() : undefined,
+            quantity: item.quantity,
+        }));
+        for (const item of guestLines) {
+            const productId = String(item.id);
+            const variantId = item.variantId ? String(item.variantId) : undefined;
+            const existing = lines.find((line) =>
+                isSameCartLine({ product: line.productId, variantId: line.variantId }, productId, variantId)
+            );
+            if (existing) {
+                existing.quantity += Number(item.quantity);
+                existing.combined = true;
+            } else {
+                lines.push({ productId, variantId, quantity: Number(item.quantity), added: true });
+            }
+        }
+
+        const products = await Product.find({ _id: { $in: lines.map((line) => line.productId) } })
+            .select('name stock variants');
+        const byId = new Map(products.map((product) => [product._id.toString(), product]));
+
+        const changes = { added: [], combined: [], clamped: [], removed: [] };
+        const cart = [];
+        for (const line of lines) {
+            const product = byId.get(line.productId);
+            const variant = line.variantId ? findVariant(product, line.variantId) : null;
+            const entry = {
+                id: line.productId,
+                variantId: line.variantId,
+                name: product ? `${product.name}${variant ? ` (${variantLabel(variant)})` : ''}` : 'An item',
+            };
+
+            if (!product || (line.variantId && !variant)) {
+                changes.removed.push({ ...entry, reason: 'unavailable' });
+                continue;
+            }
+            const stock = variant ? variant.stock : product.stock;
+            if (!(stock > 0)) {
+                changes.removed.push({ ...entry, reason: 'out_of_stock' });
+                continue;
+            }
+
+            const quantity = Math.min(line.quantity, stock);
+            if (quantity < line.quantity) changes.clamped.push({ ...entry, requested: line.quantity, quantity });
+            if (line.added) changes.added.push({ ...entry, quantity });
+            else if (line.combined) changes.combined.push({ ...entry, quantity });
+            cart.push({ product: line.productId, variantId: line.variantId, quantity });
+        }
+
+        user.cart = cart;
+        await user.save();
+        return changes;
+    } catch (error) {
+        // Logging in matters more than the cart; the guest cart is still in the browser
+        console.error(`❌ [Cart] Failed to merge the guest cart for user ${user._id}:`, error.message);
+        return null;
+    }
+};
+
+/**
+ * Re-checks a cart against the catalogue as it is now. Returns an issue for each way a line has
+ * gone stale since it was added: the product (or variant) was deleted, it sold out, less is left
+ * than the quantity asked for, or the price moved. A line can be both short and repriced.
+ * @param {Array} cartItems - [{ id, variantId?, quantity, price, name? }] as held by the client.
+ * @returns {Promise<Array>} [{ id, variantId, name, type: 'deleted' | 'out_of_stock' |
+ *   'low_stock' | 'price_changed', quantity, available?, oldPrice?, price? }]
+ */
+const validateCart = async (cartItems) => {
+    const lines = Array.isArray(cartItems) ? cartItems : [];
+    const ids = lines.map((item) => item?.id).filter((id) => mongoose.isValidObjectId(id));
+    const products = await Product.find({ _id: { $in: ids } }).select('name price stock variants');
+    const byId = new Map(products.map((product) => [product._id.toString(), product]));
+
+    const issues = [];
+    for (const item of lines) {
+        const product = byId.get(String(item?.id));
+        const variant = item?.variantId ? findVariant(product, item.variantId) : null;
+        const quantity = Number(item?.quantity) || 0;
+        const line = {
+            id: String(item?.id),
+            variantId: item?.variantId || undefined,
+            name: product ? `${product.name}${variant ? ` (${variantLabel(variant)})` : ''}` : item?.name || 'An item',
+            quantity,
+        };
+
+        if (!product || (item.variantId && !variant)) {
+            issues.push({ ...line, type: 'deleted' });
+            continue;
+        }
+
+        const stock = variant ? variant.stock : product.stock;
+        if (!(stock > 0)) {
+            issues.push({ ...line, type: 'out_of_stock', available: 0 });
+            continue;
+        }
+        if (stock < quantity) issues.push({ ...line, type: 'low_stock', available: stock });
+
+        const price = variant ? variant.price : product.price;
+        if (typeof item.price === 'number' && Math.abs(item.price - price) >= 0.01) {
+            issues.push({ ...line, type: 'price_changed', oldPrice: item.price, price });
+        }
+    }
+    return issues;
+};
+
+/**
+ * Tells open carts that these products changed (price, stock or deleted) so they validate again.
+ */
+const notifyCartProductsChanged = (productIds) => {
+    const ids = [...new Set(productIds.filter(Boolean).map(String))];
+    if (!global.io || ids.length === 0) return;
+    global.io.emit('cartProductsChanged', { productIds: ids });
+};
+
+module.exports = {
+    isSameCartLine,
+    mergeGuestCart,
+    validateCart,
+    notifyCartProductsChanged,
+};
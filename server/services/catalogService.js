@@ -0,0 +1,151 @@
+// server/services/catalogService.js
+//
+// The product listing behind the shop, category and collection pages. Pages are fetched with a
+// cursor (the sort value and _id of the last product sent) rather than an offset, so infinite
+// scroll neither skips nor repeats products when the catalogue changes underneath it.
+
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+const { toList } = require('../utils/query');
+const { resolveCategoryFilter } = require('./categoryService');
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+const NEW_ARRIVAL_DAYS = 30;
+
+// Ties on the sort field are broken by _id ascending so every product has one place in the order.
+// "newest" sorts on _id alone: ObjectIds start with their creation time.
+const SORTS = {
+    newest: { field: '_id', order: -1 },
+    price_asc: { field: 'price', order: 1 },
+    price_desc: { field: 'price', order: -1 },
+    rating: { field: 'averageRating', order: -1 },
+    name: { field: 'name', order: 1 },
+};
+
+const isTrue = (value) => value === 'true' || value === '1';
+
+const toNumber = (value) => (value === undefined || value === '' ? undefined : Number(value));
+
+const encodeCursor = (product, field) =>
+    Buffer.from(JSON.stringify([field === '_id' ? null : product[field], product._id.toString()])).toString('base64url');
+
+const decodeCursor = (cursor) => {
+    try {
+        const [value, id] = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+        return mongoose.isValidObjectId(id) ? { value, id: new mongoose.Types.ObjectId(id) } : null;
+    } catch (err) {
+        return null;
+    }
+};
+
+// Products that come after the cursor in the given order
+const afterCursor = ({ field, order }, { value, id }) => {
+    if (field === '_id') return { _id: { [order === 1 ? '$gt' : '$lt']: id } };
+    return {
+        $or: [
+            { [field]: { [order === 1 ? '$gt' : '$lt']: value } },
+            { [field]: value, _id: { $gt: id } },
+        ],
+    };
+};
+
+/**
+ * Builds the filter for a listing query. Returns `{ clauses }` or `{ error }`.
+ */
+const buildClauses = async (query) => {
+    const clauses = [];
+
+    const categories = toList(query.category);
+    if (categories.length > 0) {
+        // Slugs from category page URLs, or names; a category includes its subcategories
+        clauses.push({ categoryId: { $in: await resolveCategoryFilter(categories) } });
+    }
+
+    const minPrice = toNumber(query.minPrice);
+    const maxPrice = toNumber(query.maxPrice);
+    if ([minPrice, maxPrice].some((price) => price !== undefined && !Number.isFinite(price))) {
+        return { error: 'minPrice and maxPrice must be numbers' };
+    }
+    if (minPrice !== undefined || maxPrice !== undefined) {
+        clauses.push({
+            price: {
+                ...(minPrice !== undefined && { $gte: minPrice }),
+                ...(maxPrice !== undefined && { $lte: maxPrice }),
+            },
+        });
+    }
+
+    if (isTrue(query.featured)) clauses.push({ featured: true });
+    if (isTrue(query.new)) {
+        const since = new Date(Date.now() - NEW_ARRIVAL_DAYS * 24 * 60 * 60 * 1000);
+        clauses.push({ _id: { $gte: mongoose.Types.ObjectId.createFromTime(Math.floor(since.getTime() / 1000)) } });
+    }
+    if (isTrue(query.inStock)) clauses.push({ stock: { $gt: 0 } });
+
+    const ids = toList(query.ids);
+    if (ids.length > 0) clauses.push({ _id: { $in: ids.filter((id) => mongoose.isValidObjectId(id)) } });
+
+    const exclude = toList(query.exclude).filter((id) => mongoose.isValidObjectId(id));
+    if (exclude.length > 0) clauses.push({ _id: { $nin: exclude } });
+
+    return { clauses };
+};
+
+/**
+ * One page of the catalogue.
+ * @param {object} query - The request query: category (list of slugs or names), minPrice,
+ *   maxPrice, featured, new (added in the last NEW_ARRIVAL_DAYS), inStock, ids (list), exclude
+ *   (list), sort (newest | price_asc | price_desc | rating | name), limit and cursor (the
+ *   previous page's nextCursor).
+ * @param {object} [scope] - A filter the listing is limited to, such as a collection's members.
+ * @returns {Promise<object>} `{ products, nextCursor }` (nextCursor is null on the last page),
+ *   or `{ error }` for a bad filter or cursor.
+ */
+const listProducts = async (query = {}, scope) => {
+    const sort = SORTS[query.sort] || SORTS.newest;
+    const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const { clauses, error } = await buildClauses(query);
+    if (error) return { error };
+    if (scope) clauses.push(scope);
+
+    if (query.cursor) {
+        const cursor = decodeCursor(query.cursor);
+        if (!cursor) return { error: 'Invalid cursor' };
+        clauses.push(afterCursor(sort, cursor));
+    }
+
+    // One extra product tells us whether there is another page
+    const products = await Product.find(clauses.length > 0 ? { $and: clauses } : {})
+        .sort(sort.field === '_id' ? { _id: sort.order } : { [sort.field]: sort.order, _id: 1 })
+        .limit(limit + 1)
+        .lean();
+
+    const hasMore = products.length > limit;
+    const page = hasMore ? products.slice(0, limit) : products;
+    return {
+        products: page,
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1], sort.field) : null,
+    };
+};
+
+/**
+ * The visible categories in use, with how many products each has directly, for shop filters.
+ * @returns {Promise<Array>} [{ name, slug, count }]
+ */
+const listCategories = () =>
+    Product.aggregate([
+        { $group: { _id: '$categoryId', count: { $sum: 1 } } },
+        { $lookup: { from: Category.collection.name, localField: '_id', foreignField: '_id', as: 'category' } },
+        { $unwind: '$category' },
+        { $match: { 'category.visible': { $ne: false } } },
+        { $sort: { 'category.name': 1 } },
+        { $project: { _id: 0, name: '$category.name', slug: '$category.slug', count: 1 } },
+    ]);
+
+module.exports = {
+    listProducts,
+    listCategories,
+};
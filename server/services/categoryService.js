@@ -0,0 +1,369 @@
+// server/services/categoryService.js
+//
+// The category tree. Categories number in the tens, so tree questions (children, descendants,
+// ancestors, cycles) are answered from one read of the whole collection rather than with
+// recursive queries.
+
+const mongoose = require('mongoose');
+const Category = require('../models/Category');
+const Product = require('../models/Product');
+const Coupon = require('../models/Coupon');
+const { escapeRegExp } = require('../utils/query');
+const { invalidateSearchVocabulary } = require('./searchService');
+
+const MAX_SLUG_LENGTH = 80;
+
+// Only these fields can be set from the admin panel; slugs are generated unless given
+const editableFields = ['name', 'slug', 'description', 'image', 'bannerImage', 'parent', 'sortOrder', 'visible'];
+
+const slugify = (text) =>
+    String(text || '')
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, MAX_SLUG_LENGTH);
+
+/**
+ * A slug for `text` that no other category uses now or used before: "silk", then "silk-2", ...
+ */
+const uniqueSlug = async (text, excludeId) => {
+    const base = slugify(text) || 'category';
+    for (let n = 1; ; n += 1) {
+        const slug = n === 1 ? base : `${base}-${n}`;
+        const filter = { $or: [{ slug }, { oldSlugs: slug }] };
+        if (excludeId) filter._id = { $ne: excludeId };
+        if (!(await Category.exists(filter))) return slug;
+    }
+};
+
+const idOf = (value) => (value ? value.toString() : null);
+
+// Siblings in display order
+const bySortOrder = (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+/**
+ * Nests a flat category list. Categories whose parent is missing from the list become roots.
+ * Fields that categories created before the tree existed lack are filled with their defaults.
+ * @returns {Array} the roots, each category with a `children` array
+ */
+const buildTree = (categories) => {
+    const nodes = new Map(categories.map((category) => [
+        idOf(category._id),
+        {
+            ...category,
+            parent: category.parent || null,
+            sortOrder: category.sortOrder || 0,
+            visible: category.visible !== false,
+            children: [],
+        },
+    ]));
+    const roots = [];
+    for (const node of nodes.values()) {
+        const parent = nodes.get(idOf(node.parent));
+        (parent ? parent.children : roots).push(node);
+    }
+    const sort = (list) => {
+        list.sort(bySortOrder);
+        list.forEach((node) => sort(node.children));
+        return list;
+    };
+    return sort(roots);
+};
+
+// Depth-first, so each category follows its parent; `depth` is 0 for roots
+const flattenTree = (roots, depth = 0) =>
+    roots.flatMap(({ children, ...category }) => [{ ...category, depth }, ...flattenTree(children, depth + 1)]);
+
+// A category is on the storefront only when it and all its ancestors are visible
+const pruneHidden = (roots) =>
+    roots.filter((node) => node.visible).map((node) => ({ ...node, children: pruneHidden(node.children) }));
+
+const loadTree = async ({ includeHidden = false } = {}) => {
+    const roots = buildTree(await Category.find().lean());
+    return includeHidden ? roots : pruneHidden(roots);
+};
+
+/**
+ * The category tree, nested. Hidden categories are left out unless `includeHidden`.
+ */
+const listCategoryTree = (options) => loadTree(options);
+
+/**
+ * Every category in tree order, each with its `depth`, for lists and pickers.
+ */
+const listCategoriesFlat = async (options) => flattenTree(await loadTree(options));
+
+// The category a URL or filter value names: its slug, a slug it used to have, or its name
+const matchesKey = (category, key) => {
+    const lower = key.toLowerCase();
+    return (
+        category.slug === lower ||
+        (category.oldSlugs || []).includes(lower) ||
+        category.name.toLowerCase() === lower ||
+        idOf(category._id) === key
+    );
+};
+
+// Every node of a nested tree, keeping each node's children
+const flattenTreeNodes = (roots) => roots.flatMap((node) => [node, ...flattenTreeNodes(node.children)]);
+
+const descendantsOf = (node) => node.children.flatMap((child) => [child, ...descendantsOf(child)]);
+
+/**
+ * The IDs of the categories named by `values` (slugs, old slugs, names or IDs) and of all the
+ * categories below them, for filtering products: a parent's page lists its children's products.
+ */
+const resolveCategoryFilter = async (values) => {
+    const nodes = flattenTreeNodes(await loadTree({ includeHidden: true }));
+    const matched = nodes.filter((node) => values.some((value) => matchesKey(node, value)));
+    const ids = new Set(matched.flatMap((node) => [node, ...descendantsOf(node)]).map((node) => idOf(node._id)));
+    return [...ids].map((id) => new mongoose.Types.ObjectId(id));
+};
+
+/**
+ * A storefront category page: the visible category `key` names, with its ancestors (root first,
+ * for breadcrumbs) and its visible children. Null when there is no such category or it is hidden.
+ */
+const getCategoryPage = async (key) => {
+    const path = [];
+    const find = (nodes) => {
+        for (const node of nodes) {
+            path.push(node);
+            if (matchesKey(node, key) || find(node.children)) return true;
+            path.pop();
+        }
+        return false;
+    };
+    if (!find(await loadTree())) return null;
+
+    const { children, ...category } = path[path.length - 1];
+    return {
+        ...category,
+        ancestors: path.slice(0, -1).map(({ _id, name, slug }) => ({ _id, name, slug })),
+        children: children.map((child) => ({ ...child, children: undefined })),
+    };
+};
+
+/**
+ * True when making `parentId` the parent of `categoryId` would put the category inside itself.
+ * @param {Map} parents - category ID -> parent ID, as the tree stands
+ */
+const createsCycle = (parents, categoryId, parentId) => {
+    for (let id = parentId; id; id = parents.get(id)) {
+        if (id === categoryId) return true;
+    }
+    return false;
+};
+
+const loadParents = async () =>
+    new Map((await Category.find().select('parent').lean()).map((category) => [idOf(category._id), idOf(category.parent)]));
+
+const pickCategoryFields = (body) => {
+    const fields = {};
+    for (const key of editableFields) {
+        if (body[key] === undefined) continue;
+        // Empty form inputs clear optional fields
+        fields[key] = body[key] === '' ? null : body[key];
+    }
+    if (fields.name !== undefined) fields.name = String(fields.name || '').trim();
+    return fields;
+};
+
+const checkParent = async (parentId, categoryId) => {
+    if (!parentId) return null;
+    if (!mongoose.isValidObjectId(parentId)) return 'Choose a valid parent category.';
+    const parents = await loadParents();
+    if (!parents.has(idOf(parentId))) return 'The parent category no longer exists.';
+    if (categoryId && createsCycle(parents, idOf(categoryId), idOf(parentId))) {
+        return 'A category cannot be moved inside itself.';
+    }
+    return null;
+};
+
+/**
+ * Creates a category at the end of its siblings.
+ * @returns {Promise<object>} the category, or { error }
+ */
+const createCategory = async (body) => {
+    const fields = pickCategoryFields(body);
+    if (!fields.name) return { error: 'Category name is required.' };
+
+    const parentError = await checkParent(fields.parent);
+    if (parentError) return { error: parentError };
+
+    fields.slug = await uniqueSlug(fields.slug || fields.name);
+    if (fields.sortOrder === undefined) {
+        fields.sortOrder = await Category.countDocuments({ parent: fields.parent || null });
+    }
+    return Category.create(fields);
+};
+
+/**
+ * Updates a category. A new name is copied to its products and to coupons scoped to it; a new
+ * slug is made unique and the old one kept so existing links still resolve.
+ * @param {object} category - The Category document.
+ * @returns {Promise<object>} the category, or { error }
+ */
+const updateCategory = async (category, body) => {
+    const fields = pickCategoryFields(body);
+    if (fields.name === '') return { error: 'Category name is required.' };
+
+    if (fields.parent !== undefined) {
+        const parentError = await checkParent(fields.parent, category._id);
+        if (parentError) return { error: parentError };
+    }
+
+    const oldName = category.name;
+    const oldSlug = category.slug;
+    if (fields.slug !== undefined) {
+        const wanted = slugify(fields.slug);
+        fields.slug = wanted === oldSlug ? oldSlug : await uniqueSlug(wanted || category.name, category._id);
+    }
+    category.set(fields);
+    if (category.slug !== oldSlug) {
+        category.oldSlugs = [...new Set([...category.oldSlugs, oldSlug])].filter((slug) => slug !== category.slug);
+    }
+    await category.save();
+
+    if (category.name !== oldName) {
+        await Promise.all([
+            Product.updateMany({ categoryId: category._id }, { $set: { category: category.name } }),
+            Coupon.updateMany(
+                { categories: oldName },
+                { $set: { 'categories.$[scoped]': category.name } },
+                { arrayFilters: [{ scoped: oldName }] }
+            ),
+        ]);
+        invalidateSearchVocabulary();
+    }
+    return category;
+};
+
+/**
+ * Applies a drag-and-drop rearrangement of the tree.
+ * @param {Array} placements - [{ id, parent, sortOrder }] for every category that moved
+ * @returns {Promise<object>} { updated } or { error }
+ */
+const moveCategories = async (placements) => {
+    if (!Array.isArray(placements) || placements.length === 0) return { error: 'Nothing to reorder.' };
+
+    const parents = await loadParents();
+    for (const placement of placements) {
+        const id = idOf(placement?.id);
+        const parent = idOf(placement?.parent);
+        if (!parents.has(id) || (parent && !parents.has(parent))) {
+            return { error: 'The categories have changed; reload and try again.' };
+        }
+        if (!Number.isInteger(placement.sortOrder)) return { error: 'Invalid category order.' };
+        parents.set(id, parent);
+    }
+    // Checked against the finished tree: a move may only be valid together with another one
+    for (const id of parents.keys()) {
+        if (createsCycle(parents, id, parents.get(id))) return { error: 'A category cannot be moved inside itself.' };
+    }
+
+    await Category.bulkWrite(
+        placements.map(({ id, parent, sortOrder }) => ({
+            updateOne: { filter: { _id: id }, update: { $set: { parent: parent || null, sortOrder } } },
+        }))
+    );
+    return { updated: placements.length };
+};
+
+/**
+ * Deletes an empty category.
+ * @returns {Promise<object>} {} or { error } while it still has subcategories or products
+ */
+const deleteCategory = async (category) => {
+    if (await Category.exists({ parent: category._id })) {
+        return { error: 'Move or delete its subcategories first.' };
+    }
+    const productCount = await Product.countDocuments({ categoryId: category._id });
+    if (productCount > 0) {
+        return { error: `${productCount} ${productCount === 1 ? 'product is' : 'products are'} still in this category.` };
+    }
+    await category.deleteOne();
+    return {};
+};
+
+// The category called `name` (any case), created as a top-level category when there is none
+const findOrCreateCategory = async (name) => {
+    const existing = await Category.findOne({ name: new RegExp(`^${escapeRegExp(name)}$`, 'i') });
+    if (existing) return existing;
+    return Category.create({
+        name,
+        slug: await uniqueSlug(name),
+        sortOrder: await Category.countDocuments({ parent: null }),
+    });
+};
+
+/**
+ * The category fields for a product being saved from `categoryId`, or from a category name (as
+ * sent by CSV imports and older clients), creating that category if needed.
+ * @returns {Promise<object>} { categoryId, category } or { error }
+ */
+const resolveProductCategory = async ({ categoryId, category }) => {
+    if (categoryId) {
+        const found = mongoose.isValidObjectId(categoryId) && (await Category.findById(categoryId).lean());
+        if (!found) return { error: 'The selected category no longer exists.' };
+        return { categoryId: found._id, category: found.name };
+    }
+    const name = String(category || '').trim();
+    if (!name) return { error: 'Choose a category.' };
+    const found = await findOrCreateCategory(name);
+    return { categoryId: found._id, category: found.name };
+};
+
+/**
+ * Links products saved before categories had IDs to a category of the same name, creating the
+ * categories that don't exist yet, and gives older categories a slug. Safe to run on every start:
+ * once everything is linked it only reads. Never throws.
+ */
+const migrateProductCategories = async () => {
+    try {
+        const unslugged = await Category.find({ slug: { $in: [null, ''] } });
+        for (const category of unslugged) {
+            category.slug = await uniqueSlug(category.name, category._id);
+            await category.save({ validateBeforeSave: false });
+        }
+        if (unslugged.length > 0) {
+            // The unique slug index can only be built once no two categories are without one
+            await Category.createIndexes();
+            console.log(`✅ [Categories] Added slugs to ${unslugged.length} categories`);
+        }
+
+        const names = await Product.distinct('category', { categoryId: null });
+        let linked = 0;
+        for (const name of names) {
+            const category = await findOrCreateCategory(String(name || '').trim() || 'Uncategorised');
+            const result = await Product.updateMany(
+                { category: name, categoryId: null },
+                { $set: { categoryId: category._id, category: category.name } }
+            );
+            linked += result.modifiedCount;
+        }
+        if (linked > 0) {
+            invalidateSearchVocabulary();
+            console.log(`✅ [Categories] Linked ${linked} products to ${names.length} categories`);
+        }
+    } catch (error) {
+        console.error('❌ [Categories] Failed to migrate product categories:', error.message);
+    }
+};
+
+module.exports = {
+    slugify,
+    listCategoryTree,
+    listCategoriesFlat,
+    resolveCategoryFilter,
+    getCategoryPage,
+    createCategory,
+    updateCategory,
+    moveCategories,
+    deleteCategory,
+    resolveProductCategory,
+    migrateProductCategories,
+};
@@ -0,0 +1,42 @@
+// server/services/codService.js
+
+// Read lazily: routes are required before dotenv.config() runs in server.js
+const codSettings = () => ({
+    enabled: process.env.COD_ENABLED !== 'false',
+    maxOrderValue: Number(process.env.COD_MAX_ORDER_VALUE) || 10000, // ₹
+    fee: Number(process.env.COD_FEE) || 0, // ₹, added to the order total
+    // Empty means every pincode a COD-capable courier serves
+    pincodes: (process.env.COD_PINCODES || '').split(',').map((pin) => pin.trim()).filter(Boolean),
+});
+
+/**
+ * Returns why an order cannot be paid on delivery, or null when it can.
+ * @param {object} params - { total, pincode, shippingOptions } where shippingOptions are the
+ *   delivery options quoted for the pincode (each flagged `cod` when the courier collects cash).
+ */
+const getCodBlocker = ({ total, pincode, shippingOptions = [] }) => {
+    const settings = codSettings();
+    if (!settings.enabled) {
+        return 'Cash on delivery is not available right now.';
+    }
+    if (total > settings.maxOrderValue) {
+        return `Cash on delivery is only available on orders up to ₹${settings.maxOrderValue}.`;
+    }
+    if (settings.pincodes.length > 0 && !settings.pincodes.includes(String(pincode || '').trim())) {
+        return `Cash on delivery is not available for ${pincode}.`;
+    }
+    if (!shippingOptions.some((option) => option.cod)) {
+        return `No courier collects cash on delivery at ${pincode}.`;
+    }
+    return null;
+};
+
+/**
+ * The fee charged for paying on delivery.
+ */
+const getCodFee = () => codSettings().fee;
+
+module.exports = {
+    getCodBlocker,
+    getCodFee,
+};
@@ -0,0 +1,172 @@
+// server/services/collectionService.js
+//
+// Collections (models/Collection.js): hand-picked or rule-based sets of products, each with its
+// own page. A collection is live while it is active and inside its start/end dates; outside
+// them its page is not found.
+
+const mongoose = require('mongoose');
+const Collection = require('../models/Collection');
+const Category = require('../models/Category');
+const Product = require('../models/Product');
+const { listProducts } = require('./catalogService');
+const { resolveCategoryFilter } = require('./categoryService');
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+const PREVIEW_LIMIT = 12;
+
+/**
+ * Product tags as stored: lower-case, trimmed, without blanks or repeats. Accepts a list or a
+ * comma-separated string.
+ */
+const normalizeTags = (tags) => [
+    ...new Set(
+        (Array.isArray(tags) ? tags : String(tags || '').split(','))
+            .map((tag) => String(tag).trim().toLowerCase())
+            .filter(Boolean)
+    ),
+];
+
+// What the storefront needs to show a collection's page
+const PUBLIC_FIELDS = 'name slug description bannerImage mode sort startsAt endsAt';
+
+const liveFilter = (now = new Date()) => ({
+    isActive: true,
+    $and: [
+        { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+        { $or: [{ endsAt: null }, { endsAt: { $gt: now } }] },
+    ],
+});
+
+const isLive = (collection, now = new Date()) =>
+    collection.isActive &&
+    (!collection.startsAt || collection.startsAt <= now) &&
+    (!collection.endsAt || collection.endsAt > now);
+
+/**
+ * The product filter for a collection's members.
+ */
+const membershipFilter = async (collection) => {
+    if (collection.mode === 'manual') return { _id: { $in: collection.products || [] } };
+
+    const rules = collection.rules || {};
+    const clauses = [];
+    if (rules.categories?.length > 0) {
+        clauses.push({ categoryId: { $in: await resolveCategoryFilter(rules.categories.map(String)) } });
+    }
+    if (rules.tags?.length > 0) clauses.push({ tags: { $in: rules.tags } });
+    if (typeof rules.minPrice === 'number') clauses.push({ price: { $gte: rules.minPrice } });
+    if (typeof rules.maxPrice === 'number') clauses.push({ price: { $lte: rules.maxPrice } });
+    if (rules.createdWithinDays) {
+        const since = Date.now() - rules.createdWithinDays * 24 * 60 * 60 * 1000;
+        clauses.push({ _id: { $gte: mongoose.Types.ObjectId.createFromTime(Math.floor(since / 1000)) } });
+    }
+    if (rules.inStockOnly) clauses.push({ stock: { $gt: 0 } });
+    if (rules.featuredOnly) clauses.push({ featured: true });
+    return clauses.length > 0 ? { $and: clauses } : {};
+};
+
+// A page of a hand-picked collection in its own order; the cursor is the position to resume at
+const listInManualOrder = async (collection, query) => {
+    const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const start = query.cursor ? Number(query.cursor) : 0;
+    if (!Number.isInteger(start) || start < 0) return { error: 'Invalid cursor' };
+
+    const ids = (collection.products || []).map(String);
+    const pageIds = ids.slice(start, start + limit);
+    const { products } = await listProducts({ limit: pageIds.length || 1 }, { _id: { $in: pageIds } });
+    const byId = new Map(products.map((product) => [product._id.toString(), product]));
+    return {
+        // Products deleted since they were picked are skipped
+        products: pageIds.map((id) => byId.get(id)).filter(Boolean),
+        nextCursor: start + limit < ids.length ? String(start + limit) : null,
+    };
+};
+
+/**
+ * One page of a collection's products.
+ * @param {object} collection - The Collection (document or lean).
+ * @param {object} query - sort (defaults to the collection's own), limit and cursor.
+ * @returns {Promise<object>} `{ products, nextCursor }` or `{ error }`
+ */
+const listCollectionProducts = async (collection, query = {}) => {
+    const sort = query.sort || collection.sort;
+    if (sort === 'manual' && collection.mode === 'manual') return listInManualOrder(collection, query);
+    return listProducts({ sort, limit: query.limit, cursor: query.cursor }, await membershipFilter(collection));
+};
+
+/**
+ * The live collections, for menus.
+ */
+const listLiveCollections = () => Collection.find(liveFilter()).select(PUBLIC_FIELDS).sort({ name: 1 }).lean();
+
+/**
+ * A live collection by slug, or null. Includes `products` for manual collections so a page of
+ * products can be listed from it; callers strip it before sending.
+ */
+const getLiveCollection = (slug) =>
+    Collection.findOne({ slug: String(slug).toLowerCase(), ...liveFilter() })
+        .select(`${PUBLIC_FIELDS} products rules`)
+        .lean();
+
+/**
+ * How many products a (possibly unsaved) collection holds, and the first few, for the admin
+ * editor. Ignores the schedule.
+ * @returns {Promise<object>} { count, products }
+ */
+const previewCollection = async (collection) => {
+    const [count, page] = await Promise.all([
+        membershipFilter(collection).then((filter) => Product.countDocuments(filter)),
+        listCollectionProducts(collection, { limit: PREVIEW_LIMIT }),
+    ]);
+    return { count, products: page.products || [] };
+};
+
+/**
+ * Creates the store's standard collections on first start, replacing the pages that used to
+ * pick their own products. Never runs again once any collection exists. Never throws.
+ */
+const seedDefaultCollections = async () => {
+    try {
+        if (await Collection.exists({})) return;
+
+        // Products used to be put in the CEO collection by giving them a "ceo-collections" category
+        const ceoCategory = await Category.findOne({ $or: [{ slug: 'ceo-collections' }, { oldSlugs: 'ceo-collections' }] });
+        await Collection.create([
+            {
+                name: 'Featured Products',
+                slug: 'featured',
+                mode: 'rules',
+                rules: { featuredOnly: true },
+            },
+            {
+                name: 'New Arrivals',
+                slug: 'new-arrivals',
+                description: 'Explore our latest collection just added to the store.',
+                mode: 'rules',
+                rules: { createdWithinDays: 30 },
+            },
+            {
+                name: 'CEO Collections',
+                slug: 'ceo-collections',
+                description: 'Premium picks and exclusive styles from our CEO.',
+                ...(ceoCategory
+                    ? { mode: 'rules', rules: { categories: [ceoCategory._id] } }
+                    : { mode: 'manual', sort: 'manual' }),
+            },
+        ]);
+        console.log('✅ [Collections] Created the featured, new arrivals and CEO collections');
+    } catch (error) {
+        console.error('❌ [Collections] Failed to create the default collections:', error.message);
+    }
+};
+
+module.exports = {
+    normalizeTags,
+    isLive,
+    listCollectionProducts,
+    listLiveCollections,
+    getLiveCollection,
+    previewCollection,
+    seedDefaultCollections,
+};
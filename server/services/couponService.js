@@ -0,0 +1,92 @@
+// server/services/couponService.js
+
+const mongoose = require('mongoose');
+const Coupon = require('../models/Coupon');
+const Order = require('../models/Order');
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Orders that have used their coupon: paid ones, and COD orders (pending until delivery) unless
+// they were cancelled. Unpaid online orders from abandoned checkouts do not count.
+const USED_COUPON_FILTER = {
+    $or: [{ paymentStatus: 'paid' }, { paymentMethod: 'cod', paymentStatus: 'pending' }],
+    status: { $ne: 'Cancelled' },
+};
+
+/**
+ * Checks a coupon code against a priced cart and works out the discount.
+ * Returns `{ coupon, discount }` or `{ error }` with a message the customer can act on.
+ * @param {string} code - Code as typed by the customer.
+ * @param {object} cart - { items: quote lines ({ id, category, lineTotal }), subtotal, userId? }
+ */
+const evaluateCoupon = async (code, { items, subtotal, userId }) => {
+    const coupon = await Coupon.findOne({ code: String(code).trim().toUpperCase() });
+    if (!coupon || !coupon.isActive) return { error: 'Invalid coupon code.' };
+
+    const now = new Date();
+    if (coupon.validFrom && coupon.validFrom > now) return { error: 'This coupon is not active yet.' };
+    if (coupon.validUntil && coupon.validUntil < now) return { error: 'This coupon has expired.' };
+    if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+        return { error: 'This coupon has reached its usage limit.' };
+    }
+
+    if (coupon.perUserLimit) {
+        if (!userId || !mongoose.isValidObjectId(userId)) return { error: 'Please log in to use this coupon.' };
+        const used = await Order.countDocuments({ user: userId, 'coupon.code': coupon.code, ...USED_COUPON_FILTER });
+        if (used >= coupon.perUserLimit) return { error: 'You have already used this coupon.' };
+    }
+
+    if (subtotal < coupon.minCartValue) {
+        return { error: `Add items worth ₹${roundMoney(coupon.minCartValue - subtotal)} more to use this coupon.` };
+    }
+
+    const scopedProducts = coupon.products.map((id) => id.toString());
+    const isScoped = coupon.categories.length > 0 || scopedProducts.length > 0;
+    const eligibleTotal = items
+        .filter((line) => !isScoped || coupon.categories.includes(line.category) || scopedProducts.includes(line.id))
+        .reduce((sum, line) => sum + line.lineTotal, 0);
+    if (eligibleTotal === 0) return { error: 'This coupon does not apply to the items in your cart.' };
+
+    let discount = coupon.type === 'percentage'
+        ? eligibleTotal * (coupon.value / 100)
+        : Math.min(coupon.value, eligibleTotal);
+    if (coupon.type === 'percentage' && coupon.maxDiscount) discount = Math.min(discount, coupon.maxDiscount);
+
+    return { coupon, discount: roundMoney(discount) };
+};
+
+/**
+ * Counts a redemption: when a COD order is placed, or once an online order has been paid for.
+ * The count only goes up while the coupon is under its usageLimit, so two orders racing for its
+ * last use cannot both get it.
+ * @returns {Promise<boolean>} false when the usage limit had already been reached.
+ */
+const redeemCoupon = async (order) => {
+    if (!order.coupon?.code) return true;
+    const { modifiedCount } = await Coupon.updateOne(
+        { code: order.coupon.code, $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }] },
+        { $inc: { usedCount: 1 } }
+    );
+    if (modifiedCount === 0) {
+        console.warn(`[Coupon] ${order.coupon.code} is at its usage limit; not counted for order ${order._id}.`);
+        return false;
+    }
+    console.log(`[Coupon] Redeemed ${order.coupon.code} for order ${order._id}.`);
+    return true;
+};
+
+/**
+ * Gives back the use a COD order took when it was placed, once that order is cancelled.
+ * Online orders are only counted once paid, and a paid cancellation is refunded instead.
+ */
+const releaseCoupon = async (order) => {
+    if (!order.coupon?.code || order.paymentMethod !== 'cod') return;
+    await Coupon.updateOne({ code: order.coupon.code, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+    console.log(`[Coupon] Released ${order.coupon.code} from cancelled order ${order._id}.`);
+};
+
+module.exports = {
+    evaluateCoupon,
+    redeemCoupon,
+    releaseCoupon,
+};
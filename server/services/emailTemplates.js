@@ -0,0 +1,155 @@
+// server/services/emailTemplates.js
+//
+// Order lifecycle emails. Each template takes the order (and any extra data the caller queued)
+// and returns { subject, html, text }.
+
+const { escapeHtml } = require('../utils/html');
+const { orderLookupUrl } = require('./guestOrderService');
+
+const LOGO_URL = 'https://res.cloudinary.com/djyredhur/image/upload/v1751127717/logo_ktewtc.png';
+
+const shortId = (order) => order._id.toString().slice(-8).toUpperCase();
+const money = (amount) => `₹${Number(amount || 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+// Guest orders link with their lookup token, since there is no account to log in to
+const trackingUrl = (order) => orderLookupUrl(order);
+const accountUrl = () => `${process.env.FRONTEND_URL || ''}/account`;
+
+// Same frame as the OTP email in routes/otpRoutes.js
+const layout = (heading, body) => `
+    <div style="font-family: Arial, sans-serif; background-color: #ffffff; padding: 40px 0;">
+      <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; padding: 30px; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.05);">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <img src="${LOGO_URL}" alt="Hansitha Creations Logo" style="max-width: 200px;">
+        </div>
+        <h2 style="color: #333333;">${heading}</h2>
+        ${body}
+        <hr style="border: none; border-top: 1px solid #eeeeee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #999999; text-align: center;">
+          You are receiving this because you placed an order with us. You can turn these emails off in
+          <a href="${accountUrl()}" style="color: #999999;">your account</a>.<br>
+          &copy; ${new Date().getFullYear()} Hansitha Creations. All rights reserved.
+        </p>
+      </div>
+    </div>`;
+
+const paragraph = (text) => `<p style="font-size: 16px; color: #555555;">${text}</p>`;
+
+const button = (order) => `
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${trackingUrl(order)}" style="display: inline-block; background-color: #007BFF; color: #ffffff; padding: 12px 24px; font-size: 16px; font-weight: bold; border-radius: 6px; text-decoration: none;">
+            View your order
+          </a>
+        </div>`;
+
+const itemsTable = (order) => {
+    const rows = (order.cartItems || []).map((item) => `
+          <tr>
+            <td style="padding: 6px 0; color: #333333;">${escapeHtml(item.name)}${item.variantLabel ? ` (${escapeHtml(item.variantLabel)})` : ''} × ${item.quantity}</td>
+            <td style="padding: 6px 0; color: #333333; text-align: right;">${money(item.lineTotal ?? item.price * item.quantity)}</td>
+          </tr>`).join('');
+    const pricing = order.pricing || {};
+    const extra = [
+        pricing.discount ? ['Discount', `−${money(pricing.discount)}`] : null,
+        pricing.shipping !== undefined ? ['Shipping', pricing.shipping ? money(pricing.shipping) : 'Free'] : null,
+        pricing.codFee ? ['Cash on delivery fee', money(pricing.codFee)] : null,
+    ].filter(Boolean).map(([label, value]) => `
+          <tr>
+            <td style="padding: 4px 0; color: #777777;">${label}</td>
+            <td style="padding: 4px 0; color: #777777; text-align: right;">${value}</td>
+          </tr>`).join('');
+    return `
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin: 20px 0;">${rows}${extra}
+          <tr>
+            <td style="padding: 8px 0; border-top: 1px solid #eeeeee; font-weight: bold;">Total</td>
+            <td style="padding: 8px 0; border-top: 1px solid #eeeeee; font-weight: bold; text-align: right;">${money(order.totalAmount)}</td>
+          </tr>
+        </table>`;
+};
+
+const itemsText = (order) => (order.cartItems || [])
+    .map((item) => `- ${item.name}${item.variantLabel ? ` (${item.variantLabel})` : ''} x ${item.quantity}`)
+    .join('\n');
+
+const greeting = (order) => `Hello ${escapeHtml(order.address?.name || 'there')},`;
+
+const templates = {
+    // Cash-on-delivery orders are confirmed at checkout
+    order_placed: (order) => ({
+        subject: `Order #${shortId(order)} confirmed`,
+        html: layout('Thank you for your order!', `
+        ${paragraph(`${greeting(order)}<br><br>We have received your order #${shortId(order)}. Please keep ${money(order.totalAmount)} ready to pay the courier on delivery.`)}
+        ${itemsTable(order)}
+        ${button(order)}`),
+        text: `We have received your order #${shortId(order)}.\n\n${itemsText(order)}\n\nTotal: ${money(order.totalAmount)}, to be paid on delivery.\n\nTrack it at ${trackingUrl(order)}`,
+    }),
+
+    // Online payments: the receipt doubles as the order confirmation
+    payment_received: (order) => ({
+        subject: `Payment received for order #${shortId(order)}`,
+        html: layout('Payment received', `
+        ${paragraph(`${greeting(order)}<br><br>We have received your payment of ${money(order.totalAmount)} for order #${shortId(order)}${order.razorpayPaymentId ? ` (payment ID ${escapeHtml(order.razorpayPaymentId)})` : ''}. Your tax invoice is attached. We will let you know as soon as it ships.`)}
+        ${itemsTable(order)}
+        ${button(order)}`),
+        text: `We have received your payment of ${money(order.totalAmount)} for order #${shortId(order)}.\n\n${itemsText(order)}\n\nTrack it at ${trackingUrl(order)}`,
+    }),
+
+    order_shipped: (order) => {
+        const { courierName, awbCode } = order.shipmentDetails || {};
+        const courier = courierName ? ` with ${escapeHtml(courierName)}` : '';
+        return {
+            subject: `Order #${shortId(order)} has shipped`,
+            html: layout('Your order is on its way', `
+        ${paragraph(`${greeting(order)}<br><br>Your order #${shortId(order)} has shipped${courier}.${awbCode ? ` The tracking number (AWB) is <strong>${escapeHtml(awbCode)}</strong>.` : ''}`)}
+        ${button(order)}`),
+            text: `Your order #${shortId(order)} has shipped${courierName ? ` with ${courierName}` : ''}.${awbCode ? ` AWB: ${awbCode}.` : ''}\n\nTrack it at ${trackingUrl(order)}`,
+        };
+    },
+
+    order_delivered: (order) => ({
+        subject: `Order #${shortId(order)} delivered`,
+        html: layout('Your order has been delivered', `
+        ${paragraph(`${greeting(order)}<br><br>Your order #${shortId(order)} has been delivered. We hope you love it! If something is not right, you can request a return from your orders page.`)}
+        ${button(order)}`),
+        text: `Your order #${shortId(order)} has been delivered.\n\nView it at ${trackingUrl(order)}`,
+    }),
+
+    order_cancelled: (order) => {
+        const { reason, refundId, refundError } = order.cancellation || {};
+        let refund = '';
+        if (refundId) refund = ` A refund of ${money(order.refundedAmount)} has been issued to your original payment method and should reach you in 5–7 working days.`;
+        else if (refundError) refund = ' We will refund your payment shortly.';
+        return {
+            subject: `Order #${shortId(order)} cancelled`,
+            html: layout('Your order has been cancelled', `
+        ${paragraph(`${greeting(order)}<br><br>Your order #${shortId(order)} has been cancelled${reason ? ` (${escapeHtml(reason)})` : ''}.${refund}`)}
+        ${button(order)}`),
+            text: `Your order #${shortId(order)} has been cancelled${reason ? ` (${reason})` : ''}.${refund}`,
+        };
+    },
+
+    order_refunded: (order, { amount } = {}) => ({
+        subject: `Refund issued for order #${shortId(order)}`,
+        html: layout('Your refund is on its way', `
+        ${paragraph(`${greeting(order)}<br><br>We have refunded ${money(amount ?? order.refundedAmount)} for order #${shortId(order)} to your original payment method. It should reach you in 5–7 working days.`)}
+        ${button(order)}`),
+        text: `We have refunded ${money(amount ?? order.refundedAmount)} for order #${shortId(order)}. It should reach you in 5-7 working days.`,
+    }),
+};
+
+/**
+ * Renders an order email.
+ * @param {string} name - One of the keys of `templates`.
+ * @param {object} order - The order document.
+ * @param {object} [data] - Extra values for the template (e.g. { amount } for refunds).
+ * @returns {object} { subject, html, text }
+ */
+const renderOrderEmail = (name, order, data) => {
+    const template = templates[name];
+    if (!template) throw new Error(`Unknown email template "${name}".`);
+    return template(order, data);
+};
+
+module.exports = {
+    ORDER_EMAIL_TEMPLATES: Object.keys(templates),
+    renderOrderEmail,
+};
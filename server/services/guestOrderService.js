@@ -0,0 +1,85 @@
+// server/services/guestOrderService.js
+//
+// Guest checkout: orders placed without an account have no Order.user. The customer gets back
+// to them through a signed lookup link (an HMAC of the order ID, keyed with ORDER_LINK_SECRET or
+// JWT_SECRET), and they move into an account with the same email once its owner has proven the
+// address is theirs (Google sign-in, the OTP emailed for a password reset, or the code the
+// orders page emails when it finds guest orders under the account's address).
+
+const crypto = require('crypto');
+const Order = require('../models/Order');
+const { escapeRegExp } = require('../utils/query');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[6-9]\d{9}$/;
+
+const linkSecret = () => process.env.ORDER_LINK_SECRET || process.env.JWT_SECRET || '';
+
+/**
+ * Checks the contact details a guest gives at checkout. Returns `{ email, phone }` (normalised)
+ * or `{ error }`.
+ */
+const validateGuestContact = (guest) => {
+    const email = String(guest?.email || '').trim().toLowerCase();
+    const phone = String(guest?.phone || '').replace(/\D/g, '').slice(-10);
+    if (!EMAIL_PATTERN.test(email)) return { error: 'Please enter a valid email address.' };
+    if (!PHONE_PATTERN.test(phone)) return { error: 'Please enter a valid 10-digit mobile number.' };
+    return { email, phone };
+};
+
+/**
+ * The token that lets whoever holds it view, track and cancel one order without logging in.
+ */
+const signOrderAccess = (orderId) =>
+    crypto.createHmac('sha256', linkSecret()).update(`order:${orderId}`).digest('base64url');
+
+const isValidOrderAccessToken = (orderId, token) => {
+    if (typeof token !== 'string' || !linkSecret()) return false;
+    const a = Buffer.from(token);
+    const b = Buffer.from(signOrderAccess(orderId));
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Tracking page URL for an order. Guest orders carry their access token; account orders need
+ * the customer to be logged in.
+ */
+const orderLookupUrl = (order) => {
+    const base = `${process.env.FRONTEND_URL || ''}/tracking-orders?order_id=${order._id}`;
+    return order.user ? base : `${base}&token=${signOrderAccess(order._id.toString())}`;
+};
+
+const guestOrdersFilter = (user) => ({ user: null, email: new RegExp(`^${escapeRegExp(user.email.trim())}$`, 'i') });
+
+/**
+ * How many guest orders were placed with the user's email and are waiting to be claimed.
+ */
+const countGuestOrders = (user) => (user?.email ? Order.countDocuments(guestOrdersFilter(user)) : 0);
+
+/**
+ * Moves guest orders placed with the user's email into their account. Only call once the user
+ * has proven they own the address: registering with an email proves nothing, and these orders
+ * hold someone's address, phone number and invoices. Safe to call again.
+ * @returns {Promise<number>} How many orders were attached.
+ */
+const claimGuestOrders = async (user) => {
+    if (!user?.email) return 0;
+    try {
+        const { modifiedCount } = await Order.updateMany(guestOrdersFilter(user), { $set: { user: user._id } });
+        if (modifiedCount) console.log(`[Guest] Attached ${modifiedCount} guest order(s) to user ${user._id}.`);
+        return modifiedCount;
+    } catch (error) {
+        // Signing in must not fail over this; the orders stay reachable through their links
+        console.error(`❌ [Guest] Failed to attach guest orders for user ${user._id}:`, error.message);
+        return 0;
+    }
+};
+
+module.exports = {
+    validateGuestContact,
+    signOrderAccess,
+    isValidOrderAccessToken,
+    orderLookupUrl,
+    countGuestOrders,
+    claimGuestOrders,
+};
@@ -0,0 +1,207 @@
+// server/services/inventoryService.js
+
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const StockReservation = require('../models/StockReservation');
+const { notifyCartProductsChanged } = require('./cartService');
+
+// Read lazily: route modules (and so this service) load before dotenv runs in server.js
+const reservationMinutes = () => Number(process.env.STOCK_RESERVATION_MINUTES) || 30;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Atomically takes `quantity` units of a product (or one of its variants) if enough stock is left.
+ * Returns true when the decrement happened.
+ */
+const decrementStock = async ({ productId, variantId, quantity }) => {
+    const result = variantId
+        ? await Product.updateOne(
+            { _id: productId, variants: { $elemMatch: { _id: variantId, stock: { $gte: quantity } } } },
+            { $inc: { 'variants.$.stock': -quantity, stock: -quantity } }
+        )
+        : await Product.updateOne(
+            { _id: productId, stock: { $gte: quantity } },
+            { $inc: { stock: -quantity } }
+        );
+    return result.modifiedCount === 1;
+};
+
+/**
+ * Puts stock back for a list of order/cart items ({ id | product, variantId, quantity }).
+ */
+const restockItems = async (items) => {
+    for (const item of items) {
+        const productId = item.product || item.id;
+        if (item.variantId) {
+            await Product.updateOne(
+                { _id: productId, 'variants._id': item.variantId },
+                { $inc: { 'variants.$.stock': item.quantity, stock: item.quantity } }
+            );
+        } else {
+            await Product.findByIdAndUpdate(productId, { $inc: { stock: item.quantity } });
+        }
+    }
+    notifyCartProductsChanged(items.map((item) => item.product || item.id));
+};
+
+/**
+ * Reserves stock for every item or none of them. Decrements are conditional per line, and if
+ * any line falls short the lines already taken are put back.
+ * @param {Array} items - Cart items ({ id, variantId, name, quantity }).
+ * @returns {{ success: boolean, failedItem?: object }}
+ */
+const reserveItems = async (items) => {
+    const taken = [];
+    for (const item of items) {
+        const ok = await decrementStock({ productId: item.id, variantId: item.variantId, quantity: item.quantity });
+        if (!ok) {
+            await restockItems(taken);
+            return { success: false, failedItem: item };
+        }
+        taken.push(item);
+    }
+    notifyCartProductsChanged(items.map((item) => item.id));
+    return { success: true };
+};
+
+/**
+ * Reserves the cart's stock and records the hold against a pending order.
+ * @param {object} order - The pending order document.
+ * @param {Array} items - Cart items ({ id, variantId, name, quantity }).
+ */
+const createReservation = async (order, items) => {
+    const result = await reserveItems(items);
+    if (!result.success) return result;
+
+    const reservation = await StockReservation.create({
+        order: order._id,
+        items: items.map((item) => ({
+            product: item.id,
+            variantId: item.variantId || undefined,
+            name: item.name,
+            quantity: item.quantity,
+        })),
+        expiresAt: new Date(Date.now() + reservationMinutes() * 60 * 1000),
+    });
+    return { success: true, reservation };
+};
+
+/**
+ * Returns a reservation's stock to the shelf. Only the call that flips it from `active`
+ * restocks, so concurrent webhooks and the sweeper cannot release twice.
+ * @returns {boolean} true if this call released the stock.
+ */
+const releaseReservation = async (orderId, reason) => {
+    const reservation = await StockReservation.findOneAndUpdate(
+        { order: orderId, status: 'active' },
+        { $set: { status: 'released', releaseReason: reason } },
+        { new: true }
+    );
+    if (!reservation) return false;
+
+    await restockItems(reservation.items);
+    console.log(`[Inventory] Released reservation for order ${orderId} (${reason}).`);
+    return true;
+};
+
+/**
+ * Turns a reservation into a permanent deduction once payment is confirmed. If the hold had
+ * already lapsed, the stock is taken again; `success: false` means it is no longer available.
+ */
+const commitReservation = async (orderId) => {
+    const committed = await StockReservation.findOneAndUpdate(
+        { order: orderId, status: 'active' },
+        { $set: { status: 'committed' } },
+        { new: true }
+    );
+    if (committed) return { success: true };
+
+    const reservation = await StockReservation.findOne({ order: orderId });
+    if (!reservation) return { success: true }; // Orders placed before reservations existed
+    if (reservation.status === 'committed') return { success: true };
+
+    // Paid after the hold was released: try to take the stock again.
+    const result = await reserveItems(reservation.items.map((item) => ({
+        id: item.product,
+        variantId: item.variantId,
+        name: item.name,
+        quantity: item.quantity,
+    })));
+    if (result.success) {
+        reservation.status = 'committed';
+        await reservation.save();
+    }
+    return result;
+};
+
+/**
+ * Puts an order's stock back exactly once, whether it is still held (unpaid) or was committed
+ * (paid). Orders placed before reservations existed are restocked from their cart items.
+ */
+const returnOrderStock = async (order, reason) => {
+    if (await releaseReservation(order._id, reason)) return;
+
+    const committed = await StockReservation.findOneAndUpdate(
+        { order: order._id, status: 'committed' },
+        { $set: { status: 'released', releaseReason: reason } },
+        { new: true }
+    );
+    if (committed) {
+        await restockItems(committed.items);
+    } else if (!(await StockReservation.exists({ order: order._id }))) {
+        await restockItems(order.cartItems);
+    }
+};
+
+/**
+ * Releases every active reservation past its expiry and marks the unpaid orders as expired.
+ */
+const releaseExpiredReservations = async () => {
+    const expired = await StockReservation.find({ status: 'active', expiresAt: { $lte: new Date() } });
+    for (const reservation of expired) {
+        const released = await releaseReservation(reservation.order, 'expired');
+        if (released) {
+            const note = 'Payment window lapsed; reserved stock released';
+            // A failed attempt leaves the order open for a retry until the hold lapses
+            for (const from of ['pending', 'failed']) {
+                const result = await Order.updateOne(
+                    { _id: reservation.order, paymentStatus: from },
+                    {
+                        $set: { paymentStatus: 'expired', status: 'Cancelled' },
+                        $push: {
+                            history: {
+                                $each: [
+                                    { field: 'paymentStatus', from, to: 'expired', source: 'sweeper', note },
+                                    { field: 'status', from: 'Placed', to: 'Cancelled', source: 'sweeper', note },
+                                ],
+                            },
+                        },
+                    }
+                );
+                if (result.modifiedCount) break;
+            }
+        }
+    }
+    return expired.length;
+};
+
+/**
+ * Starts the periodic expiry sweep. Call once after the database connects.
+ */
+const startReservationSweeper = () => {
+    setInterval(() => {
+        releaseExpiredReservations().catch((error) => {
+            console.error('❌ [Inventory] Reservation sweep failed:', error.message);
+        });
+    }, SWEEP_INTERVAL_MS);
+};
+
+module.exports = {
+    createReservation,
+    releaseReservation,
+    commitReservation,
+    restockItems,
+    returnOrderStock,
+    releaseExpiredReservations,
+    startReservationSweeper,
+};
@@ -0,0 +1,319 @@
+// server/services/invoiceService.js
+//
+// GST tax invoices for paid orders. The seller is configured with SELLER_LEGAL_NAME,
+// SELLER_ADDRESS and SELLER_GSTIN (whose first two digits give the seller's state);
+// INVOICE_PREFIX (default HC) starts every number and INVOICE_DEFAULT_HSN covers products
+// without an HSN code of their own.
+
+const PDFDocument = require('pdfkit');
+const Order = require('../models/Order');
+const Counter = require('../models/Counter');
+const { GST_STATES, gstStateCode } = require('../utils/gstStates');
+const { roundMoney } = require('./pricingService');
+
+// Cash-on-delivery orders qualify once the courier has collected the money
+const INVOICEABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+// A claim this old without a number was left by a process that died mid-issue; it can be taken over
+const STALE_CLAIM_MS = 60 * 1000;
+
+const sellerDetails = () => {
+    const gstin = (process.env.SELLER_GSTIN || '').toUpperCase();
+    return {
+        name: process.env.SELLER_LEGAL_NAME || 'Hansitha Creations',
+        address: process.env.SELLER_ADDRESS || '',
+        gstin,
+        stateCode: GST_STATES[gstin.slice(0, 2)] ? gstin.slice(0, 2) : gstStateCode(process.env.SELLER_STATE),
+    };
+};
+
+// Indian financial year (April to March) as "2025-26"
+const financialYear = (date) => {
+    const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${start}-${String(start + 1).slice(-2)}`;
+};
+
+/**
+ * Gives a paid order its invoice number, once. Numbers run in order within each financial year:
+ * the order is claimed before the counter moves, so two concurrent requests cannot both take a
+ * number. A claim is released if numbering fails, and taken over once it goes stale. The counter
+ * and the order are not updated together, so a number taken by a request that then fails to
+ * save it (or that loses a stale claim) is never used and leaves a gap in the sequence.
+ * @returns {Promise<object|null>} order.invoice, or null when the order is not paid.
+ */
+const issueInvoice = async (order) => {
+    if (order.invoice?.number) return order.invoice;
+    if (!INVOICEABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) return null;
+
+    const issuedAt = new Date();
+    const claim = await Order.updateOne(
+        {
+            _id: order._id,
+            $or: [
+                { 'invoice.issuedAt': { $exists: false } },
+                { 'invoice.number': { $exists: false }, 'invoice.issuedAt': { $lt: new Date(issuedAt.getTime() - STALE_CLAIM_MS) } },
+            ],
+        },
+        { $set: { 'invoice.issuedAt': issuedAt } }
+    );
+    if (claim.modifiedCount === 0) {
+        const current = await Order.findById(order._id).select('invoice');
+        if (!current?.invoice?.number) throw new Error(`Invoice for order ${order._id} is still being issued.`);
+        order.invoice = current.invoice;
+        return order.invoice;
+    }
+
+    const year = financialYear(issuedAt);
+    let number;
+    try {
+        const seq = await Counter.next(`invoice-${year}`);
+        number = `${process.env.INVOICE_PREFIX || 'HC'}/${year}/${String(seq).padStart(5, '0')}`;
+        const saved = await Order.updateOne(
+            { _id: order._id, 'invoice.issuedAt': issuedAt },
+            { $set: { 'invoice.number': number } }
+        );
+        // Only if this took longer than STALE_CLAIM_MS and another request took the claim over
+        if (saved.modifiedCount === 0) throw new Error(`Invoice for order ${order._id} was issued by another request.`);
+    } catch (error) {
+        // Let the next request try again (with a new number) instead of waiting on a claim that will never finish
+        await Order.updateOne(
+            { _id: order._id, 'invoice.issuedAt': issuedAt, 'invoice.number': { $exists: false } },
+            { $unset: { 'invoice.issuedAt': '' } }
+        ).catch(() => {});
+        throw error;
+    }
+    order.invoice = { number, issuedAt };
+    console.log(`[Invoice] Issued ${number} for order ${order._id}.`);
+    return order.invoice;
+};
+
+/**
+ * Works out the invoice lines and GST split for an order. The coupon discount is spread over
+ * the lines by value and GST is charged on what is left, matching services/pricingService.js;
+ * shipping and the COD fee are listed as charges without GST, as they are priced.
+ * Within the seller's state GST splits evenly into CGST and SGST, otherwise it is IGST. With no
+ * state on the address the place of supply is the seller's own state.
+ */
+const buildInvoice = (order) => {
+    const seller = sellerDetails();
+    const pricing = order.pricing || {};
+    const rate = pricing.taxRate ?? 0.05;
+    const items = order.cartItems || [];
+
+    const gross = items.map((item) => item.lineTotal ?? roundMoney(item.price * item.quantity));
+    const subtotal = gross.reduce((sum, value) => sum + value, 0);
+    const discount = pricing.discount || 0;
+
+    let discountLeft = discount;
+    const lines = items.map((item, index) => {
+        const last = index === items.length - 1;
+        const lineDiscount = last ? roundMoney(discountLeft) : roundMoney(subtotal ? (discount * gross[index]) / subtotal : 0);
+        discountLeft -= lineDiscount;
+        const taxable = roundMoney(gross[index] - lineDiscount);
+        return {
+            description: item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name,
+            sku: item.sku,
+            hsnCode: item.hsnCode || process.env.INVOICE_DEFAULT_HSN || '',
+            quantity: item.quantity,
+            unitPrice: item.price,
+            discount: lineDiscount,
+            taxable,
+            tax: roundMoney(taxable * rate),
+        };
+    });
+
+    // The order was charged the rounded GST from the quote; absorb the difference in the last line
+    const charged = pricing.tax ?? lines.reduce((sum, line) => sum + line.tax, 0);
+    if (lines.length > 0) {
+        const drift = roundMoney(charged - lines.reduce((sum, line) => sum + line.tax, 0));
+        lines[lines.length - 1].tax = roundMoney(lines[lines.length - 1].tax + drift);
+    }
+
+    const buyerStateCode = gstStateCode(order.address?.state);
+    const placeOfSupply = buyerStateCode || seller.stateCode;
+    const interState = Boolean(seller.stateCode && placeOfSupply && placeOfSupply !== seller.stateCode);
+    for (const line of lines) {
+        if (interState) {
+            line.igst = line.tax;
+        } else {
+            line.cgst = roundMoney(line.tax / 2);
+            line.sgst = roundMoney(line.tax - line.cgst);
+        }
+        line.total = roundMoney(line.taxable + line.tax);
+    }
+
+    const charges = [
+        pricing.shipping ? { label: 'Shipping charges', amount: pricing.shipping } : null,
+        pricing.codFee ? { label: 'Cash on delivery charges', amount: pricing.codFee } : null,
+    ].filter(Boolean);
+
+    const sum = (field) => roundMoney(lines.reduce((total, line) => total + (line[field] || 0), 0));
+    return {
+        number: order.invoice?.number,
+        issuedAt: order.invoice?.issuedAt,
+        orderId: order._id.toString(),
+        orderDate: order.createdAt,
+        seller,
+        buyer: { email: order.email, address: order.address || {} },
+        placeOfSupply: placeOfSupply ? { code: placeOfSupply, name: GST_STATES[placeOfSupply] } : null,
+        interState,
+        rate,
+        lines,
+        charges,
+        totals: {
+            taxable: sum('taxable'),
+            cgst: sum('cgst'),
+            sgst: sum('sgst'),
+            igst: sum('igst'),
+            tax: sum('tax'),
+            total: order.totalAmount,
+        },
+        paymentMethod: order.paymentMethod,
+        paymentId: order.razorpayPaymentId,
+    };
+};
+
+// The standard PDF fonts have no rupee sign
+const rs = (amount) => `Rs. ${Number(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const num = (amount) => Number(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const dateText = (date) => new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const addressLines = (address) => [
+    address.name,
+    [address.houseNumber, address.street].filter(Boolean).join(', '),
+    [address.landmark, address.area].filter(Boolean).join(', '),
+    [address.city, address.state].filter(Boolean).join(', ') + (address.pincode ? ` - ${address.pincode}` : ''),
+    address.phone,
+].filter(Boolean);
+
+/**
+ * Draws the invoice as an A4 PDF.
+ * @returns {Promise<Buffer>}
+ */
+const renderInvoicePdf = (invoice) => new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    // Seller and invoice details
+    doc.font('Helvetica-Bold').fontSize(16).text(invoice.seller.name, left, 40);
+    doc.font('Helvetica').fontSize(9);
+    if (invoice.seller.address) doc.text(invoice.seller.address, { width: width / 2 });
+    if (invoice.seller.gstin) doc.text(`GSTIN: ${invoice.seller.gstin}`);
+    doc.font('Helvetica-Bold').fontSize(14).text('TAX INVOICE', left, 40, { width, align: 'right' });
+    doc.font('Helvetica').fontSize(9)
+        .text(`Invoice No: ${invoice.number}`, { width, align: 'right' })
+        .text(`Invoice Date: ${dateText(invoice.issuedAt)}`, { width, align: 'right' })
+        .text(`Order ID: ${invoice.orderId}`, { width, align: 'right' })
+        .text(`Order Date: ${dateText(invoice.orderDate)}`, { width, align: 'right' });
+
+    // Buyer
+    let y = Math.max(doc.y, 120) + 15;
+    doc.font('Helvetica-Bold').fontSize(10).text('Bill to / Ship to', left, y);
+    doc.font('Helvetica').fontSize(9);
+    for (const line of addressLines(invoice.buyer.address)) doc.text(line);
+    if (invoice.buyer.email) doc.text(invoice.buyer.email);
+    if (invoice.placeOfSupply) {
+        doc.text(`Place of supply: ${invoice.placeOfSupply.code}-${invoice.placeOfSupply.name}`, left, y + 12, { width, align: 'right' });
+    }
+
+    // Line items
+    const taxColumns = invoice.interState
+        ? [{ key: 'igst', label: `IGST ${roundMoney(invoice.rate * 100)}%` }]
+        : [
+            { key: 'cgst', label: `CGST ${roundMoney(invoice.rate * 50)}%` },
+            { key: 'sgst', label: `SGST ${roundMoney(invoice.rate * 50)}%` },
+        ];
+    const columns = [
+        { key: 'index', label: '#', width: 18 },
+        { key: 'description', label: 'Description', width: 0 }, // takes what is left
+        { key: 'hsnCode', label: 'HSN', width: 42 },
+        { key: 'quantity', label: 'Qty', width: 26, align: 'right' },
+        { key: 'unitPrice', label: 'Rate', width: 52, align: 'right', money: true },
+        { key: 'discount', label: 'Discount', width: 48, align: 'right', money: true },
+        { key: 'taxable', label: 'Taxable', width: 56, align: 'right', money: true },
+        ...taxColumns.map((column) => ({ ...column, width: 50, align: 'right', money: true })),
+        { key: 'total', label: 'Total', width: 58, align: 'right', money: true },
+    ];
+    columns[1].width = width - columns.reduce((sum, column) => sum + column.width, 0);
+
+    const drawRow = (cells, rowY, bold) => {
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+        let x = left;
+        let height = 0;
+        columns.forEach((column, index) => {
+            const text = String(cells[index] ?? '');
+            doc.text(text, x + 2, rowY, { width: column.width - 4, align: column.align || 'left' });
+            height = Math.max(height, doc.heightOfString(text, { width: column.width - 4 }));
+            x += column.width;
+        });
+        return rowY + height + 6;
+    };
+
+    y = Math.max(doc.y, y + 60) + 20;
+    doc.moveTo(left, y - 4).lineTo(left + width, y - 4).stroke();
+    y = drawRow(columns.map((column) => column.label), y, true);
+    doc.moveTo(left, y - 3).lineTo(left + width, y - 3).stroke();
+    invoice.lines.forEach((line, index) => {
+        if (y > doc.page.height - 160) {
+            doc.addPage();
+            y = doc.page.margins.top;
+        }
+        const row = { ...line, index: index + 1, description: line.sku ? `${line.description}\nSKU: ${line.sku}` : line.description };
+        y = drawRow(columns.map((column) => (column.money ? num(row[column.key]) : row[column.key])), y, false);
+    });
+    doc.moveTo(left, y - 3).lineTo(left + width, y - 3).stroke();
+
+    // Totals
+    const summary = [
+        ['Taxable value', invoice.totals.taxable],
+        ...(invoice.interState
+            ? [['IGST', invoice.totals.igst]]
+            : [['CGST', invoice.totals.cgst], ['SGST', invoice.totals.sgst]]),
+        ...invoice.charges.map((charge) => [charge.label, charge.amount]),
+    ];
+    y += 6;
+    doc.font('Helvetica').fontSize(9);
+    for (const [label, amount] of summary) {
+        doc.text(label, left + width - 240, y, { width: 140 });
+        doc.text(rs(amount), left + width - 100, y, { width: 100, align: 'right' });
+        y += 14;
+    }
+    doc.font('Helvetica-Bold').fontSize(10);
+    doc.text('Invoice total', left + width - 240, y + 2, { width: 140 });
+    doc.text(rs(invoice.totals.total), left + width - 100, y + 2, { width: 100, align: 'right' });
+
+    // Payment and footer
+    y += 30;
+    doc.font('Helvetica').fontSize(8).fillColor('#555555');
+    const paidBy = invoice.paymentMethod === 'cod'
+        ? 'Paid: cash on delivery'
+        : `Paid online${invoice.paymentId ? ` (Razorpay payment ${invoice.paymentId})` : ''}`;
+    doc.text(paidBy, left, y, { width });
+    doc.text('Whether tax is payable under reverse charge: No', { width });
+    doc.text('This is a computer-generated invoice and does not need a signature.', { width });
+    doc.end();
+});
+
+/**
+ * Issues the order's invoice if needed and renders it.
+ * @returns {Promise<object>} { filename, content } or { error } when the order is not paid yet.
+ */
+const getInvoicePdf = async (order) => {
+    const issued = await issueInvoice(order);
+    if (!issued) return { error: 'An invoice is available once the order is paid.' };
+    const content = await renderInvoicePdf(buildInvoice(order));
+    return { filename: `Invoice-${issued.number.replace(/\//g, '-')}.pdf`, content };
+};
+
+module.exports = {
+    issueInvoice,
+    buildInvoice,
+    renderInvoicePdf,
+    getInvoicePdf,
+};
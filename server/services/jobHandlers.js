@@ -0,0 +1,114 @@
+// server/services/jobHandlers.js
+
+const Order = require('../models/Order');
+const ReturnRequest = require('../models/ReturnRequest');
+const { registerJobHandler } = require('./jobQueue');
+const { dispatchOrder } = require('./shippingService');
+const { bookReturnPickup } = require('./returnService');
+const { sendOrderEmail, queueOrderEmail } = require('./notificationService');
+const { resolvePaymentId, refundPayment } = require('./razorpayService');
+
+/**
+ * Books the courier for a paid order. Safe to re-run: an order that already has an AWB, or
+ * was cancelled or refunded meanwhile, is left alone.
+ */
+const dispatchPaidOrder = async ({ orderId }) => {
+    const order = await Order.findById(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found.`);
+    if (order.shipmentDetails?.awbCode || order.status === 'Cancelled' || order.paymentStatus !== 'paid') return;
+
+    console.log(`🚀 [Shipping] Attempting to create shipment for order ${orderId}...`);
+    try {
+        const shipment = await dispatchOrder(order);
+        order.audit({ source: shipment.provider, note: `Booked with ${shipment.courierName}` });
+        await order.save();
+        console.log(`✅ [Shipping] Successfully assigned AWB ${shipment.awbCode} to order ${orderId}.`);
+    } catch (error) {
+        // Keep a booking made before the AWB step failed so the retry reuses it
+        if (order.isModified()) await order.save();
+        throw error;
+    }
+};
+
+// Once the retries are spent the shipment is flagged so the admin dashboard shows it; a later
+// successful booking replaces shipmentDetails and clears the flag
+const recordDispatchFailure = async ({ orderId }, error) => {
+    const order = await Order.findById(orderId);
+    if (!order) return;
+    order.audit({ source: 'jobs', note: `Courier booking failed: ${error.message}` });
+    order.set('shipmentDetails.status', 'Booking failed');
+    await order.save();
+};
+
+/**
+ * Refunds what is left of a cancelled order's payment, e.g. one paid after it was cancelled.
+ * Safe to re-run: an order with nothing left to refund is left alone.
+ */
+const refundCancelledOrder = async ({ orderId }) => {
+    const order = await Order.findById(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found.`);
+    const amount = order.totalAmount - (order.refundedAmount || 0);
+    if (order.status !== 'Cancelled' || !['paid', 'partially_refunded'].includes(order.paymentStatus) || amount <= 0) return;
+
+    const paymentId = await resolvePaymentId(order);
+    if (!paymentId) throw new Error('No captured Razorpay payment found.');
+    const refund = await refundPayment(paymentId, amount, { order_id: orderId, reason: 'cancellation' });
+
+    order.audit({ source: 'jobs', note: `Refunded ₹${amount} for the cancelled order` });
+    order.razorpayPaymentId = paymentId;
+    order.refundedAmount = (order.refundedAmount || 0) + amount;
+    order.refunds.push({ refundId: refund.id, amount, source: 'cancellation' });
+    order.paymentStatus = 'refunded';
+    order.set('cancellation.refundId', refund.id);
+    order.set('cancellation.refundError', undefined);
+    await order.save();
+    await queueOrderEmail(order, 'order_refunded', { amount });
+};
+
+// Left for an admin to refund by hand, shown the same way as a failed cancellation refund
+const recordRefundFailure = async ({ orderId }, error) => {
+    const order = await Order.findById(orderId);
+    if (!order) return;
+    order.audit({ source: 'jobs', note: `Refund failed: ${error.message}` });
+    order.set('cancellation.refundError', error.message);
+    await order.save();
+};
+
+/**
+ * Books the reverse pickup for an approved return. The latest failure is kept on the request.
+ */
+const bookPickup = async ({ returnId }) => {
+    const returnRequest = await ReturnRequest.findById(returnId);
+    if (!returnRequest) throw new Error(`Return request ${returnId} not found.`);
+    if (returnRequest.status !== 'approved' || returnRequest.pickup?.awbCode) return;
+
+    const order = await Order.findById(returnRequest.order);
+    const booked = await bookReturnPickup(returnRequest, order);
+    await returnRequest.save();
+    if (!booked) throw new Error(returnRequest.pickup.error);
+};
+
+/**
+ * Pushes an order event (newOrder, ...) to connected admin dashboards.
+ */
+const notifyOrder = async ({ orderId, event }) => {
+    if (!global.io) throw new Error('Socket server is not running.');
+    const order = await Order.findById(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found.`);
+    global.io.emit(event, order);
+};
+
+/**
+ * Registers every background job type. Call once before starting the worker.
+ */
+const registerJobHandlers = () => {
+    registerJobHandler('order.dispatch', dispatchPaidOrder, { onDead: recordDispatchFailure });
+    registerJobHandler('order.notify', notifyOrder);
+    registerJobHandler('order.refund', refundCancelledOrder, { onDead: recordRefundFailure });
+    registerJobHandler('return.pickup', bookPickup);
+    registerJobHandler('email.order', sendOrderEmail);
+};
+
+module.exports = {
+    registerJobHandlers,
+};
@@ -0,0 +1,125 @@
+// server/services/jobQueue.js
+
+const Job = require('../models/Job');
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const BASE_BACKOFF_MS = 30 * 1000; // 30s, 1m, 2m, 4m, ...
+const STALE_LOCK_MS = 5 * 60 * 1000; // A worker that died mid-job
+
+const handlers = new Map();
+
+/**
+ * Registers the function that runs jobs of a type. Handlers receive the job's payload and
+ * should be safe to run more than once: a job is retried whenever its handler throws.
+ * @param {string} type - The job type.
+ * @param {Function} run - async (payload, job) => void
+ * @param {object} [options] - { onDead } called with (payload, error) once the job is
+ *   dead-lettered, to record the failure where an admin will see it.
+ */
+const registerJobHandler = (type, run, { onDead } = {}) => {
+    handlers.set(type, { run, onDead });
+};
+
+/**
+ * Queues a job for the worker.
+ * @param {string} type - A registered handler type.
+ * @param {object} payload - Plain data (ids, not documents).
+ * @param {object} [options] - { runAt, maxAttempts }
+ */
+const enqueueJob = (type, payload = {}, { runAt, maxAttempts } = {}) =>
+    Job.create({ type, payload, runAt: runAt || new Date(), ...(maxAttempts && { maxAttempts }) });
+
+const backoffMs = (attempts) => BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+
+/**
+ * Runs a claimed job and records the outcome: completed, queued again after a backoff, or
+ * dead once it has used all its attempts.
+ */
+const runJob = async (job) => {
+    const handler = handlers.get(job.type);
+    try {
+        if (!handler) throw new Error(`No handler registered for job type "${job.type}".`);
+        await handler.run(job.payload, job);
+        job.status = 'completed';
+        job.completedAt = new Date();
+        job.lastError = undefined;
+    } catch (error) {
+        job.lastError = error.message;
+        if (!handler || job.attempts >= job.maxAttempts) {
+            job.status = 'dead';
+            job.deadAt = new Date();
+            console.error(`❌ [Jobs] CRITICAL: ${job.type} job ${job._id} failed after ${job.attempts} attempts:`, error.message);
+            if (handler?.onDead) {
+                await Promise.resolve(handler.onDead(job.payload, error)).catch((hookError) => {
+                    console.error(`❌ [Jobs] Dead-letter hook for ${job.type} job ${job._id} failed:`, hookError.message);
+                });
+            }
+        } else {
+            job.status = 'queued';
+            job.runAt = new Date(Date.now() + backoffMs(job.attempts));
+            console.warn(`[Jobs] ${job.type} job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying at ${job.runAt.toISOString()}: ${error.message}`);
+        }
+    }
+    job.lockedAt = undefined;
+    await job.save();
+};
+
+/**
+ * Claims and runs due jobs one at a time until none are left. Claiming is a single atomic
+ * update, so several server instances can share the queue.
+ */
+const runDueJobs = async () => {
+    await Job.updateMany(
+        { status: 'running', lockedAt: { $lte: new Date(Date.now() - STALE_LOCK_MS) } },
+        { $set: { status: 'queued' }, $unset: { lockedAt: 1 } }
+    );
+
+    let processed = 0;
+    for (;;) {
+        const job = await Job.findOneAndUpdate(
+            { status: 'queued', runAt: { $lte: new Date() } },
+            { $set: { status: 'running', lockedAt: new Date() }, $inc: { attempts: 1 } },
+            { sort: { runAt: 1 }, new: true }
+        );
+        if (!job) return processed;
+        await runJob(job);
+        processed += 1;
+    }
+};
+
+/**
+ * Puts a dead job back on the queue with a fresh set of attempts.
+ * @returns {Promise<object|null>} The requeued job, or null when it is not dead.
+ */
+const retryJob = (jobId) =>
+    Job.findOneAndUpdate(
+        { _id: jobId, status: 'dead' },
+        { $set: { status: 'queued', attempts: 0, runAt: new Date() }, $unset: { deadAt: 1 } },
+        { new: true }
+    );
+
+/**
+ * Starts the periodic job worker. Call once after the database connects.
+ */
+const startJobWorker = () => {
+    let running = false;
+    setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runDueJobs();
+        } catch (error) {
+            console.error('❌ [Jobs] Job worker run failed:', error.message);
+        } finally {
+            running = false;
+        }
+    }, POLL_INTERVAL_MS);
+};
+
+module.exports = {
+    registerJobHandler,
+    enqueueJob,
+    runDueJobs,
+    retryJob,
+    startJobWorker,
+};
@@ -0,0 +1,71 @@
+// server/services/mailer.js
+//
+// The one place that sends email. MAIL_TRANSPORT picks how:
+//   smtp    - SMTP_HOST/SMTP_PORT/SMTP_SECURE, or Gmail when SMTP_HOST is unset, logging in as
+//             SMTP_EMAIL/SMTP_PASS (the default when SMTP_EMAIL is set)
+//   file    - writes each message as an .eml file into MAIL_OUTBOX_DIR (default ./outbox)
+//   console - prints the message to the log (the default otherwise)
+
+const fs = require('fs/promises');
+const path = require('path');
+const nodemailer = require('nodemailer');
+
+let cached = null; // { kind, transporter }
+
+const transportKind = () => process.env.MAIL_TRANSPORT || (process.env.SMTP_EMAIL ? 'smtp' : 'console');
+
+const createTransporter = (kind) => {
+    if (kind === 'smtp') {
+        const auth = { user: process.env.SMTP_EMAIL, pass: process.env.SMTP_PASS };
+        if (!process.env.SMTP_HOST) return nodemailer.createTransport({ service: 'Gmail', auth });
+        return nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port: Number(process.env.SMTP_PORT) || 587,
+            secure: process.env.SMTP_SECURE === 'true',
+            auth,
+        });
+    }
+    if (kind === 'file') return nodemailer.createTransport({ streamTransport: true, buffer: true });
+    if (kind === 'console') return nodemailer.createTransport({ jsonTransport: true });
+    throw new Error(`Unknown MAIL_TRANSPORT "${kind}".`);
+};
+
+const getTransporter = () => {
+    const kind = transportKind();
+    if (!cached || cached.kind !== kind) {
+        cached = { kind, transporter: createTransporter(kind) };
+    }
+    return cached;
+};
+
+const defaultFrom = () => process.env.MAIL_FROM || `"Hansitha Creations" <${process.env.SMTP_EMAIL || 'no-reply@hansithacreations.com'}>`;
+
+/**
+ * Sends one email. Throws when the transport fails so callers (usually a job) can retry.
+ * @param {object} message - { to, subject, html, text } plus any other nodemailer field.
+ * @returns {Promise<object>} Nodemailer's info object; `path` is set for the file transport.
+ */
+const sendMail = async (message) => {
+    const { kind, transporter } = getTransporter();
+    const info = await transporter.sendMail({ from: defaultFrom(), ...message });
+
+    if (kind === 'file') {
+        const dir = path.resolve(process.env.MAIL_OUTBOX_DIR || 'outbox');
+        await fs.mkdir(dir, { recursive: true });
+        const file = path.join(dir, `${Date.now()}-${String(message.subject).replace(/[^\w-]+/g, '_').slice(0, 60)}.eml`);
+        await fs.writeFile(file, info.message);
+        console.log(`[Mail] Wrote "${message.subject}" for ${message.to} to ${file}`);
+        return { ...info, path: file };
+    }
+    if (kind === 'console') {
+        const { subject, to, text } = JSON.parse(info.message);
+        console.log(`[Mail] To: ${to?.map((address) => address.address).join(', ')}\n[Mail] Subject: ${subject}\n${text || '(html only)'}`);
+        return info;
+    }
+    console.log(`[Mail] Sent "${message.subject}" to ${message.to}.`);
+    return info;
+};
+
+module.exports = {
+    sendMail,
+};
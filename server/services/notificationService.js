@@ -0,0 +1,81 @@
+// server/services/notificationService.js
+
+const Order = require('../models/Order');
+const User = require('../models/User.model');
+const { enqueueJob } = require('./jobQueue');
+const { sendMail } = require('./mailer');
+const { renderOrderEmail } = require('./emailTemplates');
+const { getInvoicePdf } = require('./invoiceService');
+
+// Which User.emailPreferences switch covers each email
+const EMAIL_PREFERENCE = {
+    order_placed: 'orderUpdates',
+    payment_received: 'orderUpdates',
+    order_cancelled: 'orderUpdates',
+    order_refunded: 'orderUpdates',
+    order_shipped: 'shippingUpdates',
+    order_delivered: 'shippingUpdates',
+};
+
+// Emails that confirm a paid order carry its tax invoice
+const INVOICE_EMAILS = ['payment_received'];
+
+// Order.status values that have an email of their own
+const STATUS_EMAILS = {
+    Shipped: 'order_shipped',
+    Delivered: 'order_delivered',
+};
+
+/**
+ * Queues an order email for the job worker. Never throws: a missed email must not undo the
+ * order change that triggered it.
+ * @param {object} order - The order document (already saved).
+ * @param {string} template - A template in services/emailTemplates.js.
+ * @param {object} [data] - Extra template values, e.g. { amount } for refunds.
+ */
+const queueOrderEmail = async (order, template, data = {}) => {
+    try {
+        await enqueueJob('email.order', { orderId: order._id.toString(), template, data });
+    } catch (error) {
+        console.error(`❌ [Mail] Failed to queue ${template} email for order ${order._id}:`, error.message);
+    }
+};
+
+/**
+ * Queues the email for the order's current status, if that status has one. Call after a
+ * courier update moved the order along.
+ */
+const queueStatusEmail = (order) => {
+    const template = STATUS_EMAILS[order.status];
+    return template ? queueOrderEmail(order, template) : Promise.resolve();
+};
+
+/**
+ * Job handler: renders and sends an order email unless the customer turned that kind off.
+ */
+const sendOrderEmail = async ({ orderId, template, data }) => {
+    const order = await Order.findById(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found.`);
+
+    const user = order.user ? await User.findById(order.user).select('emailPreferences') : null;
+    const preference = EMAIL_PREFERENCE[template];
+    if (user?.emailPreferences?.[preference] === false) {
+        console.log(`[Mail] Skipping ${template} for order ${orderId}: customer opted out of ${preference}.`);
+        return;
+    }
+
+    const { subject, html, text } = renderOrderEmail(template, order, data);
+    const attachments = [];
+    if (INVOICE_EMAILS.includes(template)) {
+        const invoice = await getInvoicePdf(order);
+        if (!invoice.error) attachments.push({ filename: invoice.filename, content: invoice.content });
+    }
+    await sendMail({ to: order.email, subject, html, text, attachments });
+};
+
+module.exports = {
+    EMAIL_PREFERENCE,
+    queueOrderEmail,
+    queueStatusEmail,
+    sendOrderEmail,
+};
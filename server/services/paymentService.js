@@ -0,0 +1,84 @@
+// server/services/paymentService.js
+
+const Order = require('../models/Order');
+const User = require('../models/User.model');
+const { commitReservation } = require('./inventoryService');
+const { redeemCoupon } = require('./couponService');
+const { enqueueJob } = require('./jobQueue');
+const { queueOrderEmail } = require('./notificationService');
+
+// An order can still be paid from these; any other payment status means it already was
+const PAYABLE_STATUSES = ['pending', 'failed', 'expired'];
+
+/**
+ * Records a successful online payment for a pending order: commits the stock hold, marks the
+ * order paid, redeems its coupon, empties the customer's cart and queues the shipment booking and the notifications.
+ * Shared by the Razorpay webhook and the inline Checkout verification, whichever arrives first.
+ * The caller audits the order beforehand.
+ * @param {object} order - The order document.
+ * @param {object} details - { paymentId, source } where source names the caller for the audit trail.
+ * @returns {Promise<object>} { alreadyPaid: true }, { cancelled: true } when the order had been
+ *   cancelled meanwhile (it stays cancelled and a refund is queued), { soldOut: item } when the
+ *   stock ran out after the hold lapsed (the order is cancelled and a refund is queued), or {}.
+ */
+const confirmOrderPayment = async (order, { paymentId, source } = {}) => {
+    const orderId = order._id.toString();
+    // The webhook and the browser can report the same payment at once; only one may go on
+    const claimed = await Order.findOneAndUpdate(
+        { _id: order._id, paymentStatus: { $in: PAYABLE_STATUSES } },
+        { $set: { paymentStatus: 'paid' } },
+        { projection: { status: 1 } }
+    );
+    if (!claimed) {
+        console.warn(`[Payment] Order ${orderId} is already marked as 'paid'. Skipping processing.`);
+        return { alreadyPaid: true };
+    }
+
+    // Cancelled by the customer, an admin or the sweeper while the payment was in flight: its
+    // stock is already back on sale, so the order stays cancelled and the money goes back
+    if (claimed.status === 'Cancelled') {
+        order.audit({ source, note: 'Paid after the order was cancelled; refund queued' });
+        order.paymentStatus = 'paid';
+        order.status = 'Cancelled';
+        order.razorpayPaymentId = paymentId || order.razorpayPaymentId;
+        await order.save();
+        await enqueueJob('order.refund', { orderId });
+        console.warn(`[Payment] Order ${orderId} was paid after it was cancelled. Refund queued.`);
+        return { cancelled: true };
+    }
+
+    // Turn the stock hold into a real deduction (re-reserving if the hold already expired)
+    const stock = await commitReservation(order._id);
+    if (!stock.success) {
+        order.audit({ source, note: `Paid after the stock hold lapsed and ${stock.failedItem.name} sold out; refund required` });
+        order.paymentStatus = 'paid';
+        order.razorpayPaymentId = paymentId || order.razorpayPaymentId;
+        order.status = 'Cancelled';
+        await order.save();
+        await enqueueJob('order.refund', { orderId });
+        console.error(`❌ [Payment] Order ${orderId} was paid after its stock reservation expired and ${stock.failedItem.name} is sold out. Refund queued.`);
+        return { soldOut: stock.failedItem };
+    }
+
+    order.paymentStatus = 'paid';
+    order.razorpayPaymentId = paymentId || order.razorpayPaymentId;
+    await order.save();
+    console.log(`✅ [Payment] Order ${orderId} status updated to 'paid' in the database.`);
+    // Paid at the discounted price already, so the discount stands even if the limit ran out meanwhile
+    await redeemCoupon(order);
+
+    if (order.user) {
+        await User.findByIdAndUpdate(order.user, { $set: { cart: [] } });
+        console.log(`✅ [Payment] Cleared cart for user ${order.user}.`);
+    }
+
+    // Booking the courier can fail or be slow; the job worker retries it with backoff
+    await enqueueJob('order.dispatch', { orderId });
+    await enqueueJob('order.notify', { orderId, event: 'newOrder' });
+    await queueOrderEmail(order, 'payment_received');
+    return {};
+};
+
+module.exports = {
+    confirmOrderPayment,
+};
@@ -0,0 +1,163 @@
+// server/services/pricingService.js
+
+const Product = require('../models/Product');
+const { findVariant, variantLabel } = require('../utils/variants');
+const { evaluateCoupon } = require('./couponService');
+const { quoteShippingRates } = require('./shippingService');
+const { getCodBlocker, getCodFee } = require('./codService');
+
+const FREE_SHIPPING_THRESHOLD = 5000; // ₹
+const SHIPPING_FEE = 200; // ₹, charged below the threshold until a pincode gives a real rate
+const GST_RATE = 0.05;
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Shipping and GST for a given item subtotal. Both are worked out on the amount left
+ * after any coupon discount.
+ * @param {number} [shippingRate] - The chosen courier's rate; the flat fee when no pincode is known.
+ * @param {number} [codFee] - Charged on top when the customer pays on delivery.
+ */
+const priceSubtotal = (subtotal, discount = 0, shippingRate = SHIPPING_FEE, codFee = 0) => {
+    const discounted = subtotal - discount;
+    const shipping = discounted > 0 && discounted < FREE_SHIPPING_THRESHOLD ? roundMoney(shippingRate) : 0;
+    const tax = Math.round(discounted * GST_RATE);
+    return {
+        subtotal: roundMoney(subtotal),
+        discount: roundMoney(discount),
+        shipping,
+        codFee: roundMoney(codFee),
+        tax,
+        taxRate: GST_RATE,
+        total: roundMoney(discounted + shipping + codFee + tax),
+    };
+};
+
+/**
+ * Builds an itemised quote for a cart using the prices stored on the products, ignoring any
+ * price the client sent. Returns `{ quote }` or `{ error }` when a line cannot be priced.
+ * A coupon that does not apply is reported as `quote.couponError` rather than failing the quote.
+ * With a delivery pincode, shipping is the live rate of the chosen courier (the cheapest when
+ * `shippingOptionId` is missing or stale) and the quote lists every option; a pincode nobody
+ * delivers to is an error. Such quotes also report in `quote.cod` whether the order may be paid
+ * on delivery; with `paymentMethod: 'cod'` only COD couriers are offered and the COD fee is added.
+ * @param {Array} cartItems - [{ id, variantId?, quantity }]
+ * @param {object} [options] - { couponCode, userId, deliveryPincode, shippingOptionId, paymentMethod }
+ */
+const buildQuote = async (
+    cartItems = [],
+    { couponCode, userId, deliveryPincode, shippingOptionId, paymentMethod = 'prepaid' } = {}
+) => {
+    if (!Array.isArray(cartItems) || cartItems.length === 0) {
+        return { error: 'Your cart is empty.' };
+    }
+    const payOnDelivery = paymentMethod === 'cod';
+    if (payOnDelivery && !deliveryPincode) {
+        return { error: 'Add a delivery address to pay on delivery.' };
+    }
+
+    const products = await Product.find({ _id: { $in: cartItems.map((item) => item.id) } });
+    const byId = new Map(products.map((product) => [product._id.toString(), product]));
+
+    const items = [];
+    for (const item of cartItems) {
+        const quantity = Number(item.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            return { error: `Invalid quantity for ${item.name || 'an item'}.` };
+        }
+
+        const product = byId.get(String(item.id));
+        if (!product) {
+            return { error: `${item.name || 'An item'} is no longer available.` };
+        }
+
+        const variant = item.variantId ? findVariant(product, item.variantId) : null;
+        if (item.variantId && !variant) {
+            return { error: `${product.name} is no longer available in that option.` };
+        }
+
+        const price = variant ? variant.price : product.price;
+        items.push({
+            id: product._id.toString(),
+            variantId: variant ? variant._id.toString() : undefined,
+            sku: variant ? variant.sku : undefined,
+            variantLabel: variant ? variantLabel(variant) : undefined,
+            name: product.name,
+            image: variant?.images?.[0] || product.image,
+            category: product.category,
+            hsnCode: product.hsnCode,
+            price,
+            quantity,
+            lineTotal: roundMoney(price * quantity),
+        });
+    }
+
+    const subtotal = items.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    let discount = 0;
+    let coupon;
+    let couponError;
+    if (couponCode) {
+        const result = await evaluateCoupon(couponCode, { items, subtotal, userId });
+        if (result.error) {
+            couponError = result.error;
+        } else {
+            discount = result.discount;
+            coupon = { code: result.coupon.code, description: result.coupon.description, discount };
+        }
+    }
+
+    let shippingOptions;
+    let shippingOption;
+    if (deliveryPincode) {
+        const rates = await quoteShippingRates({ deliveryPincode, items, cod: payOnDelivery });
+        if (rates.error) return { error: rates.error };
+        // For COD an empty list is reported by getCodBlocker below
+        if (rates.options.length === 0 && !payOnDelivery) {
+            return { error: `Sorry, we don't deliver to ${String(deliveryPincode).trim()} yet.` };
+        }
+        shippingOptions = rates.options;
+        shippingOption = shippingOptions.find((option) => option.id === shippingOptionId) || shippingOptions[0];
+    }
+
+    const pricing = priceSubtotal(
+        subtotal,
+        discount,
+        shippingOption ? shippingOption.rate : SHIPPING_FEE,
+        payOnDelivery ? getCodFee() : 0
+    );
+
+    let cod;
+    if (deliveryPincode) {
+        const blocker = getCodBlocker({ total: pricing.total, pincode: deliveryPincode, shippingOptions });
+        if (payOnDelivery && blocker) return { error: blocker };
+        cod = { available: !blocker, reason: blocker || undefined, fee: getCodFee() };
+    }
+
+    return {
+        quote: {
+            items,
+            ...pricing,
+            coupon,
+            couponError,
+            shippingOption,
+            shippingOptions,
+            paymentMethod: payOnDelivery ? 'cod' : 'prepaid',
+            cod,
+            currency: 'INR',
+        },
+    };
+};
+
+/**
+ * True when a client-side total matches the server quote (to the paisa).
+ */
+const totalsMatch = (quote, clientTotal) =>
+    Math.abs(roundMoney(Number(clientTotal)) - quote.total) < 0.01;
+
+module.exports = {
+    buildQuote,
+    priceSubtotal,
+    totalsMatch,
+    roundMoney,
+};
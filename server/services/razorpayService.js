@@ -0,0 +1,144 @@
+// server/services/razorpayService.js
+
+const crypto = require('crypto');
+const Razorpay = require('razorpay');
+
+let client = null;
+
+/**
+ * Lazily creates the Razorpay client so the keys are read after dotenv has loaded.
+ * RAZORPAY_BASE_URL points it at another host, e.g. dev/fakeRazorpay.js.
+ */
+const getClient = () => {
+    if (!client) {
+        client = new Razorpay({
+            key_id: process.env.RAZORPAY_KEY_ID,
+            key_secret: process.env.RAZORPAY_KEY_SECRET,
+        });
+        if (process.env.RAZORPAY_BASE_URL) {
+            client.api.rq.defaults.baseURL = process.env.RAZORPAY_BASE_URL;
+        }
+    }
+    return client;
+};
+
+/**
+ * Finds the captured payment behind an order. Older orders only stored the payment link id,
+ * so fall back to asking Razorpay which payment settled the link.
+ * @param {object} order - The order document.
+ * @returns {Promise<string|null>} The Razorpay payment id.
+ */
+const resolvePaymentId = async (order) => {
+    if (order.razorpayPaymentId) return order.razorpayPaymentId;
+    if (!order.razorpayPaymentLinkId) return null;
+
+    const link = await getClient().paymentLink.fetch(order.razorpayPaymentLinkId);
+    const captured = (link.payments || []).find((payment) => payment.status === 'captured');
+    return captured ? captured.payment_id : null;
+};
+
+/**
+ * Refunds part or all of a payment.
+ * @param {string} paymentId - The Razorpay payment id.
+ * @param {number} amount - Amount in rupees.
+ * @param {object} notes - Shown on the Razorpay dashboard.
+ */
+const refundPayment = async (paymentId, amount, notes = {}) => {
+    try {
+        return await getClient().payments.refund(paymentId, {
+            amount: Math.round(amount * 100),
+            speed: 'normal',
+            notes,
+        });
+    } catch (error) {
+        const errorMessage = error.error?.description || error.message;
+        console.error(`Error refunding payment ${paymentId}:`, errorMessage);
+        throw new Error(`Razorpay refund failed: ${errorMessage}`);
+    }
+};
+
+/**
+ * Creates a hosted payment link the customer is redirected to.
+ * @param {object} payload - Razorpay's payment link fields.
+ */
+const createPaymentLink = async (payload) => {
+    try {
+        return await getClient().paymentLink.create(payload);
+    } catch (error) {
+        const errorMessage = error.error?.description || error.message;
+        console.error('Error creating payment link:', errorMessage);
+        throw new Error(`Razorpay payment link creation failed: ${errorMessage}`);
+    }
+};
+
+/**
+ * Creates a Razorpay order for Checkout to collect payment against in our own page.
+ * @param {object} order - Our pending order document.
+ */
+const createRazorpayOrder = async (order) => {
+    try {
+        return await getClient().orders.create({
+            amount: Math.round(order.totalAmount * 100),
+            currency: 'INR',
+            receipt: order._id.toString(),
+            notes: { internal_order_id: order._id.toString() },
+        });
+    } catch (error) {
+        const errorMessage = error.error?.description || error.message;
+        console.error(`Error creating Razorpay order for ${order._id}:`, errorMessage);
+        throw new Error(`Razorpay order creation failed: ${errorMessage}`);
+    }
+};
+
+/**
+ * Checks the signature Checkout hands back after a payment: an HMAC-SHA256 of
+ * "order_id|payment_id" keyed with our API secret.
+ */
+const isValidPaymentSignature = ({ razorpayOrderId, razorpayPaymentId, signature }) => {
+    if (typeof signature !== 'string' || !razorpayOrderId || !razorpayPaymentId) return false;
+    const expected = crypto
+        .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET || '')
+        .update(`${razorpayOrderId}|${razorpayPaymentId}`)
+        .digest('hex');
+    const a = Buffer.from(signature);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Checks a webhook's X-Razorpay-Signature: an HMAC-SHA256 of the raw request body keyed with
+ * the webhook secret. It must be the raw bytes; re-serialised JSON does not always match.
+ * @param {Buffer} rawBody - The request body exactly as received.
+ */
+const isValidWebhookSignature = (rawBody, signature) => {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!secret || typeof signature !== 'string' || !Buffer.isBuffer(rawBody)) return false;
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    const a = Buffer.from(signature);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Cancels an unpaid payment link so the customer can no longer pay for a cancelled order.
+ * @param {string} paymentLinkId - The Razorpay payment link id.
+ */
+const cancelPaymentLink = async (paymentLinkId) => {
+    try {
+        return await getClient().paymentLink.cancel(paymentLinkId);
+    } catch (error) {
+        const errorMessage = error.error?.description || error.message;
+        console.error(`Error cancelling payment link ${paymentLinkId}:`, errorMessage);
+        throw new Error(`Razorpay payment link cancellation failed: ${errorMessage}`);
+    }
+};
+
+module.exports = {
+    createPaymentLink,
+    createRazorpayOrder,
+    isValidPaymentSignature,
+    isValidWebhookSignature,
+    resolvePaymentId,
+    refundPayment,
+    cancelPaymentLink,
+};
@@ -0,0 +1,226 @@
+// server/services/returnService.js
+
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const ReturnRequest = require('../models/ReturnRequest');
+const { findVariant, variantLabel } = require('../utils/variants');
+const { createReservation, commitReservation } = require('./inventoryService');
+const { roundMoney } = require('./pricingService');
+const { scheduleReturnPickup } = require('./shippingService');
+
+const RETURN_REASONS = [
+    'Damaged or defective',
+    'Wrong item received',
+    'Size or fit issue',
+    'Colour or design differs from photos',
+    'Quality not as expected',
+    'Changed my mind',
+];
+
+// Requests in these states still hold their items; rejected ones free them up again
+const OPEN_STATUSES = ['requested', 'approved', 'pickup_scheduled', 'received', 'refunding'];
+
+// The order status each finished return leaves behind
+const ORDER_STATUS_AFTER_RETURN = { received: 'Returned', refunded: 'Refunded', exchanged: 'Exchanged' };
+
+// After a partial return the order can still be returned, for whatever has not been sent back
+const RETURNABLE_ORDER_STATUSES = ['Delivered', ...Object.values(ORDER_STATUS_AFTER_RETURN)];
+
+const returnWindowDays = () => Number(process.env.RETURN_WINDOW_DAYS) || 7;
+
+const lineKey = (id, variantId) => `${id}|${variantId || ''}`;
+
+/**
+ * Moves a return request to a new status and records it in the request's history.
+ */
+const addReturnHistory = (returnRequest, status, note) => {
+    returnRequest.status = status;
+    returnRequest.history.push({ status, note });
+};
+
+/**
+ * Books the reverse pickup with the order's carrier. Failures are recorded on the request so
+ * the admin sees them; the caller saves the request either way.
+ * @returns {Promise<boolean>} Whether the pickup was booked.
+ */
+const bookReturnPickup = async (returnRequest, order) => {
+    try {
+        returnRequest.pickup = await scheduleReturnPickup(order, returnRequest);
+        addReturnHistory(returnRequest, 'pickup_scheduled', `AWB ${returnRequest.pickup.awbCode || 'pending'}`);
+        console.log(`✅ [Returns] Reverse pickup booked for return ${returnRequest._id}.`);
+        return true;
+    } catch (error) {
+        console.error(`❌ [Returns] Failed to book pickup for return ${returnRequest._id}:`, error.message);
+        returnRequest.pickup = { ...returnRequest.pickup, error: error.message };
+        return false;
+    }
+};
+
+const countItems = (items) => items.reduce((sum, item) => sum + item.quantity, 0);
+
+/**
+ * The status an order takes once a return reaches `returnStatus` (received, refunded or
+ * exchanged). Only an order with nothing left at the customer's is marked Returned, Refunded or
+ * Exchanged; after a partial return it stays Delivered.
+ */
+const orderStatusAfterReturn = async (order, returnStatus) => {
+    const finished = await ReturnRequest.find({
+        order: order._id,
+        status: { $in: Object.keys(ORDER_STATUS_AFTER_RETURN) },
+    });
+    const returned = finished.reduce((sum, request) => sum + countItems(request.items), 0);
+    return returned >= countItems(order.cartItems) ? ORDER_STATUS_AFTER_RETURN[returnStatus] : 'Delivered';
+};
+
+/**
+ * The status an order goes back to when a return is rejected: where its latest finished return
+ * left it, or Delivered if there was none.
+ */
+const orderStatusWithoutReturn = async (order) => {
+    const latest = await ReturnRequest.findOne({
+        order: order._id,
+        status: { $in: Object.keys(ORDER_STATUS_AFTER_RETURN) },
+    }).sort({ updatedAt: -1 });
+    return latest ? orderStatusAfterReturn(order, latest.status) : 'Delivered';
+};
+
+/**
+ * True while the order is still inside the return window.
+ */
+const isWithinReturnWindow = (order) => {
+    const deliveredAt = order.deliveredAt || order.updatedAt;
+    return Date.now() - new Date(deliveredAt).getTime() <= returnWindowDays() * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Checks the lines a customer wants to send back against what they ordered and what they
+ * have already returned. Returns `{ items }` ready to store, or `{ error }`.
+ * @param {object} order - The delivered order.
+ * @param {string} type - 'refund' or 'exchange'.
+ * @param {Array} requested - [{ id, variantId?, quantity, exchangeVariantId? }]
+ */
+const buildReturnItems = async (order, type, requested) => {
+    if (!Array.isArray(requested) || requested.length === 0) {
+        return { error: 'Choose at least one item to return.' };
+    }
+
+    const previous = await ReturnRequest.find({ order: order._id, status: { $ne: 'rejected' } });
+    const alreadyReturned = new Map();
+    for (const request of previous) {
+        for (const item of request.items) {
+            const key = lineKey(item.id, item.variantId);
+            alreadyReturned.set(key, (alreadyReturned.get(key) || 0) + item.quantity);
+        }
+    }
+
+    const items = [];
+    for (const line of requested) {
+        const ordered = order.cartItems.find(
+            (item) => lineKey(item.id, item.variantId) === lineKey(line.id, line.variantId)
+        );
+        if (!ordered) return { error: 'One of the items is not part of this order.' };
+
+        const quantity = Number(line.quantity);
+        const remaining = ordered.quantity - (alreadyReturned.get(lineKey(line.id, line.variantId)) || 0);
+        if (remaining <= 0) return { error: `${ordered.name} has already been returned.` };
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > remaining) {
+            return { error: `You can return up to ${remaining} of ${ordered.name}.` };
+        }
+
+        const item = {
+            id: ordered.id,
+            variantId: ordered.variantId,
+            name: ordered.name,
+            variantLabel: ordered.variantLabel,
+            sku: ordered.sku,
+            price: ordered.price,
+            quantity,
+        };
+
+        if (type === 'exchange') {
+            const product = await Product.findById(ordered.id);
+            const replacement = findVariant(product, line.exchangeVariantId);
+            if (!replacement) return { error: `Choose the option you want instead of ${ordered.name}.` };
+            if (replacement._id.toString() === String(ordered.variantId)) {
+                return { error: `Choose a different option for ${ordered.name}.` };
+            }
+            if (replacement.price !== ordered.price) {
+                return { error: `${variantLabel(replacement)} is priced differently; please request a refund instead.` };
+            }
+            item.exchangeVariantId = replacement._id.toString();
+            item.exchangeVariantLabel = variantLabel(replacement);
+        }
+        items.push(item);
+    }
+    return { items };
+};
+
+/**
+ * The share of what the customer paid for the returned items: their value after the order's
+ * coupon discount, plus GST. Shipping is not refunded. Capped at what is left to refund.
+ */
+const calculateRefundAmount = (order, items) => {
+    const itemsValue = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const pricing = order.pricing;
+    const paidForItems = pricing?.subtotal
+        ? (itemsValue / pricing.subtotal) * (pricing.subtotal - (pricing.discount || 0) + pricing.tax)
+        : itemsValue;
+    return roundMoney(Math.min(paidForItems, order.totalAmount - (order.refundedAmount || 0)));
+};
+
+/**
+ * Creates the free replacement order for an exchange, taking stock for the new variants.
+ * It enters the normal admin approval queue to be shipped. Returns `{ order }` or `{ error }`.
+ */
+const createExchangeOrder = async (order, returnRequest) => {
+    const cartItems = [];
+    for (const item of returnRequest.items) {
+        const product = await Product.findById(item.id);
+        const variant = findVariant(product, item.exchangeVariantId);
+        if (!variant) return { error: `${item.name} (${item.exchangeVariantLabel}) no longer exists.` };
+        cartItems.push({
+            id: item.id,
+            variantId: variant._id.toString(),
+            sku: variant.sku,
+            variantLabel: variantLabel(variant),
+            name: item.name,
+            image: variant.images?.[0] || product.image,
+            price: item.price,
+            quantity: item.quantity,
+            lineTotal: roundMoney(item.price * item.quantity),
+        });
+    }
+
+    const exchangeOrder = new Order({
+        user: order.user,
+        email: order.email,
+        address: order.address,
+        cartItems,
+        totalAmount: 0,
+        pricing: { subtotal: 0, discount: 0, shipping: 0, tax: 0, taxRate: 0, total: 0 },
+        paymentStatus: 'paid',
+        status: 'Placed',
+    }).audit({ source: 'returns', note: `Replacement for order ${order._id} (return ${returnRequest._id})` });
+
+    const reservation = await createReservation(exchangeOrder, cartItems);
+    if (!reservation.success) {
+        return { error: `${reservation.failedItem.name} is out of stock in the requested option.` };
+    }
+    await exchangeOrder.save();
+    await commitReservation(exchangeOrder._id);
+    return { order: exchangeOrder };
+};
+
+module.exports = {
+    RETURN_REASONS,
+    OPEN_STATUSES,
+    RETURNABLE_ORDER_STATUSES,
+    addReturnHistory,
+    orderStatusAfterReturn,
+    orderStatusWithoutReturn,
+    bookReturnPickup,
+    isWithinReturnWindow,
+    buildReturnItems,
+    calculateRefundAmount,
+    createExchangeOrder,
+};
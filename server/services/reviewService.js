@@ -0,0 +1,61 @@
+// server/services/reviewService.js
+
+const mongoose = require('mongoose');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const Review = require('../models/Review');
+
+const MAX_REVIEW_IMAGES = 4;
+
+// An order in any of these has been delivered, even if some of it was sent back since
+const DELIVERED_STATUSES = ['Delivered', 'Return Requested', 'Returned', 'Refunded', 'Exchanged'];
+
+/**
+ * Finds a delivered order of this user that contains the product, or null if the user
+ * has never received it.
+ */
+const findDeliveredOrder = (userId, productId) =>
+    Order.findOne({
+        user: userId,
+        $or: [{ deliveredAt: { $ne: null } }, { status: { $in: DELIVERED_STATUSES } }],
+        'cartItems.id': productId.toString(),
+    }).sort({ createdAt: -1 });
+
+/**
+ * Recomputes the product's average rating and review count from its approved reviews.
+ */
+const refreshProductRating = async (productId) => {
+    const [stats] = await Review.aggregate([
+        { $match: { product: new mongoose.Types.ObjectId(productId), status: 'approved' } },
+        { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } },
+    ]);
+    await Product.updateOne(
+        { _id: productId },
+        {
+            $set: {
+                averageRating: stats ? Math.round(stats.average * 10) / 10 : 0,
+                reviewCount: stats ? stats.count : 0,
+            },
+        }
+    );
+};
+
+/**
+ * Star breakdown ({ 1: n, ..., 5: n }) of a product's approved reviews.
+ */
+const getRatingDistribution = async (productId) => {
+    const rows = await Review.aggregate([
+        { $match: { product: new mongoose.Types.ObjectId(productId), status: 'approved' } },
+        { $group: { _id: '$rating', count: { $sum: 1 } } },
+    ]);
+    const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const row of rows) distribution[row._id] = row.count;
+    return distribution;
+};
+
+module.exports = {
+    MAX_REVIEW_IMAGES,
+    findDeliveredOrder,
+    refreshProductRating,
+    getRatingDistribution,
+};
@@ -0,0 +1,140 @@
+// server/services/searchLogService.js
+//
+// What shoppers search for. Each search run from the results page is logged once (refining it
+// with filters, sorting or paging is not a new search); the log expires after 90 days.
+
+const mongoose = require('mongoose');
+const SearchLog = require('../models/SearchLog');
+const { escapeRegExp } = require('../utils/query');
+
+const MAX_QUERY_LENGTH = 100;
+const POPULAR_WINDOW_DAYS = 30;
+const REPORT_LIMIT = 100;
+
+// Query parameters that refine a search rather than start one
+const SEARCH_REFINEMENTS = ['category', 'price', 'fabric', 'colour', 'inStock', 'sort', 'page'];
+
+const normaliseQuery = (text) =>
+    String(text || '').toLowerCase().replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+
+const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+/**
+ * True for a search the shopper has just run, false for a refinement of one already logged.
+ * @param {object} query - The search request's query string.
+ */
+const isNewSearch = (query) =>
+    !!normaliseQuery(query.q) && !SEARCH_REFINEMENTS.some((key) => query[key] !== undefined);
+
+/**
+ * Records a search. Never throws: showing the results matters more than the statistics.
+ */
+const logSearch = async ({ query, resultCount, userId }) => {
+    try {
+        await SearchLog.create({
+            query: normaliseQuery(query),
+            resultCount,
+            user: userId && mongoose.isValidObjectId(userId) ? userId : undefined,
+        });
+    } catch (error) {
+        console.error('❌ [Search] Failed to log a search:', error.message);
+    }
+};
+
+/**
+ * The searches run most often lately that found something, optionally only those starting with
+ * `prefix`.
+ * @returns {Promise<Array>} [{ query, count }]
+ */
+const popularSearches = ({ prefix, limit = 8 } = {}) => {
+    const match = { createdAt: { $gte: daysAgo(POPULAR_WINDOW_DAYS) }, resultCount: { $gt: 0 } };
+    const normalised = normaliseQuery(prefix);
+    if (normalised) match.query = new RegExp(`^${escapeRegExp(normalised)}`);
+    return SearchLog.aggregate([
+        { $match: match },
+        { $group: { _id: '$query', count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: limit },
+        { $project: { _id: 0, query: '$_id', count: 1 } },
+    ]);
+};
+
+/**
+ * The user's latest distinct searches, newest first.
+ * @returns {Promise<Array>} [{ query, searchedAt }]
+ */
+const recentSearches = (userId, limit = 8) =>
+    SearchLog.aggregate([
+        { $match: { user: new mongoose.Types.ObjectId(userId) } },
+        { $sort: { createdAt: -1 } },
+        { $group: { _id: '$query', searchedAt: { $first: '$createdAt' } } },
+        { $sort: { searchedAt: -1 } },
+        { $limit: limit },
+        { $project: { _id: 0, query: '$_id', searchedAt: 1 } },
+    ]);
+
+/**
+ * Removes one query (or, without one, every query) from the user's recent searches. The searches
+ * stay in the statistics, no longer linked to the user.
+ */
+const forgetSearches = (userId, query) => {
+    const filter = { user: userId };
+    if (query) filter.query = normaliseQuery(query);
+    return SearchLog.updateMany(filter, { $unset: { user: 1 } });
+};
+
+/**
+ * Admin report for the last `days` days: searches that found nothing (the catalogue gaps and
+ * misspellings worth fixing) and the most popular searches, both most frequent first.
+ * @returns {Promise<object>} { days, totalSearches, zeroResultSearches, zeroResults, popular },
+ *   the lists as [{ query, count, averageResults, lastSearchedAt }]
+ */
+const searchReport = async ({ days = 30 } = {}) => {
+    const since = daysAgo(days);
+    const byQuery = (match) => [
+        { $match: { createdAt: { $gte: since }, ...match } },
+        {
+            $group: {
+                _id: '$query',
+                count: { $sum: 1 },
+                averageResults: { $avg: '$resultCount' },
+                lastSearchedAt: { $max: '$createdAt' },
+            },
+        },
+        { $sort: { count: -1, lastSearchedAt: -1 } },
+        { $limit: REPORT_LIMIT },
+        { $project: { _id: 0, query: '$_id', count: 1, averageResults: { $round: ['$averageResults', 1] }, lastSearchedAt: 1 } },
+    ];
+
+    const [totals] = await SearchLog.aggregate([
+        { $match: { createdAt: { $gte: since } } },
+        {
+            $group: {
+                _id: null,
+                totalSearches: { $sum: 1 },
+                zeroResultSearches: { $sum: { $cond: [{ $eq: ['$resultCount', 0] }, 1, 0] } },
+            },
+        },
+    ]);
+    const [zeroResults, popular] = await Promise.all([
+        SearchLog.aggregate(byQuery({ resultCount: 0 })),
+        SearchLog.aggregate(byQuery({ resultCount: { $gt: 0 } })),
+    ]);
+
+    return {
+        days,
+        totalSearches: totals?.totalSearches || 0,
+        zeroResultSearches: totals?.zeroResultSearches || 0,
+        zeroResults,
+        popular,
+    };
+};
+
+module.exports = {
+    isNewSearch,
+    logSearch,
+    popularSearches,
+    recentSearches,
+    forgetSearches,
+    searchReport,
+};
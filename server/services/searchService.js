@@ -0,0 +1,370 @@
+// server/services/searchService.js
+//
+// Catalogue search. Matching and ranking use the weighted text index on Product (name, then
+// category, then option values such as fabric and colour, then description). MongoDB's text
+// search only matches whole (stemmed) words, so each query word is first checked against the
+// words the catalogue actually uses: partial words are expanded ("kurt" -> "kurta", "kurti") and
+// misspelt ones are corrected to the closest catalogue words ("banarsi" -> "banarasi").
+
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+const { toList, escapeRegExp } = require('../utils/query');
+const { popularSearches } = require('./searchLogService');
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 60;
+const MAX_QUERY_WORDS = 8;
+const MAX_EXPANSIONS = 5;
+const MAX_QUERY_SUGGESTIONS = 6;
+const MAX_CATEGORY_SUGGESTIONS = 3;
+const MAX_PRODUCT_SUGGESTIONS = 5;
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+
+// `value` is what the client sends back as ?price=; `max` is exclusive
+const PRICE_BANDS = [
+    { value: 'under-1000', label: 'Under ₹1,000', min: 0, max: 1000 },
+    { value: '1000-2500', label: '₹1,000 – ₹2,500', min: 1000, max: 2500 },
+    { value: '2500-5000', label: '₹2,500 – ₹5,000', min: 2500, max: 5000 },
+    { value: '5000-10000', label: '₹5,000 – ₹10,000', min: 5000, max: 10000 },
+    { value: 'over-10000', label: 'Over ₹10,000', min: 10000 },
+];
+
+// Fabric and colour are not product fields; they come from the product's options (VariantEditor)
+const OPTION_FACETS = {
+    fabric: /^fabrics?$/i,
+    colour: /^colou?rs?$/i,
+};
+
+const SORTS = {
+    price_asc: { price: 1, _id: 1 },
+    price_desc: { price: -1, _id: 1 },
+    newest: { createdAt: -1, _id: 1 },
+    rating: { averageRating: -1, reviewCount: -1, _id: 1 },
+};
+
+const tokenize = (text) =>
+    String(text || '')
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length >= 2);
+
+/**
+ * Edit distance counting an adjacent swap as one edit ("sakl" -> "silk" is 2, "slik" -> "silk"
+ * is 1). Gives up and returns max + 1 once the distance is known to exceed max.
+ */
+const editDistance = (a, b, max) => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous2 = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], previous2[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return max + 1;
+        previous2 = previous;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Longer words tolerate more typos; short ones would otherwise match half the catalogue
+const allowedTypos = (word) => (word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2);
+
+let vocabulary = null; // Map of word -> how many products use it
+let vocabularyBuiltAt = 0;
+let vocabularyPromise = null;
+
+const buildVocabulary = async () => {
+    const products = await Product.find().select('name category options.values').lean();
+    const words = new Map();
+    for (const product of products) {
+        const productWords = new Set(tokenize([
+            product.name,
+            product.category,
+            ...(product.options || []).flatMap((option) => option.values || []),
+        ].join(' ')));
+        for (const word of productWords) words.set(word, (words.get(word) || 0) + 1);
+    }
+    return words;
+};
+
+/**
+ * The words used in product names, categories and option values, rebuilt every few minutes or
+ * after invalidateSearchVocabulary().
+ */
+const getVocabulary = async () => {
+    if (vocabulary && Date.now() - vocabularyBuiltAt < VOCABULARY_TTL_MS) return vocabulary;
+    if (!vocabularyPromise) {
+        vocabularyPromise = buildVocabulary()
+            .then((words) => {
+                vocabulary = words;
+                vocabularyBuiltAt = Date.now();
+                return words;
+            })
+            .finally(() => {
+                vocabularyPromise = null;
+            });
+    }
+    return vocabularyPromise;
+};
+
+/**
+ * Call after products are created, renamed or deleted so new words are searchable right away.
+ */
+const invalidateSearchVocabulary = () => {
+    vocabularyBuiltAt = 0;
+};
+
+// The most used words first, so "sa" suggests "saree" before a one-off product name
+const mostUsed = (words, vocab) =>
+    words.sort((a, b) => vocab.get(b) - vocab.get(a) || a.localeCompare(b)).slice(0, MAX_EXPANSIONS);
+
+/**
+ * The catalogue words one query word should match: itself if the catalogue uses it, the words it
+ * starts, or failing both the closest spellings.
+ * @returns {{ terms: string[], correctedTo?: string[] }}
+ */
+const expandWord = (word, vocab) => {
+    // The text index stems, so a plural already matches its singular without help
+    if (vocab.has(word) || (word.endsWith('s') && vocab.has(word.slice(0, -1)))) return { terms: [word] };
+
+    const completions = [...vocab.keys()].filter((candidate) => candidate.startsWith(word));
+    if (completions.length > 0) return { terms: [word, ...mostUsed(completions, vocab)] };
+
+    const max = allowedTypos(word);
+    if (max === 0) return { terms: [word] };
+    let best = max + 1;
+    let closest = [];
+    for (const candidate of vocab.keys()) {
+        const distance = editDistance(word, candidate, Math.min(best, max));
+        if (distance < best) {
+            best = distance;
+            closest = [candidate];
+        } else if (distance === best && distance <= max) {
+            closest.push(candidate);
+        }
+    }
+    if (closest.length === 0) return { terms: [word] };
+    const correctedTo = mostUsed(closest, vocab);
+    return { terms: [word, ...correctedTo], correctedTo };
+};
+
+/**
+ * The text index terms for what the shopper typed, and the misspelt words that were corrected.
+ * @returns {Promise<{ words: string[], terms: string[], corrections: Array<{ from, to }> }>}
+ */
+const expandQuery = async (text) => {
+    const words = [...new Set(tokenize(text))].slice(0, MAX_QUERY_WORDS);
+    const terms = new Set();
+    const corrections = [];
+    if (words.length > 0) {
+        const vocab = await getVocabulary();
+        for (const word of words) {
+            const { terms: matches, correctedTo } = expandWord(word, vocab);
+            matches.forEach((term) => terms.add(term));
+            if (correctedTo) corrections.push({ from: word, to: correctedTo[0] });
+        }
+    }
+    return { words, terms: [...terms], corrections };
+};
+
+// The terms are plain words, so quotes or a leading "-" typed by the shopper can't turn into
+// phrase or negation operators
+const textSearch = (terms) => ({ $text: { $search: terms.join(' ') } });
+
+const priceClause = (band) => ({
+    price: band.max === undefined ? { $gte: band.min } : { $gte: band.min, $lt: band.max },
+});
+
+const optionClause = (pattern, values) => ({
+    options: { $elemMatch: { name: pattern, values: { $in: values } } },
+});
+
+// Filters from the query string, keyed by the facet each one belongs to
+const buildFilters = (query) => {
+    const filters = {};
+    const categories = toList(query.category);
+    if (categories.length > 0) filters.category = { category: { $in: categories } };
+
+    const bands = toList(query.price)
+        .map((value) => PRICE_BANDS.find((band) => band.value === value))
+        .filter(Boolean);
+    if (bands.length > 0) filters.price = { $or: bands.map(priceClause) };
+
+    for (const [facet, pattern] of Object.entries(OPTION_FACETS)) {
+        const values = toList(query[facet]);
+        if (values.length > 0) filters[facet] = optionClause(pattern, values);
+    }
+
+    if (query.inStock === 'true' || query.inStock === '1') filters.inStock = { stock: { $gt: 0 } };
+    return filters;
+};
+
+// Every filter except the facet's own, so a facet keeps showing its alternatives once one is picked
+const matchExcept = (filters, facet) => {
+    const clauses = Object.entries(filters)
+        .filter(([key]) => key !== facet)
+        .map(([, clause]) => clause);
+    return { $match: clauses.length > 0 ? { $and: clauses } : {} };
+};
+
+const countBy = (field) => [
+    { $group: { _id: field, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $project: { _id: 0, value: '$_id', count: 1 } },
+];
+
+const optionFacet = (filters, facet) => [
+    matchExcept(filters, facet),
+    { $unwind: '$options' },
+    { $match: { 'options.name': OPTION_FACETS[facet] } },
+    { $unwind: '$options.values' },
+    // A product listing the same value under "Colour" and "Color" still counts once
+    { $group: { _id: { product: '$_id', value: '$options.values' } } },
+    ...countBy('$_id.value'),
+];
+
+/**
+ * Searches the catalogue.
+ * @param {object} query - The request query: q, category, price (PRICE_BANDS values), fabric,
+ *   colour, inStock, sort (relevance | price_asc | price_desc | newest | rating), page, limit.
+ *   List filters may repeat or be comma-separated.
+ * @returns {Promise<object>} { products, total, page, pages, limit, corrections, facets: {
+ *   categories, priceBands, fabrics, colours, inStock } }; facet entries are { value, count }
+ *   (price bands add a label) and `corrections` lists { from, to } for misspelt words.
+ */
+const searchProducts = async (query = {}) => {
+    const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const requestedPage = Math.max(parseInt(query.page, 10) || 1, 1);
+
+    const { terms, corrections } = await expandQuery(query.q);
+    const filters = buildFilters(query);
+    const isTextSearch = terms.length > 0;
+    const sort = SORTS[query.sort] || (isTextSearch
+        ? { score: { $meta: 'textScore' }, reviewCount: -1, _id: 1 }
+        : { featured: -1, createdAt: -1, _id: 1 });
+
+    const textMatch = isTextSearch ? textSearch(terms) : {};
+    const [counts] = await Product.aggregate([
+        { $match: textMatch },
+        {
+            $facet: {
+                total: [matchExcept(filters), { $count: 'count' }],
+                categories: [matchExcept(filters, 'category'), ...countBy('$category')],
+                priceBands: [
+                    matchExcept(filters, 'price'),
+                    {
+                        $bucket: {
+                            groupBy: '$price',
+                            boundaries: [...PRICE_BANDS.map((band) => band.min), Number.MAX_VALUE],
+                            default: 'other',
+                            output: { count: { $sum: 1 } },
+                        },
+                    },
+                ],
+                fabrics: optionFacet(filters, 'fabric'),
+                colours: optionFacet(filters, 'colour'),
+                inStock: [matchExcept(filters, 'inStock'), { $match: { stock: { $gt: 0 } } }, { $count: 'count' }],
+            },
+        },
+    ]);
+
+    const total = counts.total[0]?.count || 0;
+    const pages = Math.max(Math.ceil(total / limit), 1);
+    const page = Math.min(requestedPage, pages);
+    const clauses = Object.values(filters);
+    const products = total === 0 ? [] : await Product.find(
+        clauses.length > 0 ? { ...textMatch, $and: clauses } : textMatch,
+        isTextSearch ? { score: { $meta: 'textScore' } } : undefined
+    )
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean();
+
+    const bandCounts = new Map(counts.priceBands.map((bucket) => [bucket._id, bucket.count]));
+    return {
+        products,
+        total,
+        page,
+        pages,
+        limit,
+        corrections,
+        facets: {
+            categories: counts.categories,
+            priceBands: PRICE_BANDS
+                .map((band) => ({ value: band.value, label: band.label, count: bandCounts.get(band.min) || 0 }))
+                .filter((band) => band.count > 0),
+            fabrics: counts.fabrics,
+            colours: counts.colours,
+            inStock: counts.inStock[0]?.count || 0,
+        },
+    };
+};
+
+// Longer catalogue words starting with `word`, or failing that its closest spellings
+const completeWord = (word, vocab) => {
+    const longer = [...vocab.keys()].filter((candidate) => candidate.startsWith(word) && candidate !== word);
+    if (longer.length > 0) return mostUsed(longer, vocab);
+    return expandWord(word, vocab).correctedTo || [];
+};
+
+/**
+ * Type-ahead suggestions for what the shopper has typed so far: completed queries (popular
+ * searches first, then completions of the last word from the catalogue's own words), categories
+ * whose name matches every word, and the best matching products.
+ * @returns {Promise<object>} { queries: string[], categories: [{ name, slug, count }], products }
+ */
+const suggestSearches = async (text) => {
+    const typed = String(text || '').toLowerCase().replace(/\s+/g, ' ').trimStart().slice(0, 100);
+    const { words, terms } = await expandQuery(typed);
+    if (words.length === 0) return { queries: [], categories: [], products: [] };
+
+    // The last word is still being typed unless it is followed by a space
+    const tokens = tokenize(typed);
+    const last = tokens[tokens.length - 1];
+    const completions = typed.endsWith(last)
+        ? completeWord(last, await getVocabulary()).map((word) => `${typed.slice(0, -last.length)}${word}`)
+        : [];
+
+    const categoryMatch = {
+        $and: words.map((word) => ({ category: new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}`, 'i') })),
+    };
+    const [popular, categories, products] = await Promise.all([
+        popularSearches({ prefix: typed, limit: MAX_QUERY_SUGGESTIONS }),
+        Product.aggregate([
+            { $match: categoryMatch },
+            { $group: { _id: '$categoryId', count: { $sum: 1 } } },
+            { $lookup: { from: Category.collection.name, localField: '_id', foreignField: '_id', as: 'category' } },
+            { $unwind: '$category' },
+            { $match: { 'category.visible': { $ne: false } } },
+            { $sort: { count: -1, 'category.name': 1 } },
+            { $limit: MAX_CATEGORY_SUGGESTIONS },
+            { $project: { _id: 0, name: '$category.name', slug: '$category.slug', count: 1 } },
+        ]),
+        Product.find(textSearch(terms), { score: { $meta: 'textScore' } })
+            .sort({ score: { $meta: 'textScore' }, reviewCount: -1 })
+            .limit(MAX_PRODUCT_SUGGESTIONS)
+            .lean(),
+    ]);
+
+    const queries = [...new Set([...popular.map((row) => row.query), ...completions])]
+        .filter((query) => query !== typed.trim())
+        .slice(0, MAX_QUERY_SUGGESTIONS);
+    return { queries, categories, products };
+};
+
+module.exports = {
+    searchProducts,
+    suggestSearches,
+    invalidateSearchVocabulary,
+};
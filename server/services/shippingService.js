@@ -0,0 +1,182 @@
+// server/services/shippingService.js
+//
+// Routes and services ship through this module instead of calling a carrier API directly.
+// Each adapter in services/carriers implements:
+//   name                                         - stored on Order.shipmentDetails.provider
+//   getRates({ deliveryPincode, parcel, cod })   - [{ provider, courierName, rate, etdDays, cod }]
+//   createShipment(order, parcel)                - books the order with the carrier
+//   assignAwb(order, shipment)                   - { awbCode, courierName, status }
+//   track(order)                                 - { current_status, etd, scans } or null
+//   cancel(order)                                - cancels before pickup, throws when too late
+//   getLabel(order)                              - { url } or { html }
+//   createReturn(order, returnRequest, parcel)   - books a reverse pickup
+
+const Product = require('../models/Product');
+const shiprocketCarrier = require('./carriers/shiprocketCarrier');
+const manualCarrier = require('./carriers/manualCarrier');
+const { DEFAULT_PARCEL } = require('./shiprocketService');
+
+const carriers = {
+    [shiprocketCarrier.name]: shiprocketCarrier,
+    [manualCarrier.name]: manualCarrier,
+};
+
+const defaultProvider = () => process.env.SHIPPING_PROVIDER || shiprocketCarrier.name;
+
+// Courier rates barely move during a session, and checkout re-quotes on every cart change
+const RATE_CACHE_TTL_MS = 10 * 60 * 1000;
+const rateCache = new Map();
+
+const isValidPincode = (pincode) => /^[1-9][0-9]{5}$/.test(String(pincode || '').trim());
+
+/**
+ * Looks up a carrier adapter by name, throwing for unknown names.
+ */
+const getCarrier = (name) => {
+    const carrier = carriers[name];
+    if (!carrier) throw new Error(`Unknown shipping provider "${name}".`);
+    return carrier;
+};
+
+/**
+ * The carrier an order should go out with: our own delivery for local pincodes, otherwise
+ * the configured default.
+ */
+const selectProvider = (order) =>
+    manualCarrier.isLocal(order.address?.pincode) ? manualCarrier.name : defaultProvider();
+
+/**
+ * Works out the parcel for a set of order lines from each product's per-unit weight and
+ * dimensions: weights add up, units are stacked on top of each other, and the footprint is
+ * the largest item's. Products without shipping data count as the default box.
+ * @param {Array} items - [{ id, quantity }] as stored on Order.cartItems.
+ */
+const buildParcel = async (items) => {
+    const ids = [...new Set(items.map((item) => String(item.id)))];
+    const products = await Product.find({ _id: { $in: ids } }).select('weight dimensions').lean();
+    const byId = new Map(products.map((product) => [String(product._id), product]));
+
+    const parcel = { weight: 0, length: 0, breadth: 0, height: 0 };
+    for (const item of items) {
+        const product = byId.get(String(item.id)) || {};
+        const dims = product.dimensions || {};
+        const quantity = Number(item.quantity) || 1;
+        parcel.weight += (product.weight || DEFAULT_PARCEL.weight) * quantity;
+        parcel.length = Math.max(parcel.length, dims.length || DEFAULT_PARCEL.length);
+        parcel.breadth = Math.max(parcel.breadth, dims.breadth || DEFAULT_PARCEL.breadth);
+        parcel.height += (dims.height || DEFAULT_PARCEL.height) * quantity;
+    }
+    parcel.weight = Math.round(parcel.weight * 100) / 100;
+    return parcel;
+};
+
+/**
+ * Delivery options for a cart going to a pincode, cheapest first. Each option carries an `id`
+ * ("provider:courierId") the client sends back to pick it. Returns `{ options, parcel }` (no
+ * options means we cannot deliver there) or `{ error }` when the pincode is invalid or the
+ * carrier could not be reached.
+ * @param {object} params - { deliveryPincode, items: [{ id, quantity }], cod }
+ */
+const quoteShippingRates = async ({ deliveryPincode, items = [], cod = false }) => {
+    const pincode = String(deliveryPincode || '').trim();
+    if (!isValidPincode(pincode)) {
+        return { error: 'Please enter a valid 6-digit pincode.' };
+    }
+
+    const parcel = await buildParcel(items);
+    const key = `${pincode}|${parcel.weight}|${cod ? 1 : 0}`;
+    const cached = rateCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+        return { options: cached.options, parcel };
+    }
+
+    // Local pincodes get our own delivery alongside whatever the default carrier offers
+    const names = [...new Set([manualCarrier.name, defaultProvider()])];
+    let rates;
+    try {
+        const results = await Promise.all(
+            names.map((name) => getCarrier(name).getRates({ deliveryPincode: pincode, parcel, cod }))
+        );
+        rates = results.flat();
+    } catch (error) {
+        console.error(`❌ [Shipping] Rate lookup failed for ${pincode}:`, error.message);
+        return { error: "We couldn't check delivery to this pincode right now. Please try again." };
+    }
+
+    const options = rates
+        .filter((rate) => !cod || rate.cod)
+        .map((rate) => ({ id: `${rate.provider}:${rate.courierId ?? 'default'}`, ...rate }))
+        .sort((a, b) => a.rate - b.rate);
+    rateCache.set(key, { options, expiresAt: Date.now() + RATE_CACHE_TTL_MS });
+    return { options, parcel };
+};
+
+/**
+ * Books the order with its carrier and assigns the AWB, storing the result on
+ * order.shipmentDetails. Uses the delivery option the customer chose at checkout unless
+ * overridden. The caller saves the order, also when this throws, so that a retry can pick up
+ * a booking that was made before the AWB step failed.
+ * @param {object} order - The paid order.
+ * @param {object} [options] - { provider } to override the automatic choice.
+ */
+const dispatchOrder = async (order, { provider } = {}) => {
+    const name = provider || order.shippingMethod?.provider || selectProvider(order);
+    const carrier = getCarrier(name);
+    const parcel = await buildParcel(order.cartItems);
+
+    // A retry after the AWB step failed reuses the booking rather than creating a second one
+    const existing = order.shipmentDetails;
+    let shipment = existing?.provider === name && existing.shipmentId
+        ? { shiprocketOrderId: existing.shiprocketOrderId, shipmentId: existing.shipmentId }
+        : null;
+    if (!shipment) {
+        shipment = await carrier.createShipment(order, parcel);
+        order.shipmentDetails = { provider: name, ...shipment, parcel };
+    }
+    const awb = await carrier.assignAwb(order, shipment);
+    order.shipmentDetails = { provider: name, ...shipment, ...awb, parcel };
+    return order.shipmentDetails;
+};
+
+const carrierFor = (order) => getCarrier(order.shipmentDetails?.provider || shiprocketCarrier.name);
+
+/**
+ * Cancels the order's shipment, if one was booked. Throws when the carrier refuses.
+ */
+const cancelShipment = async (order) => {
+    if (!order.shipmentDetails?.awbCode && !order.shipmentDetails?.shiprocketOrderId) return;
+    await carrierFor(order).cancel(order);
+};
+
+/**
+ * Fetches live tracking from the carrier, or null when the carrier has none to offer.
+ */
+const trackShipment = (order) => carrierFor(order).track(order);
+
+/**
+ * Returns the printable label as { url } or { html }.
+ */
+const getShippingLabel = (order) => carrierFor(order).getLabel(order);
+
+/**
+ * Books the reverse pickup for a return with the carrier that delivered the order.
+ * @returns {Promise<object>} The pickup details to store on ReturnRequest.pickup.
+ */
+const scheduleReturnPickup = async (order, returnRequest) => {
+    const name = order.shipmentDetails?.provider || selectProvider(order);
+    const parcel = await buildParcel(returnRequest.items);
+    const pickup = await getCarrier(name).createReturn(order, returnRequest, parcel);
+    return { provider: name, ...pickup };
+};
+
+module.exports = {
+    getCarrier,
+    selectProvider,
+    buildParcel,
+    quoteShippingRates,
+    dispatchOrder,
+    cancelShipment,
+    trackShipment,
+    getShippingLabel,
+    scheduleReturnPickup,
+};
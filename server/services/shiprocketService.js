@@ -4,7 +4,8 @@ const axios = require('axios');
 let apiToken = null;
 let tokenExpiry = null;
 
-const BASE_URL = 'https://apiv2.shiprocket.in/v1/external';
+// Overridable so local runs can point at dev/fakeShiprocket.js instead of the live API
+const baseUrl = () => process.env.SHIPROCKET_BASE_URL || 'https://apiv2.shiprocket.in/v1/external';
 
 /**
  * Gets a valid API token, refreshing it if it's expired or doesn't exist.
@@ -16,7 +17,7 @@ const getToken = async () => {
 
     try {
         console.log('Fetching new Shiprocket API token...');
-        const response = await axios.post(`${BASE_URL}/auth/login`, {
+        const response = await axios.post(`${baseUrl()}/auth/login`, {
             email: process.env.SHIPROCKET_API_EMAIL,
             password: process.env.SHIPROCKET_API_PASSWORD,
         });
@@ -34,11 +35,15 @@ const getToken = async () => {
     }
 };
 
+// The box we used for every order before products carried their own weight and dimensions
+const DEFAULT_PARCEL = { weight: 0.5, length: 10, breadth: 10, height: 10 };
+
 /**
  * Creates an "Adhoc" (quick) order in Shiprocket.
  * @param {object} order - The order object from your database.
+ * @param {object} [parcel] - { weight (kg), length, breadth, height (cm) } from shippingService.buildParcel.
  */
-const createShiprocketOrder = async (order) => {
+const createShiprocketOrder = async (order, parcel = DEFAULT_PARCEL) => {
     try {
         const token = await getToken();
         const config = { headers: { 'Authorization': `Bearer ${token}` } };
@@ -59,20 +64,20 @@ const createShiprocketOrder = async (order) => {
             billing_phone: order.address.phone, // Ensure 'phone' is in your address object
             shipping_is_billing: true,
             order_items: order.cartItems.map(item => ({
-                name: item.name,
-                sku: item.id || `SKU-${item._id}`,
+                name: item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name,
+                sku: item.sku || item.id || `SKU-${item._id}`,
                 units: item.quantity,
                 selling_price: item.price,
             })),
-            payment_method: "Prepaid",
-            sub_total: order.totalAmount,
-            length: 10,
-            breadth: 10,
-            height: 10,
-            weight: 0.5, // Weight in Kg
+            payment_method: order.paymentMethod === "cod" ? "COD" : "Prepaid",
+            sub_total: order.totalAmount, // already net of any coupon discount; what the courier collects on COD
+            length: parcel.length,
+            breadth: parcel.breadth,
+            height: parcel.height,
+            weight: parcel.weight, // Weight in Kg
         };
 
-        const response = await axios.post(`${BASE_URL}/orders/create/adhoc`, orderData, config);
+        const response = await axios.post(`${baseUrl()}/orders/create/adhoc`, orderData, config);
         return response.data;
 
     } catch (error) {
@@ -82,17 +87,80 @@ const createShiprocketOrder = async (order) => {
     }
 };
 
+/**
+ * Creates a return (reverse pickup) order: the courier collects the items from the
+ * customer's delivery address and brings them back to our warehouse.
+ * @param {object} order - The original order from your database.
+ * @param {object} returnRequest - The approved ReturnRequest.
+ * @param {object} [parcel] - { weight (kg), length, breadth, height (cm) } of the returned items.
+ */
+const createReturnOrder = async (order, returnRequest, parcel = DEFAULT_PARCEL) => {
+    try {
+        const token = await getToken();
+        const config = { headers: { 'Authorization': `Bearer ${token}` } };
+
+        const subTotal = returnRequest.items.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0);
+        const returnData = {
+            order_id: `RET-${returnRequest._id.toString()}`,
+            order_date: new Date().toISOString().slice(0, 10),
+            pickup_customer_name: order.address.name,
+            pickup_last_name: "",
+            pickup_address: `${order.address.houseNumber}, ${order.address.street}`,
+            pickup_address_2: order.address.landmark || "",
+            pickup_city: order.address.city,
+            pickup_state: order.address.state,
+            pickup_country: "India",
+            pickup_pincode: order.address.pincode,
+            pickup_email: order.email,
+            pickup_phone: order.address.phone,
+            shipping_customer_name: process.env.SHIPROCKET_RETURN_NAME,
+            shipping_address: process.env.SHIPROCKET_RETURN_ADDRESS,
+            shipping_city: process.env.SHIPROCKET_RETURN_CITY,
+            shipping_state: process.env.SHIPROCKET_RETURN_STATE,
+            shipping_country: "India",
+            shipping_pincode: process.env.SHIPROCKET_RETURN_PINCODE,
+            shipping_phone: process.env.SHIPROCKET_RETURN_PHONE,
+            order_items: returnRequest.items.map(item => ({
+                name: item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name,
+                sku: item.sku || item.id,
+                units: item.quantity,
+                selling_price: item.price,
+            })),
+            payment_method: "PREPAID",
+            sub_total: subTotal,
+            length: parcel.length,
+            breadth: parcel.breadth,
+            height: parcel.height,
+            weight: parcel.weight, // Weight in Kg
+        };
+
+        const response = await axios.post(`${baseUrl()}/orders/create/return`, returnData, config);
+        return response.data;
+
+    } catch (error) {
+        const errorMessage = error.response ? JSON.stringify(error.response.data) : error.message;
+        console.error('Error creating Shiprocket return order:', errorMessage);
+        throw new Error('Failed to create return pickup in Shiprocket.');
+    }
+};
+
 /**
  * Assigns a courier and generates an AWB for a given shipment.
  * @param {string} shipmentId - The shipment_id from the order creation response.
+ * @param {object} [options] - { isReturn: true } for reverse pickups, { courierId } to pick the
+ *   courier instead of letting Shiprocket choose.
  */
-const assignCourierAndGetAwb = async (shipmentId) => {
+const assignCourierAndGetAwb = async (shipmentId, { isReturn = false, courierId } = {}) => {
     try {
         const token = await getToken();
         const config = { headers: { 'Authorization': `Bearer ${token}` } };
-        const data = { shipment_id: shipmentId };
+        const data = {
+            shipment_id: shipmentId,
+            ...(courierId && { courier_id: courierId }),
+            ...(isReturn && { is_return: 1 }),
+        };
 
-        const response = await axios.post(`${BASE_URL}/courier/assign/awb`, data, config);
+        const response = await axios.post(`${baseUrl()}/courier/assign/awb`, data, config);
         return response.data;
 
     } catch (error) {
@@ -102,6 +170,74 @@ const assignCourierAndGetAwb = async (shipmentId) => {
     }
 };
 
+/**
+ * Cancels a Shiprocket order. Only works until the courier has picked the parcel up.
+ * @param {number} shiprocketOrderId - The order_id returned when the order was created.
+ */
+const cancelShiprocketOrder = async (shiprocketOrderId) => {
+    try {
+        const token = await getToken();
+        const config = { headers: { 'Authorization': `Bearer ${token}` } };
+
+        const response = await axios.post(`${baseUrl()}/orders/cancel`, { ids: [shiprocketOrderId] }, config);
+        return response.data;
+
+    } catch (error) {
+        const errorMessage = error.response ? JSON.stringify(error.response.data) : error.message;
+        console.error(`Error cancelling Shiprocket order ${shiprocketOrderId}:`, errorMessage);
+        throw new Error('Failed to cancel order in Shiprocket.');
+    }
+};
+
+/**
+ * Lists the couriers that can carry a parcel between two pincodes, with their rates.
+ * @param {object} query - { pickupPincode, deliveryPincode, weight (kg), cod (boolean) }
+ */
+const getCourierServiceability = async ({ pickupPincode, deliveryPincode, weight, cod = false }) => {
+    try {
+        const token = await getToken();
+        const config = {
+            headers: { 'Authorization': `Bearer ${token}` },
+            params: {
+                pickup_postcode: pickupPincode,
+                delivery_postcode: deliveryPincode,
+                weight,
+                cod: cod ? 1 : 0,
+            },
+        };
+
+        const response = await axios.get(`${baseUrl()}/courier/serviceability/`, config);
+        return response.data?.data?.available_courier_companies || [];
+
+    } catch (error) {
+        // Shiprocket answers 404 when no courier serves the pincode
+        if (error.response?.status === 404) return [];
+        const errorMessage = error.response ? JSON.stringify(error.response.data) : error.message;
+        console.error(`Error checking serviceability for ${deliveryPincode}:`, errorMessage);
+        throw new Error('Failed to fetch courier rates from Shiprocket.');
+    }
+};
+
+/**
+ * Generates the printable shipping label for a shipment.
+ * @param {number} shipmentId - The shipment_id from the order creation response.
+ * @returns {Promise<string>} The label PDF URL.
+ */
+const generateLabel = async (shipmentId) => {
+    try {
+        const token = await getToken();
+        const config = { headers: { 'Authorization': `Bearer ${token}` } };
+
+        const response = await axios.post(`${baseUrl()}/courier/generate/label`, { shipment_id: [shipmentId] }, config);
+        return response.data.label_url;
+
+    } catch (error) {
+        const errorMessage = error.response ? JSON.stringify(error.response.data) : error.message;
+        console.error(`Error generating label for shipment ${shipmentId}:`, errorMessage);
+        throw new Error('Failed to generate shipping label in Shiprocket.');
+    }
+};
+
 /**
  * Tracks a shipment using its Airway Bill (AWB) number.
  */
@@ -110,7 +246,7 @@ const trackShipmentByAwb = async (awbCode) => {
         const token = await getToken();
         const config = { headers: { 'Authorization': `Bearer ${token}` } };
 
-        const response = await axios.get(`${BASE_URL}/courier/track/awb/${awbCode}`, config);
+        const response = await axios.get(`${baseUrl()}/courier/track/awb/${awbCode}`, config);
         return response.data;
 
     } catch (error) {
@@ -122,6 +258,11 @@ const trackShipmentByAwb = async (awbCode) => {
 
 module.exports = {
     createShiprocketOrder,
+    createReturnOrder,
     assignCourierAndGetAwb,
+    cancelShiprocketOrder,
+    getCourierServiceability,
+    generateLabel,
     trackShipmentByAwb,
+    DEFAULT_PARCEL,
 };
\ No newline at end of file
@@ -0,0 +1,126 @@
+// server/services/trackingService.js
+
+const crypto = require('crypto');
+
+// Courier statuses (Shiprocket's current_status labels) that move our order along.
+// Anything else (AWB ASSIGNED, PICKUP SCHEDULED, RTO ..., CANCELED) is stored but changes nothing.
+const COURIER_STATUS_MAP = {
+    'PICKED UP': 'Shipped',
+    'SHIPPED': 'Shipped',
+    'IN TRANSIT': 'Shipped',
+    'REACHED AT DESTINATION HUB': 'Shipped',
+    'OUT FOR DELIVERY': 'Shipped',
+    'UNDELIVERED': 'Shipped',
+    'DELAYED': 'Shipped',
+    'MISROUTED': 'Shipped',
+    'DELIVERED': 'Delivered',
+};
+
+// Webhooks can arrive late or out of order, so an order only ever moves forward along this path
+const FORWARD_PATH = ['Placed', 'Processing', 'Shipped', 'Delivered'];
+
+/**
+ * Compares the x-api-key header Shiprocket sends with the token configured in its panel.
+ */
+const isValidWebhookToken = (token) => {
+    const expected = process.env.SHIPROCKET_WEBHOOK_TOKEN;
+    if (!expected || typeof token !== 'string') return false;
+    const a = Buffer.from(token);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Maps a courier status label to our Order.status, or null when it should not change it.
+ */
+const mapCourierStatus = (currentStatus) =>
+    COURIER_STATUS_MAP[String(currentStatus || '').trim().toUpperCase()] || null;
+
+/**
+ * Shiprocket sends local (IST) times like "2023-05-19 11:59:16".
+ */
+const parseShiprocketDate = (value) => {
+    if (!value) return undefined;
+    const date = new Date(`${String(value).replace(' ', 'T')}+05:30`);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const toScan = (scan) => ({
+    date: parseShiprocketDate(scan.date),
+    activity: scan.activity,
+    location: scan.location,
+    status: scan['sr-status-label'] || scan.status,
+});
+
+/**
+ * Stores a tracking update on the order and advances Order.status when the courier status
+ * calls for it, marking cash-on-delivery orders paid once delivered. The caller saves the order.
+ * @param {object} order - The order document.
+ * @param {object} update - { current_status, etd, scans } as sent by the webhook, or
+ *   { current_status, activity, location } for a single hand-recorded scan.
+ * @returns {boolean} True when Order.status changed.
+ */
+const applyTrackingUpdate = (order, update) => {
+    const currentStatus = update.current_status;
+
+    order.tracking = order.tracking || {};
+    order.tracking.currentStatus = currentStatus;
+    order.tracking.etd = parseShiprocketDate(update.etd) || order.tracking.etd;
+    order.tracking.updatedAt = new Date();
+    if (Array.isArray(update.scans) && update.scans.length > 0) {
+        // Every webhook carries the full scan history, so replace rather than append
+        order.tracking.scans = update.scans.map(toScan);
+    } else if (currentStatus) {
+        order.tracking.scans.push({
+            date: new Date(),
+            activity: update.activity || currentStatus,
+            location: update.location,
+            status: currentStatus,
+        });
+    }
+    if (order.shipmentDetails && currentStatus) {
+        order.shipmentDetails.status = currentStatus;
+    }
+
+    const nextStatus = mapCourierStatus(currentStatus);
+    const from = FORWARD_PATH.indexOf(order.status);
+    const to = FORWARD_PATH.indexOf(nextStatus);
+    if (from === -1 || to <= from) return false;
+
+    order.status = nextStatus;
+    // The courier collected the cash on delivery
+    if (nextStatus === 'Delivered' && order.paymentMethod === 'cod' && order.paymentStatus === 'pending') {
+        order.paymentStatus = 'paid';
+    }
+    return true;
+};
+
+/**
+ * Converts a live /courier/track/awb response into the webhook's shape so both paths
+ * share applyTrackingUpdate.
+ */
+const fromLiveTracking = (trackingData = {}) => ({
+    current_status: trackingData.shipment_track?.[0]?.current_status,
+    etd: trackingData.etd,
+    scans: trackingData.shipment_track_activities || [],
+});
+
+/**
+ * The cached tracking in the shape TrackingOrders.tsx reads.
+ */
+const toTrackingResponse = (order) => ({
+    tracking_data: {
+        current_status: order.tracking?.currentStatus,
+        etd: order.tracking?.etd,
+        updated_at: order.tracking?.updatedAt,
+        scans: order.tracking?.scans || [],
+    },
+});
+
+module.exports = {
+    isValidWebhookToken,
+    mapCourierStatus,
+    applyTrackingUpdate,
+    fromLiveTracking,
+    toTrackingResponse,
+};
@@ -0,0 +1,60 @@
+// server/utils/gstStates.js
+
+// GST state codes, as printed in the first two digits of a GSTIN
+const GST_STATES = {
+    '01': 'Jammu and Kashmir',
+    '02': 'Himachal Pradesh',
+    '03': 'Punjab',
+    '04': 'Chandigarh',
+    '05': 'Uttarakhand',
+    '06': 'Haryana',
+    '07': 'Delhi',
+    '08': 'Rajasthan',
+    '09': 'Uttar Pradesh',
+    '10': 'Bihar',
+    '11': 'Sikkim',
+    '12': 'Arunachal Pradesh',
+    '13': 'Nagaland',
+    '14': 'Manipur',
+    '15': 'Mizoram',
+    '16': 'Tripura',
+    '17': 'Meghalaya',
+    '18': 'Assam',
+    '19': 'West Bengal',
+    '20': 'Jharkhand',
+    '21': 'Odisha',
+    '22': 'Chhattisgarh',
+    '23': 'Madhya Pradesh',
+    '24': 'Gujarat',
+    '26': 'Dadra and Nagar Haveli and Daman and Diu',
+    '27': 'Maharashtra',
+    '29': 'Karnataka',
+    '30': 'Goa',
+    '31': 'Lakshadweep',
+    '32': 'Kerala',
+    '33': 'Tamil Nadu',
+    '34': 'Puducherry',
+    '35': 'Andaman and Nicobar Islands',
+    '36': 'Telangana',
+    '37': 'Andhra Pradesh',
+    '38': 'Ladakh',
+};
+
+const normalise = (name) => String(name || '').toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+const CODES_BY_NAME = new Map(Object.entries(GST_STATES).map(([code, name]) => [normalise(name), code]));
+// Spellings that turn up in saved and geocoded addresses
+CODES_BY_NAME.set('orissa', '21');
+CODES_BY_NAME.set('pondicherry', '34');
+CODES_BY_NAME.set('newdelhi', '07');
+CODES_BY_NAME.set('nctofdelhi', '07');
+
+/**
+ * The GST state code for a state name, or undefined when it is not recognised.
+ */
+const gstStateCode = (name) => CODES_BY_NAME.get(normalise(name));
+
+module.exports = {
+    GST_STATES,
+    gstStateCode,
+};
@@ -0,0 +1,11 @@
+// server/utils/html.js
+
+/**
+ * Escapes a value for use in HTML we build by hand (labels, emails).
+ */
+const escapeHtml = (value) =>
+    String(value ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+
+module.exports = {
+    escapeHtml,
+};
@@ -0,0 +1,18 @@
+// server/utils/query.js
+
+/**
+ * A list filter from the query string, given either as a repeated parameter
+ * (?colour=Red&colour=Blue) or comma-separated (?colour=Red,Blue). Blanks are dropped.
+ */
+const toList = (value) =>
+    (Array.isArray(value) ? value : [value])
+        .flatMap((item) => (typeof item === 'string' ? item.split(',') : []))
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+module.exports = {
+    toList,
+    escapeRegExp,
+};
@@ -1,18 +0,0 @@
-const nodemailer = require("nodemailer");
-
-async function sendOtpEmail(to, otp) {
-  const transporter = nodemailer.createTransport({
-    service: "gmail",
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS,
-    },
-  });
-
-  await transporter.sendMail({
-    from: `"Hansitha Creations" <${process.env.EMAIL_USER}>`,
-    to,
-    subject: "Your OTP Code",
-    html: `<p>Your OTP is <strong>${otp}</strong>. It expires in 10 minutes.</p>`,
-  });
-}
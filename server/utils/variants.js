@@ -0,0 +1,88 @@
+// server/utils/variants.js
+
+/**
+ * Cleans up the option axes and SKU rows sent by the admin product forms.
+ * Returns `{ options, variants }` on success or `{ error }` describing the first problem found.
+ * @param {Array} rawOptions - [{ name, values: [String] }]
+ * @param {Array} rawVariants - [{ _id?, sku, attributes: { [optionName]: value }, price, stock, images }]
+ */
+const normalizeVariants = (rawOptions = [], rawVariants = []) => {
+    const options = (Array.isArray(rawOptions) ? rawOptions : [])
+        .map((opt) => ({
+            name: String(opt?.name || '').trim(),
+            values: [...new Set((opt?.values || []).map((v) => String(v).trim()).filter(Boolean))],
+        }))
+        .filter((opt) => opt.name && opt.values.length > 0);
+
+    const variants = [];
+    const seenSkus = new Set();
+    const seenCombos = new Set();
+
+    for (const raw of Array.isArray(rawVariants) ? rawVariants : []) {
+        const sku = String(raw?.sku || '').trim();
+        const price = Number(raw?.price);
+        const stock = Number(raw?.stock);
+
+        if (!sku) return { error: 'Every variant needs a SKU' };
+        if (seenSkus.has(sku)) return { error: `Duplicate SKU "${sku}"` };
+        if (!Number.isFinite(price) || price < 0) return { error: `Invalid price for SKU "${sku}"` };
+        if (!Number.isInteger(stock) || stock < 0) return { error: `Invalid stock for SKU "${sku}"` };
+
+        const rawAttributes = raw?.attributes instanceof Map
+            ? Object.fromEntries(raw.attributes)
+            : raw?.attributes || {};
+        const attributes = {};
+        for (const opt of options) {
+            const value = rawAttributes[opt.name];
+            if (!value || !opt.values.includes(value)) {
+                return { error: `SKU "${sku}" is missing a valid ${opt.name}` };
+            }
+            attributes[opt.name] = value;
+        }
+
+        const combo = options.map((opt) => attributes[opt.name]).join('|');
+        if (seenCombos.has(combo)) return { error: `More than one SKU for ${variantLabel({ attributes })}` };
+
+        seenSkus.add(sku);
+        seenCombos.add(combo);
+        variants.push({
+            ...(raw._id ? { _id: raw._id } : {}),
+            sku,
+            attributes,
+            price,
+            stock,
+            images: (raw.images || []).filter(Boolean),
+        });
+    }
+
+    if (variants.length > 0 && options.length === 0) {
+        return { error: 'Variants require at least one option (e.g. Size)' };
+    }
+
+    return { options, variants };
+};
+
+/**
+ * Finds a variant on a product document (or lean object) by its id.
+ */
+const findVariant = (product, variantId) => {
+    if (!product || !variantId) return null;
+    return (product.variants || []).find((v) => v._id.toString() === variantId.toString()) || null;
+};
+
+/**
+ * Human readable label such as "M / Red" for a variant.
+ */
+const variantLabel = (variant) => {
+    if (!variant?.attributes) return '';
+    const attrs = variant.attributes instanceof Map
+        ? Object.fromEntries(variant.attributes)
+        : variant.attributes;
+    return Object.values(attrs).join(' / ');
+};
+
+module.exports = {
+    normalizeVariants,
+    findVariant,
+    variantLabel,
+};